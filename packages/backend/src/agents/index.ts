@@ -1,3 +0,0 @@
-export { Agent, type AgentOptions, type AgentEvent, type AgentEventHandler, type AgentState } from './agent.js';
-export { ToolRegistry } from '../tools/registry.js';
-export type { Tool, ToolDefinition, ToolResult, ToolCall, ToolParameter } from '../tools/types.js';
@@ -1,5 +1,8 @@
 import { z } from 'zod';
-import { ProviderType } from '../providers/types.js';
+import type { ProviderType } from '@pixelmate/shared';
+import type { DangerLevel } from '@pixelmate/core';
+import { parseApiKeys, type ApiKey } from '../security/auth.js';
+import { DEFAULT_DENYLIST, type SandboxOptions } from '../tools/filesystem/sandbox.js';
 
 const envSchema = z.object({
   PORT: z.string().optional().default('3001'),
@@ -18,10 +21,33 @@ const envSchema = z.object({
   
   // Working directory for file operations
   WORKING_DIR: z.string().optional().default('./workspace'),
+  // Comma-separated paths under WORKING_DIR that the tools can read but not change
+  SANDBOX_READ_ONLY: z.string().optional(),
+  // Comma-separated names to protect on top of the built-in denylist, e.g. 'secrets,*.sqlite'
+  SANDBOX_DENYLIST: z.string().optional(),
+  // Largest file in bytes the tools can read or write
+  MAX_FILE_SIZE: z.string().optional().default('52428800'),
   
   // Agent settings
   MAX_TURNS: z.string().optional().default('50'),
   TOOL_TIMEOUT: z.string().optional().default('30000'),
+
+  // How long a confirmation waits for an answer before it is denied; 0 waits until the task ends
+  CONFIRMATION_TIMEOUT: z.string().optional().default('60000'),
+  // Per danger level, overriding CONFIRMATION_TIMEOUT
+  CONFIRMATION_TIMEOUT_LOW: z.string().optional(),
+  CONFIRMATION_TIMEOUT_MEDIUM: z.string().optional(),
+  CONFIRMATION_TIMEOUT_HIGH: z.string().optional(),
+  CONFIRMATION_TIMEOUT_CRITICAL: z.string().optional(),
+  // How long a task started over /ws waits for its client to reconnect and attach again before it is cancelled
+  TASK_RECONNECT_GRACE: z.string().optional().default('60000'),
+  
+  // Scoped API keys as `token:scope+scope,...`; without them a local secret with every scope is generated
+  API_KEYS: z.string().optional(),
+  // Where the generated local secret is kept; keep it outside WORKING_DIR
+  AUTH_TOKEN_FILE: z.string().optional().default('./.pixelmate-token'),
+  // Comma-separated origins browsers may call the API from
+  ALLOWED_ORIGINS: z.string().optional().default('http://localhost:3000,http://localhost:5173'),
   
   // Browser settings
   BROWSER_HEADLESS: z.string().optional().default('true'),
@@ -90,6 +116,15 @@ class Config {
     return this.config.WORKING_DIR;
   }
 
+  getSandboxOptions(): SandboxOptions {
+    const list = (value?: string) => (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+    return {
+      readOnly: list(this.config.SANDBOX_READ_ONLY),
+      denylist: [...DEFAULT_DENYLIST, ...list(this.config.SANDBOX_DENYLIST)],
+      maxFileSize: parseInt(this.config.MAX_FILE_SIZE, 10)
+    };
+  }
+
   getMaxTurns(): number {
     return parseInt(this.config.MAX_TURNS, 10);
   }
@@ -98,6 +133,33 @@ class Config {
     return parseInt(this.config.TOOL_TIMEOUT, 10);
   }
 
+  getConfirmationTimeouts(): Record<DangerLevel, number> {
+    const timeout = (value?: string) => parseInt(value ?? this.config.CONFIRMATION_TIMEOUT, 10);
+    return {
+      none: timeout(),
+      low: timeout(this.config.CONFIRMATION_TIMEOUT_LOW),
+      medium: timeout(this.config.CONFIRMATION_TIMEOUT_MEDIUM),
+      high: timeout(this.config.CONFIRMATION_TIMEOUT_HIGH),
+      critical: timeout(this.config.CONFIRMATION_TIMEOUT_CRITICAL)
+    };
+  }
+
+  getReconnectGrace(): number {
+    return parseInt(this.config.TASK_RECONNECT_GRACE, 10);
+  }
+
+  getApiKeys(): ApiKey[] {
+    return parseApiKeys(this.config.API_KEYS ?? '');
+  }
+
+  getAuthTokenFile(): string {
+    return this.config.AUTH_TOKEN_FILE;
+  }
+
+  getAllowedOrigins(): string[] {
+    return this.config.ALLOWED_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean);
+  }
+
   isDevelopment(): boolean {
     return this.config.NODE_ENV === 'development';
   }
@@ -0,0 +1,95 @@
+import {
+  HybridFileSystem,
+  ReadFileTool,
+  WriteFileTool,
+  ListDirectoryTool,
+  CreateDirectoryTool,
+  DeleteFileTool,
+  MoveFileTool,
+  CopyFileTool,
+  EditFileTool,
+  ApplyPatchTool,
+  GlobTool,
+  SearchFilesTool,
+  JournaledFileSystem,
+  journalWrites,
+  type AgentEnvironment
+} from '@pixelmate/core';
+import { NodeFileSystem, type PathSandbox } from './tools/filesystem/index.js';
+import { NavigateTool, ClickTool, FillTool, TypeTool, SelectTool, GetTextTool, GetHtmlTool, ScreenshotTool, SnapshotTool, ScrollTool, WaitForSelectorTool, ClosePageTool } from './tools/browser/index.js';
+import { CreateSpreadsheetTool, ReadSpreadsheetTool, CreateCsvTool, ReadCsvTool } from './tools/spreadsheet/index.js';
+import { CreateDocumentTool, ConvertToDocumentTool } from './tools/document/index.js';
+import { CreatePresentationTool, CreateSlidesFromOutlineTool } from './tools/presentation/index.js';
+import { WebSearchTool, FetchWebPageTool, SummarizeWebSearchTool } from './tools/web/index.js';
+
+export interface NodeEnvironment extends AgentEnvironment {
+  // Each task's file changes, for undo
+  journal: JournaledFileSystem;
+}
+
+/**
+ * The Node runtime for the core agent: files on the local disk under the
+ * sandbox's working directory, Playwright for browsing, and real
+ * docx/xlsx/pptx output. The working directory is mounted at '/', so the core
+ * file tools and the Office tools see the same paths, go through the same
+ * sandbox, and are journaled per task.
+ */
+export function createNodeEnvironment(sandbox: PathSandbox): NodeEnvironment {
+  const fileSystem = new HybridFileSystem({ '/': new NodeFileSystem(sandbox) });
+  const journal = new JournaledFileSystem(fileSystem);
+
+  return {
+    name: 'node',
+    journal,
+    createTools: () => [
+      // File system tools
+      new ReadFileTool(journal),
+      new WriteFileTool(journal),
+      new ListDirectoryTool(journal),
+      new CreateDirectoryTool(journal),
+      new DeleteFileTool(journal),
+      new MoveFileTool(journal),
+      new CopyFileTool(journal),
+      new EditFileTool(journal),
+      new ApplyPatchTool(journal),
+      new GlobTool(journal),
+      new SearchFilesTool(journal),
+
+      // Browser tools
+      new NavigateTool(),
+      new ClickTool(),
+      new FillTool(),
+      new TypeTool(),
+      new SelectTool(),
+      new GetTextTool(),
+      new GetHtmlTool(),
+      new ScreenshotTool(),
+      new SnapshotTool(),
+      new ScrollTool(),
+      new WaitForSelectorTool(),
+      new ClosePageTool(),
+
+      // Spreadsheet tools
+      journalWrites(new CreateSpreadsheetTool(sandbox), journal, ['path']),
+      new ReadSpreadsheetTool(sandbox),
+      journalWrites(new CreateCsvTool(sandbox), journal, ['path']),
+      new ReadCsvTool(sandbox),
+
+      // Document tools
+      journalWrites(new CreateDocumentTool(sandbox), journal, ['path']),
+      journalWrites(new ConvertToDocumentTool(sandbox), journal, ['path']),
+
+      // Presentation tools
+      journalWrites(new CreatePresentationTool(sandbox), journal, ['path']),
+      journalWrites(new CreateSlidesFromOutlineTool(sandbox), journal, ['path']),
+
+      // Web tools
+      new WebSearchTool(),
+      new FetchWebPageTool(),
+      new SummarizeWebSearchTool()
+    ],
+    workspace: () => ({ filesystem: fileSystem.describe(), workingDirectory: '/' }),
+    // The formatters read and save files through the same journaled sandbox
+    fileSystem: journal
+  };
+}
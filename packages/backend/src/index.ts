@@ -1,24 +1,29 @@
 import express from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
-import { createServer } from 'http';
+import { createServer, type IncomingMessage } from 'http';
 import { v4 as uuidv4 } from 'uuid';
-import { LLMClient } from './providers/index.js';
-import { Agent, ToolRegistry } from './agents/index.js';
+import { Agent, AgentCancelledError, createToolRegistry, previewFileChange, parsePolicyRules, grantMatch, GRANT_SCOPES, exportArchive, importArchive, MAX_IMPORT_BYTES, UndoConflictError, type AgentOptions, type GrantScope, type ToolInvocationLog } from '@pixelmate/core';
+import type { Message, ProviderType } from '@pixelmate/shared';
+import { createProvider, getDefaultModel } from './providers/index.js';
+import { createNodeEnvironment } from './environment.js';
 import { config } from './config/index.js';
-import { ReadFileTool, WriteFileTool, ListDirectoryTool, CreateDirectoryTool, DeleteFileTool, MoveFileTool, CopyFileTool, GlobTool } from './tools/filesystem/index.js';
-import { NavigateTool, ClickTool, FillTool, TypeTool, SelectTool, GetTextTool, GetHtmlTool, ScreenshotTool, SnapshotTool, ScrollTool, WaitForSelectorTool, ClosePageTool } from './tools/browser/index.js';
-import { CreateSpreadsheetTool, ReadSpreadsheetTool, CreateCsvTool, ReadCsvTool } from './tools/spreadsheet/index.js';
-import { CreateDocumentTool, ConvertToDocumentTool } from './tools/document/index.js';
-import { CreatePresentationTool, CreateSlidesFromOutlineTool } from './tools/presentation/index.js';
-import { WebSearchTool, FetchWebPageTool, SummarizeWebSearchTool } from './tools/web/index.js';
-import { FormatAsJsonTool, FormatAsMarkdownTool, ParseJsonTool, ConvertBetweenFormatsTool } from './tools/formatters/index.js';
+import { NodeFileSystem, PathSandbox } from './tools/filesystem/index.js';
 import { SkillLoader } from './skills/index.js';
 import { MemoryDB } from './memory/index.js';
-import { requiresConfirmation, getDangerLevel, confirmationQueue, getSecurityWarning } from './security/index.js';
+import { ApiAuth, API_SCOPES, authenticateRequests, ConfirmationQueue, createConfirmationGrants, isAllowedOrigin, loadLocalSecret, loadSecurityPolicy, originGuard, requireScope, SECURITY_RULES_PREFERENCE, type ApiIdentity, type ApiScope } from './security/index.js';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3001', 10);
 
+// Configured API keys, or else the local secret, which may do everything
+const apiKeys = config.getApiKeys();
+const authTokenFile = config.getAuthTokenFile();
+const auth = new ApiAuth(apiKeys.length > 0 ? apiKeys : [{ token: loadLocalSecret(authTokenFile), scopes: API_SCOPES }]);
+const allowedOrigins = config.getAllowedOrigins();
+
+// Browsers only from the allowed origins, and every caller with a token
+app.use(originGuard(allowedOrigins));
+app.use(authenticateRequests(auth));
 app.use(express.json());
 
 // Health check
@@ -26,69 +31,11 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// CORS for development
-app.use((req, res, next) => {
-  res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
-  if (req.method === 'OPTIONS') {
-    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH');
-    return res.status(200).json({});
-  }
-  next();
-});
-
-// Initialize tools
+// Initialize tools: the core agent runs against the local disk, Playwright and Office file tools
 const workingDir = config.getWorkingDir();
-const toolRegistry = new ToolRegistry();
-
-// File system tools
-toolRegistry.register(new ReadFileTool(workingDir));
-toolRegistry.register(new WriteFileTool(workingDir));
-toolRegistry.register(new ListDirectoryTool(workingDir));
-toolRegistry.register(new CreateDirectoryTool(workingDir));
-toolRegistry.register(new DeleteFileTool(workingDir));
-toolRegistry.register(new MoveFileTool(workingDir));
-toolRegistry.register(new CopyFileTool(workingDir));
-toolRegistry.register(new GlobTool(workingDir));
-
-// Browser tools
-toolRegistry.register(new NavigateTool());
-toolRegistry.register(new ClickTool());
-toolRegistry.register(new FillTool());
-toolRegistry.register(new TypeTool());
-toolRegistry.register(new SelectTool());
-toolRegistry.register(new GetTextTool());
-toolRegistry.register(new GetHtmlTool());
-toolRegistry.register(new ScreenshotTool());
-toolRegistry.register(new SnapshotTool());
-toolRegistry.register(new ScrollTool());
-toolRegistry.register(new WaitForSelectorTool());
-toolRegistry.register(new ClosePageTool());
-
-// Spreadsheet tools
-toolRegistry.register(new CreateSpreadsheetTool(workingDir));
-toolRegistry.register(new ReadSpreadsheetTool(workingDir));
-toolRegistry.register(new CreateCsvTool(workingDir));
-toolRegistry.register(new ReadCsvTool(workingDir));
-
-// Document tools
-toolRegistry.register(new CreateDocumentTool(workingDir));
-toolRegistry.register(new ConvertToDocumentTool(workingDir));
-
-// Presentation tools
-toolRegistry.register(new CreatePresentationTool(workingDir));
-toolRegistry.register(new CreateSlidesFromOutlineTool(workingDir));
-
-// Web tools
-toolRegistry.register(new WebSearchTool());
-toolRegistry.register(new FetchWebPageTool());
-toolRegistry.register(new SummarizeWebSearchTool());
-
-// Formatter tools
-toolRegistry.register(new FormatAsJsonTool(workingDir));
-toolRegistry.register(new FormatAsMarkdownTool(workingDir));
-toolRegistry.register(new ParseJsonTool(workingDir));
-toolRegistry.register(new ConvertBetweenFormatsTool(workingDir));
+const sandbox = new PathSandbox(workingDir, config.getSandboxOptions());
+const environment = createNodeEnvironment(sandbox);
+const toolRegistry = createToolRegistry(environment, { defaultTimeoutMs: config.getToolTimeout() });
 
 // Initialize skills
 const skillsDir = './src/skills/builtin';
@@ -100,49 +47,106 @@ console.log(`Loaded ${skillLoader.list().length} skills`);
 const memoryDb = new MemoryDB('./pixelmate.db');
 console.log('Memory database initialized');
 
+// Confirmations go to the clients subscribed to their task and are recorded in the database;
+// a task whose client disconnected is cancelled unless it attaches again within the grace period
+const confirmationQueue = new ConfirmationQueue({
+  store: memoryDb,
+  timeouts: config.getConfirmationTimeouts(),
+  reconnectGrace: config.getReconnectGrace(),
+  onAbandoned: cancelTask
+});
+
+// Standing approvals users chose when confirming; lasting ones are kept in preferences
+const grants = createConfirmationGrants(memoryDb);
+
 // Store active agents
 const activeAgents = new Map<string, Agent>();
 
+// Stored conversation of a session, used to rehydrate its agent so follow-ups keep their context
+function sessionHistory(sessionId: string): Message[] {
+  return memoryDb.getMessages(sessionId).map(({ role, content }) => ({ role, content }));
+}
+
+// Persists every tool call of the session's runs for the replay view
+function sessionInvocationLog(sessionId: string): ToolInvocationLog {
+  return { record: invocation => { memoryDb.addToolInvocation(sessionId, invocation); } };
+}
+
+// Core agent for one task; its confirmations wait in the queue for a client to answer
+function createAgent(
+  taskId: string,
+  provider: ProviderType,
+  options: Pick<AgentOptions, 'model' | 'stream'> & { sessionId?: string }
+): Agent {
+  const { sessionId } = options;
+  return new Agent(createProvider(provider), toolRegistry, {
+    model: options.model || getDefaultModel(provider),
+    stream: options.stream,
+    maxTurns: config.getMaxTurns(),
+    environment,
+    policy: loadSecurityPolicy(memoryDb),
+    grants,
+    taskId,
+    history: sessionId ? sessionHistory(sessionId) : undefined,
+    invocationLog: sessionId ? sessionInvocationLog(sessionId) : undefined,
+    confirmationHandler: async (toolName, params, decision) =>
+      confirmationQueue.requestConfirmation({
+        toolName,
+        parameters: params,
+        dangerLevel: decision.dangerLevel,
+        description: decision.description,
+        taskId,
+        preview: await previewFileChange(environment.journal, toolName, params).catch(() => undefined),
+        grantMatch: grantMatch(toolName, params)
+      })
+  });
+}
+
+// Runs the prompt as the next turn of the session (or standalone), recording both sides
+async function runInSession(agent: Agent, prompt: string, sessionId?: string): Promise<string> {
+  if (!sessionId) {
+    return agent.run(prompt);
+  }
+  memoryDb.addMessage(sessionId, 'user', prompt);
+  const result = await agent.continue(prompt);
+  memoryDb.addMessage(sessionId, 'assistant', result);
+  return result;
+}
+
 // API Routes
 
 // Start a new agent task
-app.post('/api/agent/start', async (req, res) => {
+app.post('/api/agent/start', requireScope('run-agent'), async (req, res) => {
   try {
-    const { prompt, model, provider } = req.body;
+    const { prompt, model, provider, sessionId } = req.body;
     
     if (!prompt) {
       return res.status(400).json({ error: 'Prompt is required' });
     }
+    if (sessionId && !memoryDb.getSession(sessionId)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
 
     const taskId = uuidv4();
-    const llm = new LLMClient(provider || config.getDefaultProvider());
-    const agent = new Agent(llm, toolRegistry, {
-      model,
-      workingDirectory: workingDir,
-      confirmationHandler: async (toolName: string, params: Record<string, unknown>) => {
-        const dangerLevel = getDangerLevel(toolName);
-        const approved = await confirmationQueue.requestConfirmation({
-          toolName,
-          parameters: params,
-          dangerLevel,
-          description: getSecurityWarning(toolName) || `Execute ${toolName}`,
-          taskId
-        });
-        return approved;
-      }
-    });
+    const agent = createAgent(taskId, provider || config.getDefaultProvider(), { model, sessionId });
 
     activeAgents.set(taskId, agent);
 
     // Start agent in background
-    agent.run(prompt)
+    runInSession(agent, prompt, sessionId)
       .then(result => {
         console.log(`Task ${taskId} completed:`, result.slice(0, 100));
       })
       .catch(error => {
+        if (error instanceof AgentCancelledError) {
+          console.log(`Task ${taskId} cancelled`);
+          return;
+        }
         console.error(`Task ${taskId} error:`, error);
-      });
+      })
+      .finally(() => confirmationQueue.releaseTask(taskId));
 
+    // No client owns this task; its confirmations go to clients that attach to it over /ws
     res.json({ taskId, status: 'started' });
   } catch (error) {
     console.error('Error starting agent:', error);
@@ -151,7 +155,7 @@ app.post('/api/agent/start', async (req, res) => {
 });
 
 // Get task status
-app.get('/api/agent/status/:taskId', (req, res) => {
+app.get('/api/agent/status/:taskId', requireScope('read'), (req, res) => {
   const { taskId } = req.params;
   const agent = activeAgents.get(taskId);
   
@@ -166,8 +170,19 @@ app.get('/api/agent/status/:taskId', (req, res) => {
   });
 });
 
+// Aborts the agent's in-flight work and denies its outstanding confirmations
+function cancelTask(taskId: string): void {
+  const agent = activeAgents.get(taskId);
+  if (!agent) {
+    return;
+  }
+  agent.cancel();
+  confirmationQueue.denyForTask(taskId);
+  activeAgents.delete(taskId);
+}
+
 // Cancel a task
-app.post('/api/agent/cancel/:taskId', (req, res) => {
+app.post('/api/agent/cancel/:taskId', requireScope('run-agent'), (req, res) => {
   const { taskId } = req.params;
   const agent = activeAgents.get(taskId);
   
@@ -175,69 +190,111 @@ app.post('/api/agent/cancel/:taskId', (req, res) => {
     return res.status(404).json({ error: 'Task not found' });
   }
 
-  agent.cancel();
-  activeAgents.delete(taskId);
-  
+  cancelTask(taskId);
   res.json({ taskId, status: 'cancelled' });
 });
 
+// Files the task created, modified or deleted, while they can still be undone
+app.get('/api/agent/:taskId/changes', requireScope('read'), (req, res) => {
+  const { taskId } = req.params;
+
+  Promise.all([environment.journal.changes(taskId), environment.journal.hasChanges(taskId)])
+    .then(([changes, undoable]) => res.json({ taskId, changes, undoable }))
+    .catch(error => res.status(500).json({ error: error instanceof Error ? error.message : String(error) }));
+});
+
+// Restore the workspace to its state before the task ran
+app.post('/api/agent/:taskId/undo', requireScope('write-files'), (req, res) => {
+  const { taskId } = req.params;
+  const state = activeAgents.get(taskId)?.getState();
+
+  if (state === 'thinking' || state === 'acting') {
+    return res.status(409).json({ error: 'Task is still running' });
+  }
+  environment.journal.hasChanges(taskId)
+    .then(async undoable => {
+      if (!undoable) {
+        return res.status(404).json({ error: 'No file changes to undo for this task' });
+      }
+      const changes = await environment.journal.undo(taskId);
+      res.json({ taskId, status: 'undone', changes });
+    })
+    .catch(error => {
+      // Files changed since the task are left alone rather than overwritten
+      if (error instanceof UndoConflictError) {
+        return res.status(409).json({ error: error.message, paths: error.paths });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    });
+});
+
 // Get available tools
-app.get('/api/tools', (req, res) => {
+app.get('/api/tools', requireScope('read'), (req, res) => {
   const tools = toolRegistry.getDefinitions();
   res.json({ tools });
 });
 
 // Get available skills
-app.get('/api/skills', (req, res) => {
+app.get('/api/skills', requireScope('read'), (req, res) => {
   const skills = skillLoader.list();
   res.json({ skills });
 });
 
-// File operations
-app.get('/api/files', (req, res) => {
+// File operations; paths are relative to the working directory, with the same sandbox as the tools
+const files = new NodeFileSystem(sandbox);
+
+app.get('/api/files', requireScope('read'), (req, res) => {
   const { path } = req.query;
-  const tool = new ListDirectoryTool(workingDir);
-  
-  tool.execute({ path: path || '.' })
-    .then(result => {
-      if (result.success) {
-        res.json({ files: JSON.parse(result.output!) });
-      } else {
-        res.status(500).json({ error: result.error });
-      }
-    });
+
+  files.listFiles(typeof path === 'string' ? path : '/')
+    .then(entries => res.json({ files: entries }))
+    .catch(error => res.status(500).json({ error: error instanceof Error ? error.message : String(error) }));
 });
 
-app.post('/api/files/read', (req, res) => {
+app.post('/api/files/read', requireScope('read'), (req, res) => {
   const { path } = req.body;
-  const tool = new ReadFileTool(workingDir);
-  
-  tool.execute({ path })
-    .then(result => {
-      if (result.success) {
-        res.json({ content: result.output });
-      } else {
-        res.status(500).json({ error: result.error });
-      }
-    });
+
+  files.readFile(path)
+    .then(content => res.json({ content }))
+    .catch(error => res.status(500).json({ error: error instanceof Error ? error.message : String(error) }));
 });
 
-app.post('/api/files/write', (req, res) => {
+app.post('/api/files/write', requireScope('write-files'), (req, res) => {
   const { path, content } = req.body;
-  const tool = new WriteFileTool(workingDir);
-  
-  tool.execute({ path, content })
-    .then(result => {
-      if (result.success) {
-        res.json({ success: true });
-      } else {
-        res.status(500).json({ error: result.error });
-      }
-    });
+
+  files.writeFile(path, content)
+    .then(() => res.json({ success: true }))
+    .catch(error => res.status(500).json({ error: error instanceof Error ? error.message : String(error) }));
+});
+
+// The working directory, or a folder or file in it, as a zip download
+app.get('/api/files/export', requireScope('read'), (req, res) => {
+  const path = typeof req.query.path === 'string' ? req.query.path : '/';
+  const name = path.split('/').filter(Boolean).join('-') || 'workspace';
+
+  exportArchive(files, path)
+    .then(archive => {
+      res.attachment(`pixelmate-${name}.zip`);
+      res.type('application/zip').send(Buffer.from(archive));
+    })
+    .catch(error => res.status(500).json({ error: error instanceof Error ? error.message : String(error) }));
+});
+
+// Unpacks a zip body into a folder; existing files are kept unless overwrite=true
+app.post('/api/files/import', requireScope('write-files'), express.raw({ type: 'application/zip', limit: MAX_IMPORT_BYTES }), (req, res) => {
+  const path = typeof req.query.path === 'string' ? req.query.path : '/';
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: 'Expected a zip archive with Content-Type application/zip' });
+  }
+
+  importArchive(files, new Uint8Array(req.body), path, { overwrite: req.query.overwrite === 'true' })
+    .then(summary => res.json(summary))
+    .catch(error => res.status(400).json({ error: error instanceof Error ? error.message : String(error) }));
 });
 
 // Get configuration info
-app.get('/api/config', (req, res) => {
+app.get('/api/config', requireScope('read'), (req, res) => {
   res.json({
     workingDirectory: workingDir,
     maxTurns: config.getMaxTurns(),
@@ -248,21 +305,21 @@ app.get('/api/config', (req, res) => {
 // Memory/Session API Routes
 
 // Create new session
-app.post('/api/sessions', (req, res) => {
+app.post('/api/sessions', requireScope('run-agent'), (req, res) => {
   const { title } = req.body;
   const session = memoryDb.createSession(title);
   res.json({ session });
 });
 
 // List sessions
-app.get('/api/sessions', (req, res) => {
+app.get('/api/sessions', requireScope('read'), (req, res) => {
   const limit = parseInt(req.query.limit as string) || 10;
   const sessions = memoryDb.listSessions(limit);
   res.json({ sessions });
 });
 
 // Get session
-app.get('/api/sessions/:id', (req, res) => {
+app.get('/api/sessions/:id', requireScope('read'), (req, res) => {
   const session = memoryDb.getSession(req.params.id);
   if (!session) {
     return res.status(404).json({ error: 'Session not found' });
@@ -272,25 +329,31 @@ app.get('/api/sessions/:id', (req, res) => {
 });
 
 // Get messages for session
-app.get('/api/sessions/:id/messages', (req, res) => {
+app.get('/api/sessions/:id/messages', requireScope('read'), (req, res) => {
   const messages = memoryDb.getMessages(req.params.id);
   res.json({ messages });
 });
 
+// Get the tool calls made in a session, for auditing what the agent did
+app.get('/api/sessions/:id/tool-invocations', requireScope('read'), (req, res) => {
+  const invocations = memoryDb.getToolInvocations(req.params.id);
+  res.json({ invocations });
+});
+
 // Add message to session
-app.post('/api/sessions/:id/messages', (req, res) => {
+app.post('/api/sessions/:id/messages', requireScope('run-agent'), (req, res) => {
   const { role, content } = req.body;
   const message = memoryDb.addMessage(req.params.id, role, content);
   res.json({ message });
 });
 
 // Preferences
-app.get('/api/preferences', (req, res) => {
+app.get('/api/preferences', requireScope('read'), (req, res) => {
   const prefs = memoryDb.getAllPreferences();
   res.json({ preferences: prefs });
 });
 
-app.get('/api/preferences/:key', (req, res) => {
+app.get('/api/preferences/:key', requireScope('read'), (req, res) => {
   const value = memoryDb.getPreference(req.params.key);
   if (value === undefined) {
     return res.status(404).json({ error: 'Preference not found' });
@@ -298,24 +361,43 @@ app.get('/api/preferences/:key', (req, res) => {
   res.json({ key: req.params.key, value });
 });
 
-app.post('/api/preferences', (req, res) => {
+app.post('/api/preferences', requireScope('admin'), (req, res) => {
   const { key, value } = req.body;
+  if (key === SECURITY_RULES_PREFERENCE) {
+    // Checked here, since a broken rule set would stop every task from starting
+    try {
+      memoryDb.setPreference(key, JSON.stringify(parsePolicyRules(value)));
+      return res.json({ success: true });
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }
   memoryDb.setPreference(key, value);
   res.json({ success: true });
 });
 
 // Confirmation API Routes
 
-// Get pending confirmations
-app.get('/api/confirmations', (req, res) => {
-  const pending = confirmationQueue.getPending();
-  res.json({ confirmations: pending });
+// Get pending confirmations, of every task or only of ?taskId=
+app.get('/api/confirmations', requireScope('approve-confirmations'), (req, res) => {
+  const taskId = typeof req.query.taskId === 'string' ? req.query.taskId : undefined;
+  res.json({ confirmations: confirmationQueue.getPending(taskId) });
+});
+
+// Every confirmation the task asked for, answered or not
+app.get('/api/agent/:taskId/confirmations', requireScope('approve-confirmations'), (req, res) => {
+  res.json({ confirmations: memoryDb.getConfirmations(req.params.taskId) });
 });
 
-// Approve a confirmation
-app.post('/api/confirmations/:id/approve', (req, res) => {
+// Approve a confirmation, optionally with the user's edit of the proposed content
+// and a standing approval ('task', 'matching' or 'always') for calls like it
+app.post('/api/confirmations/:id/approve', requireScope('approve-confirmations'), (req, res) => {
   const { id } = req.params;
-  const success = confirmationQueue.approve(id);
+  const remember = req.body?.remember;
+  if (remember !== undefined && !GRANT_SCOPES.includes(remember)) {
+    return res.status(400).json({ success: false, error: `remember must be one of ${GRANT_SCOPES.join(', ')}` });
+  }
+  const success = confirmationQueue.approve(id, req.body?.content, remember);
   if (success) {
     res.json({ success: true, message: 'Confirmation approved' });
   } else {
@@ -324,7 +406,7 @@ app.post('/api/confirmations/:id/approve', (req, res) => {
 });
 
 // Deny a confirmation
-app.post('/api/confirmations/:id/deny', (req, res) => {
+app.post('/api/confirmations/:id/deny', requireScope('approve-confirmations'), (req, res) => {
   const { id } = req.params;
   const success = confirmationQueue.deny(id);
   if (success) {
@@ -334,63 +416,151 @@ app.post('/api/confirmations/:id/deny', (req, res) => {
   }
 });
 
+// Standing approvals
+
+app.get('/api/grants', requireScope('approve-confirmations'), async (req, res) => {
+  try {
+    res.json({ grants: await grants.list() });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+// Revoked grants stop applying from the next confirmable call
+app.delete('/api/grants/:id', requireScope('approve-confirmations'), async (req, res) => {
+  try {
+    if (await grants.revoke(req.params.id)) {
+      res.json({ success: true });
+    } else {
+      res.status(404).json({ success: false, error: 'Grant not found' });
+    }
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
 // Create HTTP server
 const server = createServer(app);
 
 // WebSocket server for real-time updates
-const wss = new WebSocketServer({ server, path: '/ws' });
+// Upgrades carry the same token as HTTP requests, or `?token=` from browsers; the key is kept per socket
+const socketIdentities = new WeakMap<IncomingMessage, ApiIdentity>();
+const wss = new WebSocketServer({
+  server,
+  path: '/ws',
+  verifyClient: ({ origin, req }, done) => {
+    if (!isAllowedOrigin(origin || undefined, allowedOrigins)) {
+      return done(false, 403, 'Origin not allowed');
+    }
+    const identity = auth.identifyRequest(req, true);
+    if (!identity) {
+      return done(false, 401, 'Missing or invalid API token');
+    }
+    socketIdentities.set(req, identity);
+    done(true);
+  }
+});
 
-wss.on('connection', (ws: WebSocket) => {
+// Scope each socket message needs
+const MESSAGE_SCOPES: Record<string, ApiScope> = {
+  start_task: 'run-agent',
+  cancel_task: 'run-agent',
+  attach_task: 'approve-confirmations',
+  detach_task: 'approve-confirmations',
+  confirmation_response: 'approve-confirmations'
+};
+
+// Answers over the socket come only from clients the request was sent to
+function answerConfirmation(ws: WebSocket, data: { id?: string; approved?: boolean; content?: string; remember?: GrantScope }): void {
+  const confirmation = data.id ? confirmationQueue.getConfirmation(data.id) : undefined;
+  if (!confirmation || !confirmationQueue.isSubscribed(confirmation.taskId, ws)) {
+    ws.send(JSON.stringify({ type: 'confirmation_error', id: data.id, error: 'Confirmation not found or already processed' }));
+    return;
+  }
+  const remember = data.remember !== undefined && GRANT_SCOPES.includes(data.remember) ? data.remember : undefined;
+  if (data.approved === true) {
+    confirmationQueue.approve(confirmation.id, data.content, remember);
+  } else {
+    confirmationQueue.deny(confirmation.id);
+  }
+}
+
+wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
   console.log('Client connected via WebSocket');
-  
-  // Register client for confirmation notifications
-  confirmationQueue.addClient(ws);
+  const identity = socketIdentities.get(req);
+  const scopes = identity?.scopes ?? [];
+  // Only a socket with the same key can take back the tasks this one starts
+  if (identity) confirmationQueue.addClient(ws, identity.keyId);
 
   ws.on('message', (message: string) => {
     try {
       const data = JSON.parse(message.toString());
+      const scope = MESSAGE_SCOPES[data.type];
+      if (scope && !scopes.includes(scope)) {
+        ws.send(JSON.stringify({ type: 'auth_error', messageType: data.type, error: `This API key lacks the ${scope} scope` }));
+        return;
+      }
       
       if (data.type === 'start_task') {
-        const { prompt, model, provider } = data;
+        const { prompt, model, provider, sessionId } = data;
         const taskId = uuidv4();
         
-        const llm = new LLMClient(provider || config.getDefaultProvider());
-        const agent = new Agent(llm, toolRegistry, {
-          model,
-          workingDirectory: workingDir,
-          confirmationHandler: async (toolName: string, params: Record<string, unknown>) => {
-            const dangerLevel = getDangerLevel(toolName);
-            const approved = await confirmationQueue.requestConfirmation({
-              toolName,
-              parameters: params,
-              dangerLevel,
-              description: getSecurityWarning(toolName) || `Execute ${toolName}`,
-              taskId
-            });
-            return approved;
-          }
-        });
+        if (sessionId && !memoryDb.getSession(sessionId)) {
+          ws.send(JSON.stringify({ type: 'task_error', taskId, error: 'Session not found' }));
+          return;
+        }
+        
+        let agent: Agent;
+        try {
+          agent = createAgent(taskId, provider || config.getDefaultProvider(), { model, sessionId, stream: true });
+        } catch (error) {
+          ws.send(JSON.stringify({ type: 'task_error', taskId, error: error instanceof Error ? error.message : String(error) }));
+          return;
+        }
         
         activeAgents.set(taskId, agent);
         
         // Send task started
         ws.send(JSON.stringify({ type: 'task_started', taskId }));
+        // The client that started the task owns it: it is asked its confirmations and sent its events
+        confirmationQueue.subscribe(taskId, ws, true);
         
-        // Forward agent events to client
+        // Forward agent events to the owner, which is a new socket after a reconnect
         agent.onEvent((event) => {
-          ws.send(JSON.stringify({ type: 'agent_event', taskId, event }));
+          confirmationQueue.sendToOwner(taskId, { type: 'agent_event', taskId, event });
         });
         
         // Run agent
-        agent.run(prompt)
+        runInSession(agent, prompt, sessionId)
           .then(result => {
-            ws.send(JSON.stringify({ type: 'task_completed', taskId, result }));
+            confirmationQueue.sendToOwner(taskId, { type: 'task_completed', taskId, result });
             activeAgents.delete(taskId);
+            confirmationQueue.releaseTask(taskId);
           })
           .catch(error => {
-            ws.send(JSON.stringify({ type: 'task_error', taskId, error: error.message }));
+            if (error instanceof AgentCancelledError) {
+              confirmationQueue.sendToOwner(taskId, { type: 'task_cancelled', taskId });
+            } else {
+              confirmationQueue.sendToOwner(taskId, { type: 'task_error', taskId, error: error.message });
+            }
             activeAgents.delete(taskId);
+            confirmationQueue.releaseTask(taskId);
           });
+      } else if (data.type === 'cancel_task') {
+        cancelTask(data.taskId);
+      } else if (data.type === 'attach_task') {
+        // Observe another client's (or an HTTP-started) task, or take back one started with this
+        // client's key before it reconnected; its pending confirmations are re-sent
+        if (!activeAgents.has(data.taskId)) {
+          ws.send(JSON.stringify({ type: 'task_error', taskId: data.taskId, error: 'Task not found' }));
+          return;
+        }
+        confirmationQueue.subscribe(data.taskId, ws);
+        ws.send(JSON.stringify({ type: 'task_attached', taskId: data.taskId, owner: confirmationQueue.isOwner(data.taskId, ws) }));
+      } else if (data.type === 'detach_task') {
+        confirmationQueue.unsubscribe(data.taskId, ws);
+      } else if (data.type === 'confirmation_response') {
+        answerConfirmation(ws, data);
       }
     } catch (error) {
       console.error('WebSocket message error:', error);
@@ -399,6 +569,7 @@ wss.on('connection', (ws: WebSocket) => {
 
   ws.on('close', () => {
     console.log('Client disconnected');
+    // Tasks this socket started keep running for the reconnect grace period
     confirmationQueue.removeClient(ws);
   });
 });
@@ -416,6 +587,9 @@ server.listen(PORT, () => {
 ║  Working dir:  ${workingDir}                 ║
 ╚═══════════════════════════════════════════════════════════╝
   `);
+  console.log(apiKeys.length > 0
+    ? `Accepting ${apiKeys.length} configured API keys`
+    : `API token: send the secret in ${authTokenFile} as "Authorization: Bearer <token>"`);
 });
 
 export { app, server, wss };
@@ -1,6 +1,8 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import type { ToolInvocationRecord } from '@pixelmate/shared';
+import type { ConfirmationStatus, ConfirmationStore, PendingConfirmation } from '../security/queue.js';
 
 export interface Session {
   id: string;
@@ -18,12 +20,30 @@ export interface Message {
   createdAt: string;
 }
 
+export interface ToolInvocation extends ToolInvocationRecord {
+  id: string;
+  sessionId: string;
+}
+
+type ToolInvocationRow = Omit<ToolInvocation, 'parameters' | 'success' | 'error'> & {
+  parameters: string;
+  success: number;
+  error: string | null;
+};
+
 export interface Preference {
   key: string;
   value: string;
 }
 
-export class MemoryDB {
+type ConfirmationRow = Omit<PendingConfirmation, 'parameters' | 'preview' | 'grantMatch' | 'expiresAt' | 'remember'> & {
+  parameters: string;
+  preview: string | null;
+  grantMatch: string | null;
+  expiresAt: string | null;
+};
+
+export class MemoryDB implements ConfirmationStore {
   private db: Database.Database;
 
   constructor(dbPath: string) {
@@ -55,7 +75,39 @@ export class MemoryDB {
         value TEXT NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS tool_invocations (
+        id TEXT PRIMARY KEY,
+        sessionId TEXT NOT NULL,
+        taskId TEXT NOT NULL,
+        toolCallId TEXT NOT NULL,
+        toolName TEXT NOT NULL,
+        parameters TEXT NOT NULL,
+        confirmation TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        error TEXT,
+        outputSize INTEGER NOT NULL,
+        startedAt INTEGER NOT NULL,
+        durationMs INTEGER NOT NULL,
+        FOREIGN KEY (sessionId) REFERENCES sessions(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS confirmations (
+        id TEXT PRIMARY KEY,
+        taskId TEXT NOT NULL,
+        toolName TEXT NOT NULL,
+        parameters TEXT NOT NULL,
+        dangerLevel TEXT NOT NULL,
+        description TEXT NOT NULL,
+        preview TEXT,
+        grantMatch TEXT,
+        timestamp TEXT NOT NULL,
+        expiresAt TEXT,
+        status TEXT NOT NULL
+      );
+
       CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(sessionId);
+      CREATE INDEX IF NOT EXISTS idx_tool_invocations_session ON tool_invocations(sessionId);
+      CREATE INDEX IF NOT EXISTS idx_confirmations_task ON confirmations(taskId);
     `);
   }
 
@@ -101,6 +153,7 @@ export class MemoryDB {
 
   deleteSession(id: string): void {
     this.db.prepare('DELETE FROM messages WHERE sessionId = ?').run(id);
+    this.db.prepare('DELETE FROM tool_invocations WHERE sessionId = ?').run(id);
     this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id);
   }
 
@@ -124,6 +177,80 @@ export class MemoryDB {
     return this.db.prepare('SELECT * FROM messages WHERE sessionId = ? ORDER BY createdAt ASC').all(sessionId) as Message[];
   }
 
+  // Tool invocation methods
+  addToolInvocation(sessionId: string, record: ToolInvocationRecord): ToolInvocation {
+    const id = uuidv4();
+    
+    this.db.prepare(`
+      INSERT INTO tool_invocations (id, sessionId, taskId, toolCallId, toolName, parameters, confirmation, success, error, outputSize, startedAt, durationMs)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      sessionId,
+      record.taskId,
+      record.toolCallId,
+      record.toolName,
+      JSON.stringify(record.parameters),
+      record.confirmation,
+      record.success ? 1 : 0,
+      record.error ?? null,
+      record.outputSize,
+      record.startedAt,
+      record.durationMs
+    );
+
+    return { ...record, id, sessionId };
+  }
+
+  getToolInvocations(sessionId: string): ToolInvocation[] {
+    const rows = this.db.prepare('SELECT * FROM tool_invocations WHERE sessionId = ? ORDER BY startedAt ASC').all(sessionId) as ToolInvocationRow[];
+    return rows.map(({ parameters, success, error, ...row }) => ({
+      ...row,
+      parameters: JSON.parse(parameters),
+      success: success === 1,
+      ...(error !== null ? { error } : {})
+    }));
+  }
+
+  // Confirmation methods
+  addConfirmation(confirmation: PendingConfirmation): void {
+    this.db.prepare(`
+      INSERT INTO confirmations (id, taskId, toolName, parameters, dangerLevel, description, preview, grantMatch, timestamp, expiresAt, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      confirmation.id,
+      confirmation.taskId,
+      confirmation.toolName,
+      JSON.stringify(confirmation.parameters),
+      confirmation.dangerLevel,
+      confirmation.description,
+      confirmation.preview ? JSON.stringify(confirmation.preview) : null,
+      confirmation.grantMatch ? JSON.stringify(confirmation.grantMatch) : null,
+      confirmation.timestamp,
+      confirmation.expiresAt ?? null,
+      confirmation.status
+    );
+  }
+
+  setConfirmationStatus(id: string, status: ConfirmationStatus): void {
+    this.db.prepare('UPDATE confirmations SET status = ? WHERE id = ?').run(status, id);
+  }
+
+  expirePendingConfirmations(): number {
+    return this.db.prepare("UPDATE confirmations SET status = 'expired' WHERE status = 'pending'").run().changes;
+  }
+
+  getConfirmations(taskId: string): PendingConfirmation[] {
+    const rows = this.db.prepare('SELECT * FROM confirmations WHERE taskId = ? ORDER BY timestamp ASC').all(taskId) as ConfirmationRow[];
+    return rows.map(({ parameters, preview, grantMatch, expiresAt, ...row }) => ({
+      ...row,
+      parameters: JSON.parse(parameters),
+      ...(preview !== null ? { preview: JSON.parse(preview) } : {}),
+      ...(grantMatch !== null ? { grantMatch: JSON.parse(grantMatch) } : {}),
+      ...(expiresAt !== null ? { expiresAt } : {})
+    }));
+  }
+
   // Preference methods
   setPreference(key: string, value: string): void {
     this.db.prepare(`
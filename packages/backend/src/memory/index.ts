@@ -1 +1 @@
-export { MemoryDB, type Session, type Message, type Preference } from './db.js';
+export { MemoryDB, type Session, type Message, type ToolInvocation, type Preference } from './db.js';
@@ -1,76 +1,36 @@
-import { LLMProvider, ProviderType, ChatOptions, ChatResponse, StreamingChunk, Message } from './types.js';
-
-export type { Message } from './types.js';
-import { OpenAIProvider } from './openai.js';
-import { AnthropicProvider } from './anthropic.js';
-
-export class ProviderFactory {
-  private static providers: Map<ProviderType, LLMProvider> = new Map();
-
-  static getProvider(type: ProviderType, apiKey?: string): LLMProvider {
-    if (this.providers.has(type)) {
-      return this.providers.get(type)!;
-    }
-
-    let provider: LLMProvider;
-    switch (type) {
-      case 'openai':
-        provider = new OpenAIProvider(apiKey);
-        break;
-      case 'anthropic':
-        provider = new AnthropicProvider(apiKey);
-        break;
-      case 'groq':
-        provider = new OpenAIProvider(apiKey || process.env.GROQ_API_KEY);
-        break;
-      case 'google':
-        provider = new OpenAIProvider(apiKey || process.env.GOOGLE_API_KEY);
-        break;
-      case 'ollama':
-        provider = new OpenAIProvider(apiKey || 'http://localhost:11434');
-        break;
-      default:
-        throw new Error(`Unknown provider type: ${type}`);
-    }
-
-    this.providers.set(type, provider);
-    return provider;
-  }
-
-  static clearCache(): void {
-    this.providers.clear();
-  }
+import { AnthropicProvider, OpenAIProvider, GroqProvider } from '@pixelmate/core';
+import type { LLMProvider, ProviderType } from '@pixelmate/shared';
+import { config } from '../config/index.js';
+
+// Used when a task doesn't name a model
+const DEFAULT_MODELS: Partial<Record<ProviderType, string>> = {
+  anthropic: 'claude-sonnet-4-5-20250501',
+  openai: 'gpt-4o',
+  groq: 'llama-3.3-70b-versatile'
+};
+
+function requireApiKey(type: ProviderType): string {
+  const apiKey = config.getProviderApiKey(type);
+  if (!apiKey) {
+    throw new Error(`No API key configured for provider ${type}`);
+  }
+  return apiKey;
 }
 
-export class LLMClient {
-  private provider: LLMProvider;
-
-  constructor(type: ProviderType, apiKey?: string) {
-    this.provider = ProviderFactory.getProvider(type, apiKey);
-  }
-
-  setProvider(type: ProviderType, apiKey?: string): void {
-    this.provider = ProviderFactory.getProvider(type, apiKey);
-  }
-
-  async chat(options: { messages: ChatOptions['messages']; temperature?: number; maxTokens?: number; stream?: boolean; model?: string }): Promise<ChatResponse> {
-    const model = options.model || this.getDefaultModel();
-    return this.provider.chat({ messages: options.messages, temperature: options.temperature, maxTokens: options.maxTokens, model });
-  }
-
-  async *chatStream(options: { messages: ChatOptions['messages']; temperature?: number; maxTokens?: number; stream?: boolean; model?: string }): AsyncGenerator<StreamingChunk> {
-    const model = options.model || this.getDefaultModel();
-    yield* this.provider.chatStream({ messages: options.messages, temperature: options.temperature, maxTokens: options.maxTokens, model });
-  }
-
-  async listModels(): Promise<string[]> {
-    return this.provider.listModels();
+/** Core provider for `type`, authenticated with the API key from the environment. */
+export function createProvider(type: ProviderType): LLMProvider {
+  switch (type) {
+    case 'anthropic':
+      return new AnthropicProvider(requireApiKey(type));
+    case 'openai':
+      return new OpenAIProvider(requireApiKey(type));
+    case 'groq':
+      return new GroqProvider(requireApiKey(type));
+    default:
+      throw new Error(`Provider ${type} is not supported by the backend`);
   }
+}
 
-  private getDefaultModel(): string {
-    if (this.provider.name === 'anthropic') {
-      return 'claude-sonnet-4-5-20250501';
-    }
-    return 'gpt-4o';
-  }
+export function getDefaultModel(type: ProviderType): string | undefined {
+  return DEFAULT_MODELS[type];
 }
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { IncomingMessage } from 'http';
+import type { Request, Response } from 'express';
+import { ApiAuth, originGuard, parseApiKeys, requireScope, loadLocalSecret } from './auth.js';
+
+const READER = 'reader-token-0123456789';
+const APPROVER = 'approver-token-0123456789';
+
+function makeResponse(scopes?: string[]) {
+  const res = {
+    locals: { scopes },
+    headers: {} as Record<string, string>,
+    statusCode: 200,
+    body: undefined as unknown,
+    header(name: string, value: string) { res.headers[name] = value; return res; },
+    status(code: number) { res.statusCode = code; return res; },
+    json(body: unknown) { res.body = body; return res; },
+    end() { return res; },
+  };
+  return res;
+}
+
+// Runs a middleware and reports whether it passed the request on
+function run(middleware: (req: Request, res: Response, next: () => void) => void, req: object, res: ReturnType<typeof makeResponse>) {
+  const next = vi.fn();
+  middleware(req as Request, res as unknown as Response, next);
+  return next.mock.calls.length > 0;
+}
+
+// ──────────────────────────────────────────────────────────────
+// Keys
+// ──────────────────────────────────────────────────────────────
+
+describe('API keys', () => {
+  it('parses tokens with their scopes', () => {
+    expect(parseApiKeys(`${READER}:read, ${APPROVER}:read+approve-confirmations`)).toEqual([
+      { token: READER, scopes: ['read'] },
+      { token: APPROVER, scopes: ['read', 'approve-confirmations'] },
+    ]);
+    expect(parseApiKeys('')).toEqual([]);
+  });
+
+  it('rejects short tokens and unknown scopes', () => {
+    expect(() => parseApiKeys('short:read')).toThrow('at least 16 characters');
+    expect(() => parseApiKeys(`${READER}:everything`)).toThrow("unknown scope 'everything'");
+    expect(() => parseApiKeys(READER)).toThrow();
+  });
+
+  it('authenticates bearer headers, and query tokens only on upgrades', () => {
+    const auth = new ApiAuth(parseApiKeys(`${READER}:read`));
+    const request = (headers: Record<string, string>, url = '/api/files') => ({ headers, url }) as unknown as IncomingMessage;
+
+    expect(auth.authenticateRequest(request({ authorization: `Bearer ${READER}` }))).toEqual(['read']);
+    expect(auth.authenticateRequest(request({ authorization: 'Bearer wrong' }))).toBeUndefined();
+    expect(auth.authenticateRequest(request({}, `/ws?token=${READER}`))).toBeUndefined();
+    expect(auth.authenticateRequest(request({}, `/ws?token=${READER}`), true)).toEqual(['read']);
+  });
+
+  it('identifies the same key the same way on every request', () => {
+    const auth = new ApiAuth(parseApiKeys(`${READER}:read,${APPROVER}:approve-confirmations`));
+    const reader = auth.identify(READER);
+
+    expect(reader).toMatchObject({ scopes: ['read'] });
+    expect(auth.identify(READER)?.keyId).toBe(reader?.keyId);
+    expect(auth.identify(APPROVER)?.keyId).not.toBe(reader?.keyId);
+    expect(auth.identify('wrong')).toBeUndefined();
+  });
+});
+
+describe('loadLocalSecret', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pixelmate-auth-'));
+  afterEach(() => { fs.rmSync(path.join(dir, 'token'), { force: true }); });
+
+  it('generates the secret once and keeps it', () => {
+    const file = path.join(dir, 'token');
+    const secret = loadLocalSecret(file);
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(loadLocalSecret(file)).toBe(secret);
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    }
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Middleware
+// ──────────────────────────────────────────────────────────────
+
+describe('originGuard', () => {
+  const guard = originGuard(['http://localhost:5173']);
+
+  it('echoes allowed origins instead of a wildcard', () => {
+    const res = makeResponse();
+    expect(run(guard, { method: 'GET', headers: { origin: 'http://localhost:5173' } }, res)).toBe(true);
+    expect(res.headers['Access-Control-Allow-Origin']).toBe('http://localhost:5173');
+  });
+
+  it('refuses other origins but lets non-browser callers through to the token check', () => {
+    const res = makeResponse();
+    expect(run(guard, { method: 'POST', headers: { origin: 'https://evil.example' } }, res)).toBe(false);
+    expect(res.statusCode).toBe(403);
+    expect(run(guard, { method: 'GET', headers: {} }, makeResponse())).toBe(true);
+  });
+});
+
+describe('requireScope', () => {
+  it('passes keys with the scope and forbids the rest', () => {
+    expect(run(requireScope('approve-confirmations'), {}, makeResponse(['read', 'approve-confirmations']))).toBe(true);
+
+    const res = makeResponse(['read']);
+    expect(run(requireScope('approve-confirmations'), {}, res)).toBe(false);
+    expect(res.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Who may use the backend API. Every request carries a token: either the
+ * local secret generated on first start, which may do everything, or one
+ * of the API keys configured with their scopes. Browsers are additionally
+ * held to an origin allowlist, so a page the user happens to visit can't
+ * drive the agent against localhost.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import type { IncomingMessage } from 'http';
+import type { RequestHandler } from 'express';
+
+export type ApiScope = 'read' | 'write-files' | 'run-agent' | 'approve-confirmations' | 'admin';
+export const API_SCOPES: ApiScope[] = ['read', 'write-files', 'run-agent', 'approve-confirmations', 'admin'];
+
+export interface ApiKey {
+  token: string;
+  scopes: ApiScope[];
+}
+
+/** The key a token belongs to: an id that is the same on every connection, and its scopes. */
+export interface ApiIdentity {
+  keyId: string;
+  scopes: ApiScope[];
+}
+
+// Keys are compared by digest, so the comparison takes the same time whatever the token
+interface StoredKey {
+  digest: Buffer;
+  scopes: ApiScope[];
+}
+
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * Keys from the API_KEYS setting: comma-separated `token:scope+scope`
+ * entries, e.g. `k1:read,k2:run-agent+approve-confirmations`.
+ */
+export function parseApiKeys(value: string): ApiKey[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map((entry, index) => {
+    const separator = entry.lastIndexOf(':');
+    const token = separator > 0 ? entry.slice(0, separator) : '';
+    const scopes = separator > 0 ? entry.slice(separator + 1).split('+').map(scope => scope.trim()) : [];
+    if (token.length < 16) {
+      throw new Error(`API key ${index + 1} must be a token of at least 16 characters followed by :scopes`);
+    }
+    const unknown = scopes.find(scope => !API_SCOPES.includes(scope as ApiScope));
+    if (scopes.length === 0 || unknown !== undefined) {
+      throw new Error(`API key ${index + 1} has ${unknown ? `an unknown scope '${unknown}'` : 'no scopes'}; use ${API_SCOPES.join(', ')}`);
+    }
+    return { token, scopes: scopes as ApiScope[] };
+  });
+}
+
+/** The local secret in `path`, generated (readable by the owner only) if there is none yet. */
+export function loadLocalSecret(path: string): string {
+  if (fs.existsSync(path)) {
+    const secret = fs.readFileSync(path, 'utf-8').trim();
+    if (secret) return secret;
+  }
+  const secret = randomBytes(32).toString('hex');
+  fs.writeFileSync(path, `${secret}\n`, { mode: 0o600 });
+  return secret;
+}
+
+export class ApiAuth {
+  private keys: StoredKey[];
+
+  constructor(keys: ApiKey[]) {
+    this.keys = keys.map(key => ({ digest: digest(key.token), scopes: key.scopes }));
+  }
+
+  /** Scopes of the key with this token, or undefined when no key has it. */
+  authenticate(token: string | undefined): ApiScope[] | undefined {
+    return this.identify(token)?.scopes;
+  }
+
+  /** The key with this token, or undefined when no key has it. */
+  identify(token: string | undefined): ApiIdentity | undefined {
+    if (!token) return undefined;
+    const candidate = digest(token);
+    let identity: ApiIdentity | undefined;
+    // Checks every key rather than stopping at a match
+    for (const key of this.keys) {
+      if (timingSafeEqual(key.digest, candidate)) identity = { keyId: key.digest.toString('hex'), scopes: key.scopes };
+    }
+    return identity;
+  }
+
+  /**
+   * Scopes for an HTTP request or WebSocket upgrade. The token comes from an
+   * `Authorization: Bearer` header, or from `?token=` on upgrades, since
+   * browsers can't set headers on a WebSocket.
+   */
+  authenticateRequest(req: IncomingMessage, allowQueryToken = false): ApiScope[] | undefined {
+    return this.identifyRequest(req, allowQueryToken)?.scopes;
+  }
+
+  /** The key an HTTP request or WebSocket upgrade was made with, found as in authenticateRequest. */
+  identifyRequest(req: IncomingMessage, allowQueryToken = false): ApiIdentity | undefined {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) {
+      return this.identify(header.slice('Bearer '.length).trim());
+    }
+    if (allowQueryToken && req.url) {
+      return this.identify(new URL(req.url, 'http://localhost').searchParams.get('token') ?? undefined);
+    }
+    return undefined;
+  }
+}
+
+/** Requests without an Origin header come from outside a browser and are left to the token check. */
+export function isAllowedOrigin(origin: string | undefined, allowedOrigins: string[]): boolean {
+  return origin === undefined || allowedOrigins.includes(origin);
+}
+
+/** CORS for the allowed origins only; requests from any other page are refused outright. */
+export function originGuard(allowedOrigins: string[]): RequestHandler {
+  return (req, res, next) => {
+    const origin = req.headers.origin;
+    if (!isAllowedOrigin(origin, allowedOrigins)) {
+      return res.status(403).json({ error: `Origin ${origin} is not allowed` });
+    }
+    if (origin) {
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Vary', 'Origin');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    }
+    if (req.method === 'OPTIONS') {
+      res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH');
+      return res.status(204).end();
+    }
+    next();
+  };
+}
+
+/** Rejects requests without a valid token; the key's scopes are left in `res.locals.scopes`. */
+export function authenticateRequests(auth: ApiAuth): RequestHandler {
+  return (req, res, next) => {
+    const scopes = auth.authenticateRequest(req);
+    if (!scopes) {
+      return res.status(401).json({ error: 'Missing or invalid API token' });
+    }
+    res.locals.scopes = scopes;
+    next();
+  };
+}
+
+export function requireScope(scope: ApiScope): RequestHandler {
+  return (req, res, next) => {
+    const scopes = res.locals.scopes as ApiScope[] | undefined;
+    if (!scopes?.includes(scope)) {
+      return res.status(403).json({ error: `This API key lacks the ${scope} scope` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,30 @@
+import { ConfirmationGrants, type ConfirmationGrant, type GrantStore } from '@pixelmate/core';
+import type { MemoryDB } from '../memory/index.js';
+
+// Preference holding the lasting grants as JSON; task grants live only in memory
+export const CONFIRMATION_GRANTS_PREFERENCE = 'confirmation_grants';
+
+class PreferenceGrantStore implements GrantStore {
+  constructor(private memoryDb: MemoryDB) {}
+
+  async load(): Promise<ConfirmationGrant[]> {
+    const stored = this.memoryDb.getPreference(CONFIRMATION_GRANTS_PREFERENCE);
+    if (!stored) return [];
+    try {
+      const grants = JSON.parse(stored);
+      return Array.isArray(grants) ? grants : [];
+    } catch {
+      // A corrupt value grants nothing; the next save replaces it
+      return [];
+    }
+  }
+
+  async save(grants: ConfirmationGrant[]): Promise<void> {
+    this.memoryDb.setPreference(CONFIRMATION_GRANTS_PREFERENCE, JSON.stringify(grants));
+  }
+}
+
+/** Grants shared by every task, so task grants survive across its agent's turns. */
+export function createConfirmationGrants(memoryDb: MemoryDB): ConfirmationGrants {
+  return new ConfirmationGrants(new PreferenceGrantStore(memoryDb));
+}
@@ -1,14 +1,31 @@
 export { 
-  getDangerLevel, 
-  requiresConfirmation, 
-  getSecurityWarning,
-  DANGEROUS_TOOLS,
-  type DangerLevel,
-  type SecurityRule
-} from './config.js';
+  loadSecurityPolicy,
+  SECURITY_RULES_PREFERENCE
+} from './policy.js';
+
+export {
+  createConfirmationGrants,
+  CONFIRMATION_GRANTS_PREFERENCE
+} from './grants.js';
 
 export { 
-  confirmationQueue, 
+  ConfirmationQueue, 
   type PendingConfirmation, 
-  type ConfirmationRequest 
+  type ConfirmationRequest,
+  type ConfirmationStatus,
+  type ConfirmationStore
 } from './queue.js';
+
+export {
+  ApiAuth,
+  API_SCOPES,
+  authenticateRequests,
+  isAllowedOrigin,
+  loadLocalSecret,
+  originGuard,
+  parseApiKeys,
+  requireScope,
+  type ApiIdentity,
+  type ApiKey,
+  type ApiScope
+} from './auth.js';
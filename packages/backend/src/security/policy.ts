@@ -0,0 +1,10 @@
+import { SecurityPolicy, parsePolicyRules } from '@pixelmate/core';
+import type { MemoryDB } from '../memory/index.js';
+
+// Preference holding the user's own rules as JSON; they are tried before the built-in ones
+export const SECURITY_RULES_PREFERENCE = 'security_rules';
+
+/** The policy for a new task, so edits to the rules apply from the next task on. */
+export function loadSecurityPolicy(memoryDb: MemoryDB): SecurityPolicy {
+  return new SecurityPolicy(parsePolicyRules(memoryDb.getPreference(SECURITY_RULES_PREFERENCE)));
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import WebSocket from 'ws';
+import { ConfirmationQueue, type ConfirmationStatus, type ConfirmationStore, type PendingConfirmation } from './queue.js';
+
+function makeClient() {
+  const send = vi.fn();
+  const ws = { readyState: WebSocket.OPEN, send } as unknown as WebSocket;
+  // Parsed messages the client received, oldest first
+  const received = () => send.mock.calls.map(([data]) => JSON.parse(data as string));
+  return { ws, received };
+}
+
+function makeStore(rows: PendingConfirmation[] = []): ConfirmationStore & { rows: PendingConfirmation[] } {
+  return {
+    rows,
+    addConfirmation(confirmation) { rows.push({ ...confirmation }); },
+    setConfirmationStatus(id: string, status: ConfirmationStatus) {
+      const row = rows.find(r => r.id === id);
+      if (row) row.status = status;
+    },
+    expirePendingConfirmations() {
+      const pending = rows.filter(r => r.status === 'pending');
+      pending.forEach(r => { r.status = 'expired'; });
+      return pending.length;
+    },
+  };
+}
+
+const request = (taskId: string, dangerLevel = 'medium') => ({
+  toolName: 'write_file',
+  parameters: { path: '/a.md', content: 'x' },
+  dangerLevel,
+  description: 'Write content to a file',
+  taskId,
+});
+
+// ──────────────────────────────────────────────────────────────
+// Routing
+// ──────────────────────────────────────────────────────────────
+
+describe('ConfirmationQueue routing', () => {
+  it('asks only the clients subscribed to the task', async () => {
+    const queue = new ConfirmationQueue();
+    const owner = makeClient();
+    const other = makeClient();
+    queue.subscribe('t1', owner.ws);
+    queue.subscribe('t2', other.ws);
+
+    const decision = queue.requestConfirmation(request('t1'));
+    const [message] = owner.received();
+    expect(message).toMatchObject({ type: 'confirmation_request', confirmation: { taskId: 't1', toolName: 'write_file' } });
+    expect(other.received()).toEqual([]);
+
+    expect(queue.approve(message.confirmation.id, 'y', 'task')).toBe(true);
+    await expect(decision).resolves.toEqual({ approved: true, parameters: { path: '/a.md', content: 'x' }, remember: 'task' });
+    expect(owner.received()[1]).toEqual({ type: 'confirmation_approved', id: message.confirmation.id });
+  });
+
+  it('re-sends pending requests to a client that attaches later', () => {
+    const queue = new ConfirmationQueue();
+    void queue.requestConfirmation(request('t1'));
+    const observer = makeClient();
+
+    queue.subscribe('t1', observer.ws);
+    expect(observer.received()).toEqual([expect.objectContaining({ type: 'confirmation_request' })]);
+    expect(queue.isSubscribed('t1', observer.ws)).toBe(true);
+
+    queue.removeClient(observer.ws);
+    expect(queue.isSubscribed('t1', observer.ws)).toBe(false);
+  });
+
+  it('settles each request once', async () => {
+    const queue = new ConfirmationQueue();
+    const decision = queue.requestConfirmation(request('t1'));
+    const [{ id }] = queue.getPending('t1');
+
+    expect(queue.denyForTask('t1')).toBe(1);
+    expect(queue.approve(id)).toBe(false);
+    await expect(decision).resolves.toEqual({ approved: false });
+    expect(queue.getPending()).toEqual([]);
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Timeouts
+// ──────────────────────────────────────────────────────────────
+
+describe('ConfirmationQueue timeouts', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('expires requests after the timeout of their danger level', async () => {
+    const queue = new ConfirmationQueue({ timeouts: { medium: 1000, critical: 0 } });
+    const client = makeClient();
+    queue.subscribe('t1', client.ws);
+    const medium = queue.requestConfirmation(request('t1', 'medium'));
+    void queue.requestConfirmation(request('t1', 'critical'));
+
+    vi.advanceTimersByTime(1000);
+    await expect(medium).resolves.toEqual({ approved: false });
+    expect(client.received().at(-1)).toMatchObject({ type: 'confirmation_expired' });
+    // A timeout of 0 waits until someone answers or the task ends
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    expect(queue.getPending('t1')).toEqual([expect.objectContaining({ dangerLevel: 'critical' })]);
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Reconnects
+// ──────────────────────────────────────────────────────────────
+
+describe('ConfirmationQueue reconnects', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('lets the owner reconnect, pick up pending requests and approve them', async () => {
+    const onAbandoned = vi.fn();
+    const queue = new ConfirmationQueue({ timeouts: { medium: 0 }, reconnectGrace: 30_000, onAbandoned });
+    const first = makeClient();
+    queue.addClient(first.ws, 'key-1');
+    queue.subscribe('t1', first.ws, true);
+    const decision = queue.requestConfirmation(request('t1'));
+
+    // The socket drops before the user answers
+    queue.removeClient(first.ws);
+    vi.advanceTimersByTime(10_000);
+    expect(queue.getPending('t1')).toHaveLength(1);
+
+    const second = makeClient();
+    queue.addClient(second.ws, 'key-1');
+    queue.subscribe('t1', second.ws);
+    expect(queue.isOwner('t1', second.ws)).toBe(true);
+    const [message] = second.received();
+    expect(message).toMatchObject({ type: 'confirmation_request', confirmation: { taskId: 't1' } });
+
+    expect(queue.approve(message.confirmation.id)).toBe(true);
+    await expect(decision).resolves.toMatchObject({ approved: true });
+    queue.sendToOwner('t1', { type: 'task_completed', taskId: 't1' });
+    expect(second.received().at(-1)).toEqual({ type: 'task_completed', taskId: 't1' });
+
+    vi.advanceTimersByTime(60_000);
+    expect(onAbandoned).not.toHaveBeenCalled();
+  });
+
+  it('keeps clients with another key as observers while the owner is away', () => {
+    const onAbandoned = vi.fn();
+    const queue = new ConfirmationQueue({ reconnectGrace: 30_000, onAbandoned });
+    const owner = makeClient();
+    const stranger = makeClient();
+    queue.addClient(owner.ws, 'key-1');
+    queue.addClient(stranger.ws, 'key-2');
+    queue.subscribe('t1', owner.ws, true);
+
+    queue.removeClient(owner.ws);
+    queue.subscribe('t1', stranger.ws);
+    expect(queue.isOwner('t1', stranger.ws)).toBe(false);
+    queue.sendToOwner('t1', { type: 'agent_event', taskId: 't1' });
+    expect(stranger.received()).toEqual([]);
+
+    vi.advanceTimersByTime(30_000);
+    expect(onAbandoned).toHaveBeenCalledWith('t1');
+  });
+
+  it('abandons a task whose owner stays away past the grace period', () => {
+    const onAbandoned = vi.fn();
+    const queue = new ConfirmationQueue({ reconnectGrace: 30_000, onAbandoned });
+    const owner = makeClient();
+    const observer = makeClient();
+    queue.subscribe('t1', owner.ws, true);
+    queue.subscribe('t1', observer.ws);
+
+    queue.removeClient(owner.ws);
+    queue.sendToOwner('t1', { type: 'agent_event', taskId: 't1' });
+    expect(owner.received()).toEqual([]);
+    vi.advanceTimersByTime(29_999);
+    expect(onAbandoned).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onAbandoned).toHaveBeenCalledWith('t1');
+    // Observers that were already attached don't keep it alive
+    expect(queue.isOwner('t1', observer.ws)).toBe(false);
+  });
+
+  it('stops waiting for a task that ends while its owner is away', () => {
+    const onAbandoned = vi.fn();
+    const queue = new ConfirmationQueue({ reconnectGrace: 30_000, onAbandoned });
+    const owner = makeClient();
+    queue.subscribe('t1', owner.ws, true);
+
+    queue.removeClient(owner.ws);
+    queue.releaseTask('t1');
+    vi.advanceTimersByTime(30_000);
+    expect(onAbandoned).not.toHaveBeenCalled();
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Persistence
+// ──────────────────────────────────────────────────────────────
+
+describe('ConfirmationQueue persistence', () => {
+  it('records requests with their outcome', async () => {
+    const store = makeStore();
+    const queue = new ConfirmationQueue({ store });
+    const decision = queue.requestConfirmation(request('t1'));
+    expect(store.rows).toEqual([expect.objectContaining({ taskId: 't1', status: 'pending', expiresAt: expect.any(String) })]);
+
+    queue.deny(store.rows[0].id);
+    await decision;
+    expect(store.rows[0].status).toBe('denied');
+  });
+
+  it('expires requests left pending by the previous run', () => {
+    const store = makeStore([{ ...request('t0'), id: 'old', timestamp: '', status: 'pending' }]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    new ConfirmationQueue({ store });
+    expect(store.rows[0].status).toBe('expired');
+  });
+});
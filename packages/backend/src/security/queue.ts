@@ -1,5 +1,8 @@
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
 import WebSocket from 'ws';
+import type { ConfirmationDecision, DangerLevel, FileChangePreview, GrantMatch, GrantScope } from '@pixelmate/core';
+
+export type ConfirmationStatus = 'pending' | 'approved' | 'denied' | 'expired';
 
 export interface PendingConfirmation {
   id: string;
@@ -8,8 +11,16 @@ export interface PendingConfirmation {
   dangerLevel: string;
   description: string;
   taskId: string;
+  // Diff or summary of the file change, for file-mutating tools
+  preview?: FileChangePreview;
+  // Paths or domains the user can approve calls like this one for; absent when there are none
+  grantMatch?: GrantMatch;
   timestamp: string;
-  status: 'pending' | 'approved' | 'denied' | 'expired';
+  // When the request is denied unanswered; absent when its danger level never times out
+  expiresAt?: string;
+  status: ConfirmationStatus;
+  // Standing approval chosen along with the approval
+  remember?: GrantScope;
 }
 
 export interface ConfirmationRequest {
@@ -18,117 +29,275 @@ export interface ConfirmationRequest {
   dangerLevel: string;
   description: string;
   taskId: string;
+  preview?: FileChangePreview;
+  grantMatch?: GrantMatch;
+}
+
+/** Durable record of requests, so they outlive a client's connection and the server's restarts. */
+export interface ConfirmationStore {
+  addConfirmation(confirmation: PendingConfirmation): void;
+  setConfirmationStatus(id: string, status: ConfirmationStatus): void;
+  // Marks every request still pending as expired and returns how many were
+  expirePendingConfirmations(): number;
+}
+
+export interface ConfirmationQueueOptions {
+  store?: ConfirmationStore;
+  // Milliseconds a request waits for an answer, by danger level; 0 waits until the task ends
+  timeouts?: Partial<Record<DangerLevel, number>>;
+  // Milliseconds a task waits for its owner to reconnect and attach again (default 60 s)
+  reconnectGrace?: number;
+  // Called when no client took the task over within reconnectGrace, to cancel it
+  onAbandoned?: (taskId: string) => void;
 }
 
-class ConfirmationQueue {
-  private pending: Map<string, PendingConfirmation> = new Map();
-  private clients: Set<WebSocket> = new Set();
-  private timeout = 60000; // 1 minute timeout
+const DEFAULT_TIMEOUT = 60_000;
+const DEFAULT_RECONNECT_GRACE = 60_000;
+
+// A request waiting for its answer, with the promise the agent is blocked on
+interface Waiter {
+  confirmation: PendingConfirmation;
+  resolve: (decision: ConfirmationDecision) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Confirmations the agent is waiting on. Each request is sent only to the
+ * clients subscribed to its task: the one that started it and any that
+ * attached to it as observers. A client that (re)attaches is sent the
+ * task's requests that are still pending.
+ *
+ * The client that started a task owns it and is sent its events. When the
+ * owner's socket closes, the task waits out the reconnect grace period; the
+ * first client with the owner's API key to attach to it in that time becomes
+ * its owner, and if none does, the task is handed to `onAbandoned`. Clients
+ * with other keys only ever observe it.
+ */
+export class ConfirmationQueue {
+  private waiting = new Map<string, Waiter>();
+  private subscribers = new Map<string, Set<WebSocket>>();
+  private owners = new Map<string, WebSocket>();
+  // API key each socket connected with, and the key of the client that started each task
+  private clientKeys = new WeakMap<WebSocket, string>();
+  private ownerKeys = new Map<string, string>();
+  // Tasks whose owner disconnected, with the timer that abandons them
+  private orphaned = new Map<string, ReturnType<typeof setTimeout>>();
+  private store?: ConfirmationStore;
+  private timeouts: Partial<Record<DangerLevel, number>>;
+  private reconnectGrace: number;
+  private onAbandoned?: (taskId: string) => void;
+
+  constructor(options: ConfirmationQueueOptions = {}) {
+    this.store = options.store;
+    this.timeouts = options.timeouts ?? {};
+    this.reconnectGrace = options.reconnectGrace ?? DEFAULT_RECONNECT_GRACE;
+    this.onAbandoned = options.onAbandoned;
+    // Nothing is waiting on requests left over from the last run any more
+    const abandoned = this.store?.expirePendingConfirmations() ?? 0;
+    if (abandoned > 0) {
+      console.log(`Expired ${abandoned} confirmations left pending by the last run`);
+    }
+  }
+
+  /** Records the API key `ws` connected with, which decides whether it may take back a task it started. */
+  addClient(ws: WebSocket, keyId: string): void {
+    this.clientKeys.set(ws, keyId);
+  }
+
+  /**
+   * Routes the task's requests to `ws`, starting with those already pending.
+   * `owner` is set for the client that started the task; a client with the
+   * same key that subscribes while the task has lost its owner takes it over.
+   */
+  subscribe(taskId: string, ws: WebSocket, owner = false): void {
+    let sockets = this.subscribers.get(taskId);
+    if (!sockets) {
+      sockets = new Set();
+      this.subscribers.set(taskId, sockets);
+    }
+    sockets.add(ws);
+    if (owner) {
+      const keyId = this.clientKeys.get(ws);
+      if (keyId !== undefined) this.ownerKeys.set(taskId, keyId);
+      else this.ownerKeys.delete(taskId);
+    }
+    if (owner || (this.orphaned.has(taskId) && this.hasOwnerKey(taskId, ws))) {
+      clearTimeout(this.orphaned.get(taskId));
+      this.orphaned.delete(taskId);
+      this.owners.set(taskId, ws);
+    }
+    for (const confirmation of this.getPending(taskId)) {
+      this.send(ws, this.requestMessage(confirmation));
+    }
+  }
 
-  addClient(ws: WebSocket): void {
-    this.clients.add(ws);
+  unsubscribe(taskId: string, ws: WebSocket): void {
+    const sockets = this.subscribers.get(taskId);
+    sockets?.delete(ws);
+    if (sockets?.size === 0) {
+      this.subscribers.delete(taskId);
+    }
   }
 
+  /** Drops a closed socket from every task it was subscribed to; tasks it owned wait for it to come back. */
   removeClient(ws: WebSocket): void {
-    this.clients.delete(ws);
+    for (const taskId of [...this.subscribers.keys()]) {
+      this.unsubscribe(taskId, ws);
+    }
+    for (const [taskId, owner] of [...this.owners]) {
+      if (owner !== ws) continue;
+      this.owners.delete(taskId);
+      this.orphaned.set(taskId, setTimeout(() => {
+        this.orphaned.delete(taskId);
+        this.ownerKeys.delete(taskId);
+        this.onAbandoned?.(taskId);
+      }, this.reconnectGrace));
+    }
+  }
+
+  /** Whether `ws` owns the task, and so is sent its events. */
+  isOwner(taskId: string, ws: WebSocket): boolean {
+    return this.owners.get(taskId) === ws;
+  }
+
+  // Whether `ws` connected with the key that started the task
+  private hasOwnerKey(taskId: string, ws: WebSocket): boolean {
+    const keyId = this.clientKeys.get(ws);
+    return keyId !== undefined && keyId === this.ownerKeys.get(taskId);
+  }
+
+  /** Sends a message about the task to its owner; dropped while the owner is away. */
+  sendToOwner(taskId: string, message: object): void {
+    const owner = this.owners.get(taskId);
+    if (owner) this.send(owner, message);
+  }
+
+  /** Whether `ws` receives the task's requests, and so may answer them over the socket. */
+  isSubscribed(taskId: string, ws: WebSocket): boolean {
+    return this.subscribers.get(taskId)?.has(ws) ?? false;
+  }
+
+  /** Forgets a finished task's subscribers; its requests were settled when the agent stopped waiting. */
+  releaseTask(taskId: string): void {
+    this.subscribers.delete(taskId);
+    this.owners.delete(taskId);
+    this.ownerKeys.delete(taskId);
+    clearTimeout(this.orphaned.get(taskId));
+    this.orphaned.delete(taskId);
   }
 
-  async requestConfirmation(request: ConfirmationRequest): Promise<boolean> {
+  requestConfirmation(request: ConfirmationRequest): Promise<ConfirmationDecision> {
+    const timestamp = new Date();
+    const timeout = this.timeoutFor(request.dangerLevel);
     const confirmation: PendingConfirmation = {
-      id: uuidv4(),
+      id: randomUUID(),
       toolName: request.toolName,
       parameters: request.parameters,
       dangerLevel: request.dangerLevel,
       description: request.description,
       taskId: request.taskId,
-      timestamp: new Date().toISOString(),
+      preview: request.preview,
+      grantMatch: request.grantMatch,
+      timestamp: timestamp.toISOString(),
+      ...(timeout > 0 && { expiresAt: new Date(timestamp.getTime() + timeout).toISOString() }),
       status: 'pending'
     };
+    this.store?.addConfirmation(confirmation);
 
-    this.pending.set(confirmation.id, confirmation);
-
-    // Notify all connected clients
-    this.broadcast({
-      type: 'confirmation_request',
-      confirmation: {
-        id: confirmation.id,
-        toolName: confirmation.toolName,
-        dangerLevel: confirmation.dangerLevel,
-        description: confirmation.description,
-        parameters: this.sanitizeParameters(confirmation.parameters),
-        taskId: confirmation.taskId,
-        timestamp: confirmation.timestamp
+    return new Promise(resolve => {
+      const waiter: Waiter = { confirmation, resolve };
+      if (timeout > 0) {
+        waiter.timer = setTimeout(() => this.settle(confirmation.id, 'expired'), timeout);
       }
-    });
-
-    // Wait for confirmation or timeout
-    return new Promise((resolve) => {
-      const checkStatus = () => {
-        const conf = this.pending.get(confirmation.id);
-        if (!conf) {
-          resolve(false);
-          return;
-        }
-
-        if (conf.status === 'approved') {
-          this.pending.delete(confirmation.id);
-          resolve(true);
-        } else if (conf.status === 'denied' || conf.status === 'expired') {
-          this.pending.delete(confirmation.id);
-          resolve(false);
-        } else {
-          setTimeout(checkStatus, 500);
-        }
-      };
-
-      setTimeout(() => {
-        const conf = this.pending.get(confirmation.id);
-        if (conf && conf.status === 'pending') {
-          conf.status = 'expired';
-          this.broadcast({
-            type: 'confirmation_expired',
-            id: confirmation.id
-          });
-        }
-        resolve(false);
-      }, this.timeout);
+      this.waiting.set(confirmation.id, waiter);
+      this.publish(confirmation.taskId, this.requestMessage(confirmation));
     });
   }
 
-  approve(confirmationId: string): boolean {
-    const confirmation = this.pending.get(confirmationId);
-    if (!confirmation || confirmation.status !== 'pending') {
+  /**
+   * Approves a pending confirmation. `editedContent` replaces the preview's
+   * editable parameter; no other parameter can be changed. `remember`
+   * approves calls like this one from now on as well.
+   */
+  approve(confirmationId: string, editedContent?: string, remember?: GrantScope): boolean {
+    const confirmation = this.waiting.get(confirmationId)?.confirmation;
+    if (!confirmation) {
       return false;
     }
-    confirmation.status = 'approved';
-    this.broadcast({
-      type: 'confirmation_approved',
-      id: confirmationId
-    });
-    return true;
+    const editable = confirmation.preview?.editableParameter;
+    if (editable && typeof editedContent === 'string') {
+      confirmation.parameters = { ...confirmation.parameters, [editable]: editedContent };
+    }
+    confirmation.remember = remember;
+    return this.settle(confirmationId, 'approved');
   }
 
   deny(confirmationId: string): boolean {
-    const confirmation = this.pending.get(confirmationId);
-    if (!confirmation || confirmation.status !== 'pending') {
+    return this.settle(confirmationId, 'denied');
+  }
+
+  /** Denies every pending confirmation belonging to a task, e.g. when it is cancelled. */
+  denyForTask(taskId: string): number {
+    return this.getPending(taskId).filter(confirmation => this.deny(confirmation.id)).length;
+  }
+
+  /** Requests still waiting for an answer, of one task or of all. */
+  getPending(taskId?: string): PendingConfirmation[] {
+    return [...this.waiting.values()]
+      .map(waiter => waiter.confirmation)
+      .filter(confirmation => taskId === undefined || confirmation.taskId === taskId);
+  }
+
+  getConfirmation(confirmationId: string): PendingConfirmation | undefined {
+    return this.waiting.get(confirmationId)?.confirmation;
+  }
+
+  // Resolves the agent's promise once; later answers to the same request are refused
+  private settle(confirmationId: string, status: Exclude<ConfirmationStatus, 'pending'>): boolean {
+    const waiter = this.waiting.get(confirmationId);
+    if (!waiter) {
       return false;
     }
-    confirmation.status = 'denied';
-    this.broadcast({
-      type: 'confirmation_denied',
-      id: confirmationId
-    });
+    this.waiting.delete(confirmationId);
+    clearTimeout(waiter.timer);
+
+    const { confirmation } = waiter;
+    confirmation.status = status;
+    this.store?.setConfirmationStatus(confirmationId, status);
+    this.publish(confirmation.taskId, { type: `confirmation_${status}`, id: confirmationId });
+    waiter.resolve(status === 'approved'
+      ? { approved: true, parameters: confirmation.parameters, remember: confirmation.remember }
+      : { approved: false });
     return true;
   }
 
-  getPending(): PendingConfirmation[] {
-    return Array.from(this.pending.values()).filter(c => c.status === 'pending');
+  private timeoutFor(dangerLevel: string): number {
+    return this.timeouts[dangerLevel as DangerLevel] ?? DEFAULT_TIMEOUT;
+  }
+
+  private requestMessage(confirmation: PendingConfirmation): object {
+    return {
+      type: 'confirmation_request',
+      confirmation: {
+        id: confirmation.id,
+        toolName: confirmation.toolName,
+        dangerLevel: confirmation.dangerLevel,
+        description: confirmation.description,
+        parameters: this.sanitizeParameters(confirmation.parameters, confirmation.preview?.editableParameter),
+        preview: confirmation.preview,
+        grantMatch: confirmation.grantMatch,
+        taskId: confirmation.taskId,
+        timestamp: confirmation.timestamp,
+        expiresAt: confirmation.expiresAt
+      }
+    };
   }
 
-  private sanitizeParameters(params: Record<string, unknown>): Record<string, unknown> {
+  // Long strings are cut short, except the content the user may edit before approving
+  private sanitizeParameters(params: Record<string, unknown>, editable?: string): Record<string, unknown> {
     const sanitized: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(params)) {
-      if (typeof value === 'string' && value.length > 100) {
+      if (typeof value === 'string' && value.length > 100 && key !== editable) {
         sanitized[key] = value.substring(0, 100) + '...';
       } else {
         sanitized[key] = value;
@@ -137,14 +306,13 @@ class ConfirmationQueue {
     return sanitized;
   }
 
-  private broadcast(message: object): void {
-    const data = JSON.stringify(message);
-    this.clients.forEach(client => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(data);
-      }
-    });
+  private publish(taskId: string, message: object): void {
+    this.subscribers.get(taskId)?.forEach(client => this.send(client, message));
   }
-}
 
-export const confirmationQueue = new ConfirmationQueue();
+  private send(client: WebSocket, message: object): void {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Tool, ToolResult, ToolParameter } from '../types.js';
+import { Tool, ToolResult, ToolParameter, ToolExecutionContext } from '@pixelmate/shared';
 import { browserManager } from './manager.js';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -18,14 +18,14 @@ export class NavigateTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
       let pageId = params.pageId as string;
       if (!pageId) {
         pageId = uuidv4();
       }
 
-      const page = await browserManager.createPage('default', pageId);
+      const page = await browserManager.createPage('default', pageId, context?.runSignal);
       await page.goto(params.url as string);
 
       const title = await page.title();
@@ -53,9 +53,9 @@ export class ClickTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -82,9 +82,9 @@ export class FillTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -112,9 +112,9 @@ export class TypeTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -145,9 +145,9 @@ export class SelectTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -166,6 +166,7 @@ export class SelectTool implements Tool {
 export class GetTextTool implements Tool {
   definition = {
     name: 'browser_get_text',
+    readOnly: true,
     description: 'Get the text content of an element',
     parameters: [
       param('selector', 'CSS selector for the element', 'string', true),
@@ -173,9 +174,9 @@ export class GetTextTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -194,6 +195,7 @@ export class GetTextTool implements Tool {
 export class GetHtmlTool implements Tool {
   definition = {
     name: 'browser_get_html',
+    readOnly: true,
     description: 'Get the HTML content of an element or the entire page',
     parameters: [
       param('selector', 'CSS selector (optional, gets full page if not provided)', 'string', false),
@@ -201,9 +203,9 @@ export class GetHtmlTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -228,6 +230,7 @@ export class GetHtmlTool implements Tool {
 export class ScreenshotTool implements Tool {
   definition = {
     name: 'browser_screenshot',
+    // Not read-only: with `path` it writes a file
     description: 'Take a screenshot of the page or element',
     parameters: [
       param('path', 'File path to save the screenshot', 'string', false),
@@ -237,9 +240,9 @@ export class ScreenshotTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -275,15 +278,16 @@ export class ScreenshotTool implements Tool {
 export class SnapshotTool implements Tool {
   definition = {
     name: 'browser_snapshot',
+    readOnly: true,
     description: 'Get an accessibility snapshot of the page for AI understanding',
     parameters: [
       param('pageId', 'The page ID', 'string', false, 'default')
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -316,9 +320,9 @@ export class ScrollTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -343,6 +347,7 @@ export class ScrollTool implements Tool {
 export class WaitForSelectorTool implements Tool {
   definition = {
     name: 'browser_wait',
+    readOnly: true,
     description: 'Wait for an element to appear on the page',
     parameters: [
       param('selector', 'CSS selector to wait for', 'string', true),
@@ -352,9 +357,9 @@ export class WaitForSelectorTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const page = browserManager.getPage(params.pageId as string || 'default');
+      const page = browserManager.getPage(params.pageId as string || 'default', context?.runSignal);
       if (!page) {
         return { success: false, error: 'Page not found' };
       }
@@ -386,7 +391,7 @@ export class ClosePageTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
       await browserManager.closePage(params.pageId as string);
       return { success: true, output: `Closed page: ${params.pageId}` };
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ToolRegistry } from '@pixelmate/core';
+import { browserManager, closePageOnAbort } from './manager.js';
+import { NavigateTool, ClickTool, GetHtmlTool } from './index.js';
+
+// A page whose actions hang until it is closed, like a stuck Playwright call
+function makePage() {
+  const listeners: Array<() => void> = [];
+  let closed = false;
+  const pending = () => new Promise<never>((_, reject) => {
+    listeners.push(() => reject(new Error('Target page has been closed')));
+  });
+  return {
+    get closed() { return closed; },
+    once: vi.fn((_event: string, listener: () => void) => { listeners.push(listener); }),
+    close: vi.fn(async () => {
+      closed = true;
+      listeners.splice(0).forEach(listener => listener());
+    }),
+    goto: vi.fn(async () => null),
+    title: vi.fn(async () => 'Example'),
+    click: vi.fn(pending),
+    content: vi.fn(async () => '<html></html>'),
+  };
+}
+
+let page: ReturnType<typeof makePage>;
+
+// Page IDs are passed explicitly, so ID generation is never exercised
+vi.mock('uuid', () => ({ v4: () => 'generated' }));
+
+vi.mock('playwright', () => ({
+  chromium: {
+    launch: async () => ({
+      newContext: async () => ({ newPage: async () => page, close: async () => {} }),
+      close: async () => {},
+    }),
+  },
+}));
+
+describe('browser pages', () => {
+  beforeEach(async () => {
+    await browserManager.close();
+    page = makePage();
+  });
+
+  // ── Timeouts and cancellation ────────────────────────────
+  it('keeps the page usable after a browser tool times out', async () => {
+    const registry = new ToolRegistry({ defaultTimeoutMs: 20 });
+    [new NavigateTool(), new ClickTool(), new GetHtmlTool()].forEach(tool => registry.register(tool));
+    const run = new AbortController();
+    const context = { signal: run.signal };
+
+    await registry.execute({ id: '1', name: 'browser_navigate', parameters: { url: 'https://example.com', pageId: 'default' } }, context);
+    const clicked = await registry.execute({ id: '2', name: 'browser_click', parameters: { selector: '#stuck' } }, context);
+    expect(clicked.errorKind).toBe('timeout');
+    expect(page.closed).toBe(false);
+
+    const content = await registry.execute({ id: '3', name: 'browser_get_html', parameters: {} }, context);
+    expect(content).toMatchObject({ success: true, output: '<html></html>' });
+  });
+
+  it('closes the page when the run is cancelled', async () => {
+    const run = new AbortController();
+    await browserManager.createPage('default', 'default', run.signal);
+
+    run.abort();
+    expect(page.close).toHaveBeenCalledTimes(1);
+    expect(browserManager.getPage('default')).toBeUndefined();
+  });
+
+  it('adds one abort listener per run however often the page is looked up', () => {
+    const run = new AbortController();
+    const addEventListener = vi.spyOn(run.signal, 'addEventListener');
+    for (let i = 0; i < 5; i++) closePageOnAbort(page as never, run.signal);
+
+    expect(addEventListener).toHaveBeenCalledTimes(1);
+  });
+});
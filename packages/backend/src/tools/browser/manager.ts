@@ -1,6 +1,27 @@
 import { chromium, Browser, BrowserContext, Page } from 'playwright';
 import { config } from '../../config/index.js';
 
+// Run signals each page already closes on, so repeated lookups add one listener
+const hooked = new WeakMap<Page, WeakSet<AbortSignal>>();
+
+/**
+ * Playwright actions cannot be aborted directly; closing the page makes any
+ * in-flight action on it reject, which is how cancellation reaches them.
+ * Pass the run's signal, not a per-attempt one: pages outlive a timed-out call.
+ */
+export function closePageOnAbort(page: Page, signal?: AbortSignal): void {
+  if (!signal) return;
+  if (signal.aborted) {
+    void page.close().catch(() => {});
+    return;
+  }
+  const signals = hooked.get(page) ?? new WeakSet<AbortSignal>();
+  if (signals.has(signal)) return;
+  signals.add(signal);
+  hooked.set(page, signals);
+  signal.addEventListener('abort', () => { void page.close().catch(() => {}); }, { once: true });
+}
+
 export class BrowserManager {
   private browser: Browser | null = null;
   private contexts: Map<string, BrowserContext> = new Map();
@@ -34,7 +55,7 @@ export class BrowserManager {
     return context;
   }
 
-  async createPage(contextId: string, pageId: string): Promise<Page> {
+  async createPage(contextId: string, pageId: string, signal?: AbortSignal): Promise<Page> {
     let context = this.contexts.get(contextId);
     if (!context) {
       context = await this.createContext(contextId);
@@ -42,11 +63,18 @@ export class BrowserManager {
 
     const page = await context.newPage();
     this.pages.set(pageId, page);
+    page.once('close', () => {
+      if (this.pages.get(pageId) === page) this.pages.delete(pageId);
+    });
+    closePageOnAbort(page, signal);
     return page;
   }
 
-  getPage(pageId: string): Page | undefined {
-    return this.pages.get(pageId);
+  /** Looks up a page; passing the run's signal closes it if the run is cancelled. */
+  getPage(pageId: string, signal?: AbortSignal): Page | undefined {
+    const page = this.pages.get(pageId);
+    if (page) closePageOnAbort(page, signal);
+    return page;
   }
 
   getContext(contextId: string): BrowserContext | undefined {
@@ -1,7 +1,5 @@
-import { Tool, ToolResult, ToolParameter } from '../types.js';
+import { Tool, ToolResult, ToolParameter } from '@pixelmate/shared';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, Table, TableRow, TableCell, WidthType } from 'docx';
-import fs from 'fs/promises';
-import path from 'path';
 import { PathSandbox } from '../filesystem/sandbox.js';
 
 type ParamType = 'string' | 'number' | 'boolean' | 'object' | 'array';
@@ -106,11 +104,7 @@ function createTableBlock(block: TableBlock): Table {
 }
 
 export class CreateDocumentTool implements Tool {
-  private sandbox: PathSandbox;
-
-  constructor(workingDirectory: string) {
-    this.sandbox = new PathSandbox(workingDirectory);
-  }
+  constructor(private sandbox: PathSandbox) {}
 
   definition = {
     name: 'create_document',
@@ -123,7 +117,6 @@ export class CreateDocumentTool implements Tool {
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const filePath = this.sandbox.resolve(params.path as string);
       const content = params.content as DocumentContent;
 
       const children: (Paragraph | Table)[] = [];
@@ -164,11 +157,8 @@ export class CreateDocumentTool implements Tool {
         }],
       });
 
-      const dir = path.dirname(filePath);
-      await fs.mkdir(dir, { recursive: true });
-
       const buffer = await Packer.toBuffer(doc);
-      await fs.writeFile(filePath, buffer);
+      await this.sandbox.writeFile(params.path as string, buffer);
 
       return { success: true, output: `Document created: ${params.path}` };
     } catch (error) {
@@ -181,11 +171,7 @@ export class CreateDocumentTool implements Tool {
 }
 
 export class ConvertToDocumentTool implements Tool {
-  private sandbox: PathSandbox;
-
-  constructor(workingDirectory: string) {
-    this.sandbox = new PathSandbox(workingDirectory);
-  }
+  constructor(private sandbox: PathSandbox) {}
 
   definition = {
     name: 'convert_to_document',
@@ -199,11 +185,9 @@ export class ConvertToDocumentTool implements Tool {
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const filePath = this.sandbox.resolve(params.path as string);
-      const sourcePath = this.sandbox.resolve(params.sourcePath as string);
       const title = params.title as string | undefined;
 
-      const content = await fs.readFile(sourcePath, 'utf-8');
+      const content = (await this.sandbox.readFile(params.sourcePath as string)).toString('utf-8');
       const lines = content.split('\n');
       
       const children: (Paragraph | Table)[] = [];
@@ -292,11 +276,8 @@ export class ConvertToDocumentTool implements Tool {
         }],
       });
 
-      const dir = path.dirname(filePath);
-      await fs.mkdir(dir, { recursive: true });
-
       const buffer = await Packer.toBuffer(doc);
-      await fs.writeFile(filePath, buffer);
+      await this.sandbox.writeFile(params.path as string, buffer);
 
       return { success: true, output: `Document created from ${params.sourcePath}: ${params.path}` };
     } catch (error) {
@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { FileContent, FileStat, FileSystemBackend } from '@pixelmate/core';
+import { PathSandbox } from './sandbox.js';
+
+/**
+ * The local disk under a working directory, for the core file tools.
+ * '/' is the working directory itself; nothing outside it is reachable, and
+ * the sandbox's denylist, read-only mounts and size limit apply to every call.
+ */
+export class NodeFileSystem implements FileSystemBackend {
+  readonly name = 'local';
+
+  constructor(private sandbox: PathSandbox) {}
+
+  async readFile(filePath: string): Promise<string> {
+    return (await this.sandbox.readFile(filePath)).toString('utf-8');
+  }
+
+  async readBinary(filePath: string): Promise<Uint8Array> {
+    return new Uint8Array(await this.sandbox.readFile(filePath));
+  }
+
+  async writeFile(filePath: string, content: FileContent): Promise<void> {
+    if (typeof content === 'string') {
+      await this.sandbox.writeFile(filePath, content);
+    } else if (content instanceof Blob) {
+      await this.sandbox.writeFile(filePath, new Uint8Array(await content.arrayBuffer()));
+    } else {
+      await this.sandbox.writeFile(filePath, new Uint8Array(content));
+    }
+  }
+
+  async stat(filePath: string): Promise<FileStat> {
+    const target = await this.sandbox.resolve(filePath);
+    const stats = await fs.stat(target);
+    const virtual = this.toVirtual(filePath);
+    return {
+      path: virtual,
+      name: path.posix.basename(virtual),
+      type: stats.isDirectory() ? 'directory' : 'file',
+      size: stats.isDirectory() ? 0 : stats.size,
+      modifiedTime: stats.mtime.toISOString()
+    };
+  }
+
+  async listFiles(directory: string): Promise<FileStat[]> {
+    const dirPath = await this.sandbox.resolve(directory);
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+
+    // Protected entries are left out rather than listed and then refused
+    return await Promise.all(
+      entries
+        .filter(entry => !this.sandbox.isDenied(entry.name))
+        .map(entry => this.stat(path.posix.join(this.toVirtual(directory), entry.name)))
+    );
+  }
+
+  async createDirectory(dirPath: string): Promise<void> {
+    // A folder that is already there changes nothing, even one holding a read-only mount
+    const existing = await fs.stat(await this.sandbox.resolve(dirPath)).catch(() => undefined);
+    if (existing?.isDirectory()) return;
+    await fs.mkdir(await this.sandbox.resolve(dirPath, 'write'), { recursive: true });
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    const target = await this.sandbox.resolveEntry(filePath);
+    if (target === await this.sandbox.resolve('/')) {
+      throw new Error('Cannot delete the working directory');
+    }
+    // A link is removed itself, never what it points to
+    if ((await fs.lstat(target)).isSymbolicLink()) {
+      await fs.unlink(target);
+      return;
+    }
+    await this.sandbox.checkTree(filePath, target);
+    await fs.rm(target, { recursive: true });
+  }
+
+  async moveFile(from: string, to: string): Promise<void> {
+    const source = await this.sandbox.resolveEntry(from);
+    if (source === await this.sandbox.resolve('/')) {
+      throw new Error('Cannot move the working directory');
+    }
+    const destination = await this.sandbox.resolve(to, 'write');
+    // rename moves a link as it is, so only real folders are checked for protected entries
+    if (!(await fs.lstat(source)).isSymbolicLink()) {
+      await this.sandbox.checkTree(from, source);
+    }
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.rename(source, destination);
+  }
+
+  async copyFile(from: string, to: string): Promise<void> {
+    const source = await this.sandbox.resolve(from);
+    const destination = await this.sandbox.resolve(to, 'write');
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.cp(source, destination, {
+      recursive: true,
+      filter: entry => !this.sandbox.isDenied(path.basename(entry))
+    });
+  }
+
+  // The '/'-rooted path the tools use, as given, without following links
+  private toVirtual(filePath: string): string {
+    return path.posix.join('/', filePath);
+  }
+}
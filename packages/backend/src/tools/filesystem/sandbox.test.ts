@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PathSandbox } from './sandbox.js';
+import { NodeFileSystem } from './backend.js';
+import { CreateCsvTool, ReadCsvTool } from '../spreadsheet/index.js';
+
+// A working directory next to a sibling whose name starts with it, plus a folder outside both
+let base: string;
+let root: string;
+
+beforeEach(() => {
+  base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'pixelmate-sandbox-')));
+  root = path.join(base, 'workspace');
+  fs.mkdirSync(path.join(root, 'reference'), { recursive: true });
+  fs.mkdirSync(path.join(base, 'workspace-secrets'));
+  fs.mkdirSync(path.join(base, 'outside'));
+  fs.writeFileSync(path.join(base, 'workspace-secrets', 'token.txt'), 'secret');
+  fs.writeFileSync(path.join(base, 'outside', 'passwd'), 'root:x:0:0');
+  fs.writeFileSync(path.join(root, 'reference', 'guide.md'), '# Guide');
+  fs.writeFileSync(path.join(root, '.env'), 'API_KEY=1');
+});
+
+afterEach(() => {
+  fs.rmSync(base, { recursive: true, force: true });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Escapes
+// ──────────────────────────────────────────────────────────────
+
+describe('PathSandbox escapes', () => {
+  it('compares paths on segment boundaries', async () => {
+    const sandbox = new PathSandbox(root);
+    await expect(sandbox.resolve('../workspace-secrets/token.txt')).rejects.toThrow('outside the working directory');
+    await expect(sandbox.resolve('/reference/../../workspace-secrets')).rejects.toThrow('outside the working directory');
+    await expect(sandbox.resolve('/reference/guide.md')).resolves.toBe(path.join(root, 'reference', 'guide.md'));
+  });
+
+  it('follows symlinks before checking where a path leads', async () => {
+    fs.symlinkSync(path.join(base, 'outside'), path.join(root, 'escape'));
+    fs.symlinkSync(path.join(root, 'reference'), path.join(root, 'docs'));
+    const sandbox = new PathSandbox(root);
+
+    await expect(sandbox.readFile('/escape/passwd')).rejects.toThrow('leads outside the working directory');
+    await expect(sandbox.writeFile('/escape/new.txt', 'x')).rejects.toThrow('leads outside the working directory');
+    expect(fs.existsSync(path.join(base, 'outside', 'new.txt'))).toBe(false);
+    // Links that stay inside are fine
+    await expect(sandbox.readFile('/docs/guide.md')).resolves.toEqual(Buffer.from('# Guide'));
+  });
+
+  it('refuses to write through a link to nowhere', async () => {
+    fs.symlinkSync(path.join(base, 'outside', 'planted'), path.join(root, 'dangling'));
+    const sandbox = new PathSandbox(root);
+
+    await expect(sandbox.writeFile('/dangling', 'x')).rejects.toThrow('broken link');
+    expect(fs.existsSync(path.join(base, 'outside', 'planted'))).toBe(false);
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Denylist, read-only mounts and size limits
+// ──────────────────────────────────────────────────────────────
+
+describe('PathSandbox protections', () => {
+  it('protects denylisted names, however they are reached', async () => {
+    fs.symlinkSync(path.join(root, '.env'), path.join(root, 'settings.txt'));
+    const sandbox = new PathSandbox(root);
+
+    await expect(sandbox.readFile('/.env')).rejects.toThrow('".env", which is protected');
+    await expect(sandbox.writeFile('/project/.git/config', 'x')).rejects.toThrow('".git"');
+    await expect(sandbox.writeFile('/certs/Server.PEM', 'x')).rejects.toThrow('protected');
+    await expect(sandbox.readFile('/settings.txt')).rejects.toThrow('".env"');
+  });
+
+  it('takes a custom denylist', async () => {
+    const sandbox = new PathSandbox(root, { denylist: ['reference'] });
+    await expect(sandbox.readFile('/reference/guide.md')).rejects.toThrow('protected');
+    await expect(sandbox.readFile('/.env')).resolves.toBeDefined();
+  });
+
+  it('lets read-only mounts be read but not changed', async () => {
+    const sandbox = new PathSandbox(root, { readOnly: ['/reference'] });
+
+    await expect(sandbox.readFile('/reference/guide.md')).resolves.toBeDefined();
+    await expect(sandbox.writeFile('/reference/guide.md', 'x')).rejects.toThrow('read-only');
+    await expect(sandbox.resolve('/reference/new', 'write')).rejects.toThrow('read-only');
+    // Nor can a folder holding one be replaced wholesale
+    await expect(sandbox.resolve('/', 'write')).rejects.toThrow('read-only');
+    await expect(sandbox.writeFile('/notes.md', 'x')).resolves.toBe(path.join(root, 'notes.md'));
+  });
+
+  it('limits the size of files read and written', async () => {
+    fs.writeFileSync(path.join(root, 'big.bin'), Buffer.alloc(2048));
+    const sandbox = new PathSandbox(root, { maxFileSize: 1024 });
+
+    await expect(sandbox.readFile('/big.bin')).rejects.toThrow('over the 1024 byte limit');
+    await expect(sandbox.writeFile('/out.bin', new Uint8Array(1025))).rejects.toThrow('over the 1024 byte limit');
+    await expect(sandbox.writeFile('/out.bin', new Uint8Array(1024))).resolves.toBeDefined();
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Tools
+// ──────────────────────────────────────────────────────────────
+
+describe('tools behind the sandbox', () => {
+  it('NodeFileSystem hides protected entries and keeps read-only mounts', async () => {
+    const files = new NodeFileSystem(new PathSandbox(root, { readOnly: ['/reference'] }));
+
+    expect((await files.listFiles('/')).map(entry => entry.name).sort()).toEqual(['reference']);
+    await expect(files.deleteFile('/reference/guide.md')).rejects.toThrow('read-only');
+    await expect(files.moveFile('/reference/guide.md', '/guide.md')).rejects.toThrow('read-only');
+    await expect(files.createDirectory('/')).resolves.toBeUndefined();
+    await files.copyFile('/reference', '/copy');
+    expect(await files.readFile('/copy/guide.md')).toBe('# Guide');
+  });
+
+  it('refuses to delete or move a folder holding protected entries', async () => {
+    fs.mkdirSync(path.join(root, 'project', 'src'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'project', 'src', 'id_rsa'), 'key');
+    const files = new NodeFileSystem(new PathSandbox(root));
+
+    await expect(files.deleteFile('/project')).rejects.toThrow('"id_rsa", which is protected');
+    await expect(files.moveFile('/project', '/elsewhere')).rejects.toThrow('"id_rsa", which is protected');
+    await expect(files.deleteFile('/')).rejects.toThrow();
+    expect(fs.existsSync(path.join(root, 'project', 'src', 'id_rsa'))).toBe(true);
+    // Folders without one go as before
+    await files.deleteFile('/reference');
+    expect(fs.existsSync(path.join(root, 'reference'))).toBe(false);
+  });
+
+  it('deletes and moves links, not what they point to', async () => {
+    fs.symlinkSync(path.join(root, 'reference'), path.join(root, 'docs'));
+    fs.symlinkSync(path.join(root, 'reference', 'guide.md'), path.join(root, 'guide-link.md'));
+    const files = new NodeFileSystem(new PathSandbox(root));
+
+    await files.deleteFile('/docs');
+    await files.moveFile('/guide-link.md', '/moved-link.md');
+    expect(fs.existsSync(path.join(root, 'docs'))).toBe(false);
+    expect(fs.lstatSync(path.join(root, 'moved-link.md')).isSymbolicLink()).toBe(true);
+    expect(fs.readFileSync(path.join(root, 'reference', 'guide.md'), 'utf-8')).toBe('# Guide');
+
+    await files.deleteFile('/moved-link.md');
+    expect(fs.existsSync(path.join(root, 'reference', 'guide.md'))).toBe(true);
+  });
+
+  it('Office tools go through the same checks', async () => {
+    fs.symlinkSync(path.join(base, 'workspace-secrets'), path.join(root, 'linked'));
+    const sandbox = new PathSandbox(root, { readOnly: ['/reference'] });
+
+    const created = await new CreateCsvTool(sandbox).execute({ path: '/reference/out.csv', data: [['a']] });
+    expect(created).toMatchObject({ success: false, error: expect.stringContaining('read-only') });
+
+    const read = await new ReadCsvTool(sandbox).execute({ path: '/linked/token.txt' });
+    expect(read).toMatchObject({ success: false, error: expect.stringContaining('outside the working directory') });
+  });
+});
@@ -1,21 +1,147 @@
+import fs from 'fs/promises';
 import path from 'path';
 
+export type SandboxAccess = 'read' | 'write';
+
+export interface SandboxOptions {
+  // Paths under the working directory ('/reference') that can be read but not changed
+  readOnly?: string[];
+  // Names no path may lead through, matched per segment and case-insensitively; '*' matches anything
+  denylist?: string[];
+  // Largest file, in bytes, that can be read or written
+  maxFileSize?: number;
+}
+
+// Secrets and repository internals the agent has no business reading or changing
+export const DEFAULT_DENYLIST = [
+  '.env', '.env.*', '.git', '.ssh', '.aws', '.gnupg', '.npmrc', '.pixelmate-token',
+  '*.pem', '*.key', '*.p12', '*.pfx', 'id_rsa*', 'id_dsa*', 'id_ecdsa*', 'id_ed25519*'
+];
+
+export const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// Whether `target` is `root` or inside it; compared per segment, so '/x/workspace-secrets' is not inside '/x/workspace'
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * The working directory as the only part of the disk the tools may touch.
+ * Paths are resolved through symlinks before they are checked, so a link
+ * inside the working directory can't lead out of it, and every path is held
+ * to the denylist, the read-only mounts and the file size limit.
+ */
 export class PathSandbox {
   private workingDirectory: string;
+  private readOnly: string[];
+  private denylist: RegExp[];
+  private maxFileSize: number;
 
-  constructor(workingDirectory: string) {
+  constructor(workingDirectory: string, options: SandboxOptions = {}) {
     this.workingDirectory = path.resolve(workingDirectory);
+    this.readOnly = (options.readOnly ?? []).map(mount => this.lexical(mount));
+    this.denylist = (options.denylist ?? DEFAULT_DENYLIST).map(globToRegExp);
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
   }
 
-  resolve(relativePath: string): string {
-    const resolved = path.resolve(this.workingDirectory, relativePath);
-    
-    // Ensure the resolved path is within the working directory
-    if (!resolved.startsWith(this.workingDirectory)) {
-      throw new Error(`Access denied: Path "${relativePath}" is outside the working directory`);
+  /**
+   * The real disk path for a path under the working directory. A leading '/'
+   * refers to the working directory itself, as in the core file tools. Paths
+   * resolved for writing must not be in (or contain) a read-only mount.
+   */
+  async resolve(relativePath: string, access: SandboxAccess = 'read'): Promise<string> {
+    const target = this.lexical(relativePath);
+    this.checkDenylist(relativePath, target, this.workingDirectory);
+
+    const root = await this.realRoot();
+    const real = await this.realPath(target);
+    if (!isInside(root, real)) {
+      throw new Error(`Access denied: Path "${relativePath}" leads outside the working directory`);
+    }
+    this.checkDenylist(relativePath, real, root);
+
+    if (access === 'write') {
+      await this.checkWritable(relativePath, real);
+    }
+    return real;
+  }
+
+  /**
+   * The disk path of the entry itself, for deleting or moving it: links in
+   * the folders above it are followed, but a link at the end is the link,
+   * not what it points to.
+   */
+  async resolveEntry(relativePath: string): Promise<string> {
+    const target = this.lexical(relativePath);
+    this.checkDenylist(relativePath, target, this.workingDirectory);
+
+    const root = await this.realRoot();
+    const entry = target === this.workingDirectory
+      ? root
+      : path.join(await this.realPath(path.dirname(target)), path.basename(target));
+    if (!isInside(root, entry)) {
+      throw new Error(`Access denied: Path "${relativePath}" leads outside the working directory`);
+    }
+    this.checkDenylist(relativePath, entry, root);
+    await this.checkWritable(relativePath, entry);
+    return entry;
+  }
+
+  /**
+   * Refuses a folder holding a protected entry at any depth, so deleting or
+   * moving the folder can't take the entry with it. Links inside are not followed.
+   */
+  async checkTree(relativePath: string, target: string): Promise<void> {
+    const entries = await fs.readdir(target, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (this.isDenied(entry.name)) {
+        throw new Error(`Access denied: "${relativePath}" holds "${entry.name}", which is protected`);
+      }
+      if (entry.isDirectory()) {
+        await this.checkTree(relativePath, path.join(target, entry.name));
+      }
+    }
+  }
+
+  /** The disk path of an existing file to read, held to the size limit. */
+  async resolveFile(relativePath: string): Promise<string> {
+    const target = await this.resolve(relativePath);
+    const stats = await fs.stat(target);
+    if (!stats.isFile()) {
+      throw new Error('Not a file');
+    }
+    this.checkSize(stats.size, relativePath);
+    return target;
+  }
+
+  async readFile(relativePath: string): Promise<Buffer> {
+    return await fs.readFile(await this.resolveFile(relativePath));
+  }
+
+  /** Writes a file, creating its folder; returns the disk path written. */
+  async writeFile(relativePath: string, data: string | Uint8Array): Promise<string> {
+    const target = await this.resolve(relativePath, 'write');
+    this.checkSize(typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength, relativePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+    return target;
+  }
+
+  /** Whether a name found inside the working directory, e.g. while listing, is on the denylist. */
+  isDenied(name: string): boolean {
+    return this.denylist.some(pattern => pattern.test(name));
+  }
+
+  checkSize(bytes: number, relativePath: string): void {
+    if (bytes > this.maxFileSize) {
+      throw new Error(`File "${relativePath}" is ${bytes} bytes, over the ${this.maxFileSize} byte limit`);
     }
-    
-    return resolved;
   }
 
   getWorkingDirectory(): string {
@@ -23,7 +149,57 @@ export class PathSandbox {
   }
 
   isWithinSandbox(absolutePath: string): boolean {
-    const resolved = path.resolve(absolutePath);
-    return resolved.startsWith(this.workingDirectory);
+    return isInside(this.workingDirectory, path.resolve(absolutePath));
+  }
+
+  // Where the path points before links are followed
+  private lexical(relativePath: string): string {
+    const target = path.resolve(this.workingDirectory, `.${path.sep}${relativePath}`);
+    if (!isInside(this.workingDirectory, target)) {
+      throw new Error(`Access denied: Path "${relativePath}" is outside the working directory`);
+    }
+    return target;
+  }
+
+  // Neither in nor holding a read-only mount
+  private async checkWritable(relativePath: string, real: string): Promise<void> {
+    const mounts = await Promise.all(this.readOnly.map(mount => this.realPath(mount)));
+    if (mounts.some(mount => isInside(mount, real) || isInside(real, mount))) {
+      throw new Error(`Access denied: Path "${relativePath}" is read-only`);
+    }
+  }
+
+  private checkDenylist(relativePath: string, target: string, root: string): void {
+    const denied = path.relative(root, target).split(path.sep).find(segment => segment && this.isDenied(segment));
+    if (denied) {
+      throw new Error(`Access denied: "${relativePath}" leads through "${denied}", which is protected`);
+    }
+  }
+
+  private async realRoot(): Promise<string> {
+    return await fs.realpath(this.workingDirectory).catch(() => this.workingDirectory);
+  }
+
+  // Follows every link on the way to `target`; the parts that don't exist yet are appended as they are
+  private async realPath(target: string): Promise<string> {
+    const missing: string[] = [];
+    let existing = target;
+    for (;;) {
+      try {
+        await fs.lstat(existing);
+      } catch {
+        const parent = path.dirname(existing);
+        if (parent === existing) return target;
+        missing.unshift(path.basename(existing));
+        existing = parent;
+        continue;
+      }
+      try {
+        return path.join(await fs.realpath(existing), ...missing);
+      } catch {
+        // It exists but can't be resolved: a link to nowhere, which writing through would create
+        throw new Error(`Access denied: "/${path.relative(this.workingDirectory, existing)}" is a broken link`);
+      }
+    }
   }
 }
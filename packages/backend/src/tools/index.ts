@@ -1,3 +0,0 @@
-export type { Tool, ToolDefinition, ToolResult, ToolCall, ToolParameter } from './types.js';
-export { toolToMarkdown, createToolSchema } from './types.js';
-export { ToolRegistry } from './registry.js';
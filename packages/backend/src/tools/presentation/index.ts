@@ -1,7 +1,5 @@
-import { Tool, ToolResult, ToolParameter } from '../types.js';
+import { Tool, ToolResult, ToolParameter } from '@pixelmate/shared';
 import PptxGenJS from 'pptxgenjs';
-import fs from 'fs/promises';
-import path from 'path';
 import { PathSandbox } from '../filesystem/sandbox.js';
 
 type ParamType = 'string' | 'number' | 'boolean' | 'object' | 'array';
@@ -28,11 +26,7 @@ interface PresentationOptions {
 }
 
 export class CreatePresentationTool implements Tool {
-  private sandbox: PathSandbox;
-
-  constructor(workingDirectory: string) {
-    this.sandbox = new PathSandbox(workingDirectory);
-  }
+  constructor(private sandbox: PathSandbox) {}
 
   definition = {
     name: 'create_presentation',
@@ -46,7 +40,6 @@ export class CreatePresentationTool implements Tool {
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const filePath = this.sandbox.resolve(params.path as string);
       const slides = params.slides as SlideContent[];
       const options = (params.options as PresentationOptions) || {};
 
@@ -130,7 +123,7 @@ export class CreatePresentationTool implements Tool {
         }
 
         if (slideData.image) {
-          const imagePath = this.sandbox.resolve(slideData.image);
+          const imagePath = await this.sandbox.resolveFile(slideData.image);
           slide.addImage({ path: imagePath, x: 2, y: 2, w: 6, h: 4 });
         }
 
@@ -139,10 +132,8 @@ export class CreatePresentationTool implements Tool {
         }
       }
 
-      const dir = path.dirname(filePath);
-      await fs.mkdir(dir, { recursive: true });
-
-      await pres.writeFile({ fileName: filePath });
+      const buffer = await pres.write({ outputType: 'nodebuffer' }) as Buffer;
+      await this.sandbox.writeFile(params.path as string, buffer);
 
       return { success: true, output: `Presentation created: ${params.path} with ${slides.length} slides` };
     } catch (error) {
@@ -155,11 +146,7 @@ export class CreatePresentationTool implements Tool {
 }
 
 export class CreateSlidesFromOutlineTool implements Tool {
-  private sandbox: PathSandbox;
-
-  constructor(workingDirectory: string) {
-    this.sandbox = new PathSandbox(workingDirectory);
-  }
+  constructor(private sandbox: PathSandbox) {}
 
   definition = {
     name: 'create_slides_from_outline',
@@ -173,11 +160,9 @@ export class CreateSlidesFromOutlineTool implements Tool {
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const filePath = this.sandbox.resolve(params.path as string);
-      const sourcePath = this.sandbox.resolve(params.sourcePath as string);
       const options = (params.options as PresentationOptions) || {};
 
-      const content = await fs.readFile(sourcePath, 'utf-8');
+      const content = (await this.sandbox.readFile(params.sourcePath as string)).toString('utf-8');
       const lines = content.split('\n');
 
       const pres = new PptxGenJS();
@@ -256,10 +241,8 @@ export class CreateSlidesFromOutlineTool implements Tool {
 
       addCurrentSlide();
 
-      const dir = path.dirname(filePath);
-      await fs.mkdir(dir, { recursive: true });
-
-      await pres.writeFile({ fileName: filePath });
+      const buffer = await pres.write({ outputType: 'nodebuffer' }) as Buffer;
+      await this.sandbox.writeFile(params.path as string, buffer);
 
       return { success: true, output: `Presentation created from outline: ${params.path}` };
     } catch (error) {
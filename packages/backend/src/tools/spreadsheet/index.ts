@@ -1,7 +1,5 @@
-import { Tool, ToolResult, ToolParameter } from '../types.js';
+import { Tool, ToolResult, ToolParameter } from '@pixelmate/shared';
 import * as XLSX from 'xlsx';
-import fs from 'fs/promises';
-import path from 'path';
 import { PathSandbox } from '../filesystem/sandbox.js';
 
 type ParamType = 'string' | 'number' | 'boolean' | 'object' | 'array';
@@ -11,11 +9,7 @@ function param(name: string, description: string, type: ParamType, required: boo
 }
 
 export class CreateSpreadsheetTool implements Tool {
-  private sandbox: PathSandbox;
-
-  constructor(workingDirectory: string) {
-    this.sandbox = new PathSandbox(workingDirectory);
-  }
+  constructor(private sandbox: PathSandbox) {}
 
   definition = {
     name: 'create_spreadsheet',
@@ -29,7 +23,6 @@ export class CreateSpreadsheetTool implements Tool {
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const filePath = this.sandbox.resolve(params.path as string);
       const sheets = params.sheets as Array<{ name: string; data: unknown[][] }>;
       const options = (params.options as Record<string, unknown>) || {};
 
@@ -52,11 +45,8 @@ export class CreateSpreadsheetTool implements Tool {
         XLSX.utils.book_append_sheet(workbook, worksheet, sheetName.substring(0, 31));
       }
 
-      const dir = path.dirname(filePath);
-      await fs.mkdir(dir, { recursive: true });
-
       const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'buffer' });
-      await fs.writeFile(filePath, buffer);
+      await this.sandbox.writeFile(params.path as string, buffer);
 
       return { success: true, output: `Spreadsheet created: ${params.path} with ${sheets.length} sheet(s)` };
     } catch (error) {
@@ -69,14 +59,11 @@ export class CreateSpreadsheetTool implements Tool {
 }
 
 export class ReadSpreadsheetTool implements Tool {
-  private sandbox: PathSandbox;
-
-  constructor(workingDirectory: string) {
-    this.sandbox = new PathSandbox(workingDirectory);
-  }
+  constructor(private sandbox: PathSandbox) {}
 
   definition = {
     name: 'read_spreadsheet',
+    readOnly: true,
     description: 'Read data from an Excel spreadsheet and return it as JSON',
     parameters: [
       param('path', 'The path to the Excel file to read (relative to working directory)', 'string', true),
@@ -87,11 +74,10 @@ export class ReadSpreadsheetTool implements Tool {
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const filePath = this.sandbox.resolve(params.path as string);
       const sheetName = params.sheet as string | undefined;
       const asJson = params.asJson !== false;
 
-      const buffer = await fs.readFile(filePath);
+      const buffer = await this.sandbox.readFile(params.path as string);
       const workbook = XLSX.read(buffer, { type: 'buffer' });
 
       const result: Record<string, unknown> = {};
@@ -121,11 +107,7 @@ export class ReadSpreadsheetTool implements Tool {
 }
 
 export class CreateCsvTool implements Tool {
-  private sandbox: PathSandbox;
-
-  constructor(workingDirectory: string) {
-    this.sandbox = new PathSandbox(workingDirectory);
-  }
+  constructor(private sandbox: PathSandbox) {}
 
   definition = {
     name: 'create_csv',
@@ -139,7 +121,6 @@ export class CreateCsvTool implements Tool {
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const filePath = this.sandbox.resolve(params.path as string);
       const data = params.data as unknown[];
       const headers = params.headers as string[] | undefined;
 
@@ -190,10 +171,7 @@ export class CreateCsvTool implements Tool {
         }
       }
 
-      const dir = path.dirname(filePath);
-      await fs.mkdir(dir, { recursive: true });
-      
-      await fs.writeFile(filePath, csvContent, 'utf-8');
+      await this.sandbox.writeFile(params.path as string, csvContent);
 
       return { success: true, output: `CSV created: ${params.path} with ${data.length} rows` };
     } catch (error) {
@@ -206,14 +184,11 @@ export class CreateCsvTool implements Tool {
 }
 
 export class ReadCsvTool implements Tool {
-  private sandbox: PathSandbox;
-
-  constructor(workingDirectory: string) {
-    this.sandbox = new PathSandbox(workingDirectory);
-  }
+  constructor(private sandbox: PathSandbox) {}
 
   definition = {
     name: 'read_csv',
+    readOnly: true,
     description: 'Read a CSV file and return data as JSON',
     parameters: [
       param('path', 'The path to the CSV file to read (relative to working directory)', 'string', true),
@@ -223,10 +198,9 @@ export class ReadCsvTool implements Tool {
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const filePath = this.sandbox.resolve(params.path as string);
       const hasHeaders = params.hasHeaders !== false;
 
-      const content = await fs.readFile(filePath, 'utf-8');
+      const content = (await this.sandbox.readFile(params.path as string)).toString('utf-8');
       const lines = content.split('\n').filter(line => line.trim());
 
       if (lines.length === 0) {
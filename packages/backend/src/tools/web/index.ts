@@ -1,4 +1,5 @@
-import { Tool, ToolResult, ToolParameter } from '../types.js';
+import { Tool, ToolResult, ToolParameter, ToolExecutionContext } from '@pixelmate/shared';
+import { closePageOnAbort } from '../browser/manager.js';
 import { chromium, Browser, Page } from 'playwright';
 
 type ParamType = 'string' | 'number' | 'boolean' | 'object' | 'array';
@@ -28,6 +29,7 @@ async function getBrowser(): Promise<Browser> {
 export class WebSearchTool implements Tool {
   definition = {
     name: 'web_search',
+    readOnly: true,
     description: 'Search the web for information using Google. Returns top results with titles, URLs, and snippets.',
     parameters: [
       param('query', 'The search query', 'string', true),
@@ -35,13 +37,14 @@ export class WebSearchTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     const query = params.query as string;
     const numResults = (params.numResults as number) || 10;
 
     try {
       const playwrightBrowser = await getBrowser();
       const page = await playwrightBrowser.newPage();
+      closePageOnAbort(page, context?.signal);
       
       const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(query)}&num=${numResults}`;
       await page.goto(searchUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
@@ -90,6 +93,7 @@ export class WebSearchTool implements Tool {
 export class FetchWebPageTool implements Tool {
   definition = {
     name: 'fetch_web_page',
+    readOnly: true,
     description: 'Fetch and extract text content from a web page',
     parameters: [
       param('url', 'The URL of the web page to fetch', 'string', true),
@@ -97,13 +101,14 @@ export class FetchWebPageTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     const url = params.url as string;
     const selector = params.selector as string | undefined;
 
     try {
       const playwrightBrowser = await getBrowser();
       const page = await playwrightBrowser.newPage();
+      closePageOnAbort(page, context?.signal);
       
       await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
 
@@ -150,6 +155,7 @@ export class SummarizeWebSearchTool implements Tool {
 
   definition = {
     name: 'research_topic',
+    readOnly: true,
     description: 'Search the web for a topic and fetch detailed information from top results',
     parameters: [
       param('query', 'The research query', 'string', true),
@@ -157,7 +163,7 @@ export class SummarizeWebSearchTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     const query = params.query as string;
     const numSources = (params.numSources as number) || 3;
 
@@ -165,7 +171,7 @@ export class SummarizeWebSearchTool implements Tool {
       const searchResult = await this.searchTool.execute({
         query,
         numResults: numSources
-      });
+      }, context);
 
       if (!searchResult.success) {
         return searchResult;
@@ -175,7 +181,7 @@ export class SummarizeWebSearchTool implements Tool {
       const summaries: Array<{ title: string; url: string; content: string }> = [];
 
       for (const result of results.slice(0, numSources)) {
-        const fetchResult = await this.fetchTool.execute({ url: result.url });
+        const fetchResult = await this.fetchTool.execute({ url: result.url }, context);
         
         summaries.push({
           title: result.title,
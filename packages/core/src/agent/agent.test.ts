@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { Agent } from './agent.js';
+import { Agent, AgentCancelledError } from './agent.js';
 import { ToolRegistry } from '../tools/registry.js';
-import { LLMProvider, ChatOptions, ChatResponse, StreamingChunk, Tool } from '@pixelmate/shared';
+import { SecurityPolicy } from '../security/policy.js';
+import { ConfirmationGrants } from '../security/grants.js';
+import { LLMProvider, ChatOptions, ChatResponse, StreamingChunk, Tool, ToolCall, ToolInvocationRecord, ToolResultBlock } from '@pixelmate/shared';
 
 // ──────────────────────────────────────────────────────────────
 // Mock LLM Provider
@@ -73,6 +75,23 @@ describe('Agent', () => {
       // systemPrompt is private but reflected in first message after run
       expect(agent).toBeDefined();
     });
+
+    it('composes its system prompt from the registered tools and prompt layers', async () => {
+      const seen: ChatOptions[] = [];
+      const provider = makeMockProvider('ok');
+      provider.chat = async (options) => { seen.push(options); return { id: '', model: 'mock', content: 'ok' }; };
+      const agent = new Agent(provider, makeRegistryWithEchoTool(), {
+        workingDirectory: '/projects',
+        prompt: { skill: '# Email Skill', workspace: { filesystem: 'opfs' } },
+      });
+
+      await agent.run('hi');
+      const system = seen[0].messages[0].content as string;
+      expect(system).toContain('# Email Skill');
+      expect(system).toContain('- `message` (string) (required): msg');
+      expect(system).toContain('[TOOL_CALL]tool_name:');
+      expect(system).toContain('- Filesystem: opfs\n- Working directory: /projects');
+    });
   });
 
   describe('run() — simple question/answer', () => {
@@ -164,6 +183,47 @@ describe('Agent', () => {
       expect(result).toBe('Final answer.');
     });
 
+    it('parses tool calls whose parameters contain nested braces', async () => {
+      let callCount = 0;
+      const provider: LLMProvider = {
+        name: 'nested',
+        async chat(): Promise<ChatResponse> {
+          callCount++;
+          if (callCount === 1) {
+            return {
+              id: 'id-1', model: 'mock', content:
+                '[TOOL_CALL]echo: {"message":"{\\"a\\": {\\"b\\": 1}}","extra":{"x":{"y":2}}}[/TOOL_CALL]',
+            };
+          }
+          return { id: 'id-2', model: 'mock', content: 'Done.' };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+
+      const calls: Record<string, unknown>[] = [];
+      const agent = new Agent(provider, makeRegistryWithEchoTool());
+      agent.onEvent((ev) => {
+        if (ev.type === 'tool_call' && ev.toolCall) calls.push(ev.toolCall.parameters);
+      });
+
+      await agent.run('Nested');
+      expect(calls).toEqual([{ message: '{"a": {"b": 1}}', extra: { x: { y: 2 } } }]);
+    });
+
+    it('ignores JSON code blocks that are not TOOL_CALL markers', async () => {
+      const agent = new Agent(
+        makeMockProvider('Example:\n```json\n[{"name":"echo","parameters":{"message":"hi"}}]\n```'),
+        makeRegistryWithEchoTool()
+      );
+      const toolCalls: string[] = [];
+      agent.onEvent((ev) => {
+        if (ev.type === 'tool_call' && ev.toolCall) toolCalls.push(ev.toolCall.name);
+      });
+      await agent.run('Show an example');
+      expect(toolCalls).toHaveLength(0);
+    });
+
     it('generates a new ID on each run call', async () => {
       const agent = new Agent(makeMockProvider('ok'), makeEmptyRegistry());
       const id1 = agent.getId();
@@ -175,6 +235,299 @@ describe('Agent', () => {
       expect(id1).not.toBe(id2);
       expect(id2).not.toBe(id3);
     });
+
+    it('uses a preset taskId for the first run only', async () => {
+      const agent = new Agent(makeMockProvider('ok'), makeEmptyRegistry(), { taskId: 'task-1' });
+      expect(agent.getId()).toBe('task-1');
+      await agent.run('first');
+      expect(agent.getId()).toBe('task-1');
+      await agent.run('second');
+      expect(agent.getId()).not.toBe('task-1');
+    });
+  });
+
+  describe('run() — native tool calls', () => {
+    it('passes tool definitions to the provider', async () => {
+      const seen: ChatOptions[] = [];
+      const provider = makeMockProvider('ok');
+      const chat = provider.chat.bind(provider);
+      provider.chat = async (options) => { seen.push(options); return chat(options); };
+
+      const agent = new Agent(provider, makeRegistryWithEchoTool());
+      await agent.run('hi');
+      expect(seen[0].tools?.map(t => t.name)).toEqual(['echo']);
+    });
+
+    it('executes structured tool calls and ignores TOOL_CALL text', async () => {
+      let callCount = 0;
+      const provider: LLMProvider = {
+        name: 'native',
+        async chat(): Promise<ChatResponse> {
+          callCount++;
+          if (callCount === 1) {
+            return {
+              id: 'id-1', model: 'mock',
+              content: 'Calling echo. [TOOL_CALL]echo: {"message":"text"}[/TOOL_CALL]',
+              toolCalls: [{ id: 'call-1', name: 'echo', parameters: { message: 'native' } }],
+            };
+          }
+          return { id: 'id-2', model: 'mock', content: 'All done.', toolCalls: [] };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+
+      const outputs: string[] = [];
+      const agent = new Agent(provider, makeRegistryWithEchoTool());
+      agent.onEvent((ev) => {
+        if (ev.type === 'tool_result' && ev.toolResult?.output) outputs.push(ev.toolResult.output);
+      });
+
+      const result = await agent.run('Use echo natively');
+      expect(outputs).toEqual(['Echo: native']);
+      expect(result).toBe('All done.');
+    });
+
+    it('falls back to TOOL_CALL text when a native provider returns no calls', async () => {
+      let callCount = 0;
+      const provider: LLMProvider = {
+        name: 'native',
+        async chat(): Promise<ChatResponse> {
+          callCount++;
+          if (callCount === 1) {
+            return { id: 'id-1', model: 'mock', content: '[TOOL_CALL]echo: {"message":"text"}[/TOOL_CALL]', toolCalls: [] };
+          }
+          return { id: 'id-2', model: 'mock', content: 'All done.', toolCalls: [] };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+
+      const outputs: string[] = [];
+      const agent = new Agent(provider, makeRegistryWithEchoTool());
+      agent.onEvent((ev) => {
+        if (ev.type === 'tool_result' && ev.toolResult?.output) outputs.push(ev.toolResult.output);
+      });
+
+      expect(await agent.run('Use echo')).toBe('All done.');
+      expect(outputs).toEqual(['Echo: text']);
+    });
+
+    it('answers a call with unparseable arguments with an error instead of running it', async () => {
+      const seen: ChatOptions[] = [];
+      const provider: LLMProvider = {
+        name: 'native',
+        async chat(options: ChatOptions): Promise<ChatResponse> {
+          seen.push({ ...options, messages: [...options.messages] });
+          return seen.length === 1
+            ? { id: 'id-1', model: 'mock', content: '', toolCalls: [{ id: 'call-1', name: 'echo', parameters: {}, parseError: 'Arguments are not valid JSON' }] }
+            : { id: 'id-2', model: 'mock', content: 'Retried.', toolCalls: [] };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+      const execute = vi.fn();
+      const registry = new ToolRegistry();
+      registry.register({ definition: { name: 'echo', description: 'Echo', parameters: [] }, execute });
+
+      await new Agent(provider, registry).run('Use echo');
+      expect(execute).not.toHaveBeenCalled();
+      const history = JSON.stringify(seen[1].messages);
+      expect(history).toContain('"isError":true');
+      expect(history).toContain('Arguments are not valid JSON. Call echo again with its arguments as one JSON object.');
+    });
+
+    it('pairs tool_use and tool_result blocks in the history', async () => {
+      let callCount = 0;
+      const provider: LLMProvider = {
+        name: 'native',
+        async chat(): Promise<ChatResponse> {
+          callCount++;
+          if (callCount === 1) {
+            return {
+              id: 'id-1', model: 'mock', content: 'Let me check.',
+              toolCalls: [{ id: 'call-1', name: 'echo', parameters: { message: 'hi' } }],
+            };
+          }
+          return { id: 'id-2', model: 'mock', content: 'Done.', toolCalls: [] };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+
+      const agent = new Agent(provider, makeRegistryWithEchoTool());
+      await agent.run('Echo hi');
+      const [, , assistant, results, final] = agent.getMessages();
+
+      expect(assistant).toEqual({
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'call-1', name: 'echo', input: { message: 'hi' } },
+        ],
+      });
+      expect(results).toEqual({
+        role: 'user',
+        content: [{ type: 'tool_result', toolUseId: 'call-1', content: 'Echo: hi' }],
+      });
+      expect(final).toEqual({ role: 'assistant', content: 'Done.' });
+    });
+  });
+
+  describe('continue() — multi-turn conversations', () => {
+    function makeRecordingProvider(seen: ChatOptions[]): LLMProvider {
+      const provider = makeMockProvider('ok');
+      provider.chat = async (options) => {
+        seen.push({ ...options, messages: [...options.messages] });
+        return { id: 'id', model: 'mock', content: `reply ${seen.length}` };
+      };
+      return provider;
+    }
+
+    it('keeps the history of the previous run', async () => {
+      const seen: ChatOptions[] = [];
+      const agent = new Agent(makeRecordingProvider(seen), makeEmptyRegistry());
+      await agent.run('first');
+      const result = await agent.continue('second');
+
+      expect(result).toBe('reply 2');
+      expect(seen[1].messages.slice(1)).toEqual([
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: 'reply 1' },
+        { role: 'user', content: 'second' },
+      ]);
+    });
+
+    it('behaves like run() when there is no history', async () => {
+      const seen: ChatOptions[] = [];
+      const agent = new Agent(makeRecordingProvider(seen), makeEmptyRegistry());
+      await agent.continue('hello');
+      expect(seen[0].messages.map(m => m.role)).toEqual(['system', 'user']);
+    });
+
+    it('rehydrates from stored history and replaces stored system messages', async () => {
+      const seen: ChatOptions[] = [];
+      const agent = new Agent(makeRecordingProvider(seen), makeEmptyRegistry(), {
+        systemPrompt: 'Current prompt',
+        history: [
+          { role: 'system', content: 'Old prompt' },
+          { role: 'user', content: 'earlier question' },
+          { role: 'assistant', content: 'earlier answer' },
+        ],
+      });
+      await agent.continue('follow-up');
+
+      expect(seen[0].messages).toEqual([
+        { role: 'system', content: 'Current prompt' },
+        { role: 'user', content: 'earlier question' },
+        { role: 'assistant', content: 'earlier answer' },
+        { role: 'user', content: 'follow-up' },
+      ]);
+    });
+
+    it('answers tool calls left unanswered by a cancelled turn', async () => {
+      const seen: ChatOptions[] = [];
+      const agent = new Agent(makeRecordingProvider(seen), makeEmptyRegistry(), {
+        history: [
+          { role: 'user', content: 'echo hi' },
+          { role: 'assistant', content: [{ type: 'tool_use', id: 'call-1', name: 'echo', input: {} }] },
+        ],
+      });
+      await agent.continue('never mind');
+
+      expect(seen[0].messages[3]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', toolUseId: 'call-1', content: 'Tool call was cancelled', isError: true },
+          { type: 'text', text: 'never mind' },
+        ],
+      });
+    });
+
+    it('can continue after a cancelled run', async () => {
+      const provider: LLMProvider = {
+        name: 'slow-then-fast',
+        chat: (options) => options.messages[options.messages.length - 1].content === 'wait'
+          ? new Promise<ChatResponse>(() => {})
+          : Promise.resolve({ id: 'id', model: 'mock', content: 'back again' }),
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+      const agent = new Agent(provider, makeEmptyRegistry());
+      const run = agent.run('wait');
+      agent.cancel();
+      await expect(run).rejects.toBeInstanceOf(AgentCancelledError);
+
+      await expect(agent.continue('again')).resolves.toBe('back again');
+      expect(agent.getState()).toBe('done');
+    });
+  });
+
+  describe('run() — streaming', () => {
+    it('emits text_delta events and returns the assembled text', async () => {
+      const provider: LLMProvider = {
+        name: 'streamer',
+        async chat(): Promise<ChatResponse> { throw new Error('chat should not be called'); },
+        async *chatStream(): AsyncGenerator<StreamingChunk> {
+          yield { id: 's-1', delta: 'Hel', done: false };
+          yield { id: 's-1', delta: 'lo!', done: false };
+          yield { id: 's-1', delta: '', done: true, toolCalls: [] };
+        },
+        async listModels() { return []; },
+      };
+
+      const deltas: string[] = [];
+      const thoughts: string[] = [];
+      const agent = new Agent(provider, makeEmptyRegistry(), { stream: true });
+      agent.onEvent((ev) => {
+        if (ev.type === 'text_delta' && ev.delta) deltas.push(ev.delta);
+        if (ev.type === 'thought' && ev.thought) thoughts.push(ev.thought);
+      });
+
+      const result = await agent.run('Greet me');
+      expect(deltas).toEqual(['Hel', 'lo!']);
+      expect(thoughts).toEqual(['Hello!']);
+      expect(result).toBe('Hello!');
+    });
+
+    it('forwards tool_call_delta events and runs the assembled tool calls', async () => {
+      let callCount = 0;
+      const provider: LLMProvider = {
+        name: 'streamer',
+        async chat(): Promise<ChatResponse> { throw new Error('chat should not be called'); },
+        async *chatStream(): AsyncGenerator<StreamingChunk> {
+          callCount++;
+          if (callCount === 1) {
+            yield { id: 's-1', delta: '', done: false, toolCallDelta: { index: 0, id: 'call-1', name: 'echo' } };
+            yield { id: 's-1', delta: '', done: false, toolCallDelta: { index: 0, argumentsDelta: '{"message":' } };
+            yield { id: 's-1', delta: '', done: false, toolCallDelta: { index: 0, argumentsDelta: '"streamed"}' } };
+            yield {
+              id: 's-1', delta: '', done: true,
+              toolCalls: [{ id: 'call-1', name: 'echo', parameters: { message: 'streamed' } }],
+            };
+          } else {
+            yield { id: 's-2', delta: 'Done.', done: false };
+            yield { id: 's-2', delta: '', done: true, toolCalls: [] };
+          }
+        },
+        async listModels() { return []; },
+      };
+
+      const fragments: string[] = [];
+      const outputs: string[] = [];
+      const agent = new Agent(provider, makeRegistryWithEchoTool(), { stream: true });
+      agent.onEvent((ev) => {
+        if (ev.type === 'tool_call_delta' && ev.toolCallDelta?.argumentsDelta) {
+          fragments.push(ev.toolCallDelta.argumentsDelta);
+        }
+        if (ev.type === 'tool_result' && ev.toolResult?.output) outputs.push(ev.toolResult.output);
+      });
+
+      const result = await agent.run('Echo');
+      expect(fragments.join('')).toBe('{"message":"streamed"}');
+      expect(outputs).toEqual(['Echo: streamed']);
+      expect(result).toBe('Done.');
+    });
   });
 
   describe('event handlers', () => {
@@ -233,13 +586,428 @@ describe('Agent', () => {
 
       const agent = new Agent(provider, registry, { confirmationHandler: confirmSpy });
       await agent.run('Write something');
-      expect(confirmSpy).toHaveBeenCalledWith('write_file', expect.any(Object));
+      expect(confirmSpy).toHaveBeenCalledWith('write_file', expect.any(Object), expect.objectContaining({ action: 'confirm' }));
+    });
+
+    it('runs the call with the parameters of an approving decision and tells the model', async () => {
+      const seen: ChatOptions[] = [];
+      const provider: LLMProvider = {
+        name: 'edit',
+        async chat(options: ChatOptions): Promise<ChatResponse> {
+          seen.push(options);
+          return seen.length === 1
+            ? { id: '1', model: 'mock', content: '', toolCalls: [{ id: 'c1', name: 'write_file', parameters: { path: '/x', content: 'draft', tags: ['notes'] } }] }
+            : { id: '2', model: 'mock', content: 'Done.', toolCalls: [] };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+      const written: unknown[] = [];
+      const registry = new ToolRegistry();
+      registry.register({
+        definition: { name: 'write_file', description: 'Write a file', parameters: [] },
+        async execute(params) { written.push(params.content); return { success: true, output: 'written' }; },
+      });
+
+      const agent = new Agent(provider, registry, {
+        // A copy, as decisions from the UI arrive over a message channel
+        confirmationHandler: async (_name, params) => ({ approved: true, parameters: { ...JSON.parse(JSON.stringify(params)), content: 'final' } }),
+      });
+      await agent.run('Write something');
+
+      expect(written).toEqual(['final']);
+      // The unchanged array is not reported
+      expect(JSON.stringify(seen[1].messages)).toContain('The user edited content before approving this call.');
+    });
+  });
+
+  describe('parallel tool calls', () => {
+    function makeTurnProvider(toolCalls: ToolCall[]): LLMProvider {
+      let callCount = 0;
+      return {
+        name: 'batch',
+        async chat(): Promise<ChatResponse> {
+          callCount++;
+          return callCount === 1
+            ? { id: '1', model: 'mock', content: '', toolCalls }
+            : { id: '2', model: 'mock', content: 'Done.', toolCalls: [] };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+    }
+
+    /** Tools that log start/end and finish after `delays[name]` ms */
+    function makeTimedRegistry(log: string[], delays: Record<string, number>, readOnly: Record<string, boolean>): ToolRegistry {
+      const registry = new ToolRegistry();
+      for (const name of Object.keys(delays)) {
+        registry.register({
+          definition: { name, description: name, parameters: [], readOnly: readOnly[name] },
+          async execute(params) {
+            log.push(`start ${name}:${params.n}`);
+            await new Promise(resolve => setTimeout(resolve, delays[name]));
+            log.push(`end ${name}:${params.n}`);
+            return { success: true, output: `${name}:${params.n}` };
+          },
+        });
+      }
+      return registry;
+    }
+
+    it('runs consecutive read-only calls concurrently and keeps results in call order', async () => {
+      const log: string[] = [];
+      const registry = makeTimedRegistry(log, { slow_read: 20, fast_read: 1 }, { slow_read: true, fast_read: true });
+      const agent = new Agent(makeTurnProvider([
+        { id: 'a', name: 'slow_read', parameters: { n: 1 } },
+        { id: 'b', name: 'fast_read', parameters: { n: 2 } },
+      ]), registry);
+
+      await agent.run('read both');
+      expect(log).toEqual(['start slow_read:1', 'start fast_read:2', 'end fast_read:2', 'end slow_read:1']);
+
+      const results = agent.getMessages()[3].content as ToolResultBlock[];
+      expect(results.map(r => [r.toolUseId, r.content])).toEqual([['a', 'slow_read:1'], ['b', 'fast_read:2']]);
+    });
+
+    it('runs side-effecting calls one at a time, in order', async () => {
+      const log: string[] = [];
+      const registry = makeTimedRegistry(log, { read: 5, write: 1 }, { read: true, write: false });
+      const agent = new Agent(makeTurnProvider([
+        { id: 'a', name: 'read', parameters: { n: 1 } },
+        { id: 'b', name: 'write', parameters: { n: 2 } },
+        { id: 'c', name: 'write', parameters: { n: 3 } },
+        { id: 'd', name: 'read', parameters: { n: 4 } },
+      ]), registry);
+
+      await agent.run('mixed');
+      expect(log).toEqual([
+        'start read:1', 'end read:1',
+        'start write:2', 'end write:2',
+        'start write:3', 'end write:3',
+        'start read:4', 'end read:4',
+      ]);
+    });
+
+    it('respects the toolConcurrency limit', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      const registry = new ToolRegistry();
+      registry.register({
+        definition: { name: 'read', description: 'read', parameters: [], readOnly: true },
+        async execute() {
+          peak = Math.max(peak, ++inFlight);
+          await new Promise(resolve => setTimeout(resolve, 2));
+          inFlight--;
+          return { success: true, output: 'ok' };
+        },
+      });
+      const calls = Array.from({ length: 6 }, (_, i) => ({ id: `c${i}`, name: 'read', parameters: {} }));
+      const agent = new Agent(makeTurnProvider(calls), registry, { toolConcurrency: 2 });
+
+      await agent.run('many reads');
+      expect(peak).toBe(2);
+    });
+
+    it('includes the originating call in tool_result events', async () => {
+      const log: string[] = [];
+      const registry = makeTimedRegistry(log, { slow_read: 10, fast_read: 1 }, { slow_read: true, fast_read: true });
+      const agent = new Agent(makeTurnProvider([
+        { id: 'a', name: 'slow_read', parameters: { n: 1 } },
+        { id: 'b', name: 'fast_read', parameters: { n: 2 } },
+      ]), registry);
+      const resultIds: string[] = [];
+      agent.onEvent((ev) => { if (ev.type === 'tool_result' && ev.toolCall) resultIds.push(ev.toolCall.id); });
+
+      await agent.run('read both');
+      expect(resultIds).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('invocation log', () => {
+    function makeToolCallingProvider(toolCalls: ToolCall[]): LLMProvider {
+      let callCount = 0;
+      return {
+        name: 'tool-caller',
+        async chat(): Promise<ChatResponse> {
+          callCount++;
+          return callCount === 1
+            ? { id: '1', model: 'mock', content: '', toolCalls }
+            : { id: '2', model: 'mock', content: 'Done.', toolCalls: [] };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+    }
+
+    it('records each tool call with its outcome and timing', async () => {
+      const records: ToolInvocationRecord[] = [];
+      const agent = new Agent(
+        makeToolCallingProvider([{ id: 'call-1', name: 'echo', parameters: { message: 'hi' } }]),
+        makeRegistryWithEchoTool(),
+        { invocationLog: { record: (r) => { records.push(r); } } }
+      );
+      await agent.run('Echo hi');
+      await Promise.resolve();
+
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({
+        toolCallId: 'call-1',
+        taskId: agent.getId(),
+        toolName: 'echo',
+        parameters: { message: 'hi' },
+        confirmation: 'not_required',
+        success: true,
+        outputSize: 'Echo: hi'.length,
+      });
+      expect(records[0].durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('records denied confirmations', async () => {
+      const records: ToolInvocationRecord[] = [];
+      const registry = new ToolRegistry();
+      registry.register({
+        definition: { name: 'delete_file', description: 'Delete', parameters: [] },
+        async execute() { return { success: true, output: 'deleted' }; },
+      });
+      const agent = new Agent(
+        makeToolCallingProvider([{ id: 'call-1', name: 'delete_file', parameters: { path: '/a' } }]),
+        registry,
+        { confirmationHandler: async () => false, invocationLog: { record: (r) => { records.push(r); } } }
+      );
+      await agent.run('Delete /a');
+      await Promise.resolve();
+
+      expect(records[0]).toMatchObject({ confirmation: 'denied', success: false, error: 'Confirmation denied by user', outputSize: 0 });
+    });
+
+    it('refuses calls the policy denies without asking', async () => {
+      const records: ToolInvocationRecord[] = [];
+      const confirmSpy = vi.fn().mockResolvedValue(true);
+      const execute = vi.fn().mockResolvedValue({ success: true, output: 'deleted' });
+      const registry = new ToolRegistry();
+      registry.register({ definition: { name: 'delete_file', description: 'Delete', parameters: [] }, execute });
+      const agent = new Agent(
+        makeToolCallingProvider([{ id: 'call-1', name: 'delete_file', parameters: { path: '/finance/q3.xlsx' } }]),
+        registry,
+        {
+          policy: new SecurityPolicy([{ tool: '*', paths: ['/finance/**'], action: 'deny', description: 'Finance files are read-only' }]),
+          confirmationHandler: confirmSpy,
+          invocationLog: { record: (r) => { records.push(r); } },
+        }
+      );
+      await agent.run('Delete the Q3 numbers');
+      await Promise.resolve();
+
+      expect(confirmSpy).not.toHaveBeenCalled();
+      expect(execute).not.toHaveBeenCalled();
+      expect(records[0]).toMatchObject({ confirmation: 'blocked', success: false, error: 'Blocked by security policy: Finance files are read-only' });
+    });
+
+    it('runs calls a remembered approval covers without asking again', async () => {
+      const records: ToolInvocationRecord[] = [];
+      const confirmSpy = vi.fn().mockResolvedValue({ approved: true, remember: 'matching' });
+      const execute = vi.fn().mockResolvedValue({ success: true, output: 'written' });
+      const registry = new ToolRegistry();
+      registry.register({ definition: { name: 'write_file', description: 'Write', parameters: [] }, execute });
+      const grants = new ConfirmationGrants();
+      const agent = new Agent(
+        makeToolCallingProvider([
+          { id: 'call-1', name: 'write_file', parameters: { path: '/reports/q3.md', content: 'a' } },
+          { id: 'call-2', name: 'write_file', parameters: { path: '/reports/q4.md', content: 'b' } },
+        ]),
+        registry,
+        { grants, confirmationHandler: confirmSpy, invocationLog: { record: (r) => { records.push(r); } } }
+      );
+      await agent.run('Write both reports');
+      await Promise.resolve();
+
+      expect(confirmSpy).toHaveBeenCalledTimes(1);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(records.map(r => r.confirmation)).toEqual(['approved', 'granted']);
+      expect(await grants.list()).toEqual([expect.objectContaining({ tool: 'write_file', scope: 'matching', paths: ['/reports/**'] })]);
+    });
+
+    it('lets approvals for the task lapse when the task ends', async () => {
+      const confirmSpy = vi.fn().mockResolvedValue({ approved: true, remember: 'task' });
+      const execute = vi.fn().mockResolvedValue({ success: true, output: 'written' });
+      const registry = new ToolRegistry();
+      registry.register({ definition: { name: 'write_file', description: 'Write', parameters: [] }, execute });
+      const grants = new ConfirmationGrants();
+      const agent = new Agent(
+        makeToolCallingProvider([
+          { id: 'call-1', name: 'write_file', parameters: { path: '/a.md', content: 'a' } },
+          { id: 'call-2', name: 'write_file', parameters: { path: '/b.md', content: 'b' } },
+        ]),
+        registry,
+        { grants, confirmationHandler: confirmSpy }
+      );
+      await agent.run('Write both files');
+
+      expect(confirmSpy).toHaveBeenCalledTimes(1);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(await grants.list()).toEqual([]);
+    });
+
+    it('does not fail the run when the log throws', async () => {
+      const agent = new Agent(
+        makeToolCallingProvider([{ id: 'call-1', name: 'echo', parameters: { message: 'hi' } }]),
+        makeRegistryWithEchoTool(),
+        { invocationLog: { record: () => { throw new Error('disk full'); } } }
+      );
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      await expect(agent.run('Echo hi')).resolves.toBe('Done.');
+      await Promise.resolve();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('image results', () => {
+    function makeImageRun(supportsImages?: (model: string) => boolean) {
+      const seen: ChatOptions[] = [];
+      const provider: LLMProvider = {
+        name: 'vision',
+        async chat(options): Promise<ChatResponse> {
+          seen.push(options);
+          return seen.length === 1
+            ? { id: '1', model: 'mock', content: '', toolCalls: [{ id: 'call-1', name: 'read_file', parameters: { path: '/logo.png' } }] }
+            : { id: '2', model: 'mock', content: 'A logo.', toolCalls: [] };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+        ...(supportsImages && { supportsImages }),
+      };
+      const registry = new ToolRegistry();
+      registry.register({
+        definition: { name: 'read_file', description: 'Read', parameters: [], readOnly: true },
+        async execute() {
+          return { success: true, output: '{"kind":"image"}', metadata: { mimeType: 'image/png', base64: 'iVBORw0KGgo=' } };
+        },
+      });
+      const resultBlock = () => seen[1].messages
+        .flatMap(m => (typeof m.content === 'string' ? [] : m.content))
+        .find((block): block is ToolResultBlock => block.type === 'tool_result')!;
+      return { agent: new Agent(provider, registry), resultBlock };
+    }
+
+    it('sends images as image blocks to models that take them', async () => {
+      const { agent, resultBlock } = makeImageRun(model => model === 'claude-sonnet-4');
+      await agent.run('Describe the logo');
+
+      expect(resultBlock().content).toEqual([
+        { type: 'text', text: '{"kind":"image"}' },
+        { type: 'image', mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+      ]);
+    });
+
+    it('leaves the image out for providers that do not say they take images', async () => {
+      const { agent, resultBlock } = makeImageRun();
+      await agent.run('Describe the logo');
+
+      expect(resultBlock().content).toBe('{"kind":"image"}\n\n(The image itself is not shown: this model does not accept images.)');
     });
   });
 
   describe('cancel()', () => {
-    it('sets state to done when cancel is called', async () => {
+    it('sets state to cancelled when cancel is called', async () => {
+      const agent = new Agent(makeMockProvider('ok'), makeEmptyRegistry());
+      agent.cancel();
+      expect(agent.getState()).toBe('cancelled');
+    });
+
+    it('rejects a run that starts after cancel() without calling the provider', async () => {
+      const chat = vi.fn(async (): Promise<ChatResponse> => ({ id: 'id', model: 'mock', content: 'ok' }));
+      const provider: LLMProvider = {
+        name: 'counting',
+        chat,
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+      const agent = new Agent(provider, makeEmptyRegistry());
+      agent.cancel();
+
+      await expect(agent.run('too late')).rejects.toBeInstanceOf(AgentCancelledError);
+      expect(agent.getState()).toBe('cancelled');
+      expect(chat).not.toHaveBeenCalled();
+
+      await expect(agent.run('again')).resolves.toBe('ok');
+    });
+
+    it('aborts an in-flight provider request and rejects with AgentCancelledError', async () => {
+      let seenSignal: AbortSignal | undefined;
+      const provider: LLMProvider = {
+        name: 'slow',
+        chat(options: ChatOptions): Promise<ChatResponse> {
+          seenSignal = options.signal;
+          return new Promise(() => {}); // never resolves
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+
+      const agent = new Agent(provider, makeEmptyRegistry());
+      const states: string[] = [];
+      agent.onEvent((ev) => { if (ev.type === 'state_change' && ev.state) states.push(ev.state); });
+
+      const run = agent.run('wait forever');
+      await Promise.resolve();
+      agent.cancel();
+
+      await expect(run).rejects.toBeInstanceOf(AgentCancelledError);
+      expect(seenSignal?.aborted).toBe(true);
+      expect(agent.getState()).toBe('cancelled');
+      expect(states).not.toContain('error');
+    });
+
+    it('passes the abort signal to tools and stops before the next turn', async () => {
+      let toolSignal: AbortSignal | undefined;
+      let chatCalls = 0;
+      const provider: LLMProvider = {
+        name: 'tool-caller',
+        async chat(): Promise<ChatResponse> {
+          chatCalls++;
+          return {
+            id: 'id', model: 'mock', content: '',
+            toolCalls: [{ id: 'call-1', name: 'slow', parameters: {} }],
+          };
+        },
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+
+      const registry = new ToolRegistry();
+      const agent = new Agent(provider, registry);
+      registry.register({
+        definition: { name: 'slow', description: 'never finishes', parameters: [] },
+        execute(_params, context) {
+          toolSignal = context?.signal;
+          agent.cancel();
+          return new Promise(() => {});
+        },
+      });
+
+      await expect(agent.run('go')).rejects.toBeInstanceOf(AgentCancelledError);
+      expect(toolSignal?.aborted).toBe(true);
+      expect(chatCalls).toBe(1);
+    });
+
+    it('cancels when the signal passed to run() aborts', async () => {
+      const controller = new AbortController();
+      const provider: LLMProvider = {
+        name: 'slow',
+        chat: () => new Promise<ChatResponse>(() => {}),
+        async *chatStream() { yield { id: '', delta: '', done: true }; },
+        async listModels() { return []; },
+      };
+      const agent = new Agent(provider, makeEmptyRegistry());
+      const run = agent.run('wait', undefined, controller.signal);
+      controller.abort();
+      await expect(run).rejects.toBeInstanceOf(AgentCancelledError);
+      expect(agent.getState()).toBe('cancelled');
+    });
+
+    it('is a no-op once the run has finished', async () => {
       const agent = new Agent(makeMockProvider('ok'), makeEmptyRegistry());
+      await agent.run('hi');
       agent.cancel();
       expect(agent.getState()).toBe('done');
     });
@@ -1,21 +1,70 @@
-import { Message, ToolCall, ToolResult, LLMProvider } from '@pixelmate/shared';
+import { Message, ToolCall, ToolResult, ToolConfirmation, ToolInvocationRecord, LLMProvider, ContentBlock, ToolResultBlock, ToolUseBlock, ChatOptions, ChatResponse, ToolCallDelta } from '@pixelmate/shared';
 import { ToolRegistry } from '../tools/registry.js';
+import { isImageResult } from '../tools/binary.js';
+import { ContextManager, ContextManagerOptions } from './context.js';
+import { composeSystemPrompt, SystemPromptLayers } from './prompt.js';
+import { parseToolArguments } from '../providers/tool-calls.js';
+import type { AgentEnvironment } from './environment.js';
+import { PolicyDecision, SecurityPolicy } from '../security/policy.js';
+import { ConfirmationGrants, GrantScope } from '../security/grants.js';
 
-export type AgentState = 'idle' | 'thinking' | 'acting' | 'done' | 'error';
+export type AgentState = 'idle' | 'thinking' | 'acting' | 'done' | 'error' | 'cancelled';
 
 export interface AgentOptions {
+  // Used as the whole system prompt instead of composing one from `prompt`
   systemPrompt?: string;
+  // Layers of the composed system prompt; the tool catalog and working directory are filled in by default
+  prompt?: SystemPromptLayers;
   maxTurns?: number;
   workingDirectory?: string;
   model?: string;
   provider?: LLMProvider;
-  confirmationHandler?: (toolName: string, params: Record<string, unknown>) => Promise<boolean>;
+  // Use chatStream and emit text_delta / tool_call_delta events as tokens arrive
+  stream?: boolean;
+  // Prior conversation to rehydrate from; stored system messages are replaced by systemPrompt
+  history?: Message[];
+  confirmationHandler?: ConfirmationHandler;
+  // Receives a record of every tool call, e.g. to persist it for session replay
+  invocationLog?: ToolInvocationLog;
+  // How the history is kept within the model's context window; truncates old tool outputs by default
+  context?: ContextManagerOptions;
+  // Maximum read-only tool calls run at once (default 4)
+  toolConcurrency?: number;
+  // Runtime the agent works in; supplies the workspace facts
+  environment?: AgentEnvironment;
+  // Which tool calls run, wait for confirmationHandler or are refused; the built-in rules by default
+  policy?: SecurityPolicy;
+  // Standing approvals consulted before asking, and recorded when the user chooses to remember an answer
+  grants?: ConfirmationGrants;
+  // ID of the first task, e.g. one the caller already handed out; later run() calls generate their own
+  taskId?: string;
+}
+
+/** The user's answer to a confirmation; `parameters` replaces the call's own, e.g. with edited content. */
+export interface ConfirmationDecision {
+  approved: boolean;
+  parameters?: Record<string, unknown>;
+  // Approve calls like this one from now on, too; 'once' is the same as leaving it out
+  remember?: GrantScope;
+}
+
+export type ConfirmationHandler = (
+  toolName: string,
+  params: Record<string, unknown>,
+  // The policy's verdict, with the danger level and description to show the user
+  decision: PolicyDecision
+) => Promise<boolean | ConfirmationDecision>;
+
+export interface ToolInvocationLog {
+  record(invocation: ToolInvocationRecord): void | Promise<void>;
 }
 
 export interface AgentEvent {
-  type: 'state_change' | 'thought' | 'tool_call' | 'tool_result' | 'message' | 'error';
+  type: 'state_change' | 'thought' | 'text_delta' | 'tool_call_delta' | 'tool_call' | 'tool_result' | 'message' | 'error';
   state?: AgentState;
   thought?: string;
+  delta?: string;
+  toolCallDelta?: ToolCallDelta;
   toolCall?: ToolCall;
   toolResult?: ToolResult;
   message?: string;
@@ -24,14 +73,107 @@ export interface AgentEvent {
 
 export type AgentEventHandler = (event: AgentEvent) => void;
 
+export class AgentCancelledError extends Error {
+  constructor() {
+    super('Agent run was cancelled');
+    this.name = 'AgentCancelledError';
+  }
+}
+
+/** Settles with `promise`, or rejects as soon as `signal` aborts. */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(new AgentCancelledError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AgentCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Returns the balanced `{...}` object starting at `start`, honouring braces
+ * that appear inside JSON strings.
+ */
+function readJsonObject(content: string, start: number): { text: string; end: number } | null {
+  if (content[start] !== '{') return null;
+  
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return { text: content.slice(start, i + 1), end: i + 1 };
+    }
+  }
+  return null;
+}
+
+/**
+ * Results for the tool calls of a turn that was cancelled before they ran, so
+ * the next request still pairs every tool_use with a tool_result.
+ */
+function unansweredToolResults(messages: Message[]): ToolResultBlock[] {
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== 'assistant' || typeof last.content === 'string') {
+    return [];
+  }
+  return last.content
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({
+      type: 'tool_result',
+      toolUseId: (block as ToolUseBlock).id,
+      content: 'Tool call was cancelled',
+      isError: true
+    }));
+}
+
+/** Calls `fn` for every item with at most `limit` calls in flight; rejects on the first failure. */
+async function runConcurrently<T>(items: T[], limit: number, fn: (item: T, index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+}
+
+// Images in results go to the model as image blocks, or are left out when it can't take them
+function toResultBlock(toolCall: ToolCall, result: ToolResult, acceptsImages: boolean): ToolResultBlock {
+  if (result.success && isImageResult(result)) {
+    const text = result.output ?? '';
+    return {
+      type: 'tool_result',
+      toolUseId: toolCall.id,
+      content: acceptsImages
+        ? [{ type: 'text', text }, { type: 'image', mimeType: result.metadata.mimeType, data: result.metadata.base64 }]
+        : `${text}\n\n(The image itself is not shown: this model does not accept images.)`
+    };
+  }
+  return {
+    type: 'tool_result',
+    toolUseId: toolCall.id,
+    content: (result.success ? result.output : result.error) || '',
+    ...(result.success ? {} : { isError: true })
+  };
+}
+
 const DEFAULT_MAX_TURNS = 50;
-const DEFAULT_SYSTEM_PROMPT = `You are PixelMate, an AI agent that can help users accomplish tasks.
-You have access to various tools to interact with files, browsers, and other systems.
-Always explain your reasoning and ask for clarification when needed.`;
+const DEFAULT_TOOL_CONCURRENCY = 4;
 
 export class Agent {
   private provider: LLMProvider;
@@ -44,16 +186,43 @@ export class Agent {
   private currentTurn = 0;
   private eventHandlers: Set<AgentEventHandler> = new Set();
   private taskId: string;
-  private confirmationHandler?: (toolName: string, params: Record<string, unknown>) => Promise<boolean>;
+  // Set until the first run() so it keeps the caller's task ID
+  private presetTaskId?: string;
+  private stream: boolean;
+  private abortController = new AbortController();
+  private confirmationHandler?: ConfirmationHandler;
+  private invocationLog?: ToolInvocationLog;
+  private context: ContextManager;
+  private toolConcurrency: number;
+  private policy: SecurityPolicy;
+  private grants?: ConfirmationGrants;
 
   constructor(provider: LLMProvider, tools: ToolRegistry, options: AgentOptions = {}) {
     this.provider = provider;
     this.tools = tools;
-    this.systemPrompt = options.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+    this.policy = options.policy ?? new SecurityPolicy();
+    this.grants = options.grants;
+    const workspace = options.environment?.workspace();
     this.maxTurns = options.maxTurns || DEFAULT_MAX_TURNS;
-    this.workingDirectory = options.workingDirectory || '/workspace';
-    this.taskId = generateId();
+    this.workingDirectory = options.workingDirectory || workspace?.workingDirectory || '/workspace';
+    this.systemPrompt = options.systemPrompt || composeSystemPrompt({
+      tools: tools.getDefinitions(),
+      ...options.prompt,
+      workspace: { ...workspace, workingDirectory: this.workingDirectory, ...options.prompt?.workspace }
+    });
+    this.taskId = options.taskId ?? generateId();
+    this.presetTaskId = options.taskId;
+    this.stream = options.stream ?? false;
     this.confirmationHandler = options.confirmationHandler;
+    this.invocationLog = options.invocationLog;
+    this.context = new ContextManager(options.context);
+    this.toolConcurrency = options.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY;
+    if (options.history?.length) {
+      this.messages = [
+        { role: 'system', content: this.systemPrompt },
+        ...options.history.filter(message => message.role !== 'system')
+      ];
+    }
   }
 
   getId(): string {
@@ -91,162 +260,327 @@ export class Agent {
     this.emit({ type: 'state_change', state });
   }
 
-  async run(prompt: string, model?: string): Promise<string> {
-    this.taskId = generateId();
-    this.currentTurn = 0;
+  /**
+   * Runs a new task. Aborting `signal` has the same effect as `cancel()`:
+   * in-flight LLM requests and tools are aborted and the returned promise
+   * rejects with `AgentCancelledError`.
+   */
+  async run(prompt: string, model?: string, signal?: AbortSignal): Promise<string> {
+    this.taskId = this.presetTaskId ?? generateId();
+    this.presetTaskId = undefined;
     this.messages = [
       { role: 'system', content: this.systemPrompt },
       { role: 'user', content: prompt }
     ];
+    return this.execute(prompt, model, signal);
+  }
+
+  /**
+   * Sends a follow-up message in the same conversation, keeping the history
+   * of earlier runs (or the `history` the agent was created with).
+   */
+  async continue(message: string, model?: string, signal?: AbortSignal): Promise<string> {
+    if (this.messages.length === 0) {
+      return this.run(message, model, signal);
+    }
+    
+    const pendingResults = unansweredToolResults(this.messages);
+    this.messages.push({
+      role: 'user',
+      content: pendingResults.length > 0 ? [...pendingResults, { type: 'text', text: message }] : message
+    });
+    return this.execute(message, model, signal);
+  }
+
+  private async execute(prompt: string, model?: string, signal?: AbortSignal): Promise<string> {
+    this.currentTurn = 0;
+    if (this.abortController.signal.aborted) {
+      // cancel() was called before the run started
+      this.abortController = new AbortController();
+      throw new AgentCancelledError();
+    }
+    
+    const onAbort = () => this.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
     
     this.setState('thinking');
     this.emit({ type: 'message', message: prompt });
     
     try {
+      if (signal?.aborted) this.cancel();
       const result = await this.runAgentLoop(model);
       this.setState('done');
       return result;
     } catch (error) {
+      if (this.abortController.signal.aborted) {
+        // cancel() already recorded the terminal state
+        throw error instanceof AgentCancelledError ? error : new AgentCancelledError();
+      }
       this.setState('error');
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.emit({ type: 'error', error: errorMessage });
       throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      // Approvals for the rest of the task end with it
+      this.grants?.endTask(this.taskId);
+      // Fresh for the next run, so a cancel() before it starts still reaches it
+      this.abortController = new AbortController();
     }
   }
 
   private async runAgentLoop(model?: string): Promise<string> {
     let finalResponse = '';
     
+    const signal = this.abortController.signal;
+    
     while (this.currentTurn < this.maxTurns) {
+      this.throwIfCancelled();
       this.currentTurn++;
       
-      const response = await this.provider.chat({
+      const modelName = model || 'claude-sonnet-4';
+      await this.compactHistory(modelName);
+      
+      const chatOptions: ChatOptions = {
         messages: this.messages,
-        model: model || 'claude-sonnet-4'
-      });
+        model: modelName,
+        tools: this.tools.getDefinitions(),
+        signal
+      };
+      const response = this.stream
+        ? await this.streamResponse(chatOptions)
+        : await abortable(this.provider.chat(chatOptions), signal);
+      this.context.recordUsage(chatOptions.messages, response.usage);
       
       const content = response.content;
-      this.messages.push({ role: 'assistant', content });
       
       this.emit({ type: 'thought', thought: content });
       
-      // Check if the model wants to use tools
-      const toolCalls = this.extractToolCalls(content);
+      // Prefer native tool calls; the text protocol is the fallback for providers
+      // without them, and for models that write calls as text despite them
+      const toolCalls = response.toolCalls?.length ? response.toolCalls : this.extractToolCalls(content);
       
       if (toolCalls.length === 0) {
         // No tool calls, this is the final response
+        this.messages.push({ role: 'assistant', content });
         finalResponse = content;
         break;
       }
       
-      // Execute each tool call
+      // Keep the calls in history so each result can be paired with its call
+      const assistantBlocks: ContentBlock[] = content ? [{ type: 'text', text: content }] : [];
       for (const toolCall of toolCalls) {
-        this.setState('acting');
-        this.emit({ type: 'tool_call', toolCall });
-        
-        // Check if confirmation is required (if handler is provided)
-        if (this.confirmationHandler) {
-          const needsConfirmation = this.requiresToolConfirmation(toolCall.name);
-          if (needsConfirmation) {
-            this.emit({ type: 'message', message: `⏳ Waiting for confirmation to execute ${toolCall.name}...` });
-            const approved = await this.confirmationHandler(toolCall.name, toolCall.parameters);
-            if (!approved) {
-              const deniedResult: ToolResult = { success: false, error: 'Confirmation denied by user' };
-              this.emit({ type: 'tool_result', toolResult: deniedResult });
-              this.messages.push({ 
-                role: 'user', 
-                content: `Tool ${toolCall.name} was denied by user` 
-              });
-              continue;
-            }
+        assistantBlocks.push({ type: 'tool_use', id: toolCall.id, name: toolCall.name, input: toolCall.parameters });
+      }
+      this.messages.push({ role: 'assistant', content: assistantBlocks });
+      
+      const resultBlocks = await this.runToolCalls(toolCalls, this.provider.supportsImages?.(modelName) ?? false);
+      this.messages.push({ role: 'user', content: resultBlocks });
+    }
+    
+    return finalResponse;
+  }
+
+  /**
+   * Runs a turn's tool calls. Consecutive read-only calls run concurrently (up
+   * to `toolConcurrency`); side-effecting calls run one at a time, in order.
+   * Results come back in call order.
+   */
+  private async runToolCalls(toolCalls: ToolCall[], acceptsImages: boolean): Promise<ToolResultBlock[]> {
+    const results: ToolResultBlock[] = new Array(toolCalls.length);
+    
+    let i = 0;
+    while (i < toolCalls.length) {
+      this.throwIfCancelled();
+      let end = i + 1;
+      if (this.isReadOnly(toolCalls[i])) {
+        while (end < toolCalls.length && this.isReadOnly(toolCalls[end])) end++;
+      }
+      
+      this.setState('acting');
+      const batch = toolCalls.slice(i, end);
+      const offset = i;
+      await runConcurrently(batch, this.toolConcurrency, async (toolCall, index) => {
+        results[offset + index] = await this.runToolCall(toolCall, acceptsImages);
+      });
+      this.setState('thinking');
+      i = end;
+    }
+    
+    return results;
+  }
+
+  private isReadOnly(toolCall: ToolCall): boolean {
+    return this.tools.get(toolCall.name)?.definition.readOnly === true;
+  }
+
+  private async runToolCall(call: ToolCall, acceptsImages: boolean): Promise<ToolResultBlock> {
+    const signal = this.abortController.signal;
+    this.emit({ type: 'tool_call', toolCall: call });
+    
+    const startedAt = Date.now();
+    let toolCall = call;
+    let confirmation: ToolConfirmation = 'not_required';
+    let result: ToolResult;
+    if (call.parseError) {
+      // Answered without asking or running, so the model can send the call again
+      result = { success: false, error: `${call.parseError}. Call ${call.name} again with its arguments as one JSON object.` };
+      this.emit({ type: 'tool_result', toolCall, toolResult: result });
+      this.recordInvocation(toolCall, confirmation, result, startedAt);
+      return toResultBlock(toolCall, result, acceptsImages);
+    }
+    try {
+      const verdict = this.policy.evaluate(toolCall.name, toolCall.parameters);
+      if (verdict.action === 'deny') {
+        confirmation = 'blocked';
+      } else if (verdict.action === 'confirm' && this.confirmationHandler) {
+        // Without a handler there is no one to ask, so confirmable calls run
+        if (await this.grants?.covers(toolCall.name, toolCall.parameters, this.taskId)) {
+          confirmation = 'granted';
+        } else {
+          this.emit({ type: 'message', message: `⏳ Waiting for confirmation to execute ${toolCall.name}...` });
+          const answer = await abortable(this.confirmationHandler(toolCall.name, toolCall.parameters, verdict), signal);
+          const decision: ConfirmationDecision = typeof answer === 'boolean' ? { approved: answer } : answer;
+          confirmation = decision.approved ? 'approved' : 'denied';
+          if (decision.approved && decision.parameters) {
+            toolCall = { ...toolCall, parameters: decision.parameters };
+          }
+          if (decision.approved && decision.remember && decision.remember !== 'once') {
+            await this.rememberApproval(decision.remember, call);
           }
         }
-        
-        const result = await this.tools.execute(toolCall);
-        this.emit({ type: 'tool_result', toolResult: result });
-        
-        const resultMessage = result.success 
-          ? `Tool ${toolCall.name} result: ${result.output}`
-          : `Tool ${toolCall.name} error: ${result.error}`;
-        
-        this.messages.push({ 
-          role: 'user', 
-          content: resultMessage 
-        });
-        
-        this.setState('thinking');
       }
+      
+      if (confirmation === 'blocked') {
+        result = { success: false, error: `Blocked by security policy: ${verdict.description}` };
+      } else if (confirmation === 'denied') {
+        result = { success: false, error: 'Confirmation denied by user' };
+      } else {
+        result = await abortable(this.tools.execute(toolCall, { signal, taskId: this.taskId }), signal);
+      }
+      // Tell the model the call it made is not the one that ran
+      // Compared by value, since decisions arrive as JSON and objects never come back the same instance
+      const edited = [...new Set([...Object.keys(call.parameters), ...Object.keys(toolCall.parameters)])]
+        .filter(key => JSON.stringify(toolCall.parameters[key]) !== JSON.stringify(call.parameters[key]));
+      if (edited.length > 0 && result.success) {
+        result = { ...result, output: `${result.output ?? ''}\n\nThe user edited ${edited.join(', ')} before approving this call.` };
+      }
+    } catch (error) {
+      // Still audit calls that were cancelled or threw
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordInvocation(toolCall, confirmation, { success: false, error: message }, startedAt);
+      throw error;
     }
     
-    return finalResponse;
+    this.emit({ type: 'tool_result', toolCall, toolResult: result });
+    this.recordInvocation(toolCall, confirmation, result, startedAt);
+    return toResultBlock(toolCall, result, acceptsImages);
+  }
+
+  private async compactHistory(model: string): Promise<void> {
+    const signal = this.abortController.signal;
+    const compacted = await abortable(this.context.prepare(this.messages, model, this.provider, signal), signal);
+    if (compacted !== this.messages) {
+      this.messages = compacted;
+      this.emit({ type: 'message', message: 'Compacted earlier conversation to fit the context window' });
+    }
+  }
+
+  // Granted from the call as the model made it, not the user's edit of it
+  private async rememberApproval(scope: GrantScope, call: ToolCall): Promise<void> {
+    try {
+      await this.grants?.grant(scope, call.name, call.parameters, this.taskId);
+    } catch (error) {
+      // The call was still approved; only the standing approval is lost
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit({ type: 'message', message: `Could not remember the approval for ${call.name}: ${message}` });
+    }
+  }
+
+  private recordInvocation(toolCall: ToolCall, confirmation: ToolConfirmation, result: ToolResult, startedAt: number): void {
+    if (!this.invocationLog) return;
+    
+    const invocation: ToolInvocationRecord = {
+      toolCallId: toolCall.id,
+      taskId: this.taskId,
+      toolName: toolCall.name,
+      parameters: toolCall.parameters,
+      confirmation,
+      success: result.success,
+      ...(result.error ? { error: result.error } : {}),
+      outputSize: new TextEncoder().encode(result.output ?? '').length,
+      startedAt,
+      durationMs: Date.now() - startedAt
+    };
+    // A failing log must not fail the run
+    Promise.resolve()
+      .then(() => this.invocationLog?.record(invocation))
+      .catch(err => console.error('Failed to record tool invocation:', err));
+  }
+
+  private throwIfCancelled(): void {
+    if (this.abortController.signal.aborted) {
+      throw new AgentCancelledError();
+    }
+  }
+
+  private async streamResponse(options: ChatOptions): Promise<ChatResponse> {
+    const response: ChatResponse = { id: '', model: options.model, content: '' };
+    
+    for await (const chunk of this.provider.chatStream(options)) {
+      this.throwIfCancelled();
+      response.id = chunk.id || response.id;
+      if (chunk.delta) {
+        response.content += chunk.delta;
+        this.emit({ type: 'text_delta', delta: chunk.delta });
+      }
+      if (chunk.toolCallDelta) {
+        this.emit({ type: 'tool_call_delta', toolCallDelta: chunk.toolCallDelta });
+      }
+      if (chunk.done) {
+        response.toolCalls = chunk.toolCalls;
+        response.usage = chunk.usage;
+      }
+    }
+    
+    return response;
   }
 
   private extractToolCalls(content: string): ToolCall[] {
     const toolCalls: ToolCall[] = [];
-    const toolDefinitions = this.tools.getDefinitions();
-    const toolNames = toolDefinitions.map(t => t.name);
+    const toolNames = this.tools.getDefinitions().map(t => t.name);
     
-    // Simple extraction - look for tool call patterns
-    // Format: [TOOL_CALL]tool_name: {param: value}[/TOOL_CALL]
-    const callRegex = /\[TOOL_CALL\]([\w]+):\s*(\{[^}]+\})\[\/TOOL_CALL\]/g;
+    // Format: [TOOL_CALL]tool_name: {"param": "value"}[/TOOL_CALL]
+    const openRegex = /\[TOOL_CALL\]([\w]+):\s*/g;
     
     let match;
-    while ((match = callRegex.exec(content)) !== null) {
+    while ((match = openRegex.exec(content)) !== null) {
       const toolName = match[1];
-      if (toolNames.includes(toolName)) {
-        try {
-          const params = JSON.parse(match[2]);
-          toolCalls.push({
-            name: toolName,
-            id: generateId(),
-            parameters: params
-          });
-        } catch {
-          // Invalid JSON, skip
-        }
+      const json = readJsonObject(content, openRegex.lastIndex);
+      if (!json || !content.startsWith('[/TOOL_CALL]', json.end)) {
+        continue;
       }
-    }
-    
-    // Also check for markdown code blocks with tool calls
-    const codeBlockRegex = /```json\n([\s\S]*?)\n```/g;
-    while ((match = codeBlockRegex.exec(content)) !== null) {
-      try {
-        const parsed = JSON.parse(match[1]);
-        if (Array.isArray(parsed)) {
-          for (const item of parsed) {
-            if (item.name && toolNames.includes(item.name)) {
-              toolCalls.push({
-                name: item.name,
-                id: generateId(),
-                parameters: item.parameters || {}
-              });
-            }
-          }
-        }
-      } catch {
-        // Not valid JSON, skip
+      openRegex.lastIndex = json.end;
+      
+      if (toolNames.includes(toolName)) {
+        toolCalls.push({ name: toolName, id: generateId(), ...parseToolArguments(json.text) });
       }
     }
     
     return toolCalls;
   }
 
-  private requiresToolConfirmation(toolName: string): boolean {
-    // Tools that require confirmation before execution
-    const dangerousTools = [
-      'delete_file',
-      'move_file',
-      'write_file',
-      'create_directory',
-      'browser_click',
-      'browser_type',
-      'browser_fill'
-    ];
-    return dangerousTools.includes(toolName);
-  }
-
+  /**
+   * Aborts the current run, including in-flight LLM requests, tools and
+   * confirmations. Called before any run, it makes the next one reject with
+   * `AgentCancelledError` instead of starting.
+   */
   cancel(): void {
-    this.setState('done');
+    if (this.state === 'done' || this.state === 'error' || this.state === 'cancelled') {
+      return;
+    }
+    this.abortController.abort();
+    this.setState('cancelled');
   }
 
   getMessages(): Message[] {
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ContextManager, TruncateToolOutputs, SummarizeHistory, estimateTokens, contextWindowFor, CompactionRequest } from './context.js';
+import { Agent } from './agent.js';
+import { ToolRegistry } from '../tools/registry.js';
+import { LLMProvider, ChatOptions, ChatResponse, Message } from '@pixelmate/shared';
+
+// ──────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────
+
+function makeProvider(chat: (options: ChatOptions) => Promise<ChatResponse>): LLMProvider {
+  return {
+    name: 'mock',
+    chat,
+    async *chatStream() { yield { id: '', delta: '', done: true }; },
+    async listModels() { return []; },
+  };
+}
+
+/** system, then `turns` rounds of assistant tool_use + user tool_result with `outputChars` of output each */
+function makeToolHistory(turns: number, outputChars: number): Message[] {
+  const messages: Message[] = [
+    { role: 'system', content: 'You are a test agent.' },
+    { role: 'user', content: 'Research something' },
+  ];
+  for (let i = 0; i < turns; i++) {
+    messages.push({ role: 'assistant', content: [{ type: 'tool_use', id: `call-${i}`, name: 'fetch_web_page', input: { url: `https://example.com/${i}` } }] });
+    messages.push({ role: 'user', content: [{ type: 'tool_result', toolUseId: `call-${i}`, content: 'x'.repeat(outputChars) }] });
+  }
+  return messages;
+}
+
+function makeRequest(overrides: Partial<CompactionRequest> = {}): CompactionRequest {
+  return {
+    targetTokens: 1_000,
+    keepRecent: 2,
+    estimate: estimateTokens,
+    provider: makeProvider(async () => ({ id: '', model: 'mock', content: 'summary' })),
+    model: 'mock',
+    ...overrides,
+  };
+}
+
+function resultContent(message: Message): unknown {
+  return typeof message.content === 'string' ? message.content : (message.content[0] as { content: unknown }).content;
+}
+
+// ──────────────────────────────────────────────────────────────
+// Tests
+// ──────────────────────────────────────────────────────────────
+
+describe('contextWindowFor()', () => {
+  it('looks up windows by model prefix', () => {
+    expect(contextWindowFor('claude-sonnet-4')).toBe(200_000);
+    expect(contextWindowFor('gpt-4o-mini')).toBe(128_000);
+    expect(contextWindowFor('gpt-4')).toBe(8_192);
+  });
+
+  it('falls back to a conservative default for unknown models', () => {
+    expect(contextWindowFor('some-new-model')).toBe(32_000);
+  });
+});
+
+describe('TruncateToolOutputs', () => {
+  it('truncates old tool outputs and keeps recent turns intact', async () => {
+    const messages = makeToolHistory(3, 3_000);
+    const compacted = await new TruncateToolOutputs({ maxChars: 100 }).compact(messages, makeRequest({ targetTokens: 2_000 }));
+
+    expect(compacted[0]).toBe(messages[0]);
+    expect(resultContent(compacted[3])).toMatch(/^x{100}\n\[\.\.\. 2900 characters truncated/);
+    expect(compacted.slice(-2)).toEqual(messages.slice(-2));
+  });
+
+  it('removes old outputs entirely when truncation is not enough', async () => {
+    const messages = makeToolHistory(3, 3_000);
+    const compacted = await new TruncateToolOutputs({ maxChars: 2_000 }).compact(messages, makeRequest({ targetTokens: 1_200 }));
+    expect(resultContent(compacted[3])).toBe('[Output removed to fit the context window]');
+  });
+
+  it('drops the oldest turns, cutting at an assistant message', async () => {
+    const messages = makeToolHistory(20, 10);
+    const compacted = await new TruncateToolOutputs().compact(messages, makeRequest({ targetTokens: 100 }));
+
+    expect(compacted[0]).toBe(messages[0]);
+    expect(compacted[1]).toEqual({ role: 'user', content: '[Earlier conversation omitted to fit the context window]' });
+    expect(compacted[2].role).toBe('assistant');
+    expect(compacted.slice(-2)).toEqual(messages.slice(-2));
+    expect(estimateTokens(compacted)).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('SummarizeHistory', () => {
+  it('replaces older turns with a summary from the provider', async () => {
+    const chat = vi.fn(async () => ({ id: '', model: 'mock', content: 'Fetched pages 0-2.' }));
+    const messages = makeToolHistory(3, 500);
+    const compacted = await new SummarizeHistory().compact(messages, makeRequest({ provider: makeProvider(chat) }));
+
+    expect(compacted).toEqual([
+      messages[0],
+      { role: 'user', content: 'Summary of the conversation so far:\nFetched pages 0-2.' },
+      ...messages.slice(-2),
+    ]);
+    const [request] = chat.mock.calls[0] as unknown as [ChatOptions];
+    expect(request.messages[1].content).toContain('[called fetch_web_page(');
+  });
+
+  it('falls back to truncation when summarizing fails', async () => {
+    const provider = makeProvider(async () => { throw new Error('rate limited'); });
+    const messages = makeToolHistory(3, 3_000);
+    const compacted = await new SummarizeHistory().compact(messages, makeRequest({ provider, targetTokens: 2_000 }));
+    expect(resultContent(compacted[3])).toMatch(/characters truncated/);
+  });
+});
+
+describe('ContextManager', () => {
+  it('leaves the history alone while it is under the threshold', async () => {
+    const manager = new ContextManager({ contextWindow: 100_000 });
+    const messages = makeToolHistory(2, 100);
+    expect(await manager.prepare(messages, 'mock', makeProvider(vi.fn()))).toBe(messages);
+  });
+
+  it('compacts with the configured strategy once the budget is nearly used', async () => {
+    const strategy = { compact: vi.fn(async (messages: Message[], _request: CompactionRequest) => messages.slice(0, 2)) };
+    const manager = new ContextManager({ contextWindow: 2_000, reserveTokens: 0, strategy });
+    const messages = makeToolHistory(3, 3_000);
+
+    const compacted = await manager.prepare(messages, 'mock', makeProvider(vi.fn()));
+    expect(compacted).toHaveLength(2);
+    expect(strategy.compact.mock.calls[0]?.[1].targetTokens).toBe(1_200);
+  });
+
+  it('calibrates its estimates with reported usage', () => {
+    const manager = new ContextManager();
+    const messages = makeToolHistory(1, 400);
+    const estimated = manager.estimate(messages);
+    manager.recordUsage(messages, { inputTokens: estimated * 2, outputTokens: 0 });
+    expect(manager.estimate(messages)).toBe(estimated * 2);
+  });
+});
+
+describe('Agent context management', () => {
+  it('compacts large tool outputs before the next request', async () => {
+    const seen: Message[][] = [];
+    let calls = 0;
+    const provider = makeProvider(async (options) => {
+      seen.push(options.messages);
+      calls++;
+      return calls <= 3
+        ? { id: '', model: 'mock', content: '', toolCalls: [{ id: `call-${calls}`, name: 'fetch', parameters: {} }] }
+        : { id: '', model: 'mock', content: 'Done.' };
+    });
+    const registry = new ToolRegistry();
+    registry.register({
+      definition: { name: 'fetch', description: 'Fetch a page', parameters: [] },
+      async execute() { return { success: true, output: 'y'.repeat(8_000) }; },
+    });
+
+    const agent = new Agent(provider, registry, {
+      context: { contextWindow: 4_000, reserveTokens: 0, keepRecent: 2 },
+    });
+    const messages: string[] = [];
+    agent.onEvent((ev) => { if (ev.type === 'message' && ev.message) messages.push(ev.message); });
+
+    await expect(agent.run('Fetch three pages')).resolves.toBe('Done.');
+    expect(estimateTokens(seen[3])).toBeLessThanOrEqual(4_000);
+    expect(messages).toContain('Compacted earlier conversation to fit the context window');
+  });
+});
@@ -0,0 +1,287 @@
+import { Message, ContentBlock, LLMProvider, ChatResponse } from '@pixelmate/shared';
+
+// Context windows by model name prefix; the first match wins, so more specific prefixes come first
+const MODEL_CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['claude', 200_000],
+  ['gpt-4o', 128_000],
+  ['gpt-4-turbo', 128_000],
+  ['gpt-4.1', 1_000_000],
+  ['gpt-4', 8_192],
+  ['gpt-3.5', 16_385],
+  ['o1', 200_000],
+  ['o3', 200_000],
+  ['o4', 200_000],
+  ['llama-3.1', 131_072],
+  ['llama-3.2', 131_072],
+  ['llama-3.3', 131_072],
+  ['llama3', 8_192],
+  ['mixtral', 32_768],
+  ['gemma', 8_192]
+];
+
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+const DEFAULT_RESERVE_TOKENS = 4_096;
+const DEFAULT_THRESHOLD = 0.8;
+const DEFAULT_KEEP_RECENT = 6;
+// Rough cost of an image block; its base64 length says little about its token count
+const IMAGE_TOKENS = 1_500;
+
+export function contextWindowFor(model: string): number {
+  const name = model.toLowerCase();
+  return MODEL_CONTEXT_WINDOWS.find(([prefix]) => name.startsWith(prefix))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+function blockChars(block: ContentBlock): number {
+  switch (block.type) {
+    case 'text':
+      return block.text.length;
+    case 'image':
+      return IMAGE_TOKENS * 4;
+    case 'tool_use':
+      return block.name.length + JSON.stringify(block.input).length;
+    case 'tool_result':
+      return typeof block.content === 'string'
+        ? block.content.length
+        : block.content.reduce((sum, part) => sum + blockChars(part), 0);
+  }
+}
+
+/** Heuristic token count: ~4 characters per token plus a small per-message overhead. */
+export function estimateTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => {
+    const chars = typeof message.content === 'string'
+      ? message.content.length
+      : message.content.reduce((total, block) => total + blockChars(block), 0);
+    return sum + Math.ceil(chars / 4) + 4;
+  }, 0);
+}
+
+export interface CompactionRequest {
+  // Token count the compacted history should fit in
+  targetTokens: number;
+  // Number of trailing messages that must be kept as they are
+  keepRecent: number;
+  estimate: (messages: Message[]) => number;
+  provider: LLMProvider;
+  model: string;
+  signal?: AbortSignal;
+}
+
+export interface ContextStrategy {
+  /** Returns a shorter history; the system prompt and the last `keepRecent` messages stay intact. */
+  compact(messages: Message[], request: CompactionRequest): Promise<Message[]>;
+}
+
+/** Index of the first message compaction may not touch. */
+function protectedStart(messages: Message[], keepRecent: number): number {
+  return Math.max(1, messages.length - keepRecent);
+}
+
+/**
+ * Finds where to cut the history so everything before it can be replaced by a
+ * single user message. The cut must land on an assistant message: that keeps
+ * roles alternating and never separates a tool_result from its tool_use.
+ */
+function findCut(messages: Message[], limit: number, fits: (cut: number) => boolean): number | null {
+  let last: number | null = null;
+  for (let i = 2; i <= limit && i < messages.length; i++) {
+    if (messages[i].role !== 'assistant') continue;
+    last = i;
+    if (fits(i)) return i;
+  }
+  return last;
+}
+
+function replaceBefore(messages: Message[], cut: number, note: string): Message[] {
+  return [messages[0], { role: 'user', content: note }, ...messages.slice(cut)];
+}
+
+function mapOldToolResults(
+  messages: Message[],
+  end: number,
+  map: (content: string) => string
+): Message[] {
+  return messages.map((message, i) => {
+    if (i === 0 || i >= end || typeof message.content === 'string') return message;
+    return {
+      ...message,
+      content: message.content.map(block => {
+        if (block.type !== 'tool_result') return block;
+        const text = typeof block.content === 'string'
+          ? block.content
+          : block.content.map(part => (part.type === 'text' ? part.text : '[image]')).join('\n');
+        const mapped = map(text);
+        return mapped === text ? block : { ...block, content: mapped };
+      })
+    };
+  });
+}
+
+export interface TruncateToolOutputsOptions {
+  // Characters of each old tool output to keep
+  maxChars?: number;
+}
+
+/**
+ * Shortens old tool outputs, then removes them, and finally drops the oldest
+ * turns until the history fits.
+ */
+export class TruncateToolOutputs implements ContextStrategy {
+  private maxChars: number;
+
+  constructor(options: TruncateToolOutputsOptions = {}) {
+    this.maxChars = options.maxChars ?? 1_000;
+  }
+
+  async compact(messages: Message[], request: CompactionRequest): Promise<Message[]> {
+    const end = protectedStart(messages, request.keepRecent);
+
+    const truncated = mapOldToolResults(messages, end, content =>
+      content.length > this.maxChars
+        ? `${content.slice(0, this.maxChars)}\n[... ${content.length - this.maxChars} characters truncated to fit the context window]`
+        : content
+    );
+    if (request.estimate(truncated) <= request.targetTokens) return truncated;
+
+    const removed = mapOldToolResults(truncated, end, () => '[Output removed to fit the context window]');
+    if (request.estimate(removed) <= request.targetTokens) return removed;
+
+    const note = '[Earlier conversation omitted to fit the context window]';
+    const cut = findCut(removed, end, i => request.estimate(replaceBefore(removed, i, note)) <= request.targetTokens);
+    return cut === null ? removed : replaceBefore(removed, cut, note);
+  }
+}
+
+const SUMMARY_PROMPT = `Summarize the conversation below for an AI agent that will continue it.
+Keep the user's goals, decisions made, files and URLs involved, and results of tool calls that still matter.
+Be concise and factual.`;
+
+function renderTranscript(messages: Message[]): string {
+  return messages.map(message => {
+    if (typeof message.content === 'string') return `${message.role}: ${message.content}`;
+    const parts = message.content.map(block => {
+      switch (block.type) {
+        case 'text': return block.text;
+        case 'image': return '[image]';
+        case 'tool_use': return `[called ${block.name}(${JSON.stringify(block.input)})]`;
+        case 'tool_result': {
+          const text = typeof block.content === 'string' ? block.content : '[tool output]';
+          return `[${block.isError ? 'tool error' : 'tool result'}: ${text.slice(0, 2_000)}]`;
+        }
+      }
+    });
+    return `${message.role}: ${parts.join('\n')}`;
+  }).join('\n\n');
+}
+
+/**
+ * Replaces all but the recent turns with a model-written summary, falling back
+ * to truncation when the summary request fails.
+ */
+export class SummarizeHistory implements ContextStrategy {
+  private fallback = new TruncateToolOutputs();
+
+  async compact(messages: Message[], request: CompactionRequest): Promise<Message[]> {
+    const end = protectedStart(messages, request.keepRecent);
+    // Summarize as much as possible so the next compaction is far away
+    let cut: number | null = null;
+    for (let i = Math.min(end, messages.length - 1); i >= 2; i--) {
+      if (messages[i].role === 'assistant') {
+        cut = i;
+        break;
+      }
+    }
+    if (cut === null) return this.fallback.compact(messages, request);
+
+    let response: ChatResponse;
+    try {
+      response = await request.provider.chat({
+        model: request.model,
+        messages: [
+          { role: 'system', content: SUMMARY_PROMPT },
+          { role: 'user', content: renderTranscript(messages.slice(1, cut)) }
+        ],
+        signal: request.signal
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      return this.fallback.compact(messages, request);
+    }
+
+    const summarized = replaceBefore(messages, cut, `Summary of the conversation so far:\n${response.content}`);
+    return request.estimate(summarized) <= request.targetTokens
+      ? summarized
+      : this.fallback.compact(summarized, request);
+  }
+}
+
+export interface ContextManagerOptions {
+  strategy?: ContextStrategy;
+  // Overrides the context window looked up from the model name
+  contextWindow?: number;
+  // Tokens left free for the model's response
+  reserveTokens?: number;
+  // Fraction of the budget at which the history is compacted
+  threshold?: number;
+  keepRecent?: number;
+}
+
+/**
+ * Keeps the agent's history within the model's context window. Token counts
+ * are estimated from text length and calibrated against the `usage` the
+ * provider reports for each request.
+ */
+export class ContextManager {
+  private strategy: ContextStrategy;
+  private contextWindow?: number;
+  private reserveTokens: number;
+  private threshold: number;
+  private keepRecent: number;
+  // Reported input tokens per estimated token; absorbs tool schemas and tokenizer differences
+  private calibration = 1;
+
+  constructor(options: ContextManagerOptions = {}) {
+    this.strategy = options.strategy ?? new TruncateToolOutputs();
+    this.contextWindow = options.contextWindow;
+    this.reserveTokens = options.reserveTokens ?? DEFAULT_RESERVE_TOKENS;
+    this.threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    this.keepRecent = options.keepRecent ?? DEFAULT_KEEP_RECENT;
+  }
+
+  budgetFor(model: string): number {
+    return (this.contextWindow ?? contextWindowFor(model)) - this.reserveTokens;
+  }
+
+  estimate(messages: Message[]): number {
+    return Math.ceil(estimateTokens(messages) * this.calibration);
+  }
+
+  /** Calibrates later estimates with the token count the provider reported for `messages`. */
+  recordUsage(messages: Message[], usage: ChatResponse['usage']): void {
+    const estimated = estimateTokens(messages);
+    if (!usage?.inputTokens || estimated === 0) return;
+    this.calibration = Math.min(3, Math.max(0.5, usage.inputTokens / estimated));
+  }
+
+  /** Returns `messages` unchanged, or compacted when they near the model's budget. */
+  async prepare(
+    messages: Message[],
+    model: string,
+    provider: LLMProvider,
+    signal?: AbortSignal
+  ): Promise<Message[]> {
+    const budget = this.budgetFor(model);
+    if (this.estimate(messages) <= budget * this.threshold) {
+      return messages;
+    }
+    return this.strategy.compact(messages, {
+      // Leave headroom so the next few turns don't trigger another compaction
+      targetTokens: Math.floor(budget * this.threshold * 0.75),
+      keepRecent: this.keepRecent,
+      estimate: m => this.estimate(m),
+      provider,
+      model,
+      signal
+    });
+  }
+}
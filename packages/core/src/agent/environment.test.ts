@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AgentEnvironment, createPortableTools, createToolRegistry } from './environment.js';
+import { Agent } from './agent.js';
+import { SecurityPolicy } from '../security/policy.js';
+import { ChatOptions, LLMProvider, Tool } from '@pixelmate/shared';
+
+// ──────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────
+
+function makeTool(name: string): Tool {
+  return {
+    definition: { name, description: `${name} tool`, parameters: [] },
+    async execute() { return { success: true, output: `${name} ran` }; },
+  };
+}
+
+function makeEnvironment(overrides: Partial<AgentEnvironment> = {}): AgentEnvironment {
+  return {
+    name: 'test',
+    createTools: () => [makeTool('write_file')],
+    workspace: () => ({ filesystem: 'local', workingDirectory: '/srv/work' }),
+    ...overrides,
+  };
+}
+
+// Calls write_file once, then answers
+function makeWritingProvider(): LLMProvider & { requests: ChatOptions[] } {
+  const requests: ChatOptions[] = [];
+  return {
+    name: 'mock',
+    requests,
+    async chat(options) {
+      requests.push(options);
+      return requests.length === 1
+        ? { id: '1', model: 'mock', content: '', toolCalls: [{ id: 'c1', name: 'write_file', parameters: {} }] }
+        : { id: '2', model: 'mock', content: 'Done.' };
+    },
+    async *chatStream() { yield { id: '', delta: '', done: true }; },
+    async listModels() { return []; },
+  };
+}
+
+// ──────────────────────────────────────────────────────────────
+// Tests
+// ──────────────────────────────────────────────────────────────
+
+describe('createToolRegistry()', () => {
+  it('registers the portable tools alongside the environment tools', () => {
+    const registry = createToolRegistry(makeEnvironment());
+    const names = registry.getDefinitions().map(d => d.name);
+
+    for (const tool of createPortableTools()) {
+      expect(names).toContain(tool.definition.name);
+    }
+    expect(names).toContain('write_file');
+  });
+
+  it('throws when the environment duplicates a portable tool', () => {
+    const environment = makeEnvironment({ createTools: () => [makeTool('parse_json')] });
+    expect(() => createToolRegistry(environment)).toThrow();
+  });
+});
+
+describe('Agent with an environment', () => {
+  it('puts the environment workspace into the system prompt', async () => {
+    const provider = makeWritingProvider();
+    const environment = makeEnvironment();
+    const agent = new Agent(provider, createToolRegistry(environment), { environment });
+    await agent.run('Hi');
+
+    const system = provider.requests[0].messages[0].content as string;
+    expect(system).toContain('- Filesystem: local');
+    expect(system).toContain('- Working directory: /srv/work');
+  });
+
+  it('lets the policy decide which tools need confirmation', async () => {
+    const confirmationHandler = vi.fn().mockResolvedValue(true);
+    const environment = makeEnvironment();
+    const policy = new SecurityPolicy([{ tool: 'write_file', action: 'allow' }]);
+    const agent = new Agent(makeWritingProvider(), createToolRegistry(environment), { environment, confirmationHandler, policy });
+    await agent.run('Write something');
+
+    expect(confirmationHandler).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the built-in rules', async () => {
+    const confirmationHandler = vi.fn().mockResolvedValue(true);
+    const environment = makeEnvironment();
+    const agent = new Agent(makeWritingProvider(), createToolRegistry(environment), { environment, confirmationHandler });
+    await agent.run('Write something');
+
+    expect(confirmationHandler).toHaveBeenCalledWith('write_file', expect.any(Object), expect.objectContaining({ action: 'confirm', dangerLevel: 'medium' }));
+  });
+});
@@ -0,0 +1,40 @@
+import { Tool } from '@pixelmate/shared';
+import { ToolRegistry, ToolRegistryOptions } from '../tools/registry.js';
+import { FormatAsJSONTool, FormatAsMarkdownTool, ParseJSONTool, ConvertBetweenFormatsTool } from '../tools/formatters.js';
+import { FileSystemBackend } from '../tools/filesystem-backend.js';
+import { WorkspaceFacts } from './prompt.js';
+
+/**
+ * What a runtime plugs into the shared agent loop. The extension provides
+ * OPFS / Drive files, tab automation and Google APIs; the Node backend
+ * provides the local disk, Playwright and real docx/xlsx/pptx output.
+ */
+export interface AgentEnvironment {
+  // e.g. 'extension' or 'node'
+  name: string;
+  // Tools that depend on the runtime's APIs
+  createTools(): Tool[];
+  // Filesystem mode and working directory, read when each agent is created
+  workspace(): WorkspaceFacts;
+  // Files the portable tools may read and save to; without one they only work on their parameters
+  fileSystem?: FileSystemBackend;
+}
+
+/** Tools that need nothing beyond standard JavaScript, registered in every environment. */
+export function createPortableTools(fileSystem?: FileSystemBackend): Tool[] {
+  return [
+    new FormatAsJSONTool(fileSystem),
+    new FormatAsMarkdownTool(fileSystem),
+    new ParseJSONTool(fileSystem),
+    new ConvertBetweenFormatsTool(fileSystem)
+  ];
+}
+
+/** Registry holding the portable tools plus the environment's own. */
+export function createToolRegistry(environment: AgentEnvironment, options?: ToolRegistryOptions): ToolRegistry {
+  const registry = new ToolRegistry(options);
+  for (const tool of [...createPortableTools(environment.fileSystem), ...environment.createTools()]) {
+    registry.register(tool);
+  }
+  return registry;
+}
@@ -1,2 +1,8 @@
-export { Agent } from './agent.js';
-export type { AgentState, AgentOptions, AgentEvent, AgentEventHandler } from './agent.js';
+export { Agent, AgentCancelledError } from './agent.js';
+export type { AgentState, AgentOptions, AgentEvent, AgentEventHandler, ToolInvocationLog, ConfirmationDecision, ConfirmationHandler } from './agent.js';
+export { ContextManager, TruncateToolOutputs, SummarizeHistory, estimateTokens, contextWindowFor } from './context.js';
+export { createToolRegistry, createPortableTools } from './environment.js';
+export type { AgentEnvironment } from './environment.js';
+export { composeSystemPrompt, DEFAULT_PERSONA } from './prompt.js';
+export type { SystemPromptLayers, WorkspaceFacts, UserPreferences } from './prompt.js';
+export type { ContextManagerOptions, ContextStrategy, CompactionRequest, TruncateToolOutputsOptions } from './context.js';
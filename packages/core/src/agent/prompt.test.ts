@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { composeSystemPrompt, DEFAULT_PERSONA } from './prompt.js';
+import { ToolDefinition } from '@pixelmate/shared';
+
+const readFile: ToolDefinition = {
+  name: 'read_file',
+  description: 'Read a file',
+  parameters: [{ name: 'path', type: 'string', description: 'File path', required: true }],
+};
+
+describe('composeSystemPrompt()', () => {
+  it('uses the default persona on its own when no other layers are given', () => {
+    expect(composeSystemPrompt()).toBe(DEFAULT_PERSONA);
+  });
+
+  it('assembles the layers in order', () => {
+    const prompt = composeSystemPrompt({
+      persona: 'You are a test agent.',
+      skill: '\n# Research Skill\n',
+      tools: [readFile],
+      workspace: { filesystem: 'google-drive', workingDirectory: '/' },
+      preferences: { language: 'French', instructions: 'Keep answers short.' },
+    });
+
+    const order = ['You are a test agent.', '# Research Skill', '## Available Tools', '## Calling Tools', '## Workspace', '## User Preferences']
+      .map(heading => prompt.indexOf(heading));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    expect(order[0]).toBe(0);
+    expect(prompt).toContain('## Available Tools\n\n### read_file\n\nRead a file\n\n**Parameters:**\n- `path` (string) (required): File path');
+    expect(prompt).toContain('## Workspace\n\n- Filesystem: google-drive\n- Working directory: /');
+    expect(prompt).toContain('## User Preferences\n\nReply in French.\nKeep answers short.');
+  });
+
+  it('explains the text tool-call format only when there are tools', () => {
+    expect(composeSystemPrompt({ tools: [readFile] })).toContain('[TOOL_CALL]tool_name: {"param": "value"}[/TOOL_CALL]');
+    expect(composeSystemPrompt({ tools: [] })).not.toContain('[TOOL_CALL]');
+  });
+
+  it('leaves out empty layers', () => {
+    const prompt = composeSystemPrompt({ skill: '  ', workspace: {}, preferences: { instructions: '' } });
+    expect(prompt).toBe(DEFAULT_PERSONA);
+  });
+});
@@ -0,0 +1,73 @@
+import { ToolDefinition } from '@pixelmate/shared';
+import { toolToMarkdown } from '../tools/schema.js';
+
+export const DEFAULT_PERSONA = `You are PixelMate, an AI agent that can help users accomplish tasks.
+You have access to various tools to interact with files, browsers, and other systems.
+Always explain your reasoning and ask for clarification when needed.`;
+
+// Matches what Agent.extractToolCalls parses from plain-text replies
+const TOOL_CALL_PROTOCOL = `## Calling Tools
+
+Use the native tool-calling interface when it is available. Otherwise call a tool by writing:
+
+[TOOL_CALL]tool_name: {"param": "value"}[/TOOL_CALL]
+
+The arguments must be a single JSON object. You may call several tools in one reply; wait for their results before relying on them.`;
+
+export interface WorkspaceFacts {
+  // Where file tools read and write, e.g. 'opfs', 'native', 'google-drive' or 'local'
+  filesystem?: string;
+  workingDirectory?: string;
+}
+
+export interface UserPreferences {
+  // Language to reply in
+  language?: string;
+  // Free-form instructions the user wants applied to every task
+  instructions?: string;
+}
+
+export interface SystemPromptLayers {
+  // Replaces DEFAULT_PERSONA
+  persona?: string;
+  // Skill instructions, e.g. from getSkillPrompt()
+  skill?: string;
+  tools?: ToolDefinition[];
+  workspace?: WorkspaceFacts;
+  preferences?: UserPreferences;
+}
+
+function workspaceSection(workspace: WorkspaceFacts): string | null {
+  const facts: string[] = [];
+  if (workspace.filesystem) facts.push(`- Filesystem: ${workspace.filesystem}`);
+  if (workspace.workingDirectory) facts.push(`- Working directory: ${workspace.workingDirectory}`);
+  return facts.length ? `## Workspace\n\n${facts.join('\n')}` : null;
+}
+
+function preferencesSection(preferences: UserPreferences): string | null {
+  const lines: string[] = [];
+  if (preferences.language) lines.push(`Reply in ${preferences.language}.`);
+  if (preferences.instructions?.trim()) lines.push(preferences.instructions.trim());
+  return lines.length ? `## User Preferences\n\n${lines.join('\n')}` : null;
+}
+
+/**
+ * Builds the system prompt from its layers, in order: persona, skill, tool
+ * catalog and calling protocol, workspace facts, user preferences. Empty
+ * layers are left out.
+ */
+export function composeSystemPrompt(layers: SystemPromptLayers = {}): string {
+  const sections: Array<string | null> = [
+    (layers.persona ?? DEFAULT_PERSONA).trim(),
+    layers.skill?.trim() || null
+  ];
+
+  if (layers.tools?.length) {
+    sections.push(`## Available Tools\n\n${layers.tools.map(tool => toolToMarkdown(tool).trim()).join('\n\n')}`);
+    sections.push(TOOL_CALL_PROTOCOL);
+  }
+  if (layers.workspace) sections.push(workspaceSection(layers.workspace));
+  if (layers.preferences) sections.push(preferencesSection(layers.preferences));
+
+  return sections.filter((section): section is string => Boolean(section)).join('\n\n');
+}
@@ -3,3 +3,4 @@ export * from './tools/index.js';
 export * from './providers/index.js';
 export * from './storage/index.js';
 export * from './skills/index.js';
+export * from './security/index.js';
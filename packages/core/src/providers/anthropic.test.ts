@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Message } from '@pixelmate/shared';
+import { toAnthropicMessages } from './anthropic.js';
+
+describe('toAnthropicMessages()', () => {
+  it('drops the system message and keeps string content', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'Be helpful.' },
+      { role: 'user', content: 'Hi' },
+    ];
+    expect(toAnthropicMessages(messages)).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+
+  it('serializes tool_use, tool_result and image blocks', () => {
+    const messages: Message[] = [
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'browser_screenshot', input: {} }],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            toolUseId: 'toolu_1',
+            content: [{ type: 'image', mimeType: 'image/png', data: 'AAAA' }],
+          },
+          { type: 'tool_result', toolUseId: 'toolu_2', content: 'denied', isError: true },
+        ],
+      },
+    ];
+    expect(toAnthropicMessages(messages)).toEqual([
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'browser_screenshot', input: {} }],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } }],
+          },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: 'denied', is_error: true },
+        ],
+      },
+    ]);
+  });
+});
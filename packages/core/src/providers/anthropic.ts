@@ -1,5 +1,61 @@
-import { ChatOptions, ChatResponse, StreamingChunk, LLMProvider, Message } from '@pixelmate/shared';
+import { ChatOptions, ChatResponse, StreamingChunk, LLMProvider, Message, ToolCall, ToolDefinition, ContentBlock, ImageBlock, TextBlock } from '@pixelmate/shared';
 import Anthropic from '@anthropic-ai/sdk';
+import { toJSONSchema } from '../tools/schema.js';
+import { messageText } from './content.js';
+import { ToolCallAccumulator } from './tool-calls.js';
+
+type AnthropicImageType = Anthropic.ImageBlockParam['source']['media_type'];
+type AnthropicBlockParam = Exclude<Anthropic.MessageParam['content'], string>[number];
+
+function toAnthropicImage(block: ImageBlock): Anthropic.ImageBlockParam {
+  return {
+    type: 'image',
+    source: { type: 'base64', media_type: block.mimeType as AnthropicImageType, data: block.data }
+  };
+}
+
+function toAnthropicBlock(block: ContentBlock): AnthropicBlockParam {
+  switch (block.type) {
+    case 'text':
+      return { type: 'text', text: block.text };
+    case 'image':
+      return toAnthropicImage(block);
+    case 'tool_use':
+      return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+    case 'tool_result':
+      return {
+        type: 'tool_result',
+        tool_use_id: block.toolUseId,
+        content: typeof block.content === 'string'
+          ? block.content
+          : block.content.map((part: TextBlock | ImageBlock) =>
+              part.type === 'text' ? { type: 'text' as const, text: part.text } : toAnthropicImage(part)),
+        ...(block.isError ? { is_error: true } : {})
+      };
+  }
+}
+
+export function toAnthropicMessages(messages: Message[]): Anthropic.MessageParam[] {
+  return messages
+    .filter((m: Message) => m.role !== 'system')
+    .map((m: Message) => ({
+      role: m.role as 'user' | 'assistant',
+      content: typeof m.content === 'string' ? m.content : m.content.map(toAnthropicBlock)
+    }));
+}
+
+function systemPrompt(messages: Message[]): string {
+  const system = messages.find((m: Message) => m.role === 'system');
+  return system ? messageText(system.content) : '';
+}
+
+function toAnthropicTools(tools: ToolDefinition[]): Anthropic.Tool[] {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: toJSONSchema(tool.parameters)
+  }));
+}
 
 export class AnthropicProvider implements LLMProvider {
   private client: Anthropic;
@@ -16,31 +72,36 @@ export class AnthropicProvider implements LLMProvider {
   }
 
   async chat(options: ChatOptions): Promise<ChatResponse> {
-    const messages = options.messages
-      .filter((m: Message) => m.role !== 'system')
-      .map((m: Message) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content
-      }));
-
-    const systemMessage = options.messages.find((m: Message) => m.role === 'system')?.content || '';
+    const messages = toAnthropicMessages(options.messages);
+    const systemMessage = systemPrompt(options.messages);
 
     const response = await this.client.messages.create({
       model: options.model || 'claude-sonnet-4',
       max_tokens: options.maxTokens || 4096,
       system: systemMessage,
-      messages: messages
-    });
+      messages: messages,
+      ...(options.tools?.length ? { tools: toAnthropicTools(options.tools) } : {})
+    }, { signal: options.signal });
 
-    const content = response.content
-      .filter(block => block.type === 'text')
-      .map(block => (block as any).text)
-      .join('');
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          name: block.name,
+          id: block.id,
+          parameters: (block.input || {}) as Record<string, unknown>
+        });
+      }
+    }
 
     return {
       id: response.id,
       model: response.model,
       content,
+      toolCalls,
       usage: {
         inputTokens: response.usage?.input_tokens || 0,
         outputTokens: response.usage?.output_tokens || 0
@@ -49,45 +110,56 @@ export class AnthropicProvider implements LLMProvider {
   }
 
   async *chatStream(options: ChatOptions): AsyncGenerator<StreamingChunk> {
-    const messages = options.messages
-      .filter((m: Message) => m.role !== 'system')
-      .map((m: Message) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content
-      }));
-
-    const systemMessage = options.messages.find((m: Message) => m.role === 'system')?.content || '';
+    const messages = toAnthropicMessages(options.messages);
+    const systemMessage = systemPrompt(options.messages);
 
     const stream = this.client.messages.stream({
       model: options.model || 'claude-sonnet-4',
       max_tokens: options.maxTokens || 4096,
       system: systemMessage,
-      messages: messages
-    });
+      messages: messages,
+      ...(options.tools?.length ? { tools: toAnthropicTools(options.tools) } : {})
+    }, { signal: options.signal });
 
+    const toolCalls = new ToolCallAccumulator();
     let currentId = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
     for await (const chunk of stream) {
-      if (chunk.type === 'message_start' && chunk.message) {
+      if (chunk.type === 'message_start') {
         currentId = chunk.message.id;
-      }
-      
-      if (chunk.type === 'content_block_delta' && chunk.delta) {
-        const delta = (chunk.delta as any).text || '';
-        yield {
-          id: currentId,
-          delta,
-          done: false
-        };
+        inputTokens = chunk.message.usage.input_tokens;
+      } else if (chunk.type === 'message_delta') {
+        outputTokens = chunk.usage.output_tokens;
+      } else if (chunk.type === 'content_block_start' && chunk.content_block.type === 'tool_use') {
+        const toolCallDelta = { index: chunk.index, id: chunk.content_block.id, name: chunk.content_block.name };
+        toolCalls.add(toolCallDelta);
+        yield { id: currentId, delta: '', done: false, toolCallDelta };
+      } else if (chunk.type === 'content_block_delta') {
+        if (chunk.delta.type === 'text_delta') {
+          yield { id: currentId, delta: chunk.delta.text, done: false };
+        } else if (chunk.delta.type === 'input_json_delta') {
+          const toolCallDelta = { index: chunk.index, argumentsDelta: chunk.delta.partial_json };
+          toolCalls.add(toolCallDelta);
+          yield { id: currentId, delta: '', done: false, toolCallDelta };
+        }
       }
     }
 
     yield {
       id: currentId,
       delta: '',
-      done: true
+      done: true,
+      toolCalls: toolCalls.toToolCalls(),
+      usage: { inputTokens, outputTokens }
     };
   }
 
+  // Every Claude 3 and later model takes images
+  supportsImages(_model: string): boolean {
+    return true;
+  }
+
   async listModels(): Promise<string[]> {
     // Anthropic doesn't have a list models endpoint in the browser SDK
     // Return known models instead
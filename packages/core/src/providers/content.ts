@@ -0,0 +1,11 @@
+import { Message, TextBlock } from '@pixelmate/shared';
+
+export function messageText(content: Message['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+}
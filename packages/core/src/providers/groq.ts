@@ -1,5 +1,6 @@
-import { ChatOptions, ChatResponse, StreamingChunk, LLMProvider, Message } from '@pixelmate/shared';
+import { ChatOptions, ChatResponse, StreamingChunk, LLMProvider } from '@pixelmate/shared';
 import OpenAI from 'openai';
+import { toOpenAIMessages, toOpenAITools, fromOpenAIToolCalls, streamOpenAIChunks } from './openai.js';
 
 export class GroqProvider implements LLMProvider {
   private client: OpenAI;
@@ -17,24 +18,24 @@ export class GroqProvider implements LLMProvider {
   }
 
   async chat(options: ChatOptions): Promise<ChatResponse> {
-    const messages = options.messages.map((m: Message) => ({
-      role: m.role as 'system' | 'user' | 'assistant',
-      content: m.content
-    }));
+    const messages = toOpenAIMessages(options.messages);
 
     const response = await this.client.chat.completions.create({
       model: options.model || 'llama-3.3-70b-versatile',
       max_tokens: options.maxTokens || 4096,
       temperature: options.temperature || 0.7,
-      messages
-    });
+      messages,
+      ...(options.tools?.length ? { tools: toOpenAITools(options.tools) } : {})
+    }, { signal: options.signal });
 
-    const content = response.choices[0]?.message?.content || '';
+    const message = response.choices[0]?.message;
+    const content = message?.content || '';
 
     return {
       id: response.id,
       model: response.model,
       content,
+      toolCalls: fromOpenAIToolCalls(message?.tool_calls),
       usage: {
         inputTokens: response.usage?.prompt_tokens || 0,
         outputTokens: response.usage?.completion_tokens || 0
@@ -43,38 +44,23 @@ export class GroqProvider implements LLMProvider {
   }
 
   async *chatStream(options: ChatOptions): AsyncGenerator<StreamingChunk> {
-    const messages = options.messages.map((m: Message) => ({
-      role: m.role as 'system' | 'user' | 'assistant',
-      content: m.content
-    }));
+    const messages = toOpenAIMessages(options.messages);
 
     const stream = await this.client.chat.completions.create({
       model: options.model || 'llama-3.3-70b-versatile',
       max_tokens: options.maxTokens || 4096,
       temperature: options.temperature || 0.7,
       messages,
+      ...(options.tools?.length ? { tools: toOpenAITools(options.tools) } : {}),
       stream: true
-    });
-
-    let currentId = '';
-    for await (const chunk of stream) {
-      if (!currentId && chunk.id) {
-        currentId = chunk.id;
-      }
+    }, { signal: options.signal });
 
-      const delta = chunk.choices[0]?.delta?.content || '';
-      yield {
-        id: currentId,
-        delta,
-        done: false
-      };
-    }
+    yield* streamOpenAIChunks(stream);
+  }
 
-    yield {
-      id: currentId,
-      delta: '',
-      done: true
-    };
+  // Only Groq's vision and Llama 4 models take images
+  supportsImages(model: string): boolean {
+    return /vision|llama-4/.test(model);
   }
 
   async listModels(): Promise<string[]> {
@@ -1,3 +1,4 @@
 export { AnthropicProvider } from './anthropic.js';
 export { OpenAIProvider } from './openai.js';
 export { GroqProvider } from './groq.js';
+export { messageText } from './content.js';
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { Message } from '@pixelmate/shared';
+import OpenAI from 'openai';
+import { toOpenAIMessages, fromOpenAIToolCalls, streamOpenAIChunks } from './openai.js';
+
+describe('toOpenAIMessages()', () => {
+  it('passes plain string messages through', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'Be helpful.' },
+      { role: 'user', content: 'Hi' },
+    ];
+    expect(toOpenAIMessages(messages)).toEqual([
+      { role: 'system', content: 'Be helpful.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+  });
+
+  it('maps tool_use blocks to assistant tool_calls and results to tool messages', () => {
+    const messages: Message[] = [
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Reading.' },
+          { type: 'tool_use', id: 'call-1', name: 'read_file', input: { path: '/a.txt' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', toolUseId: 'call-1', content: 'contents' },
+          { type: 'tool_result', toolUseId: 'call-2', content: 'boom', isError: true },
+        ],
+      },
+    ];
+    expect(toOpenAIMessages(messages)).toEqual([
+      {
+        role: 'assistant',
+        content: 'Reading.',
+        tool_calls: [
+          { id: 'call-1', type: 'function', function: { name: 'read_file', arguments: '{"path":"/a.txt"}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call-1', content: 'contents' },
+      { role: 'tool', tool_call_id: 'call-2', content: 'Error: boom' },
+    ]);
+  });
+
+  it('forwards images from tool results in a follow-up user message', () => {
+    const messages: Message[] = [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            toolUseId: 'call-1',
+            content: [
+              { type: 'text', text: 'Screenshot taken' },
+              { type: 'image', mimeType: 'image/png', data: 'AAAA' },
+            ],
+          },
+        ],
+      },
+    ];
+    expect(toOpenAIMessages(messages)).toEqual([
+      { role: 'tool', tool_call_id: 'call-1', content: 'Screenshot taken' },
+      { role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] },
+    ]);
+  });
+});
+
+describe('fromOpenAIToolCalls()', () => {
+  it('parses function arguments and reports malformed JSON', () => {
+    const calls = fromOpenAIToolCalls([
+      { id: 'a', type: 'function', function: { name: 'echo', arguments: '{"message":"hi"}' } },
+      { id: 'b', type: 'function', function: { name: 'echo', arguments: '{oops' } },
+      { id: 'c', type: 'function', function: { name: 'echo', arguments: '["hi"]' } },
+    ]);
+    expect(calls).toEqual([
+      { id: 'a', name: 'echo', parameters: { message: 'hi' } },
+      { id: 'b', name: 'echo', parameters: {}, parseError: expect.stringContaining('Arguments are not valid JSON') },
+      { id: 'c', name: 'echo', parameters: {}, parseError: 'Arguments must be a JSON object' },
+    ]);
+  });
+});
+
+describe('streamOpenAIChunks()', () => {
+  async function* chunks(deltas: OpenAI.ChatCompletionChunk.Choice.Delta[]): AsyncGenerator<OpenAI.ChatCompletionChunk> {
+    for (const delta of deltas) {
+      yield {
+        id: 'chatcmpl-1', object: 'chat.completion.chunk', created: 0, model: 'gpt-4o',
+        choices: [{ index: 0, delta, finish_reason: null }],
+      };
+    }
+  }
+
+  it('yields text deltas and assembles streamed tool calls on the final chunk', async () => {
+    const out = [];
+    for await (const chunk of streamOpenAIChunks(chunks([
+      { content: 'Reading' },
+      { tool_calls: [{ index: 0, id: 'call-1', function: { name: 'read_file', arguments: '' } }] },
+      { tool_calls: [{ index: 0, function: { arguments: '{"path":' } }] },
+      { tool_calls: [{ index: 0, function: { arguments: '"/a.txt"}' } }] },
+    ]))) {
+      out.push(chunk);
+    }
+
+    expect(out[0]).toEqual({ id: 'chatcmpl-1', delta: 'Reading', done: false });
+    expect(out.filter(c => c.toolCallDelta)).toHaveLength(3);
+    expect(out[out.length - 1]).toMatchObject({
+      done: true,
+      toolCalls: [{ id: 'call-1', name: 'read_file', parameters: { path: '/a.txt' } }],
+    });
+  });
+});
@@ -1,5 +1,128 @@
-import { ChatOptions, ChatResponse, StreamingChunk, LLMProvider, Message } from '@pixelmate/shared';
+import { ChatOptions, ChatResponse, StreamingChunk, LLMProvider, Message, ToolCall, ToolDefinition, ImageBlock, ToolResultBlock } from '@pixelmate/shared';
 import OpenAI from 'openai';
+import { toJSONSchema } from '../tools/schema.js';
+import { messageText } from './content.js';
+import { parseToolArguments, ToolCallAccumulator } from './tool-calls.js';
+
+// Shared with GroqProvider, which speaks the same chat-completions dialect
+export function toOpenAITools(tools: ToolDefinition[]): OpenAI.ChatCompletionTool[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: toJSONSchema(tool.parameters)
+    }
+  }));
+}
+
+function toOpenAIImage(block: ImageBlock): OpenAI.ChatCompletionContentPartImage {
+  return { type: 'image_url', image_url: { url: `data:${block.mimeType};base64,${block.data}` } };
+}
+
+function toolResultText(block: ToolResultBlock): string {
+  const text = typeof block.content === 'string' ? block.content : messageText(block.content);
+  return block.isError ? `Error: ${text}` : text;
+}
+
+export function toOpenAIMessages(messages: Message[]): OpenAI.ChatCompletionMessageParam[] {
+  const result: OpenAI.ChatCompletionMessageParam[] = [];
+
+  for (const m of messages) {
+    if (m.role === 'system') {
+      result.push({ role: 'system', content: messageText(m.content) });
+    } else if (typeof m.content === 'string') {
+      result.push({ role: m.role, content: m.content });
+    } else if (m.role === 'assistant') {
+      const toolCalls: OpenAI.ChatCompletionMessageToolCall[] = [];
+      for (const block of m.content) {
+        if (block.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input) }
+          });
+        }
+      }
+      result.push({
+        role: 'assistant',
+        content: messageText(m.content) || null,
+        ...(toolCalls.length ? { tool_calls: toolCalls } : {})
+      });
+    } else {
+      // Tool results become `tool` messages. Those are text-only, so any
+      // images they carry follow in a user message alongside regular content.
+      const parts: OpenAI.ChatCompletionContentPart[] = [];
+      for (const block of m.content) {
+        if (block.type === 'tool_result') {
+          result.push({ role: 'tool', tool_call_id: block.toolUseId, content: toolResultText(block) });
+          if (typeof block.content !== 'string') {
+            for (const part of block.content) {
+              if (part.type === 'image') parts.push(toOpenAIImage(part));
+            }
+          }
+        } else if (block.type === 'text') {
+          parts.push({ type: 'text', text: block.text });
+        } else if (block.type === 'image') {
+          parts.push(toOpenAIImage(block));
+        }
+      }
+      if (parts.length) {
+        result.push({ role: 'user', content: parts });
+      }
+    }
+  }
+
+  return result;
+}
+
+export async function* streamOpenAIChunks(
+  stream: AsyncIterable<OpenAI.ChatCompletionChunk>
+): AsyncGenerator<StreamingChunk> {
+  const toolCalls = new ToolCallAccumulator();
+  let currentId = '';
+  let usage: StreamingChunk['usage'];
+
+  for await (const chunk of stream) {
+    if (!currentId && chunk.id) {
+      currentId = chunk.id;
+    }
+    if (chunk.usage) {
+      usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+    }
+
+    const delta = chunk.choices[0]?.delta;
+    if (delta?.content) {
+      yield { id: currentId, delta: delta.content, done: false };
+    }
+    for (const call of delta?.tool_calls || []) {
+      const toolCallDelta = {
+        index: call.index,
+        id: call.id,
+        name: call.function?.name,
+        argumentsDelta: call.function?.arguments
+      };
+      toolCalls.add(toolCallDelta);
+      yield { id: currentId, delta: '', done: false, toolCallDelta };
+    }
+  }
+
+  yield {
+    id: currentId,
+    delta: '',
+    done: true,
+    toolCalls: toolCalls.toToolCalls(),
+    usage
+  };
+}
+
+export function fromOpenAIToolCalls(toolCalls: OpenAI.ChatCompletionMessageToolCall[] | undefined): ToolCall[] {
+  return (toolCalls || []).map(call => ({
+    name: call.function.name,
+    id: call.id,
+    ...parseToolArguments(call.function.arguments)
+  }));
+}
 
 export class OpenAIProvider implements LLMProvider {
   private client: OpenAI;
@@ -16,24 +139,24 @@ export class OpenAIProvider implements LLMProvider {
   }
 
   async chat(options: ChatOptions): Promise<ChatResponse> {
-    const messages = options.messages.map((m: Message) => ({
-      role: m.role as 'system' | 'user' | 'assistant',
-      content: m.content
-    }));
+    const messages = toOpenAIMessages(options.messages);
 
     const response = await this.client.chat.completions.create({
       model: options.model || 'gpt-4-turbo-preview',
       max_tokens: options.maxTokens || 4096,
       temperature: options.temperature || 0.7,
-      messages: messages
-    });
+      messages: messages,
+      ...(options.tools?.length ? { tools: toOpenAITools(options.tools) } : {})
+    }, { signal: options.signal });
 
-    const content = response.choices[0]?.message?.content || '';
+    const message = response.choices[0]?.message;
+    const content = message?.content || '';
 
     return {
       id: response.id,
       model: response.model,
       content,
+      toolCalls: fromOpenAIToolCalls(message?.tool_calls),
       usage: {
         inputTokens: response.usage?.prompt_tokens || 0,
         outputTokens: response.usage?.completion_tokens || 0
@@ -42,38 +165,24 @@ export class OpenAIProvider implements LLMProvider {
   }
 
   async *chatStream(options: ChatOptions): AsyncGenerator<StreamingChunk> {
-    const messages = options.messages.map((m: Message) => ({
-      role: m.role as 'system' | 'user' | 'assistant',
-      content: m.content
-    }));
+    const messages = toOpenAIMessages(options.messages);
 
     const stream = await this.client.chat.completions.create({
       model: options.model || 'gpt-4-turbo-preview',
       max_tokens: options.maxTokens || 4096,
       temperature: options.temperature || 0.7,
       messages: messages,
-      stream: true
-    });
+      ...(options.tools?.length ? { tools: toOpenAITools(options.tools) } : {}),
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: options.signal });
 
-    let currentId = '';
-    for await (const chunk of stream) {
-      if (!currentId && chunk.id) {
-        currentId = chunk.id;
-      }
-      
-      const delta = chunk.choices[0]?.delta?.content || '';
-      yield {
-        id: currentId,
-        delta,
-        done: false
-      };
-    }
+    yield* streamOpenAIChunks(stream);
+  }
 
-    yield {
-      id: currentId,
-      delta: '',
-      done: true
-    };
+  // GPT-4o, GPT-4 Turbo and later, and the o-series; not GPT-3.5 or the original GPT-4
+  supportsImages(model: string): boolean {
+    return /^(gpt-4o|gpt-4-turbo|gpt-4\.\d|gpt-5|o\d)/.test(model);
   }
 
   async listModels(): Promise<string[]> {
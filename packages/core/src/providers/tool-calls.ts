@@ -0,0 +1,38 @@
+import { ToolCall, ToolCallDelta } from '@pixelmate/shared';
+
+/** A call's parameters, or the reason its argument JSON is unusable. */
+export function parseToolArguments(json: string): Pick<ToolCall, 'parameters' | 'parseError'> {
+  if (!json) return { parameters: {} };
+  try {
+    const parameters: unknown = JSON.parse(json);
+    if (typeof parameters !== 'object' || parameters === null || Array.isArray(parameters)) {
+      return { parameters: {}, parseError: 'Arguments must be a JSON object' };
+    }
+    return { parameters: parameters as Record<string, unknown> };
+  } catch (error) {
+    return { parameters: {}, parseError: `Arguments are not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/** Assembles streamed tool-call fragments into complete ToolCalls. */
+export class ToolCallAccumulator {
+  private calls = new Map<number, { id: string; name: string; arguments: string }>();
+
+  add(delta: ToolCallDelta): void {
+    const call = this.calls.get(delta.index) ?? { id: '', name: '', arguments: '' };
+    if (delta.id) call.id = delta.id;
+    if (delta.name) call.name = delta.name;
+    if (delta.argumentsDelta) call.arguments += delta.argumentsDelta;
+    this.calls.set(delta.index, call);
+  }
+
+  toToolCalls(): ToolCall[] {
+    return [...this.calls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({
+        name: call.name,
+        id: call.id,
+        ...parseToolArguments(call.arguments)
+      }));
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { ConfirmationGrants, MemoryGrantStore, grantMatch } from './grants.js';
+
+// ──────────────────────────────────────────────────────────────
+// What a matching grant covers
+// ──────────────────────────────────────────────────────────────
+
+describe('grantMatch', () => {
+  it('covers the folder of each path and the host of each URL', () => {
+    expect(grantMatch('write_file', { path: '/reports/2024/q3.md' })).toEqual({ paths: ['/reports/2024/**'] });
+    expect(grantMatch('move_file', { from: '/inbox/a.txt', to: '/archive/a.txt' })).toEqual({ paths: ['/inbox/**', '/archive/**'] });
+    expect(grantMatch('browser_navigate', { url: 'https://docs.example.com/page?q=1' })).toEqual({ domains: ['docs.example.com'] });
+  });
+
+  it('keeps root files exact and has nothing to match for other calls', () => {
+    expect(grantMatch('write_file', { path: '/notes.md' })).toEqual({ paths: ['/notes.md'] });
+    expect(grantMatch('browser_click', { selector: '#submit' })).toBeUndefined();
+    expect(grantMatch('browser_navigate', { url: 'not a url' })).toBeUndefined();
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// ConfirmationGrants
+// ──────────────────────────────────────────────────────────────
+
+describe('ConfirmationGrants', () => {
+  it('limits task grants to their task and keeps them out of the store', async () => {
+    const store = new MemoryGrantStore();
+    const grants = new ConfirmationGrants(store);
+    await grants.grant('task', 'browser_click', { selector: '#a' }, 'task-1');
+
+    expect(await grants.covers('browser_click', { selector: '#b' }, 'task-1')).toMatchObject({ scope: 'task' });
+    expect(await grants.covers('browser_click', { selector: '#b' }, 'task-2')).toBeUndefined();
+    expect(await grants.covers('browser_fill', { selector: '#b' }, 'task-1')).toBeUndefined();
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('drops a task\'s grants when the task ends', async () => {
+    const grants = new ConfirmationGrants();
+    await grants.grant('task', 'browser_click', { selector: '#a' }, 'task-1');
+    await grants.grant('task', 'browser_click', { selector: '#a' }, 'task-2');
+    await grants.grant('always', 'browser_fill', { selector: '#a' }, 'task-1');
+
+    grants.endTask('task-1');
+    expect(await grants.list()).toEqual([
+      expect.objectContaining({ scope: 'task', taskId: 'task-2' }),
+      expect.objectContaining({ scope: 'always', tool: 'browser_fill' }),
+    ]);
+  });
+
+  it('only covers calls whose every path falls under a matching grant', async () => {
+    const grants = new ConfirmationGrants();
+    await grants.grant('matching', 'move_file', { from: '/inbox/a.txt', to: '/archive/a.txt' }, 'task-1');
+
+    expect(await grants.covers('move_file', { from: '/inbox/b.txt', to: '/archive/2024/b.txt' }, 'task-2')).toBeDefined();
+    expect(await grants.covers('move_file', { from: '/inbox/b.txt', to: '/private/b.txt' }, 'task-2')).toBeUndefined();
+    expect(await grants.covers('move_file', { from: '/inbox/../private/b.txt', to: '/archive/b.txt' }, 'task-2')).toBeUndefined();
+    await expect(grants.grant('matching', 'browser_click', { selector: '#a' }, 'task-1')).rejects.toThrow('no paths or domains');
+  });
+
+  it('stores lasting grants, skips once, and revokes by ID', async () => {
+    const store = new MemoryGrantStore();
+    const grants = new ConfirmationGrants(store);
+    expect(await grants.grant('once', 'gmail_send', { to: 'a@b.com' }, 'task-1')).toBeUndefined();
+    const always = await grants.grant('always', 'gmail_send', { to: 'a@b.com' }, 'task-1');
+    const task = await grants.grant('task', 'write_file', { path: '/a' }, 'task-1');
+
+    expect(await grants.list()).toEqual([task, always]);
+    // A fresh instance over the same store, e.g. after a restart, still sees lasting grants
+    expect(await new ConfirmationGrants(store).covers('gmail_send', { to: 'c@d.com' }, 'task-9')).toEqual(always);
+
+    expect(await grants.revoke(always!.id)).toBe(true);
+    expect(await grants.revoke(task!.id)).toBe(true);
+    expect(await grants.revoke('missing')).toBe(false);
+    expect(await grants.list()).toEqual([]);
+  });
+});
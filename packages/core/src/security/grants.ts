@@ -0,0 +1,133 @@
+/**
+ * Standing approvals the user gives while answering a confirmation, so the
+ * same kind of call doesn't ask again: for the rest of the task, for paths or
+ * domains like the approved call's, or always. Grants only stand in for the
+ * user's answer; calls the policy denies stay denied.
+ */
+
+import { hostsOf, matchesRule, pathsOf } from './policy.js';
+
+export type GrantScope = 'once' | 'task' | 'matching' | 'always';
+export const GRANT_SCOPES: GrantScope[] = ['once', 'task', 'matching', 'always'];
+
+export interface GrantMatch {
+  // Path globs, e.g. '/reports/**'
+  paths?: string[];
+  // URL hosts; each also covers its subdomains
+  domains?: string[];
+}
+
+export interface ConfirmationGrant extends GrantMatch {
+  id: string;
+  tool: string;
+  scope: Exclude<GrantScope, 'once'>;
+  // Set on 'task' grants
+  taskId?: string;
+  createdAt: string;
+}
+
+/** Where grants that outlive a task are kept, e.g. MemoryDB preferences or chrome.storage.local. */
+export interface GrantStore {
+  load(): Promise<ConfirmationGrant[]>;
+  save(grants: ConfirmationGrant[]): Promise<void>;
+}
+
+export class MemoryGrantStore implements GrantStore {
+  private grants: ConfirmationGrant[] = [];
+
+  async load(): Promise<ConfirmationGrant[]> {
+    return [...this.grants];
+  }
+
+  async save(grants: ConfirmationGrant[]): Promise<void> {
+    this.grants = [...grants];
+  }
+}
+
+function generateId(): string {
+  return `grant-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * What a 'matching' grant for this call would cover: the folder of each path
+ * it touches and the host of each URL it opens. Undefined for calls with
+ * neither, which can only be granted per task or always.
+ */
+export function grantMatch(toolName: string, params: Record<string, unknown>): GrantMatch | undefined {
+  const paths = [...new Set(pathsOf(toolName, params).map(path => {
+    const folder = path.slice(0, path.lastIndexOf('/'));
+    // Approving one file at the root shouldn't approve the whole workspace
+    return folder === '' ? path : `${folder}/**`;
+  }))];
+  // Values that weren't URLs come back as-is; they name no host to grant
+  const domains = [...new Set(hostsOf(params).filter(host => /^[a-z0-9.-]+$/.test(host)))];
+  if (paths.length === 0 && domains.length === 0) return undefined;
+  return {
+    ...(paths.length > 0 && { paths }),
+    ...(domains.length > 0 && { domains })
+  };
+}
+
+export class ConfirmationGrants {
+  // Task grants end with their task, or with the runtime that made them, so they are never stored
+  private taskGrants: ConfirmationGrant[] = [];
+
+  constructor(private store: GrantStore = new MemoryGrantStore()) {}
+
+  /** The grant that approves this call without asking, if any. */
+  async covers(toolName: string, params: Record<string, unknown>, taskId: string): Promise<ConfirmationGrant | undefined> {
+    const grants = [...this.taskGrants, ...await this.store.load()];
+    return grants.find(grant => {
+      if (grant.tool !== toolName) return false;
+      if (grant.scope === 'task') return grant.taskId === taskId;
+      if (grant.scope === 'matching') {
+        // Matched like an allow rule, so every path and host of the call has to be covered
+        return matchesRule({ tool: grant.tool, action: 'allow', paths: grant.paths, domains: grant.domains }, toolName, params);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Records the user's choice for an approved call. Returns undefined for
+   * 'once', and throws for 'matching' when the call touches no paths or URLs.
+   */
+  async grant(scope: GrantScope, toolName: string, params: Record<string, unknown>, taskId: string): Promise<ConfirmationGrant | undefined> {
+    if (scope === 'once') return undefined;
+    const grant: ConfirmationGrant = { id: generateId(), tool: toolName, scope, createdAt: new Date().toISOString() };
+    if (scope === 'task') {
+      this.taskGrants.push({ ...grant, taskId });
+      return { ...grant, taskId };
+    }
+    if (scope === 'matching') {
+      const match = grantMatch(toolName, params);
+      if (!match) throw new Error(`${toolName} touches no paths or domains to match`);
+      Object.assign(grant, match);
+    }
+    await this.store.save([...await this.store.load(), grant]);
+    return grant;
+  }
+
+  /** Drops the grants made for a task; called when it completes, fails or is cancelled. */
+  endTask(taskId: string): void {
+    this.taskGrants = this.taskGrants.filter(grant => grant.taskId !== taskId);
+  }
+
+  /** Every grant in force, task grants first. */
+  async list(): Promise<ConfirmationGrant[]> {
+    return [...this.taskGrants, ...await this.store.load()];
+  }
+
+  /** Returns false when no grant has this ID. */
+  async revoke(id: string): Promise<boolean> {
+    const taskCount = this.taskGrants.length;
+    this.taskGrants = this.taskGrants.filter(grant => grant.id !== id);
+    if (this.taskGrants.length < taskCount) return true;
+
+    const stored = await this.store.load();
+    const remaining = stored.filter(grant => grant.id !== id);
+    if (remaining.length === stored.length) return false;
+    await this.store.save(remaining);
+    return true;
+  }
+}
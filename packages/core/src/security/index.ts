@@ -0,0 +1,4 @@
+export { SecurityPolicy, DEFAULT_POLICY_RULES, parsePolicyRules } from './policy.js';
+export type { DangerLevel, PolicyAction, PolicyRule, PolicyDecision } from './policy.js';
+export { ConfirmationGrants, MemoryGrantStore, grantMatch, GRANT_SCOPES } from './grants.js';
+export type { GrantScope, GrantMatch, ConfirmationGrant, GrantStore } from './grants.js';
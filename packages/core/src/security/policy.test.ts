@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { SecurityPolicy, parsePolicyRules } from './policy.js';
+
+// ──────────────────────────────────────────────────────────────
+// Built-in rules
+// ──────────────────────────────────────────────────────────────
+
+describe('SecurityPolicy defaults', () => {
+  const policy = new SecurityPolicy();
+
+  it('confirms file changes, sends and navigation with their danger level', () => {
+    expect(policy.evaluate('delete_file', { path: '/a' })).toMatchObject({ action: 'confirm', dangerLevel: 'critical' });
+    expect(policy.evaluate('write_file', { path: '/a' })).toMatchObject({ action: 'confirm', dangerLevel: 'medium' });
+    expect(policy.evaluate('gmail_send', { to: 'a@b.com' })).toMatchObject({ action: 'confirm', dangerLevel: 'high' });
+    expect(policy.evaluate('browser_navigate', { url: 'https://example.com' })).toMatchObject({ action: 'confirm', dangerLevel: 'high' });
+    expect(policy.evaluate('create_directory', { path: '/a' })).toMatchObject({ action: 'confirm', dangerLevel: 'low' });
+  });
+
+  it('confirms formatters and screenshots only when they save a file', () => {
+    expect(policy.evaluate('format_as_json', { data: {}, path: '/a.json' })).toMatchObject({ action: 'confirm', dangerLevel: 'medium' });
+    expect(policy.requiresConfirmation('format_as_markdown', { data: {}, path: '/a.md' })).toBe(true);
+    expect(policy.requiresConfirmation('convert_between_formats', { inputPath: '/a.csv', outputPath: '/a.json' })).toBe(true);
+    expect(policy.requiresConfirmation('browser_screenshot', { path: '/shot.png' })).toBe(true);
+
+    expect(policy.requiresConfirmation('format_as_json', { data: {} })).toBe(false);
+    expect(policy.requiresConfirmation('convert_between_formats', { inputPath: '/a.csv' })).toBe(false);
+    expect(policy.requiresConfirmation('browser_screenshot', { path: '' })).toBe(false);
+  });
+
+  it('allows read-only and unknown tools', () => {
+    expect(policy.evaluate('read_file', { path: '/a' })).toEqual({ action: 'allow', dangerLevel: 'none', description: 'Run read_file' });
+    expect(policy.requiresConfirmation('web_search')).toBe(false);
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// User rules
+// ──────────────────────────────────────────────────────────────
+
+describe('SecurityPolicy user rules', () => {
+  it('match path globs, keeping the built-in danger level', () => {
+    const policy = new SecurityPolicy([
+      { tool: '*', paths: ['/drive/finance/**', '*.env'], action: 'deny' },
+      { tool: 'write_file', paths: ['/scratch/**'], action: 'allow' },
+    ]);
+
+    expect(policy.evaluate('write_file', { path: '/scratch/notes.md' }).action).toBe('allow');
+    expect(policy.evaluate('write_file', { path: '/notes.md' }).action).toBe('confirm');
+    expect(policy.evaluate('read_file', { path: '/app/.env' }).action).toBe('deny');
+    expect(policy.evaluate('delete_file', { path: '/drive/finance/q3.xlsx' })).toMatchObject({ action: 'deny', dangerLevel: 'critical' });
+    // Dot segments don't get around a rule
+    expect(policy.evaluate('read_file', { path: '/scratch/../drive/finance/q3.xlsx' }).action).toBe('deny');
+  });
+
+  it('see every path a tool reads or writes', () => {
+    const policy = new SecurityPolicy([{ tool: '*', paths: ['/drive/finance/**'], action: 'deny' }]);
+
+    expect(policy.evaluate('convert_to_document', { sourcePath: '/drive/finance/q3.md', path: '/q3.docx' }).action).toBe('deny');
+    expect(policy.evaluate('create_slides_from_outline', { sourcePath: '/drive/finance/outline.md', path: '/deck.pptx' }).action).toBe('deny');
+    expect(policy.evaluate('convert_between_formats', { inputPath: '/data.csv', outputPath: '/drive/finance/data.json' }).action).toBe('deny');
+  });
+
+  it('need every path covered to allow, but any path to deny', () => {
+    const policy = new SecurityPolicy([
+      { tool: 'move_file', paths: ['/protected/**'], action: 'deny' },
+      { tool: 'move_file', paths: ['/inbox/**'], action: 'allow' },
+    ]);
+
+    expect(policy.evaluate('move_file', { from: '/protected/a.md', to: '/inbox/a.md' }).action).toBe('deny');
+    expect(policy.evaluate('move_file', { from: '/inbox/a.md', to: '/inbox/done/a.md' }).action).toBe('allow');
+    expect(policy.evaluate('move_file', { from: '/inbox/a.md', to: '/elsewhere/a.md' }).action).toBe('confirm');
+  });
+
+  it('match URL domains and their subdomains', () => {
+    const policy = new SecurityPolicy([
+      { tool: 'browser_*', domains: ['bank.example'], action: 'deny' },
+      { tool: 'browser_navigate', domains: ['wikipedia.org'], action: 'allow' },
+    ]);
+
+    expect(policy.evaluate('browser_navigate', { url: 'https://en.wikipedia.org/wiki/Zip' }).action).toBe('allow');
+    expect(policy.evaluate('browser_navigate', { url: 'https://notwikipedia.org' }).action).toBe('confirm');
+    expect(policy.evaluate('browser_navigate', { url: 'https://login.bank.example/' }).action).toBe('deny');
+  });
+
+  it('match email recipients, including cc', () => {
+    const policy = new SecurityPolicy([
+      { tool: 'gmail_send', recipients: ['*@mycompany.com'], action: 'allow' },
+    ]);
+
+    expect(policy.evaluate('gmail_send', { to: 'Ana <ana@MyCompany.com>, bo@mycompany.com' }).action).toBe('allow');
+    expect(policy.evaluate('gmail_send', { to: 'ana@mycompany.com', cc: 'someone@gmail.com' }).action).toBe('confirm');
+  });
+});
+
+describe('parsePolicyRules', () => {
+  it('reads rules stored as JSON', () => {
+    expect(parsePolicyRules('[{"tool":"gmail_send","action":"deny"}]')).toEqual([{ tool: 'gmail_send', action: 'deny' }]);
+    expect(parsePolicyRules(undefined)).toEqual([]);
+  });
+
+  it('names the malformed rule', () => {
+    expect(() => parsePolicyRules([{ tool: 'x', action: 'allow' }, { tool: 'y', action: 'maybe' }])).toThrow('Security rule 2 is invalid: action');
+    expect(() => parsePolicyRules('{nope')).toThrow('not valid JSON');
+    expect(() => parsePolicyRules({ tool: 'x' })).toThrow('must be an array');
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * The one security policy every runtime applies to tool calls: which run
+ * straight away, which wait for the user's approval and which are refused.
+ * Rules match a tool by name and, optionally, by what the call touches
+ * (paths, URL domains, email recipients); the first matching rule decides.
+ */
+
+import { z } from 'zod';
+import { globToRegExp, matchesGlob } from '../tools/search.js';
+
+export type DangerLevel = 'none' | 'low' | 'medium' | 'high' | 'critical';
+export type PolicyAction = 'allow' | 'confirm' | 'deny';
+
+export interface PolicyRule {
+  // Tool name, or a glob over names such as 'gmail_*' or '*'
+  tool: string;
+  action: PolicyAction;
+  // Globs over the paths the call reads or writes, e.g. '/drive/**' or '*.env'
+  paths?: string[];
+  // Hosts of the URLs the call opens; 'example.com' also covers its subdomains
+  domains?: string[];
+  // Addresses the call sends email to, e.g. '*@example.com'
+  recipients?: string[];
+  // Parameters the call must set, e.g. 'outputPath' for a conversion that saves a file
+  params?: string[];
+  dangerLevel?: DangerLevel;
+  // Shown in the confirmation dialog, and as the error of a denied call
+  description?: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  dangerLevel: DangerLevel;
+  description: string;
+  // The rule that decided; absent when none matched and the call is allowed
+  rule?: PolicyRule;
+}
+
+/** Built-in rules, applied after the user's own. */
+export const DEFAULT_POLICY_RULES: PolicyRule[] = [
+  // Files
+  { tool: 'delete_file', action: 'confirm', dangerLevel: 'critical', description: 'Delete a file or directory permanently' },
+  { tool: 'move_file', action: 'confirm', dangerLevel: 'high', description: 'Move or rename a file' },
+  { tool: 'write_file', action: 'confirm', dangerLevel: 'medium', description: 'Write content to a file' },
+  { tool: 'edit_file', action: 'confirm', dangerLevel: 'medium', description: 'Change part of a file' },
+  { tool: 'apply_patch', action: 'confirm', dangerLevel: 'medium', description: 'Apply a patch to a file' },
+  { tool: 'copy_file', action: 'allow', dangerLevel: 'low', description: 'Copy a file' },
+  { tool: 'create_directory', action: 'confirm', dangerLevel: 'low', description: 'Create a folder' },
+
+  // Office files
+  { tool: 'create_document', action: 'confirm', dangerLevel: 'medium', description: 'Create a Word document' },
+  { tool: 'convert_to_document', action: 'confirm', dangerLevel: 'medium', description: 'Convert content into a Word document' },
+  { tool: 'create_spreadsheet', action: 'confirm', dangerLevel: 'medium', description: 'Create a spreadsheet file' },
+  { tool: 'create_csv', action: 'confirm', dangerLevel: 'medium', description: 'Create a CSV file' },
+  { tool: 'create_presentation', action: 'confirm', dangerLevel: 'medium', description: 'Create a PowerPoint presentation' },
+  { tool: 'create_slides_from_outline', action: 'confirm', dangerLevel: 'medium', description: 'Create a presentation from an outline' },
+
+  // Formatters, when they save their output
+  { tool: 'format_as_json', params: ['path'], action: 'confirm', dangerLevel: 'medium', description: 'Save JSON to a file' },
+  { tool: 'format_as_markdown', params: ['path'], action: 'confirm', dangerLevel: 'medium', description: 'Save Markdown to a file' },
+  { tool: 'convert_between_formats', params: ['outputPath'], action: 'confirm', dangerLevel: 'medium', description: 'Save converted data to a file' },
+
+  // Browser
+  { tool: 'browser_navigate', action: 'confirm', dangerLevel: 'high', description: 'Navigate to a URL in the browser' },
+  { tool: 'browser_click', action: 'confirm', dangerLevel: 'medium', description: 'Click an element on the page' },
+  { tool: 'browser_fill', action: 'confirm', dangerLevel: 'medium', description: 'Fill a form field with data' },
+  { tool: 'browser_type', action: 'confirm', dangerLevel: 'medium', description: 'Type text into the page' },
+  { tool: 'browser_select', action: 'confirm', dangerLevel: 'medium', description: 'Choose an option in a form' },
+  { tool: 'browser_screenshot', params: ['path'], action: 'confirm', dangerLevel: 'medium', description: 'Save a screenshot to a file' },
+
+  // Google Workspace
+  { tool: 'gmail_send', action: 'confirm', dangerLevel: 'high', description: 'Send an email on your behalf' },
+  { tool: 'gmail_reply', action: 'confirm', dangerLevel: 'high', description: 'Reply to an email on your behalf' },
+  { tool: 'google_docs_append', action: 'confirm', dangerLevel: 'medium', description: 'Add text to a Google Doc' },
+  { tool: 'google_sheets_write', action: 'confirm', dangerLevel: 'medium', description: 'Write values into a Google Sheet' },
+
+  // Web
+  { tool: 'web_search', action: 'allow', dangerLevel: 'low', description: 'Search the web for information' },
+  { tool: 'fetch_web_page', action: 'allow', dangerLevel: 'low', description: 'Fetch content from a web page' },
+  { tool: 'research_topic', action: 'allow', dangerLevel: 'low', description: 'Research a topic on the web' }
+];
+
+// Parameters that hold workspace paths; move_file and copy_file call theirs from/to
+const PATH_PARAMETERS = ['path', 'filePath', 'source', 'sourcePath', 'destination', 'inputPath', 'outputPath'];
+const PATH_PARAMETERS_BY_TOOL: Record<string, string[]> = {
+  move_file: ['from', 'to'],
+  copy_file: ['from', 'to']
+};
+const URL_PARAMETERS = ['url'];
+const RECIPIENT_PARAMETERS = ['to', 'cc', 'bcc'];
+
+const EMAIL_ADDRESS = /[^\s<>,;"']+@[^\s<>,;"']+/g;
+
+const ruleSchema = z.object({
+  tool: z.string().min(1),
+  action: z.enum(['allow', 'confirm', 'deny']),
+  paths: z.array(z.string()).optional(),
+  domains: z.array(z.string()).optional(),
+  recipients: z.array(z.string()).optional(),
+  params: z.array(z.string()).optional(),
+  dangerLevel: z.enum(['none', 'low', 'medium', 'high', 'critical']).optional(),
+  description: z.string().optional()
+}).strict();
+
+/**
+ * Rules from user settings, stored either as an array or as its JSON.
+ * Throws with the offending rule's index when one is malformed.
+ */
+export function parsePolicyRules(value: unknown): PolicyRule[] {
+  if (value === undefined || value === null || value === '') return [];
+  let rules: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      rules = JSON.parse(value);
+    } catch (error) {
+      throw new Error(`Security rules are not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error('Security rules must be an array');
+  }
+  return rules.map((rule, index) => {
+    const result = ruleSchema.safeParse(rule);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const field = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+      throw new Error(`Security rule ${index + 1} is invalid: ${field}${issue.message}`);
+    }
+    return result.data;
+  });
+}
+
+// '/a/./b/../c' and 'a/c' both become '/a/c', so globs can't be sidestepped with dot segments
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  return `/${segments.join('/')}`;
+}
+
+function stringValues(params: Record<string, unknown>, names: string[]): string[] {
+  return names.flatMap(name => {
+    const value = params[name];
+    if (typeof value === 'string' && value !== '') return [value];
+    if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string' && item !== '');
+    return [];
+  });
+}
+
+export function pathsOf(toolName: string, params: Record<string, unknown>): string[] {
+  return stringValues(params, PATH_PARAMETERS_BY_TOOL[toolName] ?? PATH_PARAMETERS).map(normalizePath);
+}
+
+export function hostsOf(params: Record<string, unknown>): string[] {
+  return stringValues(params, URL_PARAMETERS).map(value => {
+    try {
+      return new URL(value).hostname.toLowerCase();
+    } catch {
+      // Not a URL the domain rules can vouch for; kept so allow rules don't match it
+      return value.toLowerCase();
+    }
+  });
+}
+
+function recipientsOf(toolName: string, params: Record<string, unknown>): string[] {
+  // move_file's 'to' is a path, not an address
+  if (PATH_PARAMETERS_BY_TOOL[toolName]) return [];
+  return stringValues(params, RECIPIENT_PARAMETERS).flatMap(value => value.match(EMAIL_ADDRESS) ?? []).map(address => address.toLowerCase());
+}
+
+function matchesPath(path: string, pattern: string): boolean {
+  return matchesGlob(path.slice(1), pattern);
+}
+
+function matchesDomain(host: string, pattern: string): boolean {
+  const domain = pattern.toLowerCase();
+  if (domain === '*') return true;
+  if (domain.startsWith('*.')) return host.endsWith(domain.slice(1));
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function matchesRecipient(address: string, pattern: string): boolean {
+  return globToRegExp(pattern.toLowerCase()).test(address);
+}
+
+/**
+ * A rule with conditions only matches calls that have values to check. An
+ * allow rule needs every value covered by its patterns, while confirm and
+ * deny rules apply when any value is, so a move out of a protected folder
+ * can't slip through an allow rule for the destination.
+ */
+export function matchesRule(rule: PolicyRule, toolName: string, params: Record<string, unknown>): boolean {
+  if (!globToRegExp(rule.tool).test(toolName)) return false;
+  if (rule.params && !rule.params.every(name => params[name] !== undefined && params[name] !== null && params[name] !== '')) return false;
+  const conditions: Array<[string[] | undefined, () => string[], (value: string, pattern: string) => boolean]> = [
+    [rule.paths, () => pathsOf(toolName, params), matchesPath],
+    [rule.domains, () => hostsOf(params), matchesDomain],
+    [rule.recipients, () => recipientsOf(toolName, params), matchesRecipient]
+  ];
+  return conditions.every(([patterns, valuesOf, match]) => {
+    if (!patterns) return true;
+    const values = valuesOf();
+    if (values.length === 0) return false;
+    const covered = (value: string) => patterns.some(pattern => match(value, pattern));
+    return rule.action === 'allow' ? values.every(covered) : values.some(covered);
+  });
+}
+
+export class SecurityPolicy {
+  private rules: PolicyRule[];
+
+  /** `rules` are tried in order, ahead of the built-in ones. */
+  constructor(rules: PolicyRule[] = []) {
+    this.rules = [...rules, ...DEFAULT_POLICY_RULES];
+  }
+
+  /** What to do with a call, from the first rule that matches it. */
+  evaluate(toolName: string, params: Record<string, unknown> = {}): PolicyDecision {
+    const rule = this.rules.find(candidate => matchesRule(candidate, toolName, params));
+    return {
+      action: rule?.action ?? 'allow',
+      dangerLevel: rule?.dangerLevel ?? this.toolDefault(toolName, 'dangerLevel') ?? 'none',
+      description: rule?.description ?? this.toolDefault(toolName, 'description') ?? `Run ${toolName}`,
+      ...(rule && { rule })
+    };
+  }
+
+  requiresConfirmation(toolName: string, params: Record<string, unknown> = {}): boolean {
+    return this.evaluate(toolName, params).action === 'confirm';
+  }
+
+  /** Rules in the order they are tried, the user's first. */
+  getRules(): PolicyRule[] {
+    return [...this.rules];
+  }
+
+  // Danger level or description of the first rule for this tool that sets one
+  private toolDefault<K extends 'dangerLevel' | 'description'>(toolName: string, key: K): PolicyRule[K] {
+    return this.rules.find(rule => rule[key] !== undefined && globToRegExp(rule.tool).test(toolName))?.[key];
+  }
+}
@@ -130,7 +130,8 @@ You are a skilled software engineer helping the user write, review, and fix code
 
 ## Tools to use
 - read_file: read existing source files
-- write_file: write new or updated code
+- write_file: write new code files
+- edit_file: change part of an existing file
 - list_directory: explore project structure
 `;
 
@@ -151,7 +152,7 @@ When debugging:
 
 ## Tools to use
 - read_file: read source files and stack traces
-- write_file: apply fixes
+- edit_file: apply fixes to the lines that need them
 - web_search: look up error messages or library issues
 - fetch_webpage: read official documentation or GitHub issues
 `;
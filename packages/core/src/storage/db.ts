@@ -1,5 +1,7 @@
 import { Dexie } from 'dexie';
 import type { Table } from 'dexie';
+import type { Message, ToolInvocationRecord } from '@pixelmate/shared';
+import type { JournalStore, StoredJournalEntry } from '../tools/journal.js';
 
 export interface Conversation {
   id?: number;
@@ -14,11 +16,17 @@ export interface Conversation {
 export interface ConversationMessage {
   id?: number;
   conversationId: string;
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: Message['role'];
+  // Block content keeps tool_use / tool_result turns so the agent can be rehydrated
+  content: Message['content'];
   timestamp: number;
 }
 
+export interface ToolInvocation extends ToolInvocationRecord {
+  id?: number;
+  conversationId: string;
+}
+
 export interface Session {
   id?: number;
   sessionId: string;
@@ -39,11 +47,17 @@ export interface StoredFile {
   updatedAt: number;
 }
 
+export interface JournalRecord extends StoredJournalEntry {
+  id?: number;
+}
+
 export class PixelMateDB extends Dexie {
   conversations!: Table<Conversation, number>;
   messages!: Table<ConversationMessage, number>;
+  toolInvocations!: Table<ToolInvocation, number>;
   sessions!: Table<Session, number>;
   files!: Table<StoredFile, number>;
+  journal!: Table<JournalRecord, number>;
 
   constructor() {
     super('PixelMateDB');
@@ -53,6 +67,12 @@ export class PixelMateDB extends Dexie {
       sessions: '++id, sessionId',
       files: '++id, path'
     });
+    this.version(2).stores({
+      toolInvocations: '++id, conversationId, taskId, startedAt'
+    });
+    this.version(3).stores({
+      journal: '++id, taskId, seq'
+    });
   }
 }
 
@@ -73,6 +93,7 @@ export async function getAllConversations(): Promise<Conversation[]> {
 export async function deleteConversation(conversationId: string): Promise<void> {
   await db.conversations.where('conversationId').equals(conversationId).delete();
   await db.messages.where('conversationId').equals(conversationId).delete();
+  await db.toolInvocations.where('conversationId').equals(conversationId).delete();
 }
 
 export async function addMessage(message: Omit<ConversationMessage, 'id'>): Promise<number> {
@@ -86,6 +107,17 @@ export async function getMessages(conversationId: string): Promise<ConversationM
     .sortBy('timestamp');
 }
 
+export async function addToolInvocation(invocation: Omit<ToolInvocation, 'id'>): Promise<number> {
+  return await db.toolInvocations.add(invocation as ToolInvocation);
+}
+
+export async function getToolInvocations(conversationId: string): Promise<ToolInvocation[]> {
+  return await db.toolInvocations
+    .where('conversationId')
+    .equals(conversationId)
+    .sortBy('startedAt');
+}
+
 export async function getSession(sessionId: string): Promise<Session | undefined> {
   return await db.sessions.where('sessionId').equals(sessionId).first();
 }
@@ -117,3 +149,23 @@ export async function listFiles(directory: string): Promise<StoredFile[]> {
     .startsWith(directory)
     .toArray();
 }
+
+// Undo snapshots for JournaledFileSystem, so UNDO_TASK survives a service worker restart
+export const journalStore: JournalStore = {
+  async load() {
+    const records = await db.journal.orderBy('seq').toArray();
+    return records.map(({ taskId, seq, path, before, after }) => ({ taskId, seq, path, before, after }));
+  },
+
+  async add(entry) {
+    await db.journal.add(entry);
+  },
+
+  async setAfter(seq, after) {
+    await db.journal.where('seq').equals(seq).modify({ after });
+  },
+
+  async remove(taskId, fromSeq = 0) {
+    await db.journal.where('taskId').equals(taskId).and(entry => entry.seq >= fromSeq).delete();
+  }
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { exportArchive, importArchive } from './archive.js';
+import { HybridFileSystem } from './filesystem.js';
+import { MemoryFileSystem } from './filesystem-memory.js';
+
+describe('workspace archives', () => {
+  let fs: HybridFileSystem;
+
+  beforeEach(async () => {
+    const opfs = new MemoryFileSystem();
+    await opfs.writeFile('/reports/q3.md', '# Q3');
+    await opfs.writeFile('/reports/charts/revenue.png', new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0]));
+    await opfs.createDirectory('/reports/drafts');
+    await opfs.writeFile('/notes.txt', 'todo');
+    const drive = new MemoryFileSystem();
+    await drive.writeFile('/plan.md', 'plan');
+    fs = new HybridFileSystem({ '/': opfs, '/drive': drive });
+  });
+
+  it('exports a folder with paths relative to it, keeping bytes and empty folders', async () => {
+    const files = unzipSync(await exportArchive(fs, '/reports'));
+
+    expect(Object.keys(files).sort()).toEqual(['charts/', 'charts/revenue.png', 'drafts/', 'q3.md']);
+    expect(files['charts/revenue.png']).toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0]));
+  });
+
+  it('exports the whole workspace across mounts', async () => {
+    const files = unzipSync(await exportArchive(fs));
+    expect(Object.keys(files)).toEqual(expect.arrayContaining(['notes.txt', 'reports/q3.md', 'drive/plan.md']));
+  });
+
+  it('imports into a folder and leaves existing files alone unless overwriting', async () => {
+    const archive = zipSync({ 'q3.md': strToU8('# Q3 v2'), 'new/summary.md': strToU8('summary'), 'empty/': new Uint8Array(0) });
+
+    expect(await importArchive(fs, archive, '/reports')).toEqual({
+      written: ['/reports/new/summary.md'],
+      skipped: ['/reports/q3.md']
+    });
+    expect(await fs.readFile('/reports/q3.md')).toBe('# Q3');
+    expect((await fs.stat('/reports/empty')).type).toBe('directory');
+
+    await importArchive(fs, archive, '/reports', { overwrite: true });
+    expect(await fs.readFile('/reports/q3.md')).toBe('# Q3 v2');
+  });
+
+  it('refuses entries that would land outside the import folder', async () => {
+    for (const name of ['../escape.txt', '/etc/passwd', 'a/../../b.txt', 'C:/boot.ini']) {
+      await expect(importArchive(fs, zipSync({ [name]: strToU8('x') }), '/reports')).rejects.toThrow('escapes the import folder');
+    }
+    await expect(fs.stat('/escape.txt')).rejects.toThrow();
+  });
+});
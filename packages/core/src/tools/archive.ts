@@ -0,0 +1,110 @@
+/**
+ * Zip export and import of a workspace, or any folder in it, through the
+ * filesystem layer. Export walks every mount below the folder; import only
+ * writes inside the target folder and refuses archives that would unpack to
+ * more than MAX_IMPORT_BYTES.
+ */
+
+import { unzipSync, zipSync, Zippable } from 'fflate';
+import { FileSystemBackend, pathSegments } from './filesystem-backend.js';
+
+export const MAX_IMPORT_BYTES = 200 * 1024 * 1024;
+export const MAX_IMPORT_ENTRIES = 10_000;
+
+export interface ImportOptions {
+  // Replace files that already exist; otherwise they are left alone and listed as skipped
+  overwrite?: boolean;
+}
+
+export interface ImportSummary {
+  // Workspace paths of the files written
+  written: string[];
+  // Workspace paths of existing files left alone
+  skipped: string[];
+}
+
+function joinPath(directory: string, name: string): string {
+  return `/${[...pathSegments(directory), ...pathSegments(name)].join('/')}`;
+}
+
+async function collect(fs: FileSystemBackend, directory: string, prefix: string, tree: Zippable): Promise<void> {
+  for (const entry of await fs.listFiles(directory)) {
+    const name = `${prefix}${entry.name}`;
+    if (entry.type === 'directory') {
+      // Keep empty folders as explicit entries
+      tree[`${name}/`] = new Uint8Array(0);
+      await collect(fs, entry.path, `${name}/`, tree);
+    } else {
+      tree[name] = await fs.readBinary(entry.path);
+    }
+  }
+}
+
+/** A zip of everything under `root`, with paths relative to it. */
+export async function exportArchive(fs: FileSystemBackend, root = '/'): Promise<Uint8Array> {
+  const stat = await fs.stat(root);
+  const tree: Zippable = {};
+  if (stat.type === 'file') {
+    tree[stat.name] = await fs.readBinary(root);
+  } else {
+    await collect(fs, root, '', tree);
+  }
+  return zipSync(tree, { level: 6 });
+}
+
+/**
+ * Entry name as a path below the import target, or null for names that
+ * would land outside it: absolute paths, '..' segments, drive letters.
+ */
+function safeEntryPath(name: string): string | null {
+  const normalized = name.replace(/\\/g, '/');
+  if (normalized.includes('\0') || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) return null;
+  const segments = normalized.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.some(segment => segment === '..')) return null;
+  return segments.join('/');
+}
+
+async function exists(fs: FileSystemBackend, path: string): Promise<boolean> {
+  try {
+    await fs.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Unpacks a zip into `target`. Throws before writing anything if an entry is unsafe or the archive is too large. */
+export async function importArchive(
+  fs: FileSystemBackend,
+  archive: Uint8Array,
+  target = '/',
+  options: ImportOptions = {}
+): Promise<ImportSummary> {
+  let entries = 0;
+  let totalBytes = 0;
+  const files = unzipSync(archive, {
+    // Checked from the headers, before anything is inflated
+    filter: file => {
+      if (safeEntryPath(file.name) === null) throw new Error(`Archive entry escapes the import folder: ${file.name}`);
+      entries++;
+      totalBytes += file.originalSize;
+      if (entries > MAX_IMPORT_ENTRIES) throw new Error(`Archive has more than ${MAX_IMPORT_ENTRIES} entries`);
+      if (totalBytes > MAX_IMPORT_BYTES) throw new Error(`Archive unpacks to more than ${MAX_IMPORT_BYTES / 1024 / 1024} MB`);
+      return true;
+    }
+  });
+
+  const summary: ImportSummary = { written: [], skipped: [] };
+  for (const [name, data] of Object.entries(files)) {
+    const path = joinPath(target, safeEntryPath(name)!);
+    if (name.endsWith('/')) {
+      await fs.createDirectory(path);
+    } else if (!options.overwrite && await exists(fs, path)) {
+      summary.skipped.push(path);
+    } else {
+      await fs.writeFile(path, data);
+      summary.written.push(path);
+    }
+  }
+  return summary;
+}
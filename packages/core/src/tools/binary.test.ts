@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { detectMimeType, summarizeBinary, binaryFileResult, isImageResult, bytesToBase64 } from './binary.js';
+import { ReadFileTool } from './filesystem.js';
+import { MemoryFileSystem } from './filesystem-memory.js';
+
+const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function png(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(33);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+// Empty entries: just the local headers, central directory and end record
+function zip(names: string[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const local: number[] = [];
+  const central: number[] = [];
+  for (const name of names) {
+    const nameBytes = [...encoder.encode(name)];
+    const header = new Uint8Array(30);
+    new DataView(header.buffer).setUint32(0, 0x04034b50, true);
+    new DataView(header.buffer).setUint16(26, nameBytes.length, true);
+    const entry = new Uint8Array(46);
+    const view = new DataView(entry.buffer);
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(28, nameBytes.length, true);
+    view.setUint32(42, local.length, true);
+    local.push(...header, ...nameBytes);
+    central.push(...entry, ...nameBytes);
+  }
+  const end = new Uint8Array(22);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, names.length, true);
+  view.setUint16(10, names.length, true);
+  view.setUint32(12, central.length, true);
+  view.setUint32(16, local.length, true);
+  return new Uint8Array([...local, ...central, ...end]);
+}
+
+// ──────────────────────────────────────────────────────────────
+// MIME detection and summaries
+// ──────────────────────────────────────────────────────────────
+
+describe('detectMimeType', () => {
+  it('prefers the file signature over the extension', () => {
+    expect(detectMimeType('/photo.jpg', png(1, 1))).toBe('image/png');
+    expect(detectMimeType('/scan', new TextEncoder().encode('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(detectMimeType('/report.xlsx', zip(['xl/workbook.xml']))).toBe(XLSX);
+    expect(detectMimeType('/bundle.bin', zip(['a.txt']))).toBe('application/zip');
+  });
+
+  it('treats NUL-free UTF-8 as text and anything else as binary', () => {
+    expect(detectMimeType('/notes.md', new TextEncoder().encode('# Café'))).toBe('text/markdown');
+    expect(detectMimeType('/LICENSE', new TextEncoder().encode('MIT'))).toBe('text/plain');
+    expect(detectMimeType('/data.bin', new Uint8Array([1, 0, 2]))).toBe('application/octet-stream');
+    expect(detectMimeType('/legacy', new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x21]))).toBe('application/octet-stream');
+  });
+});
+
+describe('summarizeBinary', () => {
+  it('reads image dimensions and counts sheets, slides and PDF pages', () => {
+    expect(summarizeBinary('/logo.png', png(640, 480), 'image/png'))
+      .toEqual({ path: '/logo.png', mimeType: 'image/png', size: 33, kind: 'image', width: 640, height: 480 });
+    expect(summarizeBinary('/q3.xlsx', zip(['xl/workbook.xml', 'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml']), XLSX))
+      .toMatchObject({ kind: 'spreadsheet', sheets: 2 });
+
+    const pdf = new TextEncoder().encode('%PDF-1.4 /Type /Pages /Type /Page /Type/Page');
+    expect(summarizeBinary('/a.pdf', pdf, 'application/pdf')).toMatchObject({ kind: 'pdf', pages: 2 });
+  });
+
+  it('only attaches the bytes of viewable images', () => {
+    const image = binaryFileResult('/logo.png', png(2, 2), 'image/png');
+    expect(isImageResult(image)).toBe(true);
+    expect(image.metadata).toEqual({ mimeType: 'image/png', base64: bytesToBase64(png(2, 2)) });
+    expect(isImageResult(binaryFileResult('/a.pdf', new Uint8Array([0x25]), 'application/pdf'))).toBe(false);
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// read_file
+// ──────────────────────────────────────────────────────────────
+
+describe('read_file on binary files', () => {
+  it('returns a summary and the image payload instead of decoded bytes', async () => {
+    const fs = new MemoryFileSystem();
+    await fs.writeFile('/logo.png', png(16, 8));
+    await fs.writeFile('/notes.txt', 'plain text');
+
+    const image = await new ReadFileTool(fs).execute({ path: '/logo.png' });
+    expect(JSON.parse(image.output!)).toMatchObject({ kind: 'image', width: 16, height: 8 });
+    expect(image.metadata).toMatchObject({ mimeType: 'image/png', base64: expect.any(String) });
+
+    expect(await new ReadFileTool(fs).execute({ path: '/notes.txt' })).toEqual({ success: true, output: 'plain text' });
+  });
+});
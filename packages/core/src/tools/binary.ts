@@ -0,0 +1,215 @@
+/**
+ * Telling text files from binary ones, and describing binary files the agent
+ * can't read as text: images come back as a payload the agent forwards to
+ * vision models, other known formats as a short structured summary.
+ */
+
+import { BinaryToolResult, ToolResult } from '@pixelmate/shared';
+import { baseName } from './filesystem-backend.js';
+
+// Images past this size are summarised without their bytes; providers reject larger ones
+export const MAX_IMAGE_PAYLOAD_BYTES = 5 * 1024 * 1024;
+// A NUL byte in the first 8 KB marks a file as binary, as in git and grep
+const BINARY_SNIFF_BYTES = 8000;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  xml: 'application/xml',
+  json: 'application/json',
+  js: 'text/javascript',
+  ts: 'text/typescript',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+
+// Formats providers accept as image blocks
+const VIEWABLE_IMAGES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function extension(path: string): string {
+  const name = baseName(path);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    // Streaming, so a character cut off at the end of the sample isn't an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** MIME type of a file from its leading bytes, falling back to its extension. */
+export function detectMimeType(path: string, bytes: Uint8Array): string {
+  const byExtension = MIME_BY_EXTENSION[extension(path)];
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return 'application/pdf';
+  // Office files are zip archives; only the extension tells them apart
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    return byExtension?.startsWith('application/vnd.openxmlformats') ? byExtension : 'application/zip';
+  }
+
+  const head = bytes.subarray(0, BINARY_SNIFF_BYTES);
+  if (head.includes(0)) return 'application/octet-stream';
+  // Text in a legacy encoding is still text if its extension says so
+  if (byExtension && isTextMimeType(byExtension)) return byExtension;
+  return isValidUtf8(head) ? 'text/plain' : 'application/octet-stream';
+}
+
+/** Whether a MIME type is read as text rather than described as binary. */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || ['application/json', 'application/xml', 'image/svg+xml'].includes(mimeType);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked, since spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function imageSize(bytes: Uint8Array, mimeType: string): { width: number; height: number } | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (mimeType === 'image/png' && bytes.length >= 24) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (mimeType === 'image/gif' && bytes.length >= 10) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (mimeType === 'image/jpeg') {
+    // Walk the segments to the start-of-frame marker, which holds the size
+    let offset = 2;
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+/** Names of the entries in a zip archive, from its central directory. */
+export function zipEntryNames(bytes: Uint8Array): string[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end-of-central-directory record sits in the last 64 KB, before an optional comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return [];
+
+  const names: string[] = [];
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(end + 16, true);
+  for (let n = view.getUint16(end + 10, true); n > 0 && offset + 46 <= bytes.length; n--) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    names.push(decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+export interface BinarySummary {
+  path: string;
+  mimeType: string;
+  size: number;
+  kind: 'image' | 'pdf' | 'document' | 'spreadsheet' | 'presentation' | 'archive' | 'binary';
+  width?: number;
+  height?: number;
+  pages?: number;
+  sheets?: number;
+  slides?: number;
+  entries?: string[];
+}
+
+/** What can be told about a binary file without a parser for its format. */
+export function summarizeBinary(path: string, bytes: Uint8Array, mimeType: string): BinarySummary {
+  const summary: BinarySummary = { path, mimeType, size: bytes.length, kind: 'binary' };
+
+  if (mimeType.startsWith('image/')) {
+    return { ...summary, kind: 'image', ...imageSize(bytes, mimeType) };
+  }
+  if (mimeType === 'application/pdf') {
+    // Pages inside compressed object streams aren't visible, so this can undercount
+    const pages = new TextDecoder('latin1').decode(bytes).match(/\/Type\s*\/Page(?!s)/g)?.length ?? 0;
+    return { ...summary, kind: 'pdf', ...(pages > 0 && { pages }) };
+  }
+
+  const entries = mimeType === 'application/zip' || mimeType.startsWith('application/vnd.openxmlformats')
+    ? zipEntryNames(bytes)
+    : [];
+  if (mimeType.endsWith('wordprocessingml.document')) {
+    return { ...summary, kind: 'document' };
+  }
+  if (mimeType.endsWith('spreadsheetml.sheet')) {
+    return { ...summary, kind: 'spreadsheet', sheets: entries.filter(name => /^xl\/worksheets\/[^/]+\.xml$/.test(name)).length };
+  }
+  if (mimeType.endsWith('presentationml.presentation')) {
+    return { ...summary, kind: 'presentation', slides: entries.filter(name => /^ppt\/slides\/[^/]+\.xml$/.test(name)).length };
+  }
+  if (mimeType === 'application/zip') {
+    return { ...summary, kind: 'archive', entries: entries.slice(0, 100) };
+  }
+  return summary;
+}
+
+/**
+ * read_file's result for a binary file: the summary as JSON, plus the bytes
+ * for images small enough to send to a model.
+ */
+export function binaryFileResult(path: string, bytes: Uint8Array, mimeType: string): ToolResult | BinaryToolResult {
+  const output = JSON.stringify(summarizeBinary(path, bytes, mimeType), null, 2);
+  if (VIEWABLE_IMAGES.includes(mimeType) && bytes.length <= MAX_IMAGE_PAYLOAD_BYTES) {
+    return { success: true, output, metadata: { mimeType, base64: bytesToBase64(bytes) } };
+  }
+  return { success: true, output, metadata: { mimeType } };
+}
+
+/** Whether a result carries an image a vision model can be shown. */
+export function isImageResult(result: ToolResult): result is BinaryToolResult {
+  const metadata = result.metadata;
+  return typeof metadata?.base64 === 'string'
+    && typeof metadata.mimeType === 'string'
+    && VIEWABLE_IMAGES.includes(metadata.mimeType);
+}
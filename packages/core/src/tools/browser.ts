@@ -172,6 +172,7 @@ export class BrowserSelectTool implements Tool {
 export class BrowserGetTextTool implements Tool {
   definition: ToolDefinition = {
     name: 'browser_get_text',
+    readOnly: true,
     description: 'Get text content of an element',
     parameters: [
       { name: 'selector', description: 'CSS selector of element', type: 'string', required: true }
@@ -199,6 +200,7 @@ export class BrowserGetTextTool implements Tool {
 export class BrowserGetHTMLTool implements Tool {
   definition: ToolDefinition = {
     name: 'browser_get_html',
+    readOnly: true,
     description: 'Get HTML content of an element',
     parameters: [
       { name: 'selector', description: 'CSS selector of element', type: 'string', required: true }
@@ -226,6 +228,7 @@ export class BrowserGetHTMLTool implements Tool {
 export class BrowserScreenshotTool implements Tool {
   definition: ToolDefinition = {
     name: 'browser_screenshot',
+    readOnly: true,
     description: 'Take a screenshot of the current page',
     parameters: []
   };
@@ -238,7 +241,13 @@ export class BrowserScreenshotTool implements Tool {
         format: 'png'
       });
       
-      return { success: true, output: dataUrl };
+      // The image goes to the model as an image block, not as a data URL in the text
+      const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+      return {
+        success: true,
+        output: `Screenshot of ${tab.url ?? 'the current page'}`,
+        metadata: { mimeType: 'image/png', base64 }
+      };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
@@ -277,6 +286,7 @@ export class BrowserScrollTool implements Tool {
 export class BrowserWaitTool implements Tool {
   definition: ToolDefinition = {
     name: 'browser_wait',
+    readOnly: true,
     description: 'Wait for an element to appear on the page',
     parameters: [
       { name: 'selector', description: 'CSS selector of element to wait for', type: 'string', required: true },
@@ -0,0 +1,254 @@
+/**
+ * Line-based unified diffs, for showing the user what a file write would
+ * change before they approve it. Uses Myers' algorithm on the lines left
+ * after trimming the common head and tail, keeping only the diagonals each
+ * step reached, so memory grows with the edit distance, not the file size.
+ */
+
+export interface UnifiedDiffOptions {
+  // Shown in the ---/+++ headers
+  path?: string;
+  // Unchanged lines around each change (default 3)
+  context?: number;
+}
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+// Past this many edits the middle is shown as one replaced block
+const MAX_EDIT_DISTANCE = 1000;
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Shortest edit script turning `a` into `b`
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE) && !found; d++) {
+    // Step d reads diagonals -d-1..d+1 of the previous one; the rest of v is untouched
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...a.map(text => ({ type: '-' as const, text })),
+      ...b.map(text => ({ type: '+' as const, text }))
+    ];
+  }
+
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    // trace[d] starts at diagonal -d-1
+    const prev = trace[d];
+    const base = d + 1;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prev[base + k - 1] < prev[base + k + 1]) ? k + 1 : k - 1;
+    const prevX = prev[base + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: ' ', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      lines.push(x === prevX ? { type: '+', text: b[--y] } : { type: '-', text: a[--x] });
+    }
+  }
+  return lines.reverse();
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  return [
+    ...a.slice(0, head).map(text => ({ type: ' ' as const, text })),
+    ...diffMiddle(a.slice(head, a.length - tail), b.slice(head, b.length - tail)),
+    ...a.slice(a.length - tail).map(text => ({ type: ' ' as const, text }))
+  ];
+}
+
+// '@@ -start,count' where an empty range starts at the line before it
+function range(start: number, count: number): string {
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/** Unified diff from `before` to `after`; an empty string when they are the same. */
+export function unifiedDiff(before: string, after: string, options: UnifiedDiffOptions = {}): string {
+  const context = options.context ?? 3;
+  const lines = diffLines(splitLines(before), splitLines(after));
+  if (lines.every(line => line.type === ' ')) return '';
+
+  // Indexes of changed lines, grouped into hunks that share context
+  const hunks: Array<[number, number]> = [];
+  lines.forEach((line, i) => {
+    if (line.type === ' ') return;
+    const last = hunks[hunks.length - 1];
+    if (last && i - last[1] <= 2 * context + 1) {
+      last[1] = i;
+    } else {
+      hunks.push([i, i]);
+    }
+  });
+
+  const output = [
+    `--- ${before === '' ? '/dev/null' : `a${options.path ?? ''}`}`,
+    `+++ ${after === '' ? '/dev/null' : `b${options.path ?? ''}`}`
+  ];
+  let oldLine = 1;
+  let newLine = 1;
+  let cursor = 0;
+  for (const [first, last] of hunks) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(lines.length - 1, last + context);
+    for (; cursor < start; cursor++) {
+      if (lines[cursor].type !== '+') oldLine++;
+      if (lines[cursor].type !== '-') newLine++;
+    }
+
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    output.push(`@@ -${range(oldLine, oldCount)} +${range(newLine, newCount)} @@`);
+    output.push(...hunk.map(line => `${line.type}${line.text}`));
+
+    oldLine += oldCount;
+    newLine += newCount;
+    cursor = end + 1;
+  }
+  return output.join('\n');
+}
+
+/** Lines added and removed between two texts. */
+export function diffStats(before: string, after: string): { added: number; removed: number } {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  return {
+    added: lines.filter(line => line.type === '+').length,
+    removed: lines.filter(line => line.type === '-').length
+  };
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+function parseHunks(patch: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let hunk: Hunk | null = null;
+  const lines = patch.split('\n').map(line => line.replace(/\r$/, ''));
+  lines.forEach((line, i) => {
+    const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line);
+    if (header) {
+      hunk = { header: header[0], oldStart: Number(header[1]), oldLines: [], newLines: [] };
+      hunks.push(hunk);
+    } else if (!hunk || line.startsWith('diff ') || (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))) {
+      // File headers, or text before the first hunk
+      hunk = null;
+    } else if (line.startsWith('-')) {
+      hunk.oldLines.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      hunk.newLines.push(line.slice(1));
+    } else if (line.startsWith(' ') || line === '') {
+      // Editors and models often strip the space from blank context lines
+      hunk.oldLines.push(line.slice(1));
+      hunk.newLines.push(line.slice(1));
+    }
+    // '\ No newline at end of file' and anything else is ignored
+  });
+
+  // A trailing blank line is usually the patch's own final newline, not context
+  for (const { oldLines, newLines } of hunks) {
+    while (oldLines.length && newLines.length && oldLines[oldLines.length - 1] === '' && newLines[newLines.length - 1] === '') {
+      oldLines.pop();
+      newLines.pop();
+    }
+  }
+  return hunks;
+}
+
+function matchesAt(lines: string[], expected: string[], at: number): boolean {
+  return expected.every((line, i) => lines[at + i] === line);
+}
+
+// Where a hunk's old lines are, searching outward from where its header says they were
+function locateHunk(lines: string[], hunk: Hunk, expected: number, from: number): number {
+  if (hunk.oldLines.length === 0) return Math.min(Math.max(expected, from), lines.length);
+
+  for (let distance = 0; distance <= lines.length; distance++) {
+    const before = expected - distance;
+    const after = expected + distance;
+    const matchBefore = distance > 0 && before >= from && matchesAt(lines, hunk.oldLines, before);
+    const matchAfter = after >= from && after + hunk.oldLines.length <= lines.length && matchesAt(lines, hunk.oldLines, after);
+    if (matchBefore && matchAfter) {
+      throw new Error(`Hunk ${hunk.header} matches both line ${before + 1} and line ${after + 1}; add more context lines`);
+    }
+    if (matchBefore) return before;
+    if (matchAfter) return after;
+  }
+  throw new Error(`Hunk ${hunk.header} does not match the file; it may have changed since it was read`);
+}
+
+/**
+ * Applies a unified diff to `content`. Each hunk's context and removed lines
+ * must appear in the file, at the line its header names or the nearest place
+ * to it; a hunk that matches nowhere, or equally well in two places, fails
+ * the whole patch.
+ */
+export function applyPatch(content: string, patch: string): string {
+  const hunks = parseHunks(patch);
+  if (hunks.length === 0) throw new Error('Patch has no hunks (expected lines starting with @@)');
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content === '' ? [] : content.split(eol);
+  const trailingNewline = lines[lines.length - 1] === '';
+  if (trailingNewline) lines.pop();
+
+  let shift = 0;
+  let from = 0;
+  for (const hunk of hunks) {
+    // An empty old range names the line before it
+    const start = hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const at = locateHunk(lines, hunk, start + shift, from);
+    lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+    shift = at - start + hunk.newLines.length - hunk.oldLines.length;
+    from = at + hunk.newLines.length;
+  }
+
+  if (lines.length === 0) return '';
+  return lines.join(eol) + (trailingNewline || content === '' ? eol : '');
+}
@@ -3,8 +3,9 @@
  * Browser-compatible implementation
  */
 
-import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
-import { HybridFileSystem } from './filesystem.js';
+import { Tool, ToolDefinition, ToolExecutionContext, ToolResult } from '@pixelmate/shared';
+import { FileSystemBackend } from './filesystem-backend.js';
+import { fileSystemFor } from './journal.js';
 
 // Placeholder for docx import (would need proper bundling)
 // For now, we'll create a simple implementation
@@ -21,9 +22,10 @@ export class CreateDocumentTool implements Tool {
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const title = params.title as string;
       const content = params.content as string;
@@ -43,7 +45,7 @@ export class CreateDocumentTool implements Tool {
   </body>
 </document>`;
 
-      await this.fs.writeFile(filePath, docContent);
+      await fs.writeFile(filePath, docContent);
       
       return { success: true, output: `Document created at ${filePath}` };
     } catch (error) {
@@ -63,9 +65,10 @@ export class ConvertToDocumentTool implements Tool {
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const title = params.title as string;
       const source = params.source as string;
@@ -74,7 +77,7 @@ export class ConvertToDocumentTool implements Tool {
       // Try to read source as file
       let content = source;
       try {
-        content = await this.fs.readFile(source);
+        content = await fs.readFile(source);
       } catch {
         // If not a file, use source as content directly
       }
@@ -93,7 +96,7 @@ export class ConvertToDocumentTool implements Tool {
 </document>`;
 
       const filePath = `/${title}.docx`;
-      await this.fs.writeFile(filePath, docContent);
+      await fs.writeFile(filePath, docContent);
       
       return { success: true, output: `Document converted and saved to ${filePath}` };
     } catch (error) {
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyEdit, EditFileTool, ApplyPatchTool } from './edit.js';
+import { applyPatch, unifiedDiff } from './diff.js';
+import { MemoryFileSystem } from './filesystem-memory.js';
+
+const report = ['# Q3', '', 'Revenue: 4%', 'Costs: flat', 'Headcount: 12', ''].join('\n');
+
+// ──────────────────────────────────────────────────────────────
+// applyEdit
+// ──────────────────────────────────────────────────────────────
+
+describe('applyEdit', () => {
+  it('replaces text that appears exactly once', () => {
+    expect(applyEdit(report, { oldText: 'Revenue: 4%', newText: 'Revenue: 6%' })).toContain('Revenue: 6%\nCosts');
+  });
+
+  it('fails on missing or ambiguous text unless replace_all is set', () => {
+    expect(() => applyEdit(report, { oldText: 'Profit', newText: 'x' })).toThrow('old_text was not found');
+    expect(() => applyEdit('a, a, a', { oldText: 'a', newText: 'b' })).toThrow('old_text matches 3 places');
+    expect(applyEdit('a, a, a', { oldText: 'a', newText: 'b', replaceAll: true })).toBe('b, b, b');
+  });
+
+  it('replaces, deletes and inserts line ranges', () => {
+    expect(applyEdit(report, { startLine: 3, endLine: 4, newText: 'Revenue: 6%\n' }))
+      .toBe(['# Q3', '', 'Revenue: 6%', 'Headcount: 12', ''].join('\n'));
+    expect(applyEdit(report, { startLine: 2, newText: '' })).toBe(['# Q3', 'Revenue: 4%', 'Costs: flat', 'Headcount: 12', ''].join('\n'));
+    expect(applyEdit(report, { startLine: 6, endLine: 5, newText: 'Churn: 1%' })).toBe(`${report}Churn: 1%\n`);
+  });
+
+  it('rejects a line range whose old_text is stale or out of bounds', () => {
+    expect(() => applyEdit(report, { startLine: 3, oldText: 'Revenue: 5%', newText: 'x' }))
+      .toThrow('old_text does not match line 3');
+    expect(() => applyEdit(report, { startLine: 4, endLine: 9, newText: 'x' })).toThrow('the file has 5 lines');
+  });
+
+  it('keeps CRLF line endings', () => {
+    expect(applyEdit('a\r\nb\r\nc\r\n', { oldText: 'a\nb', newText: 'A\nB' })).toBe('A\r\nB\r\nc\r\n');
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// applyPatch
+// ──────────────────────────────────────────────────────────────
+
+describe('applyPatch', () => {
+  it('applies a diff produced by unifiedDiff', () => {
+    const updated = report.replace('4%', '6%').replace('Headcount: 12\n', 'Headcount: 14\nChurn: 1%\n');
+    expect(applyPatch(report, unifiedDiff(report, updated, { path: '/q3.md' }))).toBe(updated);
+  });
+
+  it('finds a hunk whose line numbers are off', () => {
+    const patch = ['@@ -1,2 +1,2 @@', ' Costs: flat', '-Headcount: 12', '+Headcount: 14'].join('\n');
+    expect(applyPatch(report, patch)).toContain('Costs: flat\nHeadcount: 14\n');
+  });
+
+  it('fails on stale, ambiguous or empty patches', () => {
+    expect(() => applyPatch(report, '@@ -3 +3 @@\n-Revenue: 5%\n+Revenue: 6%'))
+      .toThrow('does not match the file; it may have changed since it was read');
+    expect(() => applyPatch('x\ny\nx\n', '@@ -2 +2 @@\n-x\n+z'))
+      .toThrow('matches both line 1 and line 3');
+    expect(() => applyPatch(report, 'Revenue is now 6%')).toThrow('Patch has no hunks');
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Tools
+// ──────────────────────────────────────────────────────────────
+
+describe('edit tools', () => {
+  let fs: MemoryFileSystem;
+
+  beforeEach(async () => {
+    fs = new MemoryFileSystem();
+    await fs.writeFile('/q3.md', report);
+  });
+
+  it('edit_file writes the edited file and reports the line counts', async () => {
+    const result = await new EditFileTool(fs).execute({ path: '/q3.md', old_text: 'Revenue: 4%', new_text: 'Revenue: 6%' });
+    expect(result).toEqual({ success: true, output: 'Edited /q3.md (+1 −1 lines)' });
+    expect(await fs.readFile('/q3.md')).toContain('Revenue: 6%');
+  });
+
+  it('apply_patch leaves the file alone when a hunk fails', async () => {
+    const patch = ['@@ -3,1 +3,1 @@', '-Revenue: 4%', '+Revenue: 6%', '@@ -5,1 +5,1 @@', '-Headcount: 99', '+Headcount: 14'].join('\n');
+    const result = await new ApplyPatchTool(fs).execute({ path: '/q3.md', patch });
+    expect(result.success).toBe(false);
+    expect(await fs.readFile('/q3.md')).toBe(report);
+  });
+});
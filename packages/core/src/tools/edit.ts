@@ -0,0 +1,162 @@
+/**
+ * Targeted file edits, so the agent can change part of a large report or CSV
+ * without resending the whole file through write_file. Every edit checks the
+ * text it replaces is still there, and fails instead of guessing when the
+ * file has changed since the agent read it or a match is ambiguous.
+ */
+
+import { Tool, ToolDefinition, ToolExecutionContext, ToolResult } from '@pixelmate/shared';
+import { FileSystemBackend } from './filesystem-backend.js';
+import { validatePath } from './filesystem.js';
+import { fileSystemFor } from './journal.js';
+import { applyPatch, diffStats } from './diff.js';
+
+export interface TextEdit {
+  // Exact text to replace; with a line range, what those lines must still contain
+  oldText?: string;
+  newText: string;
+  // Replace every occurrence of oldText instead of requiring exactly one
+  replaceAll?: boolean;
+  // 1-based, inclusive; endLine = startLine - 1 inserts before startLine
+  startLine?: number;
+  endLine?: number;
+}
+
+function countOccurrences(text: string, search: string): number {
+  return text.split(search).length - 1;
+}
+
+function lineRange(start: number, end: number): string {
+  return start === end ? `line ${start}` : `lines ${start}-${end}`;
+}
+
+/** `content` with `edit` applied; throws when the text to replace is missing or ambiguous. */
+export function applyEdit(content: string, edit: TextEdit): string {
+  // Match the file's line endings, so edits written with \n apply to CRLF files
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const withEol = (text: string) => text.replace(/\r?\n/g, eol);
+  const newText = withEol(edit.newText);
+  const oldText = edit.oldText === undefined ? undefined : withEol(edit.oldText);
+
+  if (edit.startLine === undefined) {
+    if (!oldText) throw new Error('Give old_text to replace, or start_line for a line-range edit');
+
+    const count = countOccurrences(content, oldText);
+    if (count === 0) {
+      throw new Error('old_text was not found; the file may have changed since it was read');
+    }
+    if (count > 1 && !edit.replaceAll) {
+      throw new Error(`old_text matches ${count} places; include more surrounding text to pick one, or set replace_all`);
+    }
+    return content.split(oldText).join(newText);
+  }
+
+  const lines = content === '' ? [] : content.split(eol);
+  const trailingNewline = lines[lines.length - 1] === '';
+  if (trailingNewline) lines.pop();
+
+  const start = edit.startLine;
+  const end = edit.endLine ?? start;
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < start - 1 || end > lines.length) {
+    throw new Error(`Invalid line range ${start}-${end}; the file has ${lines.length} lines`);
+  }
+
+  const current = lines.slice(start - 1, end).join(eol);
+  if (oldText !== undefined && current !== oldText.replace(new RegExp(`${eol}$`), '')) {
+    throw new Error(`old_text does not match ${lineRange(start, end)}; the file may have changed since it was read`);
+  }
+
+  const replacement = newText === '' ? [] : newText.replace(new RegExp(`${eol}$`), '').split(eol);
+  lines.splice(start - 1, end - start + 1, ...replacement);
+  if (lines.length === 0) return '';
+  return lines.join(eol) + (trailingNewline || content === '' ? eol : '');
+}
+
+/** The edit_file parameters as a TextEdit. */
+export function textEditFrom(params: Record<string, unknown>): TextEdit {
+  const optionalNumber = (value: unknown) => (value === undefined || value === null ? undefined : Number(value));
+  return {
+    oldText: typeof params.old_text === 'string' ? params.old_text : undefined,
+    newText: typeof params.new_text === 'string' ? params.new_text : '',
+    replaceAll: params.replace_all === true,
+    startLine: optionalNumber(params.start_line),
+    endLine: optionalNumber(params.end_line)
+  };
+}
+
+function describeChange(path: string, before: string, after: string): string {
+  if (before === after) return `No changes to ${path}`;
+  const { added, removed } = diffStats(before, after);
+  return `Edited ${path} (+${added} −${removed} lines)`;
+}
+
+export class EditFileTool implements Tool {
+  definition: ToolDefinition = {
+    name: 'edit_file',
+    description:
+      'Change part of an existing file. Either replace old_text (which must appear exactly once unless replace_all is set) ' +
+      'with new_text, or replace lines start_line to end_line (numbered from 1) with new_text; with a line range, ' +
+      'old_text, if given, must equal the current lines. Fails if the file no longer contains the text, so re-read it then.',
+    parameters: [
+      { name: 'path', description: 'Path to the file', type: 'string', required: true },
+      { name: 'new_text', description: 'Replacement text; empty to delete', type: 'string', required: true },
+      { name: 'old_text', description: 'Exact text to replace, including whitespace', type: 'string', required: false },
+      { name: 'replace_all', description: 'Replace every occurrence of old_text', type: 'boolean', required: false, default: false },
+      { name: 'start_line', description: 'First line to replace', type: 'number', required: false },
+      { name: 'end_line', description: 'Last line to replace (default start_line; start_line - 1 inserts before start_line)', type: 'number', required: false }
+    ]
+  };
+
+  constructor(private fs: FileSystemBackend) {}
+
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
+    try {
+      const path = params.path as string;
+
+      if (!validatePath(path)) {
+        return { success: false, error: 'Invalid file path' };
+      }
+
+      const before = await fs.readFile(path);
+      const after = applyEdit(before, textEditFrom(params));
+      if (after !== before) await fs.writeFile(path, after);
+      return { success: true, output: describeChange(path, before, after) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+export class ApplyPatchTool implements Tool {
+  definition: ToolDefinition = {
+    name: 'apply_patch',
+    description:
+      'Apply a unified diff (hunks starting with "@@ -start,count +start,count @@") to an existing file. ' +
+      'Context and removed lines must match the file; nothing is written if any hunk fails.',
+    parameters: [
+      { name: 'path', description: 'Path to the file', type: 'string', required: true },
+      { name: 'patch', description: 'Unified diff for this file', type: 'string', required: true }
+    ]
+  };
+
+  constructor(private fs: FileSystemBackend) {}
+
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
+    try {
+      const path = params.path as string;
+
+      if (!validatePath(path)) {
+        return { success: false, error: 'Invalid file path' };
+      }
+
+      const before = await fs.readFile(path);
+      const after = applyPatch(before, String(params.patch ?? ''));
+      if (after !== before) await fs.writeFile(path, after);
+      return { success: true, output: describeChange(path, before, after) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
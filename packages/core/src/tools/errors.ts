@@ -0,0 +1,23 @@
+import { ToolResult } from '@pixelmate/shared';
+
+/** A failure that may go away on its own, such as a rate limit or a server error. */
+export class TransientToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransientToolError';
+  }
+}
+
+/** HTTP statuses worth retrying: rate limiting and server-side failures. */
+export function isTransientStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** Failed result for an error thrown inside a tool, keeping its transient marker. */
+export function toolErrorResult(error: unknown): ToolResult {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : String(error),
+    ...(error instanceof TransientToolError && { errorKind: 'transient' as const })
+  };
+}
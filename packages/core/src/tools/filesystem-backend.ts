@@ -0,0 +1,52 @@
+/**
+ * Storage interface the file tools run against. OPFS, the user's native
+ * folder, Google Drive, the Node disk and the in-memory store all implement
+ * it, and HybridFileSystem mounts them under path prefixes.
+ */
+
+export type FileContent = string | Uint8Array | ArrayBuffer | Blob;
+
+export interface FileStat {
+  // Path as given to the backend, e.g. '/notes/todo.md'
+  path: string;
+  name: string;
+  type: 'file' | 'directory';
+  // Bytes; 0 for directories
+  size: number;
+  // ISO timestamp, when the store tracks it
+  modifiedTime?: string;
+}
+
+export interface FileSystemBackend {
+  // Short label used in the workspace description, e.g. 'opfs' or 'google-drive'
+  readonly name: string;
+  readFile(path: string): Promise<string>;
+  readBinary(path: string): Promise<Uint8Array>;
+  // Creates missing parent directories
+  writeFile(path: string, content: FileContent): Promise<void>;
+  stat(path: string): Promise<FileStat>;
+  listFiles(directory: string): Promise<FileStat[]>;
+  createDirectory(path: string): Promise<void>;
+  deleteFile(path: string): Promise<void>;
+  moveFile(from: string, to: string): Promise<void>;
+  copyFile(from: string, to: string): Promise<void>;
+  // View whose changes are recorded under the task, for stores that keep an undo journal
+  forTask?(taskId: string): FileSystemBackend;
+}
+
+/** Splits an absolute path into its non-empty segments. */
+export function pathSegments(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+export function baseName(path: string): string {
+  const segments = pathSegments(path);
+  return segments[segments.length - 1] ?? '';
+}
+
+export async function toBytes(content: FileContent): Promise<Uint8Array> {
+  if (typeof content === 'string') return new TextEncoder().encode(content);
+  if (content instanceof Uint8Array) return content;
+  if (content instanceof ArrayBuffer) return new Uint8Array(content);
+  return new Uint8Array(await content.arrayBuffer());
+}
@@ -1,282 +1,202 @@
 /**
- * Origin Private File System (OPFS) implementation for temporary files
- * Uses the File System Access API to provide isolated, fast storage
+ * File System Access API stores: the Origin Private File System (OPFS) for
+ * isolated, fast storage and the user's own folder picked with
+ * showDirectoryPicker(). Both are trees of directory handles, so they share
+ * one implementation and differ only in where the root handle comes from.
  */
 
-export class OPFSFileSystem {
-  private rootHandle: FileSystemDirectoryHandle | null = null;
-  private initialized = false;
+import { FileContent, FileStat, FileSystemBackend, pathSegments } from './filesystem-backend.js';
 
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
-    
-    try {
-      this.rootHandle = await navigator.storage.getDirectory();
-      this.initialized = true;
-    } catch (error) {
-      console.error('Failed to initialize OPFS:', error);
-      throw new Error('OPFS not available in this browser');
-    }
-  }
+abstract class DirectoryHandleFileSystem implements FileSystemBackend {
+  abstract readonly name: string;
 
-  private async ensureInitialized(): Promise<void> {
-    if (!this.initialized) {
-      await this.initialize();
-    }
-  }
+  protected abstract getRoot(): Promise<FileSystemDirectoryHandle>;
 
   async readFile(path: string): Promise<string> {
-    await this.ensureInitialized();
-    const fileHandle = await this.getFileHandle(path);
-    const file = await fileHandle.getFile();
+    const file = await this.getFile(path);
     return await file.text();
   }
 
-  async readFileAsBlob(path: string): Promise<Blob> {
-    await this.ensureInitialized();
-    const fileHandle = await this.getFileHandle(path);
-    const file = await fileHandle.getFile();
-    return file;
+  async readBinary(path: string): Promise<Uint8Array> {
+    const file = await this.getFile(path);
+    return new Uint8Array(await file.arrayBuffer());
   }
 
-  async writeFile(path: string, content: string | ArrayBuffer | Blob): Promise<void> {
-    await this.ensureInitialized();
+  async writeFile(path: string, content: FileContent): Promise<void> {
     const fileHandle = await this.getFileHandle(path, true);
     const writable = await fileHandle.createWritable();
-    
+
     try {
-      if (typeof content === 'string') {
-        await writable.write(content);
-      } else if (content instanceof ArrayBuffer) {
-        await writable.write(new Uint8Array(content));
-      } else if (content instanceof Blob) {
-        await writable.write(content);
-      }
+      await writable.write(typeof content === 'string' || content instanceof Blob ? content : new Uint8Array(content));
     } finally {
       await writable.close();
     }
   }
 
-  async deleteFile(path: string): Promise<void> {
-    await this.ensureInitialized();
-    const parts = path.split('/').filter(Boolean);
-    if (parts.length === 0) return;
-
-    let current = this.rootHandle!;
-    for (let i = 0; i < parts.length - 1; i++) {
-      current = await current.getDirectoryHandle(parts[i]);
+  async stat(path: string): Promise<FileStat> {
+    const segments = pathSegments(path);
+    if (segments.length === 0) {
+      return { path: '/', name: '', type: 'directory', size: 0 };
     }
 
-    await current.removeEntry(parts[parts.length - 1]);
+    const parent = await this.getDirHandle(segments.slice(0, -1).join('/'));
+    const name = segments[segments.length - 1];
+    try {
+      const file = await (await parent.getFileHandle(name)).getFile();
+      return { path, name, type: 'file', size: file.size, modifiedTime: new Date(file.lastModified).toISOString() };
+    } catch {
+      await this.getDirHandle(path);
+      return { path, name, type: 'directory', size: 0 };
+    }
   }
 
-  async listFiles(directory: string = '/'): Promise<string[]> {
-    await this.ensureInitialized();
+  async listFiles(directory: string): Promise<FileStat[]> {
     const dirHandle = await this.getDirHandle(directory);
-    const files: string[] = [];
-
-    const iterator = (dirHandle as any).values
-      ? (dirHandle as any).values()
-      : (dirHandle as any).entries();
-
-    for await (const entry of iterator) {
-      const handle = (entry as any).kind ? entry : (entry as any)[1];
-      files.push(handle.name);
+    const entries: FileStat[] = [];
+
+    for await (const handle of this.children(dirHandle)) {
+      const path = `/${[...pathSegments(directory), handle.name].join('/')}`;
+      if (handle.kind === 'file') {
+        const file = await (handle as FileSystemFileHandle).getFile();
+        entries.push({ path, name: handle.name, type: 'file', size: file.size, modifiedTime: new Date(file.lastModified).toISOString() });
+      } else {
+        entries.push({ path, name: handle.name, type: 'directory', size: 0 });
+      }
     }
 
-    return files;
+    return entries;
   }
 
   async createDirectory(path: string): Promise<void> {
-    await this.ensureInitialized();
-    const parts = path.split('/').filter(Boolean);
-    let current = this.rootHandle!;
-
-    for (const part of parts) {
+    let current = await this.getRoot();
+    for (const part of pathSegments(path)) {
       current = await current.getDirectoryHandle(part, { create: true });
     }
   }
 
-  async moveFile(from: string, to: string): Promise<void> {
-    await this.ensureInitialized();
-    const content = await this.readFileAsBlob(from);
-    await this.writeFile(to, content);
-    await this.deleteFile(from);
-  }
+  async deleteFile(path: string): Promise<void> {
+    const segments = pathSegments(path);
+    if (segments.length === 0) throw new Error('Cannot delete the root directory');
 
-  async copyFile(from: string, to: string): Promise<void> {
-    await this.ensureInitialized();
-    const content = await this.readFileAsBlob(from);
-    await this.writeFile(to, content);
+    const parent = await this.getDirHandle(segments.slice(0, -1).join('/'));
+    await parent.removeEntry(segments[segments.length - 1], { recursive: true });
   }
 
-  private async getFileHandle(path: string, create = false): Promise<FileSystemFileHandle> {
-    const parts = path.split('/').filter(Boolean);
-    if (parts.length === 0) throw new Error('Invalid file path');
-
-    let current = this.rootHandle!;
-    for (let i = 0; i < parts.length - 1; i++) {
-      current = await current.getDirectoryHandle(parts[i], { create });
-    }
-
-    return await current.getFileHandle(parts[parts.length - 1], { create });
+  async moveFile(from: string, to: string): Promise<void> {
+    await this.copyFile(from, to);
+    await this.deleteFile(from);
   }
 
-  private async getDirHandle(path: string): Promise<FileSystemDirectoryHandle> {
-    const parts = path.split('/').filter(Boolean);
-    let current = this.rootHandle!;
-
-    for (const part of parts) {
-      current = await current.getDirectoryHandle(part);
+  async copyFile(from: string, to: string): Promise<void> {
+    const source = await this.stat(from);
+    if (source.type === 'file') {
+      await this.writeFile(to, await this.getFile(from));
+      return;
     }
 
-    return current;
-  }
-}
-
-/**
- * Chrome File System Access API wrapper for user's file system
- */
-export class ChromeFileSystemAccessor {
-  private rootHandle: FileSystemDirectoryHandle | null = null;
-
-  async requestAccess(): Promise<void> {
-    try {
-      this.rootHandle = await (window as any).showDirectoryPicker({
-        mode: 'readwrite',
-        startIn: 'documents'
-      });
-    } catch (error) {
-      if ((error as any).name === 'AbortError') {
-        throw new Error('User denied file system access');
-      }
-      throw error;
+    await this.createDirectory(to);
+    for (const entry of await this.listFiles(from)) {
+      await this.copyFile(entry.path, `${to.replace(/\/$/, '')}/${entry.name}`);
     }
   }
 
-  async readFile(path: string): Promise<string> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
+  private async getFile(path: string): Promise<File> {
     const fileHandle = await this.getFileHandle(path);
-    const file = await fileHandle.getFile();
-    return await file.text();
+    return await fileHandle.getFile();
   }
 
-  async readFileAsBlob(path: string): Promise<Blob> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const fileHandle = await this.getFileHandle(path);
-    const file = await fileHandle.getFile();
-    return file;
-  }
+  private async getFileHandle(path: string, create = false): Promise<FileSystemFileHandle> {
+    const parts = pathSegments(path);
+    if (parts.length === 0) throw new Error('Invalid file path');
 
-  async writeFile(path: string, content: string | ArrayBuffer | Blob): Promise<void> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const fileHandle = await this.getFileHandle(path, true);
-    const writable = await fileHandle.createWritable();
+    let current = await this.getRoot();
+    for (let i = 0; i < parts.length - 1; i++) {
+      current = await current.getDirectoryHandle(parts[i], { create });
+    }
 
     try {
-      if (typeof content === 'string') {
-        await writable.write(content);
-      } else if (content instanceof ArrayBuffer) {
-        await writable.write(new Uint8Array(content));
-      } else if (content instanceof Blob) {
-        await writable.write(content);
-      }
-    } finally {
-      await writable.close();
+      return await current.getFileHandle(parts[parts.length - 1], { create });
+    } catch {
+      throw new Error(`File not found: ${path}`);
     }
   }
 
-  async deleteFile(path: string): Promise<void> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const parts = path.split('/').filter(Boolean);
-    if (parts.length === 0) return;
+  private async getDirHandle(path: string): Promise<FileSystemDirectoryHandle> {
+    let current = await this.getRoot();
 
-    let current = this.rootHandle;
-    for (let i = 0; i < parts.length - 1; i++) {
+    for (const part of pathSegments(path)) {
       try {
-        current = await current.getDirectoryHandle(parts[i]);
+        current = await current.getDirectoryHandle(part);
       } catch {
-        return; // Path doesn't exist
+        throw new Error(`Directory not found: ${path}`);
       }
     }
 
-    try {
-      await current.removeEntry(parts[parts.length - 1]);
-    } catch {
-      // File doesn't exist
-    }
+    return current;
   }
 
-  async listFiles(directory: string = ''): Promise<string[]> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const dirHandle = await this.getDirHandle(directory);
-    const files: string[] = [];
-
+  private async *children(dirHandle: FileSystemDirectoryHandle): AsyncGenerator<FileSystemHandle> {
     const iterator = (dirHandle as any).values
       ? (dirHandle as any).values()
       : (dirHandle as any).entries();
 
     for await (const entry of iterator) {
-      const handle = (entry as any).kind ? entry : (entry as any)[1];
-      files.push(handle.name);
+      yield (entry as any).kind ? entry : (entry as any)[1];
     }
-
-    return files;
-  }
-
-  async createDirectory(path: string): Promise<void> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const parts = path.split('/').filter(Boolean);
-    let current = this.rootHandle;
-
-    for (const part of parts) {
-      current = await current.getDirectoryHandle(part, { create: true });
-    }
-  }
-
-  async moveFile(from: string, to: string): Promise<void> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const content = await this.readFileAsBlob(from);
-    await this.writeFile(to, content);
-    await this.deleteFile(from);
   }
+}
 
-  async copyFile(from: string, to: string): Promise<void> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const content = await this.readFileAsBlob(from);
-    await this.writeFile(to, content);
-  }
+/**
+ * Origin Private File System (OPFS) implementation for temporary files
+ */
+export class OPFSFileSystem extends DirectoryHandleFileSystem {
+  readonly name = 'opfs';
+  private rootHandle: FileSystemDirectoryHandle | null = null;
 
-  private async getFileHandle(path: string, create = false): Promise<FileSystemFileHandle> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const parts = path.split('/').filter(Boolean);
-    if (parts.length === 0) throw new Error('Invalid file path');
+  async initialize(): Promise<void> {
+    if (this.rootHandle) return;
 
-    let current = this.rootHandle;
-    for (let i = 0; i < parts.length - 1; i++) {
-      current = await current.getDirectoryHandle(parts[i], { create });
+    try {
+      this.rootHandle = await navigator.storage.getDirectory();
+    } catch (error) {
+      console.error('Failed to initialize OPFS:', error);
+      throw new Error('OPFS not available in this browser');
     }
+  }
 
-    return await current.getFileHandle(parts[parts.length - 1], { create });
+  protected async getRoot(): Promise<FileSystemDirectoryHandle> {
+    await this.initialize();
+    return this.rootHandle!;
   }
+}
 
-  private async getDirHandle(path: string): Promise<FileSystemDirectoryHandle> {
-    if (!this.rootHandle) throw new Error('File system access not granted');
-    const parts = path.split('/').filter(Boolean);
-    let current = this.rootHandle;
+/**
+ * Chrome File System Access API wrapper for user's file system
+ */
+export class ChromeFileSystemAccessor extends DirectoryHandleFileSystem {
+  readonly name = 'native';
+  private rootHandle: FileSystemDirectoryHandle | null = null;
 
-    for (const part of parts) {
-      try {
-        current = await current.getDirectoryHandle(part);
-      } catch {
-        throw new Error(`Directory not found: ${path}`);
+  async requestAccess(): Promise<void> {
+    try {
+      this.rootHandle = await (window as any).showDirectoryPicker({
+        mode: 'readwrite',
+        startIn: 'documents'
+      });
+    } catch (error) {
+      if ((error as any).name === 'AbortError') {
+        throw new Error('User denied file system access');
       }
+      throw error;
     }
-
-    return current;
   }
 
   hasAccess(): boolean {
     return this.rootHandle !== null;
   }
+
+  protected async getRoot(): Promise<FileSystemDirectoryHandle> {
+    if (!this.rootHandle) throw new Error('File system access not granted');
+    return this.rootHandle;
+  }
 }
@@ -0,0 +1,331 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GoogleDriveFileSystem } from './filesystem-google-drive.js';
+import { TransientToolError } from './errors.js';
+
+// ──────────────────────────────────────────────────────────────
+// Fake Drive API server
+// ──────────────────────────────────────────────────────────────
+
+const TOKEN = 'test-token';
+const FOLDER = 'application/vnd.google-apps.folder';
+// Small pages, so listing has to follow nextPageToken
+const PAGE_SIZE = 2;
+
+interface FakeFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  parents: string[];
+  content: Buffer;
+  modifiedTime: string;
+}
+
+class FakeDrive {
+  files = new Map<string, FakeFile>();
+  requests: string[] = [];
+  failures: number[] = [];
+  private nextId = 1;
+
+  reset(): void {
+    this.files.clear();
+    this.requests = [];
+    this.failures = [];
+  }
+
+  add(name: string, parent: string, content?: string): FakeFile {
+    const file: FakeFile = {
+      id: `id${this.nextId++}`,
+      name,
+      mimeType: content === undefined ? FOLDER : 'text/plain',
+      parents: [parent],
+      content: Buffer.from(content ?? ''),
+      modifiedTime: new Date().toISOString()
+    };
+    this.files.set(file.id, file);
+    return file;
+  }
+
+  childrenOf(parent: string, name?: string): FakeFile[] {
+    return [...this.files.values()].filter(f => f.parents.includes(parent) && (name === undefined || f.name === name));
+  }
+
+  /** Path → content of every file, for whole-tree assertions. */
+  tree(parent = 'root', prefix = ''): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const file of this.childrenOf(parent)) {
+      const path = `${prefix}/${file.name}`;
+      if (file.mimeType === FOLDER) Object.assign(result, { [`${path}/`]: '' }, this.tree(file.id, path));
+      else result[path] = file.content.toString();
+    }
+    return result;
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url!, 'http://localhost');
+    const body = await readBody(req);
+    this.requests.push(`${req.method} ${url.pathname}`);
+
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'unauthorized' });
+    const failure = this.failures.shift();
+    if (failure) return send(res, failure, { error: 'injected' });
+
+    // /drive/v3/files[/id[/action]], or the same under /upload
+    const upload = url.pathname.startsWith('/upload/');
+    const [id, action] = url.pathname.replace(/^(\/upload)?\/drive\/v3\/files\/?/, '').split('/').filter(Boolean);
+    const file = id ? this.files.get(id) : undefined;
+    if (id && !file) return send(res, 404, { error: 'not found' });
+
+    if (!id && req.method === 'GET') {
+      const q = url.searchParams.get('q') ?? '';
+      const parent = unquote(/'((?:[^'\\]|\\.)*)' in parents/.exec(q)?.[1]);
+      const name = /name = '((?:[^'\\]|\\.)*)'/.exec(q)?.[1];
+      const matches = this.childrenOf(parent!, name === undefined ? undefined : unquote(name));
+      const offset = Number(url.searchParams.get('pageToken') ?? 0);
+      const size = Math.min(Number(url.searchParams.get('pageSize') ?? 100), PAGE_SIZE);
+      const nextPageToken = offset + size < matches.length ? String(offset + size) : undefined;
+      return send(res, 200, { files: matches.slice(offset, offset + size).map(metadata), nextPageToken });
+    }
+
+    if (!id && req.method === 'POST' && upload) {
+      const form = await new Response(new Uint8Array(body), { headers: { 'content-type': req.headers['content-type']! } }).formData();
+      const meta = JSON.parse(await (form.get('metadata') as Blob).text());
+      const created = this.add(meta.name, meta.parents?.[0] ?? 'root', await (form.get('file') as Blob).text());
+      return send(res, 200, metadata(created));
+    }
+
+    if (!id && req.method === 'POST') {
+      const meta = JSON.parse(body.toString());
+      const created = this.add(meta.name, meta.parents?.[0] ?? 'root', meta.mimeType === FOLDER ? undefined : '');
+      return send(res, 200, metadata(created));
+    }
+
+    if (file && req.method === 'GET') {
+      if (url.searchParams.get('alt') === 'media') {
+        res.writeHead(200, { 'content-type': 'application/octet-stream' });
+        return void res.end(file.content);
+      }
+      return send(res, 200, metadata(file));
+    }
+
+    if (file && req.method === 'PATCH' && upload) {
+      file.content = body;
+      return send(res, 200, metadata(file));
+    }
+
+    if (file && req.method === 'PATCH') {
+      const add = url.searchParams.get('addParents');
+      const remove = url.searchParams.get('removeParents');
+      if (remove) file.parents = file.parents.filter(p => p !== remove);
+      if (add) file.parents.push(add);
+      if (body.length) Object.assign(file, { name: JSON.parse(body.toString()).name ?? file.name });
+      return send(res, 200, metadata(file));
+    }
+
+    if (file && req.method === 'DELETE') {
+      this.remove(file.id);
+      res.writeHead(204);
+      return void res.end();
+    }
+
+    if (file && req.method === 'POST' && action === 'copy') {
+      const meta = JSON.parse(body.toString());
+      const copy = this.add(meta.name, meta.parents?.[0] ?? file.parents[0], file.content.toString());
+      return send(res, 200, metadata(copy));
+    }
+
+    send(res, 400, { error: `unhandled ${req.method} ${url.pathname}` });
+  }
+
+  private remove(id: string): void {
+    for (const child of this.childrenOf(id)) this.remove(child.id);
+    this.files.delete(id);
+  }
+}
+
+function metadata(file: FakeFile) {
+  const { content, parents: _parents, ...rest } = file;
+  return { ...rest, ...(file.mimeType !== FOLDER && { size: String(content.length) }) };
+}
+
+function unquote(value?: string): string | undefined {
+  return value?.replace(/\\(.)/g, '$1');
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// ──────────────────────────────────────────────────────────────
+// Tests
+// ──────────────────────────────────────────────────────────────
+
+describe('GoogleDriveFileSystem', () => {
+  const drive = new FakeDrive();
+  let server: Server;
+  let fs: GoogleDriveFileSystem;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      drive.handle(req, res).catch(error => send(res, 500, { error: String(error) }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    drive.reset();
+    fs = new GoogleDriveFileSystem({ baseUrl: `${origin}/drive/v3`, uploadUrl: `${origin}/upload/drive/v3` });
+    await fs.authenticate(TOKEN);
+    drive.requests = [];
+  });
+
+  it('reads a file by walking folder names', async () => {
+    const reports = drive.add('reports', 'root');
+    drive.add('q3.md', reports.id, '# Q3');
+
+    expect(await fs.readFile('/reports/q3.md')).toBe('# Q3');
+    expect(await fs.readBinary('/reports/q3.md')).toEqual(new Uint8Array(Buffer.from('# Q3')));
+  });
+
+  it('caches resolved IDs', async () => {
+    const reports = drive.add('reports', 'root');
+    drive.add('q3.md', reports.id, '# Q3');
+
+    await fs.readFile('/reports/q3.md');
+    const lookups = drive.requests.filter(r => r === 'GET /drive/v3/files').length;
+    await fs.readFile('/reports/q3.md');
+
+    expect(lookups).toBe(2);
+    expect(drive.requests.filter(r => r === 'GET /drive/v3/files').length).toBe(lookups);
+  });
+
+  it('creates intermediate folders on write', async () => {
+    await fs.writeFile('/a/b/c.txt', 'deep');
+
+    expect(drive.tree()).toEqual({ '/a/': '', '/a/b/': '', '/a/b/c.txt': 'deep' });
+  });
+
+  it('updates an existing file in place instead of duplicating it', async () => {
+    await fs.writeFile('/notes.txt', 'v1');
+    const id = drive.childrenOf('root', 'notes.txt')[0].id;
+    await fs.writeFile('/notes.txt', 'v2');
+
+    expect(drive.childrenOf('root', 'notes.txt')).toHaveLength(1);
+    expect(drive.files.get(id)!.content.toString()).toBe('v2');
+    expect(await fs.readFile('/notes.txt')).toBe('v2');
+  });
+
+  it('stats files and folders', async () => {
+    await fs.writeFile('/docs/readme.md', 'hello');
+
+    expect(await fs.stat('/docs/readme.md')).toMatchObject({ path: '/docs/readme.md', name: 'readme.md', type: 'file', size: 5 });
+    expect(await fs.stat('/docs')).toMatchObject({ type: 'directory', size: 0 });
+    expect(await fs.stat('/')).toMatchObject({ path: '/', type: 'directory' });
+  });
+
+  it('lists every page of a folder', async () => {
+    for (const name of ['a', 'b', 'c', 'd', 'e']) await fs.writeFile(`/many/${name}.txt`, name);
+
+    const entries = await fs.listFiles('/many');
+    expect(entries.map(e => e.path).sort()).toEqual(['/many/a.txt', '/many/b.txt', '/many/c.txt', '/many/d.txt', '/many/e.txt']);
+  });
+
+  it('moves across folders by changing parents and renames in place', async () => {
+    await fs.writeFile('/inbox/draft.md', 'text');
+    const id = drive.childrenOf(drive.childrenOf('root', 'inbox')[0].id)[0].id;
+
+    await fs.moveFile('/inbox/draft.md', '/archive/2024/final.md');
+    await fs.moveFile('/archive/2024/final.md', '/archive/2024/renamed.md');
+
+    expect(drive.tree()).toEqual({ '/inbox/': '', '/archive/': '', '/archive/2024/': '', '/archive/2024/renamed.md': 'text' });
+    expect(drive.files.has(id)).toBe(true);
+    await expect(fs.readFile('/inbox/draft.md')).rejects.toThrow('File not found');
+  });
+
+  it('overwrites the destination of a move', async () => {
+    await fs.writeFile('/a.txt', 'new');
+    await fs.writeFile('/b.txt', 'old');
+
+    await fs.moveFile('/a.txt', '/b.txt');
+
+    expect(drive.tree()).toEqual({ '/b.txt': 'new' });
+  });
+
+  it('copies files and folders', async () => {
+    await fs.writeFile('/src/one.txt', '1');
+    await fs.writeFile('/src/sub/two.txt', '2');
+
+    await fs.copyFile('/src/one.txt', '/single.txt');
+    await fs.copyFile('/src', '/dest');
+
+    expect(drive.tree()).toMatchObject({
+      '/single.txt': '1',
+      '/src/one.txt': '1',
+      '/dest/one.txt': '1',
+      '/dest/sub/two.txt': '2'
+    });
+  });
+
+  it('deletes a folder and forgets the cached paths below it', async () => {
+    await fs.writeFile('/tmp/x.txt', 'x');
+    await fs.deleteFile('/tmp');
+
+    expect(drive.tree()).toEqual({});
+    await expect(fs.readFile('/tmp/x.txt')).rejects.toThrow('File not found');
+
+    await fs.writeFile('/tmp/x.txt', 'again');
+    expect(await fs.readFile('/tmp/x.txt')).toBe('again');
+  });
+
+  it('creates nested folders with createDirectory', async () => {
+    await fs.createDirectory('/one/two');
+    await fs.createDirectory('/one/two');
+
+    expect(drive.tree()).toEqual({ '/one/': '', '/one/two/': '' });
+  });
+
+  it('escapes quotes in names', async () => {
+    await fs.writeFile("/it's here.txt", 'quoted');
+    expect(await fs.readFile("/it's here.txt")).toBe('quoted');
+  });
+
+  it('reports missing paths and type mismatches', async () => {
+    await fs.writeFile('/file.txt', 'x');
+
+    await expect(fs.readFile('/nope.txt')).rejects.toThrow('File not found: /nope.txt');
+    await expect(fs.listFiles('/file.txt')).rejects.toThrow('Not a directory');
+    await expect(fs.writeFile('/file.txt/child.txt', 'x')).rejects.toThrow('Not a directory');
+  });
+
+  it('marks rate limits and server errors as transient', async () => {
+    drive.failures.push(503);
+    await expect(fs.readFile('/anything.txt')).rejects.toBeInstanceOf(TransientToolError);
+
+    drive.failures.push(403);
+    const error = await fs.readFile('/anything.txt').catch(e => e);
+    expect(error).not.toBeInstanceOf(TransientToolError);
+    expect(error.message).toContain('403');
+  });
+
+  it('rejects requests before authentication', async () => {
+    const unauthenticated = new GoogleDriveFileSystem({ baseUrl: `${origin}/drive/v3` });
+    await expect(unauthenticated.readFile('/x')).rejects.toThrow('Not authenticated with Google Drive');
+  });
+});
@@ -1,188 +1,305 @@
 /**
  * Google Drive integration for file storage
  * Uses Google Drive API v3
+ *
+ * Paths are resolved against folder names from My Drive's root, so
+ * '/reports/q3.md' is the file named 'q3.md' in the folder 'reports'.
+ * Resolved IDs are cached; writes to an existing path update the file in
+ * place instead of creating a duplicate.
  */
 
+import { FileContent, FileStat, FileSystemBackend, baseName, pathSegments } from './filesystem-backend.js';
+import { TransientToolError, isTransientStatus } from './errors.js';
+
 export interface GoogleDriveFile {
   id: string;
   name: string;
   mimeType: string;
-  size: number;
-  createdTime: string;
-  modifiedTime: string;
+  size?: string;
+  createdTime?: string;
+  modifiedTime?: string;
+}
+
+export interface GoogleDriveOptions {
+  // Drive API base, e.g. a fake server's address in tests
+  baseUrl?: string;
+  // Upload API base for file contents
+  uploadUrl?: string;
+}
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const FILE_FIELDS = 'id,name,mimeType,size,createdTime,modifiedTime';
+
+// Drive query string literal
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function normalize(path: string): string {
+  return `/${pathSegments(path).join('/')}`;
+}
+
+function parentPath(path: string): string {
+  return normalize(pathSegments(path).slice(0, -1).join('/'));
 }
 
-export class GoogleDriveFileSystem {
+function toBlob(content: FileContent): Blob {
+  if (typeof content === 'string') return new Blob([content], { type: 'text/plain' });
+  if (content instanceof Blob) return content;
+  return new Blob([new Uint8Array(content)]);
+}
+
+export class GoogleDriveFileSystem implements FileSystemBackend {
+  readonly name = 'google-drive';
   private accessToken: string | null = null;
-  private baseUrl = 'https://www.googleapis.com/drive/v3';
+  private baseUrl: string;
+  private uploadUrl: string;
+  // Normalized path → Drive file, filled in as paths are resolved
+  private cache = new Map<string, GoogleDriveFile>();
+
+  constructor(options: GoogleDriveOptions = {}) {
+    this.baseUrl = options.baseUrl ?? 'https://www.googleapis.com/drive/v3';
+    this.uploadUrl = options.uploadUrl ?? 'https://www.googleapis.com/upload/drive/v3';
+  }
 
   async authenticate(accessToken: string): Promise<void> {
     this.accessToken = accessToken;
+    this.cache.clear();
     // Verify token is valid by making a quick API call
     await this.listFiles('/');
   }
 
-  async readFile(fileId: string): Promise<string> {
-    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
-
-    const response = await fetch(
-      `${this.baseUrl}/files/${fileId}?alt=media`,
-      {
-        headers: { 'Authorization': `Bearer ${this.accessToken}` }
-      }
-    );
-
-    if (!response.ok) throw new Error(`Failed to read file: ${response.statusText}`);
+  async readFile(path: string): Promise<string> {
+    const response = await this.download(path);
     return await response.text();
   }
 
-  async readFileAsBlob(fileId: string): Promise<Blob> {
-    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
-
-    const response = await fetch(
-      `${this.baseUrl}/files/${fileId}?alt=media`,
-      {
-        headers: { 'Authorization': `Bearer ${this.accessToken}` }
-      }
-    );
-
-    if (!response.ok) throw new Error(`Failed to read file: ${response.statusText}`);
-    return await response.blob();
+  async readBinary(path: string): Promise<Uint8Array> {
+    const response = await this.download(path);
+    return new Uint8Array(await response.arrayBuffer());
   }
 
-  async writeFile(fileName: string, content: string | Blob, parentId?: string): Promise<string> {
-    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
-
-    const metadata = {
-      name: fileName,
-      ...(parentId && { parents: [parentId] })
-    };
+  async writeFile(path: string, content: FileContent): Promise<void> {
+    const existing = await this.lookup(path);
+    if (existing?.mimeType === FOLDER_MIME_TYPE) throw new Error(`Not a file: ${path}`);
+
+    if (existing) {
+      const updated = await this.json<GoogleDriveFile>(
+        `${this.uploadUrl}/files/${existing.id}?uploadType=media&fields=${FILE_FIELDS}`,
+        { method: 'PATCH', body: toBlob(content) }
+      );
+      this.cache.set(normalize(path), updated);
+      return;
+    }
 
+    const parent = await this.ensureFolder(parentPath(path));
     const formData = new FormData();
     formData.append(
       'metadata',
-      new Blob([JSON.stringify(metadata)], { type: 'application/json' })
+      new Blob([JSON.stringify({ name: baseName(path), parents: [parent.id] })], { type: 'application/json' })
     );
+    formData.append('file', toBlob(content));
 
-    if (typeof content === 'string') {
-      formData.append('file', new Blob([content], { type: 'text/plain' }));
-    } else {
-      formData.append('file', content);
-    }
-
-    const response = await fetch(
-      `${this.baseUrl}/files?uploadType=multipart&fields=id`,
-      {
-        method: 'POST',
-        headers: { 'Authorization': `Bearer ${this.accessToken}` },
-        body: formData
-      }
+    const created = await this.json<GoogleDriveFile>(
+      `${this.uploadUrl}/files?uploadType=multipart&fields=${FILE_FIELDS}`,
+      { method: 'POST', body: formData }
     );
+    this.cache.set(normalize(path), created);
+  }
 
-    if (!response.ok) throw new Error(`Failed to write file: ${response.statusText}`);
-    const result = await response.json() as { id: string };
-    return result.id;
+  async stat(path: string): Promise<FileStat> {
+    const file = await this.resolve(path);
+    if (file.id === 'root') {
+      return { path: '/', name: '', type: 'directory', size: 0 };
+    }
+    return this.toStat(normalize(path), file);
   }
 
-  async deleteFile(fileId: string): Promise<void> {
-    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
+  async listFiles(directory: string): Promise<FileStat[]> {
+    const folder = await this.resolve(directory);
+    if (folder.mimeType !== FOLDER_MIME_TYPE) throw new Error(`Not a directory: ${directory}`);
+
+    const dir = normalize(directory);
+    const files = await this.children(folder.id);
+    return files.map(file => {
+      const path = dir === '/' ? `/${file.name}` : `${dir}/${file.name}`;
+      this.cache.set(path, file);
+      return this.toStat(path, file);
+    });
+  }
 
-    const response = await fetch(
-      `${this.baseUrl}/files/${fileId}`,
-      {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${this.accessToken}` }
-      }
-    );
+  async createDirectory(path: string): Promise<void> {
+    await this.ensureFolder(path);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    const file = await this.resolve(path);
+    if (file.id === 'root') throw new Error('Cannot delete the root folder');
 
-    if (!response.ok) throw new Error(`Failed to delete file: ${response.statusText}`);
+    await this.request(`${this.baseUrl}/files/${file.id}`, { method: 'DELETE' });
+    this.forget(path);
   }
 
-  async listFiles(parentId: string): Promise<GoogleDriveFile[]> {
-    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
+  async moveFile(from: string, to: string): Promise<void> {
+    const file = await this.resolve(from);
+    if (file.id === 'root') throw new Error('Cannot move the root folder');
+    await this.replaceTarget(to, file);
+
+    const oldParent = await this.resolve(parentPath(from));
+    const newParent = await this.ensureFolder(parentPath(to));
+    const params = new URLSearchParams({ fields: FILE_FIELDS });
+    if (oldParent.id !== newParent.id) {
+      params.set('addParents', newParent.id);
+      params.set('removeParents', oldParent.id);
+    }
 
-    const query = parentId === '/' 
-      ? `trashed=false`
-      : `'${parentId}' in parents and trashed=false`;
+    const moved = await this.json<GoogleDriveFile>(`${this.baseUrl}/files/${file.id}?${params}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: baseName(to) })
+    });
+    this.forget(from);
+    this.cache.set(normalize(to), moved);
+  }
 
-    const response = await fetch(
-      `${this.baseUrl}/files?q=${encodeURIComponent(query)}&pageSize=100&fields=files(id,name,mimeType,size,createdTime,modifiedTime)`,
-      {
-        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+  async copyFile(from: string, to: string): Promise<void> {
+    const file = await this.resolve(from);
+    await this.replaceTarget(to, file);
+
+    // Drive can't copy folders, so recreate them and copy their files
+    if (file.mimeType === FOLDER_MIME_TYPE) {
+      await this.ensureFolder(to);
+      for (const child of await this.listFiles(from)) {
+        await this.copyFile(child.path, `${normalize(to)}/${child.name}`);
       }
-    );
+      return;
+    }
 
-    if (!response.ok) throw new Error(`Failed to list files: ${response.statusText}`);
-    const result = await response.json() as { files: GoogleDriveFile[] };
-    return result.files;
+    const parent = await this.ensureFolder(parentPath(to));
+    const copied = await this.json<GoogleDriveFile>(`${this.baseUrl}/files/${file.id}/copy?fields=${FILE_FIELDS}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: baseName(to), parents: [parent.id] })
+    });
+    this.cache.set(normalize(to), copied);
   }
 
-  async createDirectory(name: string, parentId?: string): Promise<string> {
-    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
+  hasAuth(): boolean {
+    return this.accessToken !== null;
+  }
 
-    const metadata = {
-      name,
-      mimeType: 'application/vnd.google-apps.folder',
-      ...(parentId && { parents: [parentId] })
-    };
+  private async download(path: string): Promise<Response> {
+    const file = await this.resolve(path);
+    if (file.mimeType === FOLDER_MIME_TYPE) throw new Error(`Not a file: ${path}`);
+    return await this.request(`${this.baseUrl}/files/${file.id}?alt=media`);
+  }
 
-    const response = await fetch(
-      `${this.baseUrl}/files?fields=id`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(metadata)
-      }
-    );
+  /** The Drive file at `path`, or null when some segment doesn't exist. */
+  private async lookup(path: string): Promise<GoogleDriveFile | null> {
+    const key = normalize(path);
+    if (key === '/') return { id: 'root', name: '', mimeType: FOLDER_MIME_TYPE };
 
-    if (!response.ok) throw new Error(`Failed to create directory: ${response.statusText}`);
-    const result = await response.json() as { id: string };
-    return result.id;
-  }
+    const cached = this.cache.get(key);
+    if (cached) return cached;
 
-  async moveFile(fileId: string, newParentId: string): Promise<void> {
-    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
+    const parent = await this.lookup(parentPath(key));
+    if (!parent || parent.mimeType !== FOLDER_MIME_TYPE) return null;
 
-    const response = await fetch(
-      `${this.baseUrl}/files/${fileId}?addParents=${encodeURIComponent(newParentId)}&fields=id`,
-      {
-        method: 'PATCH',
-        headers: { 'Authorization': `Bearer ${this.accessToken}` }
-      }
+    const query = `${quote(parent.id)} in parents and name = ${quote(baseName(key))} and trashed = false`;
+    const result = await this.json<{ files: GoogleDriveFile[] }>(
+      `${this.baseUrl}/files?q=${encodeURIComponent(query)}&pageSize=1&fields=files(${FILE_FIELDS})`
     );
+    const file = result.files[0] ?? null;
+    if (file) this.cache.set(key, file);
+    return file;
+  }
 
-    if (!response.ok) throw new Error(`Failed to move file: ${response.statusText}`);
+  private async resolve(path: string): Promise<GoogleDriveFile> {
+    const file = await this.lookup(path);
+    if (!file) throw new Error(`File not found: ${path}`);
+    return file;
   }
 
-  async copyFile(fileId: string, newName: string, parentId?: string): Promise<string> {
-    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
+  /** Folder at `path`, creating it and any missing parents. */
+  private async ensureFolder(path: string): Promise<GoogleDriveFile> {
+    const existing = await this.lookup(path);
+    if (existing) {
+      if (existing.mimeType !== FOLDER_MIME_TYPE) throw new Error(`Not a directory: ${path}`);
+      return existing;
+    }
 
-    const metadata = {
-      name: newName,
-      ...(parentId && { parents: [parentId] })
-    };
+    const parent = await this.ensureFolder(parentPath(path));
+    const folder = await this.json<GoogleDriveFile>(`${this.baseUrl}/files?fields=${FILE_FIELDS}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: baseName(path), mimeType: FOLDER_MIME_TYPE, parents: [parent.id] })
+    });
+    this.cache.set(normalize(path), folder);
+    return folder;
+  }
+
+  // Moves and copies overwrite whatever is at the destination, as paths must stay unique
+  private async replaceTarget(to: string, source: GoogleDriveFile): Promise<void> {
+    const target = await this.lookup(to);
+    if (target && target.id !== source.id) {
+      await this.deleteFile(to);
+    }
+  }
+
+  private async children(folderId: string): Promise<GoogleDriveFile[]> {
+    const query = `${quote(folderId)} in parents and trashed = false`;
+    const files: GoogleDriveFile[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.json<{ files: GoogleDriveFile[]; nextPageToken?: string }>(
+        `${this.baseUrl}/files?q=${encodeURIComponent(query)}&pageSize=1000` +
+        `&fields=nextPageToken,files(${FILE_FIELDS})${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`
+      );
+      files.push(...page.files);
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return files;
+  }
 
-    const response = await fetch(
-      `${this.baseUrl}/files/${fileId}/copy?fields=id`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(metadata)
+  // Drops the cached IDs of `path` and everything below it
+  private forget(path: string): void {
+    const key = normalize(path);
+    for (const cached of [...this.cache.keys()]) {
+      if (cached === key || cached.startsWith(`${key}/`)) {
+        this.cache.delete(cached);
       }
-    );
+    }
+  }
+
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    if (!this.accessToken) throw new Error('Not authenticated with Google Drive');
 
-    if (!response.ok) throw new Error(`Failed to copy file: ${response.statusText}`);
-    const result = await response.json() as { id: string };
-    return result.id;
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Authorization': `Bearer ${this.accessToken}`, ...init.headers }
+    });
+    if (!response.ok) {
+      const message = `Google Drive error ${response.status}: ${response.statusText}`;
+      throw isTransientStatus(response.status) ? new TransientToolError(message) : new Error(message);
+    }
+    return response;
   }
 
-  hasAuth(): boolean {
-    return this.accessToken !== null;
+  private async json<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const response = await this.request(url, init);
+    return await response.json() as T;
+  }
+
+  private toStat(path: string, file: GoogleDriveFile): FileStat {
+    const isFolder = file.mimeType === FOLDER_MIME_TYPE;
+    return {
+      path,
+      name: file.name,
+      type: isFolder ? 'directory' : 'file',
+      size: isFolder ? 0 : Number(file.size ?? 0),
+      modifiedTime: file.modifiedTime
+    };
   }
 }
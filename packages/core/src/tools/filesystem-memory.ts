@@ -0,0 +1,110 @@
+/**
+ * In-memory filesystem, used in tests and as scratch space
+ */
+
+import { FileContent, FileStat, FileSystemBackend, baseName, pathSegments, toBytes } from './filesystem-backend.js';
+
+interface MemoryEntry {
+  type: 'file' | 'directory';
+  data: Uint8Array;
+  modifiedTime: string;
+}
+
+export class MemoryFileSystem implements FileSystemBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, MemoryEntry>([['/', this.directory()]]);
+
+  async readFile(path: string): Promise<string> {
+    return new TextDecoder().decode(await this.readBinary(path));
+  }
+
+  async readBinary(path: string): Promise<Uint8Array> {
+    const entry = this.entries.get(this.normalize(path));
+    if (!entry) throw new Error(`File not found: ${path}`);
+    if (entry.type === 'directory') throw new Error(`Not a file: ${path}`);
+    return entry.data.slice();
+  }
+
+  async writeFile(path: string, content: FileContent): Promise<void> {
+    const key = this.normalize(path);
+    if (this.entries.get(key)?.type === 'directory') throw new Error(`Not a file: ${path}`);
+    await this.createDirectory(this.parent(key));
+    this.entries.set(key, { type: 'file', data: (await toBytes(content)).slice(), modifiedTime: new Date().toISOString() });
+  }
+
+  async stat(path: string): Promise<FileStat> {
+    const key = this.normalize(path);
+    const entry = this.entries.get(key);
+    if (!entry) throw new Error(`File not found: ${path}`);
+    return {
+      path: key,
+      name: baseName(key),
+      type: entry.type,
+      size: entry.type === 'file' ? entry.data.byteLength : 0,
+      modifiedTime: entry.modifiedTime
+    };
+  }
+
+  async listFiles(directory: string): Promise<FileStat[]> {
+    const key = this.normalize(directory);
+    if (this.entries.get(key)?.type !== 'directory') throw new Error(`Directory not found: ${directory}`);
+
+    const children: FileStat[] = [];
+    for (const path of this.entries.keys()) {
+      if (path !== '/' && this.parent(path) === key) {
+        children.push(await this.stat(path));
+      }
+    }
+    return children.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createDirectory(path: string): Promise<void> {
+    let current = '';
+    for (const segment of pathSegments(path)) {
+      current += `/${segment}`;
+      const entry = this.entries.get(current);
+      if (entry?.type === 'file') throw new Error(`Not a directory: ${current}`);
+      if (!entry) this.entries.set(current, this.directory());
+    }
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    const key = this.normalize(path);
+    if (!this.entries.has(key)) throw new Error(`File not found: ${path}`);
+    for (const entryPath of [...this.entries.keys()]) {
+      if (entryPath === key || entryPath.startsWith(`${key}/`)) {
+        this.entries.delete(entryPath);
+      }
+    }
+  }
+
+  async moveFile(from: string, to: string): Promise<void> {
+    await this.copyFile(from, to);
+    await this.deleteFile(from);
+  }
+
+  async copyFile(from: string, to: string): Promise<void> {
+    const source = this.normalize(from);
+    const target = this.normalize(to);
+    if (!this.entries.has(source)) throw new Error(`File not found: ${from}`);
+
+    await this.createDirectory(this.parent(target));
+    for (const [entryPath, entry] of [...this.entries]) {
+      if (entryPath === source || entryPath.startsWith(`${source}/`)) {
+        this.entries.set(target + entryPath.slice(source.length), { ...entry, data: entry.data.slice() });
+      }
+    }
+  }
+
+  private normalize(path: string): string {
+    return `/${pathSegments(path).join('/')}`;
+  }
+
+  private parent(path: string): string {
+    return this.normalize(pathSegments(path).slice(0, -1).join('/'));
+  }
+
+  private directory(): MemoryEntry {
+    return { type: 'directory', data: new Uint8Array(), modifiedTime: new Date().toISOString() };
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HybridFileSystem, ReadFileTool, ListDirectoryTool, validatePath } from './filesystem.js';
+import { MemoryFileSystem } from './filesystem-memory.js';
+
+// ──────────────────────────────────────────────────────────────
+// MemoryFileSystem
+// ──────────────────────────────────────────────────────────────
+
+describe('MemoryFileSystem', () => {
+  let fs: MemoryFileSystem;
+
+  beforeEach(() => {
+    fs = new MemoryFileSystem();
+  });
+
+  it('reads back text and bytes, creating parent directories', async () => {
+    await fs.writeFile('/notes/todo.md', 'buy milk');
+    await fs.writeFile('/bin/data', new Uint8Array([1, 2, 3]));
+
+    expect(await fs.readFile('/notes/todo.md')).toBe('buy milk');
+    expect(await fs.readBinary('/bin/data')).toEqual(new Uint8Array([1, 2, 3]));
+    expect((await fs.stat('/notes')).type).toBe('directory');
+  });
+
+  it('stats files and lists a directory', async () => {
+    await fs.writeFile('/a.txt', 'abc');
+    await fs.createDirectory('/sub');
+
+    expect(await fs.stat('/a.txt')).toMatchObject({ path: '/a.txt', name: 'a.txt', type: 'file', size: 3 });
+    expect((await fs.listFiles('/')).map(e => `${e.name}:${e.type}`)).toEqual(['a.txt:file', 'sub:directory']);
+  });
+
+  it('moves and copies directories with their contents', async () => {
+    await fs.writeFile('/src/a.txt', 'a');
+    await fs.copyFile('/src', '/copy');
+    await fs.moveFile('/src', '/moved');
+
+    expect(await fs.readFile('/copy/a.txt')).toBe('a');
+    expect(await fs.readFile('/moved/a.txt')).toBe('a');
+    await expect(fs.stat('/src')).rejects.toThrow('File not found');
+  });
+
+  it('rejects reads of missing files and directories', async () => {
+    await fs.createDirectory('/dir');
+    await expect(fs.readFile('/missing.txt')).rejects.toThrow('File not found');
+    await expect(fs.readFile('/dir')).rejects.toThrow('Not a file');
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// HybridFileSystem mount table
+// ──────────────────────────────────────────────────────────────
+
+describe('HybridFileSystem', () => {
+  let root: MemoryFileSystem;
+  let drive: MemoryFileSystem;
+  let fs: HybridFileSystem;
+
+  beforeEach(() => {
+    root = new MemoryFileSystem();
+    drive = new MemoryFileSystem();
+    fs = new HybridFileSystem({ '/': root, '/drive': drive });
+  });
+
+  it('routes each path to the longest matching mount', async () => {
+    await fs.writeFile('/tmp/scratch.txt', 'root');
+    await fs.writeFile('/drive/report.txt', 'drive');
+
+    expect(await root.readFile('/tmp/scratch.txt')).toBe('root');
+    expect(await drive.readFile('/report.txt')).toBe('drive');
+    expect(fs.resolve('/drivers/x').mount.backend).toBe(root);
+  });
+
+  it('reports paths in the mount table namespace', async () => {
+    await drive.writeFile('/report.txt', 'drive');
+
+    expect((await fs.stat('/drive/report.txt')).path).toBe('/drive/report.txt');
+    expect((await fs.listFiles('/drive')).map(e => e.path)).toEqual(['/drive/report.txt']);
+  });
+
+  it('lists mount points as directories of their parent', async () => {
+    await fs.writeFile('/readme.txt', 'hi');
+
+    const entries = await fs.listFiles('/');
+    expect(entries).toContainEqual(expect.objectContaining({ name: 'drive', type: 'directory', path: '/drive' }));
+    expect(entries).toContainEqual(expect.objectContaining({ name: 'readme.txt', type: 'file' }));
+  });
+
+  it('copies and moves between mounts', async () => {
+    await fs.writeFile('/tmp/a.txt', 'payload');
+    await fs.copyFile('/tmp/a.txt', '/drive/copy.txt');
+    await fs.moveFile('/tmp', '/drive/archive');
+
+    expect(await drive.readFile('/copy.txt')).toBe('payload');
+    expect(await drive.readFile('/archive/a.txt')).toBe('payload');
+    await expect(root.stat('/tmp')).rejects.toThrow();
+  });
+
+  it('throws when nothing is mounted for a path', async () => {
+    const bare = new HybridFileSystem({ '/drive': drive });
+    await expect(bare.readFile('/tmp/x.txt')).rejects.toThrow('No filesystem mounted at /tmp/x.txt');
+  });
+
+  it('replaces a mount and can unmount it', async () => {
+    const other = new MemoryFileSystem();
+    fs.mount('/drive/', other);
+    expect(fs.resolve('/drive/x').mount.backend).toBe(other);
+
+    fs.unmount('/drive');
+    expect(fs.resolve('/drive/x').mount.backend).toBe(root);
+    expect(fs.describe()).toBe('/ (memory)');
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// File tools
+// ──────────────────────────────────────────────────────────────
+
+describe('file tools on a backend', () => {
+  it('read_file and list_directory work against any FileSystemBackend', async () => {
+    const fs = new MemoryFileSystem();
+    await fs.writeFile('/docs/a.md', '# A');
+
+    expect(await new ReadFileTool(fs).execute({ path: '/docs/a.md' })).toEqual({ success: true, output: '# A' });
+    expect(await new ListDirectoryTool(fs).execute({ path: '/' })).toEqual({ success: true, output: '["docs/"]' });
+  });
+
+  it('rejects traversal paths before reaching the backend', async () => {
+    expect(validatePath('/docs/../secret')).toBe(false);
+    expect(await new ReadFileTool(new MemoryFileSystem()).execute({ path: 'relative.txt' }))
+      .toEqual({ success: false, error: 'Invalid file path' });
+  });
+});
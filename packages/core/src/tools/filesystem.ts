@@ -1,22 +1,83 @@
 /**
- * Hybrid filesystem that uses OPFS for temp files and Google Drive for persistence
+ * Filesystem mount table: routes each path to the backend mounted at its
+ * longest matching prefix, e.g. OPFS at '/', the user's folder at '/local'
+ * and Google Drive at '/drive'.
  */
 
-import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
+import { Tool, ToolDefinition, ToolExecutionContext, ToolResult } from '@pixelmate/shared';
 import { OPFSFileSystem, ChromeFileSystemAccessor } from './filesystem-browser.js';
 import { GoogleDriveFileSystem } from './filesystem-google-drive.js';
+import { FileContent, FileStat, FileSystemBackend, pathSegments } from './filesystem-backend.js';
+import { fileSystemFor } from './journal.js';
+import { binaryFileResult, detectMimeType, isTextMimeType } from './binary.js';
 
-type FilesystemMode = 'opfs' | 'native' | 'google-drive';
+export const NATIVE_MOUNT = '/local';
+export const DRIVE_MOUNT = '/drive';
 
-export class HybridFileSystem {
-  private opfs = new OPFSFileSystem();
-  private chromeAccess = new ChromeFileSystemAccessor();
-  private googleDrive: GoogleDriveFileSystem | null = null;
-  private defaultMode: FilesystemMode = 'opfs';
+export interface Mount {
+  prefix: string;
+  backend: FileSystemBackend;
+}
+
+export function validatePath(path: string): boolean {
+  // Reject empty paths
+  if (!path || typeof path !== 'string') return false;
+  // Reject null bytes (used to bypass extension checks on some platforms)
+  if (path.includes('\0')) return false;
+  // Reject URL-encoded traversal sequences
+  const decoded = decodeURIComponent(path);
+  if (decoded.includes('..')) return false;
+  // Reject raw dot-dot sequences in the original string too
+  if (path.includes('..')) return false;
+  // Reject Windows-style absolute paths (e.g. C:\) that could escape OPFS sandbox
+  if (/^[a-zA-Z]:[/\\]/.test(path)) return false;
+  // Allow only absolute POSIX paths starting with /
+  if (path.startsWith('/')) return true;
+  return false;
+}
+
+function normalizePrefix(prefix: string): string {
+  return `/${pathSegments(prefix).join('/')}`;
+}
+
+export class HybridFileSystem implements FileSystemBackend {
+  readonly name = 'hybrid';
+  private mounts: Mount[] = [];
+
+  constructor(mounts: Record<string, FileSystemBackend> = {}) {
+    for (const [prefix, backend] of Object.entries(mounts)) {
+      this.mount(prefix, backend);
+    }
+  }
+
+  /** Mounts `backend` at `prefix`, replacing whatever was mounted there. */
+  mount(prefix: string, backend: FileSystemBackend): void {
+    const normalized = normalizePrefix(prefix);
+    this.mounts = this.mounts.filter(m => m.prefix !== normalized);
+    this.mounts.push({ prefix: normalized, backend });
+    // Longest prefix first, so resolve() takes the most specific mount
+    this.mounts.sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+
+  unmount(prefix: string): void {
+    const normalized = normalizePrefix(prefix);
+    this.mounts = this.mounts.filter(m => m.prefix !== normalized);
+  }
+
+  getMounts(): Mount[] {
+    return [...this.mounts].reverse();
+  }
+
+  /** One line per mount for the agent's workspace facts, e.g. '/drive (google-drive)'. */
+  describe(): string {
+    return this.getMounts().map(m => `${m.prefix} (${m.backend.name})`).join(', ');
+  }
 
   async initializeOPFS(): Promise<void> {
     try {
-      await this.opfs.initialize();
+      const opfs = new OPFSFileSystem();
+      await opfs.initialize();
+      this.mount('/', opfs);
     } catch (error) {
       console.error('OPFS initialization failed:', error);
     }
@@ -24,8 +85,9 @@ export class HybridFileSystem {
 
   async requestNativeAccess(): Promise<void> {
     try {
-      await this.chromeAccess.requestAccess();
-      this.defaultMode = 'native';
+      const chromeAccess = new ChromeFileSystemAccessor();
+      await chromeAccess.requestAccess();
+      this.mount(NATIVE_MOUNT, chromeAccess);
     } catch (error) {
       console.error('Native file system access denied:', error);
     }
@@ -33,150 +95,119 @@ export class HybridFileSystem {
 
   async initializeGoogleDrive(accessToken: string): Promise<void> {
     try {
-      this.googleDrive = new GoogleDriveFileSystem();
-      await this.googleDrive.authenticate(accessToken);
-      this.defaultMode = 'google-drive';
+      const googleDrive = new GoogleDriveFileSystem();
+      await googleDrive.authenticate(accessToken);
+      this.mount(DRIVE_MOUNT, googleDrive);
     } catch (error) {
       console.error('Google Drive authentication failed:', error);
     }
   }
 
-  async readFile(path: string, mode?: FilesystemMode): Promise<string> {
-    const targetMode = mode || this.defaultMode;
-    
-    switch (targetMode) {
-      case 'opfs':
-        return await this.opfs.readFile(path);
-      case 'native':
-        return await this.chromeAccess.readFile(path);
-      case 'google-drive':
-        if (!this.googleDrive) throw new Error('Google Drive not initialized');
-        return await this.googleDrive.readFile(path);
-      default:
-        throw new Error(`Unknown filesystem mode: ${targetMode}`);
+  /** The backend mounted for `path` and the path within that backend. */
+  resolve(path: string): { mount: Mount; path: string } {
+    const normalized = `/${pathSegments(path).join('/')}`;
+    for (const mount of this.mounts) {
+      if (mount.prefix === '/' || normalized === mount.prefix || normalized.startsWith(`${mount.prefix}/`)) {
+        return { mount, path: normalized.slice(mount.prefix === '/' ? 0 : mount.prefix.length) || '/' };
+      }
     }
+    throw new Error(`No filesystem mounted at ${path}`);
   }
 
-  async writeFile(path: string, content: string | ArrayBuffer | Blob, mode?: FilesystemMode): Promise<void> {
-    const targetMode = mode || this.defaultMode;
-    
-    switch (targetMode) {
-      case 'opfs':
-        return await this.opfs.writeFile(path, content);
-      case 'native':
-        return await this.chromeAccess.writeFile(path, content);
-      case 'google-drive':
-        if (!this.googleDrive) throw new Error('Google Drive not initialized');
-        if (content instanceof ArrayBuffer) {
-          await this.googleDrive.writeFile(path, new Blob([content]));
-          return;
-        }
-        await this.googleDrive.writeFile(path, content);
-        return;
-      default:
-        throw new Error(`Unknown filesystem mode: ${targetMode}`);
-    }
+  async readFile(path: string): Promise<string> {
+    const target = this.resolve(path);
+    return await target.mount.backend.readFile(target.path);
   }
 
-  async deleteFile(path: string, mode?: FilesystemMode): Promise<void> {
-    const targetMode = mode || this.defaultMode;
-    
-    switch (targetMode) {
-      case 'opfs':
-        return await this.opfs.deleteFile(path);
-      case 'native':
-        return await this.chromeAccess.deleteFile(path);
-      case 'google-drive':
-        if (!this.googleDrive) throw new Error('Google Drive not initialized');
-        return await this.googleDrive.deleteFile(path);
-      default:
-        throw new Error(`Unknown filesystem mode: ${targetMode}`);
-    }
+  async readBinary(path: string): Promise<Uint8Array> {
+    const target = this.resolve(path);
+    return await target.mount.backend.readBinary(target.path);
   }
 
-  async listFiles(directory?: string, mode?: FilesystemMode): Promise<string[]> {
-    const targetMode = mode || this.defaultMode;
-    const dir = directory || '/';
-    
-    switch (targetMode) {
-      case 'opfs':
-        return await this.opfs.listFiles(dir);
-      case 'native':
-        return await this.chromeAccess.listFiles(dir);
-      case 'google-drive':
-        if (!this.googleDrive) throw new Error('Google Drive not initialized');
-        const files = await this.googleDrive.listFiles(dir);
-        return files.map(f => f.name);
-      default:
-        throw new Error(`Unknown filesystem mode: ${targetMode}`);
+  async writeFile(path: string, content: FileContent): Promise<void> {
+    const target = this.resolve(path);
+    await target.mount.backend.writeFile(target.path, content);
+  }
+
+  async stat(path: string): Promise<FileStat> {
+    const target = this.resolve(path);
+    const stat = await target.mount.backend.stat(target.path);
+    return { ...stat, path: this.outerPath(target.mount, stat.path) };
+  }
+
+  async listFiles(directory: string = '/'): Promise<FileStat[]> {
+    const target = this.resolve(directory);
+    const entries = (await target.mount.backend.listFiles(target.path))
+      .map(entry => ({ ...entry, path: this.outerPath(target.mount, entry.path) }));
+
+    // Mounts directly below this directory show up as folders
+    const dir = `/${pathSegments(directory).join('/')}`;
+    for (const mount of this.mounts) {
+      const segments = pathSegments(mount.prefix);
+      const parent = `/${segments.slice(0, -1).join('/')}`;
+      if (segments.length > 0 && parent === dir && !entries.some(e => e.path === mount.prefix)) {
+        entries.push({ path: mount.prefix, name: segments[segments.length - 1], type: 'directory', size: 0 });
+      }
     }
+
+    return entries;
   }
 
-  async createDirectory(path: string, mode?: FilesystemMode): Promise<void> {
-    const targetMode = mode || this.defaultMode;
-    
-    switch (targetMode) {
-      case 'opfs':
-        return await this.opfs.createDirectory(path);
-      case 'native':
-        return await this.chromeAccess.createDirectory(path);
-      case 'google-drive':
-        if (!this.googleDrive) throw new Error('Google Drive not initialized');
-        await this.googleDrive.createDirectory(path);
-        return;
-      default:
-        throw new Error(`Unknown filesystem mode: ${targetMode}`);
+  async createDirectory(path: string): Promise<void> {
+    const target = this.resolve(path);
+    await target.mount.backend.createDirectory(target.path);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    const target = this.resolve(path);
+    await target.mount.backend.deleteFile(target.path);
+  }
+
+  async moveFile(from: string, to: string): Promise<void> {
+    const source = this.resolve(from);
+    const destination = this.resolve(to);
+    if (source.mount === destination.mount) {
+      await source.mount.backend.moveFile(source.path, destination.path);
+      return;
     }
+
+    await this.copyAcrossMounts(source, destination);
+    await source.mount.backend.deleteFile(source.path);
   }
 
-  async moveFile(from: string, to: string, mode?: FilesystemMode): Promise<void> {
-    const targetMode = mode || this.defaultMode;
-    
-    switch (targetMode) {
-      case 'opfs':
-        return await this.opfs.moveFile(from, to);
-      case 'native':
-        return await this.chromeAccess.moveFile(from, to);
-      case 'google-drive':
-        if (!this.googleDrive) throw new Error('Google Drive not initialized');
-        return await this.googleDrive.moveFile(from, to);
-      default:
-        throw new Error(`Unknown filesystem mode: ${targetMode}`);
+  async copyFile(from: string, to: string): Promise<void> {
+    const source = this.resolve(from);
+    const destination = this.resolve(to);
+    if (source.mount === destination.mount) {
+      await source.mount.backend.copyFile(source.path, destination.path);
+      return;
     }
+
+    await this.copyAcrossMounts(source, destination);
   }
 
-  async copyFile(from: string, to: string, mode?: FilesystemMode): Promise<void> {
-    const targetMode = mode || this.defaultMode;
-    
-    switch (targetMode) {
-      case 'opfs':
-        return await this.opfs.copyFile(from, to);
-      case 'native':
-        return await this.chromeAccess.copyFile(from, to);
-      case 'google-drive':
-        if (!this.googleDrive) throw new Error('Google Drive not initialized');
-        await this.googleDrive.copyFile(from, to);
-        return;
-      default:
-        throw new Error(`Unknown filesystem mode: ${targetMode}`);
+  private async copyAcrossMounts(
+    source: { mount: Mount; path: string },
+    destination: { mount: Mount; path: string }
+  ): Promise<void> {
+    const stat = await source.mount.backend.stat(source.path);
+    if (stat.type === 'file') {
+      await destination.mount.backend.writeFile(destination.path, await source.mount.backend.readBinary(source.path));
+      return;
+    }
+
+    await destination.mount.backend.createDirectory(destination.path);
+    for (const entry of await source.mount.backend.listFiles(source.path)) {
+      await this.copyAcrossMounts(
+        { mount: source.mount, path: entry.path },
+        { mount: destination.mount, path: `${destination.path.replace(/\/$/, '')}/${entry.name}` }
+      );
     }
   }
 
-  validatePath(path: string): boolean {
-    // Reject empty paths
-    if (!path || typeof path !== 'string') return false;
-    // Reject null bytes (used to bypass extension checks on some platforms)
-    if (path.includes('\0')) return false;
-    // Reject URL-encoded traversal sequences
-    const decoded = decodeURIComponent(path);
-    if (decoded.includes('..')) return false;
-    // Reject raw dot-dot sequences in the original string too
-    if (path.includes('..')) return false;
-    // Reject Windows-style absolute paths (e.g. C:\) that could escape OPFS sandbox
-    if (/^[a-zA-Z]:[/\\]/.test(path)) return false;
-    // Allow only absolute POSIX paths starting with /
-    if (path.startsWith('/')) return true;
-    return false;
+  private outerPath(mount: Mount, innerPath: string): string {
+    if (mount.prefix === '/') return innerPath;
+    return innerPath === '/' ? mount.prefix : `${mount.prefix}${innerPath}`;
   }
 }
 
@@ -184,26 +215,29 @@ export class HybridFileSystem {
 export class ReadFileTool implements Tool {
   definition: ToolDefinition = {
     name: 'read_file',
-    description: 'Read the contents of a file',
+    readOnly: true,
+    description: 'Read the contents of a file. Binary files (images, PDFs, Office files) come back as a JSON summary; images are also attached for models that can see them',
     parameters: [
-      { name: 'path', description: 'Path to the file', type: 'string', required: true },
-      { name: 'mode', description: 'Filesystem mode (opfs, native, google-drive)', type: 'string', required: false }
+      { name: 'path', description: 'Path to the file', type: 'string', required: true }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
       const path = params.path as string;
-      const mode = params.mode as unknown as FilesystemMode | undefined;
 
-      if (!this.fs.validatePath(path)) {
+      if (!validatePath(path)) {
         return { success: false, error: 'Invalid file path' };
       }
 
-      const content = await this.fs.readFile(path, mode);
-      return { success: true, output: content };
+      const bytes = await this.fs.readBinary(path);
+      const mimeType = detectMimeType(path, bytes);
+      if (!isTextMimeType(mimeType)) {
+        return binaryFileResult(path, bytes, mimeType);
+      }
+      return { success: true, output: new TextDecoder().decode(bytes) };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
@@ -216,24 +250,23 @@ export class WriteFileTool implements Tool {
     description: 'Write content to a file',
     parameters: [
       { name: 'path', description: 'Path to the file', type: 'string', required: true },
-      { name: 'content', description: 'Content to write', type: 'string', required: true },
-      { name: 'mode', description: 'Filesystem mode (opfs, native, google-drive)', type: 'string', required: false }
+      { name: 'content', description: 'Content to write', type: 'string', required: true }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const path = params.path as string;
       const content = params.content as string;
-      const mode = params.mode as unknown as FilesystemMode | undefined;
 
-      if (!this.fs.validatePath(path)) {
+      if (!validatePath(path)) {
         return { success: false, error: 'Invalid file path' };
       }
 
-      await this.fs.writeFile(path, content, mode);
+      await fs.writeFile(path, content);
       return { success: true, output: `File written to ${path}` };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -244,26 +277,26 @@ export class WriteFileTool implements Tool {
 export class ListDirectoryTool implements Tool {
   definition: ToolDefinition = {
     name: 'list_directory',
+    readOnly: true,
     description: 'List files in a directory',
     parameters: [
-      { name: 'path', description: 'Path to the directory', type: 'string', required: false },
-      { name: 'mode', description: 'Filesystem mode (opfs, native, google-drive)', type: 'string', required: false }
+      { name: 'path', description: 'Path to the directory', type: 'string', required: false }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
       const path = (params.path as string | undefined) || '/';
-      const mode = params.mode as unknown as FilesystemMode | undefined;
 
-      if (!this.fs.validatePath(path)) {
+      if (!validatePath(path)) {
         return { success: false, error: 'Invalid directory path' };
       }
 
-      const files = await this.fs.listFiles(path, mode);
-      return { success: true, output: JSON.stringify(files) };
+      const entries = await this.fs.listFiles(path);
+      const names = entries.map(entry => entry.type === 'directory' ? `${entry.name}/` : entry.name);
+      return { success: true, output: JSON.stringify(names) };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
@@ -275,23 +308,22 @@ export class CreateDirectoryTool implements Tool {
     name: 'create_directory',
     description: 'Create a new directory',
     parameters: [
-      { name: 'path', description: 'Path to the new directory', type: 'string', required: true },
-      { name: 'mode', description: 'Filesystem mode (opfs, native, google-drive)', type: 'string', required: false }
+      { name: 'path', description: 'Path to the new directory', type: 'string', required: true }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const path = params.path as string;
-      const mode = params.mode as unknown as FilesystemMode | undefined;
 
-      if (!this.fs.validatePath(path)) {
+      if (!validatePath(path)) {
         return { success: false, error: 'Invalid directory path' };
       }
 
-      await this.fs.createDirectory(path, mode);
+      await fs.createDirectory(path);
       return { success: true, output: `Directory created at ${path}` };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -304,23 +336,22 @@ export class DeleteFileTool implements Tool {
     name: 'delete_file',
     description: 'Delete a file',
     parameters: [
-      { name: 'path', description: 'Path to the file to delete', type: 'string', required: true },
-      { name: 'mode', description: 'Filesystem mode (opfs, native, google-drive)', type: 'string', required: false }
+      { name: 'path', description: 'Path to the file to delete', type: 'string', required: true }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const path = params.path as string;
-      const mode = params.mode as unknown as FilesystemMode | undefined;
 
-      if (!this.fs.validatePath(path)) {
+      if (!validatePath(path)) {
         return { success: false, error: 'Invalid file path' };
       }
 
-      await this.fs.deleteFile(path, mode);
+      await fs.deleteFile(path);
       return { success: true, output: `File deleted: ${path}` };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -334,24 +365,23 @@ export class MoveFileTool implements Tool {
     description: 'Move a file to a new location',
     parameters: [
       { name: 'from', description: 'Source path', type: 'string', required: true },
-      { name: 'to', description: 'Destination path', type: 'string', required: true },
-      { name: 'mode', description: 'Filesystem mode (opfs, native, google-drive)', type: 'string', required: false }
+      { name: 'to', description: 'Destination path', type: 'string', required: true }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const from = params.from as string;
       const to = params.to as string;
-      const mode = params.mode as unknown as FilesystemMode | undefined;
 
-      if (!this.fs.validatePath(from) || !this.fs.validatePath(to)) {
+      if (!validatePath(from) || !validatePath(to)) {
         return { success: false, error: 'Invalid file path' };
       }
 
-      await this.fs.moveFile(from, to, mode);
+      await fs.moveFile(from, to);
       return { success: true, output: `File moved from ${from} to ${to}` };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -365,24 +395,23 @@ export class CopyFileTool implements Tool {
     description: 'Copy a file to a new location',
     parameters: [
       { name: 'from', description: 'Source path', type: 'string', required: true },
-      { name: 'to', description: 'Destination path', type: 'string', required: true },
-      { name: 'mode', description: 'Filesystem mode (opfs, native, google-drive)', type: 'string', required: false }
+      { name: 'to', description: 'Destination path', type: 'string', required: true }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const from = params.from as string;
       const to = params.to as string;
-      const mode = params.mode as unknown as FilesystemMode | undefined;
 
-      if (!this.fs.validatePath(from) || !this.fs.validatePath(to)) {
+      if (!validatePath(from) || !validatePath(to)) {
         return { success: false, error: 'Invalid file path' };
       }
 
-      await this.fs.copyFile(from, to, mode);
+      await fs.copyFile(from, to);
       return { success: true, output: `File copied from ${from} to ${to}` };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FormatAsJSONTool, ParseJSONTool, ConvertBetweenFormatsTool } from './formatters.js';
+import { JournaledFileSystem } from './journal.js';
+import { MemoryFileSystem } from './filesystem-memory.js';
+
+const context = (taskId: string) => ({ signal: new AbortController().signal, taskId });
+
+// ──────────────────────────────────────────────────────────────
+// Without a file system
+// ──────────────────────────────────────────────────────────────
+
+describe('formatters without a file system', () => {
+  it('work on their parameters only', async () => {
+    const tool = new FormatAsJSONTool();
+    expect(tool.definition.readOnly).toBe(true);
+    expect(tool.definition.parameters.map(p => p.name)).not.toContain('path');
+    expect(await tool.execute({ data: { a: 1 }, path: '/a.json' })).toEqual({ success: true, output: '{\n  "a": 1\n}' });
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// With a file system
+// ──────────────────────────────────────────────────────────────
+
+describe('formatters with a file system', () => {
+  let disk: MemoryFileSystem;
+  let journal: JournaledFileSystem;
+
+  beforeEach(async () => {
+    disk = new MemoryFileSystem();
+    await disk.writeFile('/data/people.csv', 'name,age\nAda,36');
+    await disk.writeFile('/data/config.json', '{"debug":true}');
+    journal = new JournaledFileSystem(disk);
+  });
+
+  it('format_as_json saves to a path, journaled under the task', async () => {
+    const tool = new FormatAsJSONTool(journal);
+    expect(tool.definition.readOnly).toBe(false);
+
+    const result = await tool.execute({ data: [1, 2], path: '/out/list.json' }, context('t1'));
+    expect(result).toEqual({ success: true, output: 'JSON saved to /out/list.json' });
+    expect(JSON.parse(await disk.readFile('/out/list.json'))).toEqual([1, 2]);
+    expect(await journal.changes('t1')).toEqual([{ path: '/out', change: 'created' }]);
+  });
+
+  it('parse_json reads a file', async () => {
+    const result = await new ParseJSONTool(journal).execute({ path: '/data/config.json' });
+    expect(result).toEqual({ success: true, output: '{\n  "debug": true\n}' });
+    expect(await new ParseJSONTool(journal).execute({})).toMatchObject({ success: false });
+  });
+
+  it('convert_between_formats converts a file into another', async () => {
+    const result = await new ConvertBetweenFormatsTool(journal).execute(
+      { inputPath: '/data/people.csv', fromFormat: 'csv', toFormat: 'json', outputPath: '/data/people.json' },
+      context('t1')
+    );
+    expect(result).toEqual({ success: true, output: 'Converted csv to json: /data/people.json' });
+    expect(JSON.parse(await disk.readFile('/data/people.json'))).toEqual([['name', 'age'], ['Ada', '36']]);
+  });
+});
@@ -1,60 +1,111 @@
 /**
  * Formatter tools for data transformation
- * Browser-compatible implementation
+ * Browser-compatible implementation. Given a file system, they can also read
+ * their input from a file and save their output to one; those calls go
+ * through the environment's (journaled, sandboxed) backend like the file tools.
  */
 
-import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
+import { Tool, ToolDefinition, ToolExecutionContext, ToolParameter, ToolResult } from '@pixelmate/shared';
+import { FileSystemBackend } from './filesystem-backend.js';
+import { fileSystemFor } from './journal.js';
+
+// Parameters a formatter only has when it has a file system to use them with
+function fileParameters(fs: FileSystemBackend | undefined, parameters: ToolParameter[]): ToolParameter[] {
+  return fs ? parameters : [];
+}
+
+async function saveOutput(
+  fs: FileSystemBackend | undefined,
+  context: ToolExecutionContext | undefined,
+  path: unknown,
+  output: string,
+  saved: string
+): Promise<ToolResult> {
+  if (!fs || typeof path !== 'string' || path === '') {
+    return { success: true, output };
+  }
+  await fileSystemFor(fs, context).writeFile(path, output);
+  return { success: true, output: `${saved} ${path}` };
+}
+
+// The named file's content, when a path was given and there is a file system to read it from
+async function readInput(fs: FileSystemBackend | undefined, path: unknown): Promise<string | undefined> {
+  if (!fs || typeof path !== 'string' || path === '') return undefined;
+  return await fs.readFile(path);
+}
 
 export class FormatAsJSONTool implements Tool {
-  definition: ToolDefinition = {
-    name: 'format_as_json',
-    description: 'Format data as JSON',
-    parameters: [
-      { name: 'data', description: 'Data to format', type: 'object', required: true },
-      { name: 'indent', description: 'Indentation level (default: 2)', type: 'number', required: false }
-    ]
-  };
+  definition: ToolDefinition;
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  constructor(private fs?: FileSystemBackend) {
+    this.definition = {
+      name: 'format_as_json',
+      readOnly: !fs,
+      description: fs ? 'Format data as JSON and optionally save it to a file' : 'Format data as JSON',
+      parameters: [
+        { name: 'data', description: 'Data to format', type: 'object', required: true },
+        { name: 'indent', description: 'Indentation level (default: 2)', type: 'number', required: false },
+        ...fileParameters(fs, [
+          { name: 'path', description: 'Optional path to save the JSON to', type: 'string', required: false }
+        ])
+      ]
+    };
+  }
+
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const data = params.data;
-      const indent = (params.indent as number) || 2;
-      
-      const json = JSON.stringify(data, null, indent);
-      return { success: true, output: json };
+      return await saveOutput(this.fs, context, params.path, this.render(params), 'JSON saved to');
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
+
+  /** The JSON this call returns, or saves when given a path. */
+  render(params: Record<string, unknown>): string {
+    const indent = (params.indent as number) || 2;
+    return JSON.stringify(params.data, null, indent);
+  }
 }
 
 export class FormatAsMarkdownTool implements Tool {
-  definition: ToolDefinition = {
-    name: 'format_as_markdown',
-    description: 'Format data as markdown',
-    parameters: [
-      { name: 'data', description: 'Data to format', type: 'object', required: true },
-      { name: 'title', description: 'Document title', type: 'string', required: false }
-    ]
-  };
+  definition: ToolDefinition;
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  constructor(private fs?: FileSystemBackend) {
+    this.definition = {
+      name: 'format_as_markdown',
+      readOnly: !fs,
+      description: fs ? 'Format data as markdown and optionally save it to a file' : 'Format data as markdown',
+      parameters: [
+        { name: 'data', description: 'Data to format', type: 'object', required: true },
+        { name: 'title', description: 'Document title', type: 'string', required: false },
+        ...fileParameters(fs, [
+          { name: 'path', description: 'Optional path to save the markdown to', type: 'string', required: false }
+        ])
+      ]
+    };
+  }
+
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const data = params.data as Record<string, unknown>;
-      const title = params.title as string;
-      
-      let markdown = '';
-      if (title) {
-        markdown += `# ${title}\n\n`;
-      }
-      
-      markdown += this.objectToMarkdown(data);
-      return { success: true, output: markdown };
+      return await saveOutput(this.fs, context, params.path, this.render(params), 'Markdown saved to');
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
+  /** The Markdown this call returns, or saves when given a path. */
+  render(params: Record<string, unknown>): string {
+    const data = params.data as Record<string, unknown>;
+    const title = params.title as string;
+    
+    let markdown = '';
+    if (title) {
+      markdown += `# ${title}\n\n`;
+    }
+    
+    return markdown + this.objectToMarkdown(data);
+  }
+
   private objectToMarkdown(obj: unknown, depth: number = 0): string {
     if (typeof obj === 'string') {
       return obj;
@@ -79,17 +130,28 @@ export class FormatAsMarkdownTool implements Tool {
 }
 
 export class ParseJSONTool implements Tool {
-  definition: ToolDefinition = {
-    name: 'parse_json',
-    description: 'Parse JSON string to object',
-    parameters: [
-      { name: 'json', description: 'JSON string to parse', type: 'string', required: true }
-    ]
-  };
+  definition: ToolDefinition;
+
+  constructor(private fs?: FileSystemBackend) {
+    this.definition = {
+      name: 'parse_json',
+      readOnly: true,
+      description: fs ? 'Parse a JSON string, or read and parse a JSON file' : 'Parse JSON string to object',
+      parameters: [
+        { name: 'json', description: fs ? 'JSON string to parse; omit when giving path' : 'JSON string to parse', type: 'string', required: !fs },
+        ...fileParameters(fs, [
+          { name: 'path', description: 'Path of a JSON file to parse instead of json', type: 'string', required: false }
+        ])
+      ]
+    };
+  }
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
-      const json = params.json as string;
+      const json = await readInput(this.fs, params.path) ?? params.json;
+      if (typeof json !== 'string') {
+        return { success: false, error: 'Provide json or a path to a JSON file' };
+      }
       const parsed = JSON.parse(json);
       return { success: true, output: JSON.stringify(parsed, null, 2) };
     } catch (error) {
@@ -99,62 +161,73 @@ export class ParseJSONTool implements Tool {
 }
 
 export class ConvertBetweenFormatsTool implements Tool {
-  definition: ToolDefinition = {
-    name: 'convert_between_formats',
-    description: 'Convert data between different formats',
-    parameters: [
-      { name: 'data', description: 'Data to convert', type: 'string', required: true },
-      { name: 'fromFormat', description: 'Source format (json, csv, yaml)', type: 'string', required: true },
-      { name: 'toFormat', description: 'Target format (json, csv, yaml)', type: 'string', required: true }
-    ]
-  };
+  definition: ToolDefinition;
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  constructor(private fs?: FileSystemBackend) {
+    this.definition = {
+      name: 'convert_between_formats',
+      readOnly: !fs,
+      description: fs ? 'Convert data or a file between formats, optionally saving the result to a file' : 'Convert data between different formats',
+      parameters: [
+        { name: 'data', description: fs ? 'Data to convert; omit when giving inputPath' : 'Data to convert', type: 'string', required: !fs },
+        { name: 'fromFormat', description: 'Source format (json, csv, yaml)', type: 'string', required: true },
+        { name: 'toFormat', description: 'Target format (json, csv, yaml)', type: 'string', required: true },
+        ...fileParameters(fs, [
+          { name: 'inputPath', description: 'Path of a file to convert instead of data', type: 'string', required: false },
+          { name: 'outputPath', description: 'Optional path to save the converted output to', type: 'string', required: false }
+        ])
+      ]
+    };
+  }
+
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
-      const data = params.data as string;
-      const fromFormat = params.fromFormat as string;
-      const toFormat = params.toFormat as string;
-      
-      // Parse source format
-      let parsed: unknown;
-      
-      switch (fromFormat.toLowerCase()) {
-        case 'json':
-          parsed = JSON.parse(data);
-          break;
-        case 'csv':
-          parsed = this.parseCSV(data);
-          break;
-        case 'yaml':
-          parsed = this.parseYAML(data);
-          break;
-        default:
-          return { success: false, error: `Unknown source format: ${fromFormat}` };
-      }
-      
-      // Convert to target format
-      let result: string;
-      
-      switch (toFormat.toLowerCase()) {
-        case 'json':
-          result = JSON.stringify(parsed, null, 2);
-          break;
-        case 'csv':
-          result = this.toCSV(parsed);
-          break;
-        case 'yaml':
-          result = this.toYAML(parsed);
-          break;
-        default:
-          return { success: false, error: `Unknown target format: ${toFormat}` };
-      }
-      
-      return { success: true, output: result };
+      const result = await this.render(params);
+      return await saveOutput(this.fs, context, params.outputPath, result, `Converted ${params.fromFormat} to ${params.toFormat}:`);
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
+  /** The converted text this call returns, or saves when given an outputPath. */
+  async render(params: Record<string, unknown>): Promise<string> {
+    const data = await readInput(this.fs, params.inputPath) ?? params.data;
+    if (typeof data !== 'string') {
+      throw new Error('Provide data or an inputPath to convert');
+    }
+    const fromFormat = params.fromFormat as string;
+    const toFormat = params.toFormat as string;
+    
+    // Parse source format
+    let parsed: unknown;
+    
+    switch (fromFormat.toLowerCase()) {
+      case 'json':
+        parsed = JSON.parse(data);
+        break;
+      case 'csv':
+        parsed = this.parseCSV(data);
+        break;
+      case 'yaml':
+        parsed = this.parseYAML(data);
+        break;
+      default:
+        throw new Error(`Unknown source format: ${fromFormat}`);
+    }
+    
+    // Convert to target format
+    switch (toFormat.toLowerCase()) {
+      case 'json':
+        return JSON.stringify(parsed, null, 2);
+      case 'csv':
+        return this.toCSV(parsed);
+      case 'yaml':
+        return this.toYAML(parsed);
+      default:
+        throw new Error(`Unknown target format: ${toFormat}`);
+    }
+  }
+
   private parseCSV(csv: string): unknown[][] {
     const lines = csv.split('\n');
     return lines.map(line => {
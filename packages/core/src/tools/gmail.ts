@@ -3,18 +3,25 @@
  * Uses Gmail API v1. Token is provided by the service worker via getToken().
  */
 
-import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
+import { Tool, ToolDefinition, ToolResult, ToolExecutionContext } from '@pixelmate/shared';
+import { TransientToolError, isTransientStatus, toolErrorResult } from './errors.js';
 import type { GetToken } from './google-workspace.js';
 
 const GMAIL_BASE = 'https://gmail.googleapis.com/gmail/v1/users/me';
 
 class GmailClient {
-  constructor(private getToken: GetToken) {}
+  constructor(private getToken: GetToken, private signal?: AbortSignal) {}
+
+  /** Same client, with every request aborted when `signal` fires. */
+  withSignal(signal?: AbortSignal): GmailClient {
+    return new GmailClient(this.getToken, signal);
+  }
 
   async fetch(url: string, init: RequestInit = {}): Promise<Response> {
     const token = await this.getToken();
     if (!token) throw new Error('Not signed in to Google. Use "Sign in with Google" in Settings first.');
     return fetch(url, {
+      signal: this.signal,
       ...init,
       headers: {
         'Authorization': `Bearer ${token}`,
@@ -28,7 +35,8 @@ class GmailClient {
     const res = await this.fetch(url, init);
     if (!res.ok) {
       const err = await res.text().catch(() => res.statusText);
-      throw new Error(`Gmail API error ${res.status}: ${err}`);
+      const message = `Gmail API error ${res.status}: ${err}`;
+      throw isTransientStatus(res.status) ? new TransientToolError(message) : new Error(message);
     }
     return res.json() as Promise<T>;
   }
@@ -80,6 +88,8 @@ interface GmailPayload {
 export class GmailListTool implements Tool {
   definition: ToolDefinition = {
     name: 'gmail_list',
+    readOnly: true,
+    retry: { attempts: 3, backoffMs: 1_000 },
     description: 'List recent emails from Gmail inbox. Returns a summary of each message.',
     parameters: [
       { name: 'maxResults', description: 'Max number of emails to return (default: 10)', type: 'number', required: false },
@@ -90,20 +100,21 @@ export class GmailListTool implements Tool {
   private client: GmailClient;
   constructor(getToken: GetToken) { this.client = new GmailClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const client = this.client.withSignal(context?.signal);
     try {
       const maxResults = Math.min((params.maxResults as number | undefined) ?? 10, 50);
       const labelIds   = ((params.labelIds as string | undefined) ?? 'INBOX').split(',').map(s => s.trim());
 
       const listUrl = `${GMAIL_BASE}/messages?maxResults=${maxResults}&labelIds=${labelIds.join('&labelIds=')}`;
-      const list    = await this.client.json<{ messages?: Array<{ id: string }> }>(listUrl);
+      const list    = await client.json<{ messages?: Array<{ id: string }> }>(listUrl);
       const ids     = list.messages ?? [];
 
       if (ids.length === 0) return { success: true, output: 'No messages found.' };
 
       // Fetch metadata for each message in parallel
       const metas = await Promise.all(ids.map(({ id }) =>
-        this.client.json<{ id: string; snippet: string; payload: GmailPayload }>(
+        client.json<{ id: string; snippet: string; payload: GmailPayload }>(
           `${GMAIL_BASE}/messages/${id}?format=metadata&metadataHeaders=From&metadataHeaders=Subject&metadataHeaders=Date`
         )
       ));
@@ -117,7 +128,7 @@ export class GmailListTool implements Tool {
 
       return { success: true, output: lines.join('\n\n') };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -127,6 +138,8 @@ export class GmailListTool implements Tool {
 export class GmailReadTool implements Tool {
   definition: ToolDefinition = {
     name: 'gmail_read',
+    readOnly: true,
+    retry: { attempts: 3, backoffMs: 1_000 },
     description: 'Read the full content of a Gmail message by its message ID.',
     parameters: [
       { name: 'messageId', description: 'Gmail message ID (from gmail_list or gmail_search)', type: 'string', required: true },
@@ -136,10 +149,11 @@ export class GmailReadTool implements Tool {
   private client: GmailClient;
   constructor(getToken: GetToken) { this.client = new GmailClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const client = this.client.withSignal(context?.signal);
     try {
       const msgId = params.messageId as string;
-      const msg   = await this.client.json<{ id: string; payload: GmailPayload }>(
+      const msg   = await client.json<{ id: string; payload: GmailPayload }>(
         `${GMAIL_BASE}/messages/${msgId}?format=full`
       );
 
@@ -155,7 +169,7 @@ export class GmailReadTool implements Tool {
         output: `From: ${from}\nTo: ${to}\nDate: ${date}\nSubject: ${subject}\n\n${body}`,
       };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -165,6 +179,8 @@ export class GmailReadTool implements Tool {
 export class GmailSearchTool implements Tool {
   definition: ToolDefinition = {
     name: 'gmail_search',
+    readOnly: true,
+    retry: { attempts: 3, backoffMs: 1_000 },
     description: 'Search Gmail messages using Gmail search query syntax (e.g. "from:boss@co.com subject:report is:unread").',
     parameters: [
       { name: 'query',      description: 'Gmail search query',                                  type: 'string', required: true  },
@@ -175,12 +191,13 @@ export class GmailSearchTool implements Tool {
   private client: GmailClient;
   constructor(getToken: GetToken) { this.client = new GmailClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const client = this.client.withSignal(context?.signal);
     try {
       const query      = params.query as string;
       const maxResults = Math.min((params.maxResults as number | undefined) ?? 10, 50);
 
-      const list = await this.client.json<{ messages?: Array<{ id: string }> }>(
+      const list = await client.json<{ messages?: Array<{ id: string }> }>(
         `${GMAIL_BASE}/messages?q=${encodeURIComponent(query)}&maxResults=${maxResults}`
       );
       const ids = list.messages ?? [];
@@ -188,7 +205,7 @@ export class GmailSearchTool implements Tool {
       if (ids.length === 0) return { success: true, output: `No messages found for query: "${query}"` };
 
       const metas = await Promise.all(ids.map(({ id }) =>
-        this.client.json<{ id: string; snippet: string; payload: GmailPayload }>(
+        client.json<{ id: string; snippet: string; payload: GmailPayload }>(
           `${GMAIL_BASE}/messages/${id}?format=metadata&metadataHeaders=From&metadataHeaders=Subject&metadataHeaders=Date`
         )
       ));
@@ -202,7 +219,7 @@ export class GmailSearchTool implements Tool {
 
       return { success: true, output: `Found ${ids.length} message(s):\n\n${lines.join('\n\n')}` };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -224,7 +241,8 @@ export class GmailSendTool implements Tool {
   private client: GmailClient;
   constructor(getToken: GetToken) { this.client = new GmailClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const client = this.client.withSignal(context?.signal);
     try {
       const to      = params.to      as string;
       const subject = params.subject as string;
@@ -247,14 +265,14 @@ export class GmailSendTool implements Tool {
         .replace(/\//g, '_')
         .replace(/=+$/, '');
 
-      const result = await this.client.json<{ id: string; threadId: string }>(
+      const result = await client.json<{ id: string; threadId: string }>(
         `${GMAIL_BASE}/messages/send`,
         { method: 'POST', body: JSON.stringify({ raw: encoded }) }
       );
 
       return { success: true, output: `Email sent successfully. Message ID: ${result.id}` };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -274,13 +292,14 @@ export class GmailReplyTool implements Tool {
   private client: GmailClient;
   constructor(getToken: GetToken) { this.client = new GmailClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const client = this.client.withSignal(context?.signal);
     try {
       const messageId = params.messageId as string;
       const replyBody = params.body as string;
 
       // Fetch original message to get Thread-Id, subject, from
-      const original = await this.client.json<{
+      const original = await client.json<{
         threadId: string;
         payload: GmailPayload;
       }>(`${GMAIL_BASE}/messages/${messageId}?format=metadata&metadataHeaders=From&metadataHeaders=Subject&metadataHeaders=Message-ID`);
@@ -307,14 +326,14 @@ export class GmailReplyTool implements Tool {
         .replace(/\//g, '_')
         .replace(/=+$/, '');
 
-      const result = await this.client.json<{ id: string }>(
+      const result = await client.json<{ id: string }>(
         `${GMAIL_BASE}/messages/send`,
         { method: 'POST', body: JSON.stringify({ raw: encoded, threadId: original.threadId }) }
       );
 
       return { success: true, output: `Reply sent. Message ID: ${result.id}` };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -4,19 +4,26 @@
  * chrome.storage.session lookup stays in the service worker, not in core.
  */
 
-import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
+import { Tool, ToolDefinition, ToolResult, ToolExecutionContext } from '@pixelmate/shared';
+import { TransientToolError, isTransientStatus, toolErrorResult } from './errors.js';
 
 export type GetToken = () => Promise<string | null>;
 
 // ─── Shared API client ────────────────────────────────────────────────────────
 
 class GoogleApiClient {
-  constructor(private getToken: GetToken) {}
+  constructor(private getToken: GetToken, private signal?: AbortSignal) {}
+
+  /** Same client, with every request aborted when `signal` fires. */
+  withSignal(signal?: AbortSignal): GoogleApiClient {
+    return new GoogleApiClient(this.getToken, signal);
+  }
 
   async fetch(url: string, init: RequestInit = {}): Promise<Response> {
     const token = await this.getToken();
     if (!token) throw new Error('Not signed in to Google. Use "Sign in with Google" in Settings first.');
     return fetch(url, {
+      signal: this.signal,
       ...init,
       headers: {
         'Authorization': `Bearer ${token}`,
@@ -30,7 +37,8 @@ class GoogleApiClient {
     const res = await this.fetch(url, init);
     if (!res.ok) {
       const err = await res.text().catch(() => res.statusText);
-      throw new Error(`Google API error ${res.status}: ${err}`);
+      const message = `Google API error ${res.status}: ${err}`;
+      throw isTransientStatus(res.status) ? new TransientToolError(message) : new Error(message);
     }
     return res.json() as Promise<T>;
   }
@@ -54,13 +62,14 @@ export class GoogleDocsCreateTool implements Tool {
   private api: GoogleApiClient;
   constructor(getToken: GetToken) { this.api = new GoogleApiClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const api = this.api.withSignal(context?.signal);
     try {
       const title   = params.title as string;
       const content = (params.content as string | undefined) ?? '';
 
       // 1. Create the document
-      const doc = await this.api.json<{ documentId: string }>(DOCS_BASE, {
+      const doc = await api.json<{ documentId: string }>(DOCS_BASE, {
         method: 'POST',
         body: JSON.stringify({ title }),
       });
@@ -69,7 +78,7 @@ export class GoogleDocsCreateTool implements Tool {
 
       // 2. Insert content if provided
       if (content.trim()) {
-        await this.api.json(`${DOCS_BASE}/${docId}:batchUpdate`, {
+        await api.json(`${DOCS_BASE}/${docId}:batchUpdate`, {
           method: 'POST',
           body: JSON.stringify({
             requests: [{
@@ -87,7 +96,7 @@ export class GoogleDocsCreateTool implements Tool {
         output: `Created Google Doc "${title}"\nDocument ID: ${docId}\nURL: https://docs.google.com/document/d/${docId}/edit`,
       };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -96,6 +105,8 @@ export class GoogleDocsCreateTool implements Tool {
 export class GoogleDocsReadTool implements Tool {
   definition: ToolDefinition = {
     name: 'google_docs_read',
+    readOnly: true,
+    retry: { attempts: 3, backoffMs: 1_000 },
     description: 'Read the text content of a Google Doc by its ID or URL.',
     parameters: [
       { name: 'docId', description: 'Google Doc ID (the long string in the URL) or full URL', type: 'string', required: true },
@@ -105,14 +116,15 @@ export class GoogleDocsReadTool implements Tool {
   private api: GoogleApiClient;
   constructor(getToken: GetToken) { this.api = new GoogleApiClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const api = this.api.withSignal(context?.signal);
     try {
       let docId = params.docId as string;
       // Accept full URL
       const match = docId.match(/\/document\/d\/([^/]+)/);
       if (match) docId = match[1];
 
-      const doc = await this.api.json<{
+      const doc = await api.json<{
         title: string;
         body: { content: Array<{ paragraph?: { elements: Array<{ textRun?: { content: string } }> } }> };
       }>(`${DOCS_BASE}/${docId}`);
@@ -124,7 +136,7 @@ export class GoogleDocsReadTool implements Tool {
 
       return { success: true, output: `# ${doc.title}\n\n${text}` };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -143,7 +155,8 @@ export class GoogleDocsAppendTool implements Tool {
   private api: GoogleApiClient;
   constructor(getToken: GetToken) { this.api = new GoogleApiClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const api = this.api.withSignal(context?.signal);
     try {
       let docId = params.docId as string;
       const match = docId.match(/\/document\/d\/([^/]+)/);
@@ -152,11 +165,11 @@ export class GoogleDocsAppendTool implements Tool {
       const content = params.content as string;
 
       // Get current end index
-      const doc = await this.api.json<{ body: { content: Array<{ endIndex?: number }> } }>(`${DOCS_BASE}/${docId}`);
+      const doc = await api.json<{ body: { content: Array<{ endIndex?: number }> } }>(`${DOCS_BASE}/${docId}`);
       const lastContent = doc.body.content[doc.body.content.length - 1];
       const endIndex = (lastContent?.endIndex ?? 1) - 1;
 
-      await this.api.json(`${DOCS_BASE}/${docId}:batchUpdate`, {
+      await api.json(`${DOCS_BASE}/${docId}:batchUpdate`, {
         method: 'POST',
         body: JSON.stringify({
           requests: [{
@@ -170,7 +183,7 @@ export class GoogleDocsAppendTool implements Tool {
 
       return { success: true, output: `Appended content to Doc ${docId}` };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -186,7 +199,7 @@ export class GoogleSheetsCreateTool implements Tool {
     description: 'Create a new Google Sheets spreadsheet and optionally populate it with data. Returns the spreadsheet URL.',
     parameters: [
       { name: 'title',     description: 'Spreadsheet title',                                                   type: 'string', required: true  },
-      { name: 'data',      description: 'Initial 2D array of values to populate e.g. [["Name","Age"],["Alice",30]]', type: 'array', required: false },
+      { name: 'data',      description: 'Initial 2D array of values to populate e.g. [["Name","Age"],["Alice",30]]', type: 'array', required: false, items: { type: 'array' } },
       { name: 'sheetName', description: 'Sheet tab name (default: Sheet1)',                                    type: 'string', required: false },
     ],
   };
@@ -194,14 +207,15 @@ export class GoogleSheetsCreateTool implements Tool {
   private api: GoogleApiClient;
   constructor(getToken: GetToken) { this.api = new GoogleApiClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const api = this.api.withSignal(context?.signal);
     try {
       const title     = params.title as string;
       const data      = (params.data as unknown[][] | undefined) ?? [];
       const sheetName = (params.sheetName as string | undefined) ?? 'Sheet1';
 
       // 1. Create spreadsheet
-      const sheet = await this.api.json<{ spreadsheetId: string }>(SHEETS_BASE, {
+      const sheet = await api.json<{ spreadsheetId: string }>(SHEETS_BASE, {
         method: 'POST',
         body: JSON.stringify({ properties: { title }, sheets: [{ properties: { title: sheetName } }] }),
       });
@@ -210,7 +224,7 @@ export class GoogleSheetsCreateTool implements Tool {
 
       // 2. Write initial data if provided
       if (data.length > 0) {
-        await this.api.json(`${SHEETS_BASE}/${id}/values/${encodeURIComponent(sheetName)}:append?valueInputOption=USER_ENTERED`, {
+        await api.json(`${SHEETS_BASE}/${id}/values/${encodeURIComponent(sheetName)}:append?valueInputOption=USER_ENTERED`, {
           method: 'POST',
           body: JSON.stringify({ values: data }),
         });
@@ -221,7 +235,7 @@ export class GoogleSheetsCreateTool implements Tool {
         output: `Created Google Sheet "${title}"\nSpreadsheet ID: ${id}\nURL: https://docs.google.com/spreadsheets/d/${id}/edit`,
       };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -230,6 +244,8 @@ export class GoogleSheetsCreateTool implements Tool {
 export class GoogleSheetsReadTool implements Tool {
   definition: ToolDefinition = {
     name: 'google_sheets_read',
+    readOnly: true,
+    retry: { attempts: 3, backoffMs: 1_000 },
     description: 'Read cell values from a Google Sheet. Returns data as a 2D array.',
     parameters: [
       { name: 'spreadsheetId', description: 'Spreadsheet ID or URL',                       type: 'string', required: true  },
@@ -240,7 +256,8 @@ export class GoogleSheetsReadTool implements Tool {
   private api: GoogleApiClient;
   constructor(getToken: GetToken) { this.api = new GoogleApiClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const api = this.api.withSignal(context?.signal);
     try {
       let id = params.spreadsheetId as string;
       const match = id.match(/\/spreadsheets\/d\/([^/]+)/);
@@ -248,7 +265,7 @@ export class GoogleSheetsReadTool implements Tool {
 
       const range = (params.range as string | undefined) ?? 'A1:ZZ10000';
 
-      const result = await this.api.json<{ values?: unknown[][] }>(
+      const result = await api.json<{ values?: unknown[][] }>(
         `${SHEETS_BASE}/${id}/values/${encodeURIComponent(range)}`
       );
 
@@ -258,7 +275,7 @@ export class GoogleSheetsReadTool implements Tool {
       const text = values.map(row => row.join('\t')).join('\n');
       return { success: true, output: text };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -271,14 +288,15 @@ export class GoogleSheetsWriteTool implements Tool {
     parameters: [
       { name: 'spreadsheetId', description: 'Spreadsheet ID or URL',                                          type: 'string', required: true },
       { name: 'range',         description: 'A1 notation range to write to e.g. "Sheet1!A1"',                 type: 'string', required: true },
-      { name: 'data',          description: '2D array of values e.g. [["Name","Score"],["Alice",95]]',         type: 'array',  required: true },
+      { name: 'data',          description: '2D array of values e.g. [["Name","Score"],["Alice",95]]',         type: 'array',  required: true, items: { type: 'array' } },
     ],
   };
 
   private api: GoogleApiClient;
   constructor(getToken: GetToken) { this.api = new GoogleApiClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const api = this.api.withSignal(context?.signal);
     try {
       let id = params.spreadsheetId as string;
       const match = id.match(/\/spreadsheets\/d\/([^/]+)/);
@@ -287,14 +305,14 @@ export class GoogleSheetsWriteTool implements Tool {
       const range = params.range as string;
       const data  = params.data as unknown[][];
 
-      await this.api.json(
+      await api.json(
         `${SHEETS_BASE}/${id}/values/${encodeURIComponent(range)}?valueInputOption=USER_ENTERED`,
         { method: 'PUT', body: JSON.stringify({ range, values: data }) }
       );
 
       return { success: true, output: `Wrote ${data.length} row(s) to ${range} in spreadsheet ${id}` };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -310,20 +328,30 @@ export class GoogleSlidesCreateTool implements Tool {
     description: 'Create a new Google Slides presentation. Pass an array of slides each with a title and body text. Returns the presentation URL.',
     parameters: [
       { name: 'title',  description: 'Presentation title',                                                            type: 'string', required: true },
-      { name: 'slides', description: 'Array of slide objects: [{"title":"Slide 1","body":"Content here"}, ...]',       type: 'array',  required: true },
+      {
+        name: 'slides', description: 'Array of slide objects: [{"title":"Slide 1","body":"Content here"}, ...]', type: 'array', required: true, minItems: 1,
+        items: {
+          type: 'object',
+          properties: [
+            { name: 'title', description: 'Slide title', type: 'string', required: true },
+            { name: 'body',  description: 'Slide body text', type: 'string', required: false },
+          ],
+        },
+      },
     ],
   };
 
   private api: GoogleApiClient;
   constructor(getToken: GetToken) { this.api = new GoogleApiClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const api = this.api.withSignal(context?.signal);
     try {
       const title  = params.title as string;
       const slides = params.slides as Array<{ title: string; body: string }>;
 
       // 1. Create presentation
-      const pres = await this.api.json<{ presentationId: string }>(SLIDES_BASE, {
+      const pres = await api.json<{ presentationId: string }>(SLIDES_BASE, {
         method: 'POST',
         body: JSON.stringify({ title }),
       });
@@ -359,14 +387,14 @@ export class GoogleSlidesCreateTool implements Tool {
       });
 
       // Remove the blank default slide created with the presentation
-      const presInfo = await this.api.json<{ slides: Array<{ objectId: string }> }>(`${SLIDES_BASE}/${presId}`);
+      const presInfo = await api.json<{ slides: Array<{ objectId: string }> }>(`${SLIDES_BASE}/${presId}`);
       const defaultSlide = presInfo.slides?.[0];
       if (defaultSlide && !slides.find((_, i) => `slide_${i}` === defaultSlide.objectId)) {
         requests.push({ deleteObject: { objectId: defaultSlide.objectId } });
       }
 
       if (requests.length > 0) {
-        await this.api.json(`${SLIDES_BASE}/${presId}:batchUpdate`, {
+        await api.json(`${SLIDES_BASE}/${presId}:batchUpdate`, {
           method: 'POST',
           body: JSON.stringify({ requests }),
         });
@@ -377,7 +405,7 @@ export class GoogleSlidesCreateTool implements Tool {
         output: `Created Google Slides "${title}" with ${slides.length} slide(s)\nPresentation ID: ${presId}\nURL: https://docs.google.com/presentation/d/${presId}/edit`,
       };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -386,6 +414,8 @@ export class GoogleSlidesCreateTool implements Tool {
 export class GoogleSlidesReadTool implements Tool {
   definition: ToolDefinition = {
     name: 'google_slides_read',
+    readOnly: true,
+    retry: { attempts: 3, backoffMs: 1_000 },
     description: 'Read the content (slide titles and body text) of a Google Slides presentation.',
     parameters: [
       { name: 'presentationId', description: 'Presentation ID or full URL', type: 'string', required: true },
@@ -395,13 +425,14 @@ export class GoogleSlidesReadTool implements Tool {
   private api: GoogleApiClient;
   constructor(getToken: GetToken) { this.api = new GoogleApiClient(getToken); }
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const api = this.api.withSignal(context?.signal);
     try {
       let id = params.presentationId as string;
       const match = id.match(/\/presentation\/d\/([^/]+)/);
       if (match) id = match[1];
 
-      const pres = await this.api.json<{
+      const pres = await api.json<{
         title: string;
         slides: Array<{
           pageElements?: Array<{
@@ -426,7 +457,7 @@ export class GoogleSlidesReadTool implements Tool {
 
       return { success: true, output: lines.join('\n') };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return toolErrorResult(err);
     }
   }
 }
@@ -3,10 +3,35 @@ import type { Tool } from '@pixelmate/shared';
 
 export { ToolRegistry };
 export type { Tool };
+export type { ToolRegistryOptions } from './registry.js';
+export { TransientToolError, isTransientStatus, toolErrorResult } from './errors.js';
+export { createToolSchema, toJSONSchema, toolToMarkdown } from './schema.js';
+export type { JSONSchemaObject } from './schema.js';
 
-// Filesystem tools
-export { 
-  HybridFileSystem, 
+// Filesystem backends and tools
+export type { FileSystemBackend, FileStat, FileContent } from './filesystem-backend.js';
+export type { Mount } from './filesystem.js';
+export { JournaledFileSystem, MemoryJournalStore, UndoConflictError, fileSystemFor, journalWrites } from './journal.js';
+export type { FileChange, Fingerprint, JournalEntry, JournalOptions, JournalStore, Snapshot, StoredJournalEntry } from './journal.js';
+export { unifiedDiff, diffStats, applyPatch } from './diff.js';
+export type { UnifiedDiffOptions } from './diff.js';
+export { EditFileTool, ApplyPatchTool, applyEdit } from './edit.js';
+export type { TextEdit } from './edit.js';
+export { detectMimeType, isTextMimeType, bytesToBase64, base64ToBytes, summarizeBinary, binaryFileResult, isImageResult } from './binary.js';
+export type { BinarySummary } from './binary.js';
+export { exportArchive, importArchive, MAX_IMPORT_BYTES, MAX_IMPORT_ENTRIES } from './archive.js';
+export type { ImportOptions, ImportSummary } from './archive.js';
+export { GlobTool, SearchFilesTool, globToRegExp, matchesGlob } from './search.js';
+export { previewFileChange } from './preview.js';
+export type { FileChangePreview } from './preview.js';
+export { OPFSFileSystem, ChromeFileSystemAccessor } from './filesystem-browser.js';
+export { GoogleDriveFileSystem } from './filesystem-google-drive.js';
+export { MemoryFileSystem } from './filesystem-memory.js';
+export {
+  HybridFileSystem,
+  NATIVE_MOUNT,
+  DRIVE_MOUNT,
+  validatePath,
   ReadFileTool, 
   WriteFileTool, 
   ListDirectoryTool, 
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Tool } from '@pixelmate/shared';
+import { JournaledFileSystem, MemoryJournalStore, UndoConflictError, journalWrites } from './journal.js';
+import { MemoryFileSystem } from './filesystem-memory.js';
+import { WriteFileTool, DeleteFileTool } from './filesystem.js';
+
+const context = (taskId: string) => ({ signal: new AbortController().signal, taskId });
+
+// ──────────────────────────────────────────────────────────────
+// Recording and undo
+// ──────────────────────────────────────────────────────────────
+
+describe('JournaledFileSystem', () => {
+  let disk: MemoryFileSystem;
+  let journal: JournaledFileSystem;
+
+  beforeEach(async () => {
+    disk = new MemoryFileSystem();
+    await disk.writeFile('/notes/todo.md', 'buy milk');
+    await disk.writeFile('/notes/done.md', 'call mom');
+    journal = new JournaledFileSystem(disk);
+  });
+
+  it('restores overwritten, deleted and created files', async () => {
+    const fs = journal.forTask('t1');
+    await fs.writeFile('/notes/todo.md', 'nothing');
+    await fs.deleteFile('/notes/done.md');
+    await fs.writeFile('/reports/q3/summary.md', 'new');
+
+    expect(await journal.changes('t1')).toEqual([
+      { path: '/notes/todo.md', change: 'modified' },
+      { path: '/notes/done.md', change: 'deleted' },
+      { path: '/reports', change: 'created' }
+    ]);
+
+    await journal.undo('t1');
+    expect(await disk.readFile('/notes/todo.md')).toBe('buy milk');
+    expect(await disk.readFile('/notes/done.md')).toBe('call mom');
+    await expect(disk.stat('/reports')).rejects.toThrow('File not found');
+  });
+
+  it('keeps the first snapshot of a path the task touches again', async () => {
+    const fs = journal.forTask('t1');
+    await fs.writeFile('/notes/todo.md', 'first');
+    await fs.writeFile('/notes/todo.md', 'second');
+    await fs.deleteFile('/notes');
+
+    await journal.undo('t1');
+    expect(await disk.readFile('/notes/todo.md')).toBe('buy milk');
+    expect(await disk.readFile('/notes/done.md')).toBe('call mom');
+  });
+
+  it('undoes a move by putting the source back and removing the target', async () => {
+    await journal.forTask('t1').moveFile('/notes', '/archive/notes');
+    expect(await disk.readFile('/archive/notes/todo.md')).toBe('buy milk');
+
+    await journal.undo('t1');
+    expect(await disk.readFile('/notes/todo.md')).toBe('buy milk');
+    await expect(disk.stat('/archive')).rejects.toThrow('File not found');
+  });
+
+  it('keeps tasks apart and does not journal calls without a task', async () => {
+    await journal.forTask('t1').writeFile('/a.txt', 'one');
+    await journal.forTask('t2').writeFile('/b.txt', 'two');
+    await journal.writeFile('/c.txt', 'untracked');
+
+    await journal.undo('t1');
+    await expect(disk.stat('/a.txt')).rejects.toThrow();
+    expect(await disk.readFile('/b.txt')).toBe('two');
+    expect(await disk.readFile('/c.txt')).toBe('untracked');
+    expect(await journal.hasChanges('t1')).toBe(false);
+    expect(await journal.hasChanges('t2')).toBe(true);
+  });
+
+  it('drops what a failed operation recorded', async () => {
+    await expect(journal.forTask('t1').deleteFile('/missing.txt')).rejects.toThrow();
+    expect(await journal.changes('t1')).toEqual([]);
+  });
+
+  it('forgets the oldest task past maxTasks', async () => {
+    journal = new JournaledFileSystem(disk, { maxTasks: 2 });
+    for (const taskId of ['t1', 't2', 't3']) {
+      await journal.forTask(taskId).writeFile(`/${taskId}.txt`, taskId);
+    }
+
+    expect(await journal.hasChanges('t1')).toBe(false);
+    await expect(journal.undo('t1')).rejects.toThrow('No file changes recorded for task t1');
+    expect(await journal.hasChanges('t3')).toBe(true);
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Persistence and size limits
+// ──────────────────────────────────────────────────────────────
+
+describe('JournaledFileSystem conflicts', () => {
+  let disk: MemoryFileSystem;
+  let journal: JournaledFileSystem;
+
+  beforeEach(async () => {
+    disk = new MemoryFileSystem();
+    await disk.writeFile('/notes/todo.md', 'buy milk');
+    journal = new JournaledFileSystem(disk);
+  });
+
+  it('refuses to undo a task whose files a later task changed, restoring nothing', async () => {
+    await journal.forTask('t1').writeFile('/notes/todo.md', 'buy oat milk');
+    await journal.forTask('t1').writeFile('/reports/q3.md', 'draft');
+    await journal.forTask('t2').writeFile('/reports/q3.md', 'final');
+
+    const undo = journal.undo('t1');
+    await expect(undo).rejects.toBeInstanceOf(UndoConflictError);
+    await expect(undo).rejects.toMatchObject({ paths: ['/reports'] });
+    expect(await disk.readFile('/notes/todo.md')).toBe('buy oat milk');
+    expect(await journal.hasChanges('t1')).toBe(true);
+  });
+
+  it('notices changes made outside any task, including inside folders the task created', async () => {
+    await journal.forTask('t1').writeFile('/reports/q3.md', 'draft');
+    await disk.writeFile('/reports/q4.md', 'mine');
+
+    await expect(journal.undo('t1')).rejects.toThrow('/reports changed after the task');
+  });
+
+  it('undoes once the later changes are reverted', async () => {
+    await journal.forTask('t1').writeFile('/notes/todo.md', 'buy oat milk');
+    await disk.writeFile('/notes/todo.md', 'buy soy milk');
+    await expect(journal.undo('t1')).rejects.toThrow(UndoConflictError);
+
+    await disk.writeFile('/notes/todo.md', 'buy oat milk');
+    await journal.undo('t1');
+    expect(await disk.readFile('/notes/todo.md')).toBe('buy milk');
+  });
+
+  it('keeps what the task left across restarts', async () => {
+    const store = new MemoryJournalStore();
+    await new JournaledFileSystem(disk, { store }).forTask('t1').deleteFile('/notes/todo.md');
+    await disk.writeFile('/notes/todo.md', 'recreated');
+
+    await expect(new JournaledFileSystem(disk, { store }).undo('t1')).rejects.toThrow(UndoConflictError);
+  });
+});
+
+describe('JournaledFileSystem storage', () => {
+  let disk: MemoryFileSystem;
+
+  beforeEach(async () => {
+    disk = new MemoryFileSystem();
+    await disk.writeFile('/notes/todo.md', 'buy milk');
+  });
+
+  it('undoes a task recorded before a restart', async () => {
+    const store = new MemoryJournalStore();
+    await new JournaledFileSystem(disk, { store }).forTask('t1').writeFile('/notes/todo.md', 'buy oat milk');
+
+    // A new instance over the same store, as after a service worker restart
+    const restarted = new JournaledFileSystem(disk, { store });
+    expect(await restarted.hasChanges('t1')).toBe(true);
+    expect(await restarted.undo('t1')).toEqual([{ path: '/notes/todo.md', change: 'modified' }]);
+    expect(await disk.readFile('/notes/todo.md')).toBe('buy milk');
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('keeps a failed operation out of the store', async () => {
+    const store = new MemoryJournalStore();
+    const journal = new JournaledFileSystem(disk, { store });
+    await expect(journal.forTask('t1').deleteFile('/missing.txt')).rejects.toThrow();
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('drops the oldest tasks past maxBytes', async () => {
+    await disk.writeFile('/a.bin', new Uint8Array(600));
+    await disk.writeFile('/b.bin', new Uint8Array(600));
+    const journal = new JournaledFileSystem(disk, { maxBytes: 1000 });
+
+    await journal.forTask('t1').writeFile('/a.bin', 'a');
+    await journal.forTask('t2').writeFile('/b.bin', 'b');
+    expect(await journal.hasChanges('t1')).toBe(false);
+    expect(await journal.hasChanges('t2')).toBe(true);
+  });
+
+  it('gives up undo for a task larger than maxBytes, without failing its writes', async () => {
+    await disk.writeFile('/big.bin', new Uint8Array(2000));
+    const journal = new JournaledFileSystem(disk, { maxBytes: 1000 });
+    const files = journal.forTask('t1');
+
+    await files.writeFile('/new.txt', 'small');
+    await files.writeFile('/big.bin', 'shrunk');
+    await files.writeFile('/later.txt', 'after');
+    expect(await disk.readFile('/big.bin')).toBe('shrunk');
+    expect(await journal.hasChanges('t1')).toBe(false);
+    expect(await journal.changes('t1')).toEqual([]);
+  });
+
+  it('remembers only the latest maxTasks tasks that outgrew maxBytes', async () => {
+    await disk.writeFile('/big.bin', new Uint8Array(2000));
+    const journal = new JournaledFileSystem(disk, { maxTasks: 2, maxBytes: 1000 });
+    for (const taskId of ['t1', 't2', 't3']) {
+      await journal.forTask(taskId).writeFile('/big.bin', new Uint8Array(2000));
+    }
+
+    await journal.forTask('t3').writeFile('/small.txt', 'still too large');
+    await journal.forTask('t1').writeFile('/small.txt', 'long forgotten');
+    expect(await journal.hasChanges('t3')).toBe(false);
+    expect(await journal.hasChanges('t1')).toBe(true);
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Tools
+// ──────────────────────────────────────────────────────────────
+
+describe('file tools on a journaled backend', () => {
+  it('journal changes under the task ID from the execution context', async () => {
+    const disk = new MemoryFileSystem();
+    await disk.writeFile('/draft.md', 'v1');
+    const journal = new JournaledFileSystem(disk);
+
+    await new WriteFileTool(journal).execute({ path: '/draft.md', content: 'v2' }, context('t1'));
+    await new DeleteFileTool(journal).execute({ path: '/draft.md' }, context('t1'));
+    expect(await journal.changes('t1')).toEqual([{ path: '/draft.md', change: 'deleted' }]);
+
+    await journal.undo('t1');
+    expect(await disk.readFile('/draft.md')).toBe('v1');
+  });
+
+  it('journalWrites records the path parameters before a tool writes on its own', async () => {
+    const disk = new MemoryFileSystem();
+    const journal = new JournaledFileSystem(disk);
+    const external: Tool = {
+      definition: { name: 'create_report', description: 'Writes a report', parameters: [] },
+      execute: async params => {
+        await disk.writeFile(`/${params.path}`, 'report');
+        return { success: true, output: 'done' };
+      }
+    };
+
+    const tool = journalWrites(external, journal, ['path']);
+    expect(tool.definition.name).toBe('create_report');
+    await tool.execute({ path: 'out/report.docx' }, context('t1'));
+    expect(await journal.changes('t1')).toEqual([{ path: '/out', change: 'created' }]);
+
+    await journal.undo('t1');
+    await expect(disk.stat('/out')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,521 @@
+/**
+ * Per-task journal of file changes. Wraps a backend so that, before a task
+ * first touches a path, the path's prior state (content, a whole directory
+ * tree, or "did not exist") is recorded. undo() puts every recorded path back
+ * the way it was, newest change first, unless something changed one of them
+ * after the task did.
+ */
+
+import { Tool, ToolExecutionContext, ToolResult } from '@pixelmate/shared';
+import { FileContent, FileStat, FileSystemBackend, pathSegments } from './filesystem-backend.js';
+
+export type Snapshot =
+  | { type: 'file'; content: Uint8Array }
+  | { type: 'directory'; children: Record<string, Snapshot> };
+
+/** What a path held, compact enough to keep for every change: files by size and SHA-256. */
+export type Fingerprint =
+  | { type: 'file'; size: number; sha256: string }
+  | { type: 'directory'; children: Record<string, Fingerprint> };
+
+export interface JournalEntry {
+  path: string;
+  // null when the path did not exist before the task touched it
+  before: Snapshot | null;
+  // The path after the task's last change to it, null once removed; absent until a change succeeds
+  after?: Fingerprint | null;
+}
+
+/** An entry as kept in a JournalStore; `seq` orders entries, and so tasks, across restarts. */
+export interface StoredJournalEntry extends JournalEntry {
+  taskId: string;
+  seq: number;
+}
+
+/**
+ * Where journal entries outlive the runtime, e.g. IndexedDB in the
+ * extension, whose service worker Chrome restarts at will.
+ */
+export interface JournalStore {
+  load(): Promise<StoredJournalEntry[]>;
+  add(entry: StoredJournalEntry): Promise<void>;
+  // Replaces the `after` of the entry with this seq
+  setAfter(seq: number, after: Fingerprint | null): Promise<void>;
+  // Removes the task's entries from `fromSeq` on, or all of them
+  remove(taskId: string, fromSeq?: number): Promise<void>;
+}
+
+export class MemoryJournalStore implements JournalStore {
+  private entries: StoredJournalEntry[] = [];
+
+  async load(): Promise<StoredJournalEntry[]> {
+    return [...this.entries];
+  }
+
+  async add(entry: StoredJournalEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async setAfter(seq: number, after: Fingerprint | null): Promise<void> {
+    const entry = this.entries.find(candidate => candidate.seq === seq);
+    if (entry) entry.after = after;
+  }
+
+  async remove(taskId: string, fromSeq = 0): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.taskId !== taskId || entry.seq < fromSeq);
+  }
+}
+
+export interface FileChange {
+  path: string;
+  change: 'created' | 'modified' | 'deleted';
+}
+
+export interface JournalOptions {
+  // Tasks whose changes are kept for undo; the oldest is dropped first (default 20)
+  maxTasks?: number;
+  // Bytes of snapshots kept across all tasks; the oldest tasks are dropped first (default 50 MB)
+  maxBytes?: number;
+  // Keeps the journal across restarts; without one it lives as long as the object
+  store?: JournalStore;
+}
+
+const DEFAULT_MAX_TASKS = 20;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+interface RecordedEntry extends JournalEntry {
+  seq: number;
+  bytes: number;
+}
+
+// Thrown while snapshotting when the task's undo data would pass maxBytes
+class JournalOverflowError extends Error {}
+
+/** Thrown by undo() when paths the task changed were changed again since; nothing is restored. */
+export class UndoConflictError extends Error {
+  constructor(readonly paths: string[]) {
+    super(`${paths.join(', ')} changed after the task; undoing it would lose those changes`);
+    this.name = 'UndoConflictError';
+  }
+}
+
+function normalize(path: string): string {
+  return `/${pathSegments(path).join('/')}`;
+}
+
+function isWithin(path: string, ancestor: string): boolean {
+  return ancestor === '/' || path === ancestor || path.startsWith(`${ancestor}/`);
+}
+
+async function sha256(content: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', content as Uint8Array<ArrayBuffer>));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function sameFingerprint(a: Fingerprint | null, b: Fingerprint | null): boolean {
+  if (!a || !b) return a === b;
+  if (a.type === 'file') return b.type === 'file' && a.size === b.size && a.sha256 === b.sha256;
+  if (b.type !== 'directory') return false;
+  const names = Object.keys(a.children);
+  return names.length === Object.keys(b.children).length &&
+    names.every(name => name in b.children && sameFingerprint(a.children[name], b.children[name]));
+}
+
+function snapshotBytes(snapshot: Snapshot | null): number {
+  if (!snapshot) return 0;
+  if (snapshot.type === 'file') return snapshot.content.byteLength;
+  return Object.values(snapshot.children).reduce((total, child) => total + snapshotBytes(child), 0);
+}
+
+/** The backend the tools should use for a call: the task's journaled view when there is one. */
+export function fileSystemFor(fs: FileSystemBackend, context?: ToolExecutionContext): FileSystemBackend {
+  return context?.taskId && fs.forTask ? fs.forTask(context.taskId) : fs;
+}
+
+export class JournaledFileSystem implements FileSystemBackend {
+  readonly name: string;
+  private journals = new Map<string, RecordedEntry[]>();
+  // Tasks whose changes outgrew maxBytes on their own, so they can't be undone; the latest maxTasks
+  private overflowed = new Set<string>();
+  private maxTasks: number;
+  private maxBytes: number;
+  private store?: JournalStore;
+  private nextSeq = 0;
+  private loaded?: Promise<void>;
+
+  constructor(private backend: FileSystemBackend, options: JournalOptions = {}) {
+    this.name = backend.name;
+    this.maxTasks = options.maxTasks ?? DEFAULT_MAX_TASKS;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.store = options.store;
+  }
+
+  // Calls without a task go straight to the backend and are not journaled
+
+  readFile(path: string): Promise<string> {
+    return this.backend.readFile(path);
+  }
+
+  readBinary(path: string): Promise<Uint8Array> {
+    return this.backend.readBinary(path);
+  }
+
+  writeFile(path: string, content: FileContent): Promise<void> {
+    return this.backend.writeFile(path, content);
+  }
+
+  stat(path: string): Promise<FileStat> {
+    return this.backend.stat(path);
+  }
+
+  listFiles(directory: string): Promise<FileStat[]> {
+    return this.backend.listFiles(directory);
+  }
+
+  createDirectory(path: string): Promise<void> {
+    return this.backend.createDirectory(path);
+  }
+
+  deleteFile(path: string): Promise<void> {
+    return this.backend.deleteFile(path);
+  }
+
+  moveFile(from: string, to: string): Promise<void> {
+    return this.backend.moveFile(from, to);
+  }
+
+  copyFile(from: string, to: string): Promise<void> {
+    return this.backend.copyFile(from, to);
+  }
+
+  /** A view of the backend whose changes are journaled under `taskId`. */
+  forTask(taskId: string): FileSystemBackend {
+    const backend = this.backend;
+    return {
+      name: backend.name,
+      readFile: path => backend.readFile(path),
+      readBinary: path => backend.readBinary(path),
+      stat: path => backend.stat(path),
+      listFiles: directory => backend.listFiles(directory),
+      writeFile: (path, content) =>
+        this.track(taskId, () => this.recordWrite(taskId, path), () => backend.writeFile(path, content), [path]),
+      createDirectory: path =>
+        this.track(taskId, () => this.recordWrite(taskId, path, false), () => backend.createDirectory(path), [path]),
+      deleteFile: path =>
+        this.track(taskId, () => this.record(taskId, path), () => backend.deleteFile(path), [path]),
+      moveFile: (from, to) =>
+        this.track(taskId, async () => {
+          await this.record(taskId, from);
+          await this.recordWrite(taskId, to);
+        }, () => backend.moveFile(from, to), [from, to]),
+      copyFile: (from, to) =>
+        this.track(taskId, () => this.recordWrite(taskId, to), () => backend.copyFile(from, to), [to])
+    };
+  }
+
+  /**
+   * Records what writing `path` would change: its current state, or the
+   * topmost missing directory on the way to it. Tools that write to the same
+   * storage by other means call this before they write.
+   */
+  async recordWrite(taskId: string, path: string, captureExisting = true): Promise<void> {
+    const segments = pathSegments(path);
+    for (let i = 1; i < segments.length; i++) {
+      const ancestor = `/${segments.slice(0, i).join('/')}`;
+      if (!(await this.exists(ancestor))) {
+        await this.record(taskId, ancestor);
+        return;
+      }
+    }
+    if (captureExisting || !(await this.exists(path))) {
+      await this.record(taskId, path);
+    }
+  }
+
+  /**
+   * Notes what `path` holds now that the task changed it, so undo() can tell
+   * whether anything changed it since. Tools that write to the same storage
+   * by other means call this after they write.
+   */
+  async recordAfter(taskId: string, path: string): Promise<void> {
+    await this.load();
+    const normalized = normalize(path);
+    for (const entry of this.journals.get(taskId) ?? []) {
+      if (isWithin(entry.path, normalized)) {
+        entry.after = await this.fingerprint(entry.path);
+      } else if (isWithin(normalized, entry.path)) {
+        entry.after = await this.refingerprint(entry, normalized);
+      } else {
+        continue;
+      }
+      await this.store?.setAfter(entry.seq, entry.after);
+    }
+  }
+
+  /** Paths the task changed, in the order it first touched them. */
+  async changes(taskId: string): Promise<FileChange[]> {
+    await this.load();
+    const changes: FileChange[] = [];
+    for (const entry of this.journals.get(taskId) ?? []) {
+      const exists = await this.exists(entry.path);
+      if (entry.before === null) {
+        // A failed write may have recorded a path it never created
+        if (exists) changes.push({ path: entry.path, change: 'created' });
+      } else {
+        changes.push({ path: entry.path, change: exists ? 'modified' : 'deleted' });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Restores every path the task touched and forgets the task. Returns what
+   * was reverted. Throws UndoConflictError, restoring nothing, when any of
+   * them changed after the task did.
+   */
+  async undo(taskId: string): Promise<FileChange[]> {
+    await this.load();
+    const entries = this.journals.get(taskId);
+    if (!entries) throw new Error(`No file changes recorded for task ${taskId}`);
+
+    const changedSince: string[] = [];
+    for (const entry of entries) {
+      // Entries recorded before `after` was kept have nothing to compare with
+      if (entry.after !== undefined && !sameFingerprint(entry.after, await this.fingerprint(entry.path))) {
+        changedSince.push(entry.path);
+      }
+    }
+    if (changedSince.length > 0) throw new UndoConflictError(changedSince);
+
+    const reverted = await this.changes(taskId);
+    for (const entry of [...entries].reverse()) {
+      if (await this.exists(entry.path)) {
+        await this.backend.deleteFile(entry.path);
+      }
+      if (entry.before) {
+        await this.restore(entry.path, entry.before);
+      }
+    }
+    await this.forget(taskId);
+    return reverted;
+  }
+
+  /** Whether the task has changes that can be undone; false once undone, dropped or too large. */
+  async hasChanges(taskId: string): Promise<boolean> {
+    await this.load();
+    return this.journals.has(taskId);
+  }
+
+  async discard(taskId: string): Promise<void> {
+    await this.load();
+    await this.forget(taskId);
+  }
+
+  // Reads back what the store kept from before a restart, once
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      const stored = await this.store?.load() ?? [];
+      for (const { taskId, seq, path, before, after } of [...stored].sort((a, b) => a.seq - b.seq)) {
+        const entries = this.journals.get(taskId) ?? [];
+        entries.push({ path, before, after, seq, bytes: snapshotBytes(before) });
+        this.journals.set(taskId, entries);
+        this.nextSeq = Math.max(this.nextSeq, seq + 1);
+      }
+    })();
+    return this.loaded;
+  }
+
+  private async forget(taskId: string): Promise<void> {
+    this.journals.delete(taskId);
+    await this.store?.remove(taskId);
+  }
+
+  // Drops the entries a failed operation recorded, so its journal only lists real changes,
+  // and notes what the `changed` paths hold after one that succeeded
+  private async track(
+    taskId: string,
+    record: () => Promise<void>,
+    operation: () => Promise<void>,
+    changed: string[]
+  ): Promise<void> {
+    await this.load();
+    const recorded = this.journals.get(taskId)?.length ?? 0;
+    await record();
+    try {
+      await operation();
+    } catch (error) {
+      const dropped = this.journals.get(taskId)?.splice(recorded) ?? [];
+      if (dropped.length > 0) await this.store?.remove(taskId, dropped[0].seq);
+      throw error;
+    }
+    for (const path of changed) {
+      await this.recordAfter(taskId, path);
+    }
+  }
+
+  // Snapshots `path` unless the task already recorded it or a directory above it
+  private async record(taskId: string, path: string): Promise<void> {
+    await this.load();
+    const normalized = normalize(path);
+    // The root can't be created or deleted, so there is nothing to restore
+    if (normalized === '/' || this.overflowed.has(taskId)) return;
+
+    const existing = this.journals.get(taskId) ?? [];
+    if (existing.some(entry => isWithin(normalized, entry.path))) return;
+
+    let before: Snapshot | null;
+    try {
+      before = await this.snapshot(normalized, { left: this.maxBytes - this.bytesOf(taskId) });
+    } catch (error) {
+      if (!(error instanceof JournalOverflowError)) throw error;
+      // Too large to keep: the task goes on, but can't be undone
+      this.markOverflowed(taskId);
+      await this.forget(taskId);
+      return;
+    }
+
+    const entry: RecordedEntry = { path: normalized, before, seq: this.nextSeq++, bytes: snapshotBytes(before) };
+    const entries = this.journalFor(taskId);
+    entries.push(entry);
+    await this.store?.add({ taskId, seq: entry.seq, path: entry.path, before: entry.before });
+    await this.evict(taskId);
+  }
+
+  private journalFor(taskId: string): RecordedEntry[] {
+    let entries = this.journals.get(taskId);
+    if (!entries) {
+      entries = [];
+      this.journals.set(taskId, entries);
+    }
+    return entries;
+  }
+
+  private bytesOf(taskId: string): number {
+    return (this.journals.get(taskId) ?? []).reduce((total, entry) => total + entry.bytes, 0);
+  }
+
+  // Remembered for as many tasks as the journal keeps, so the set doesn't grow with every large task
+  private markOverflowed(taskId: string): void {
+    this.overflowed.add(taskId);
+    for (const oldest of this.overflowed) {
+      if (this.overflowed.size <= this.maxTasks) break;
+      this.overflowed.delete(oldest);
+    }
+  }
+
+  // Drops the oldest other tasks until the journal is within maxTasks and maxBytes
+  private async evict(current: string): Promise<void> {
+    const total = () => [...this.journals.keys()].reduce((sum, taskId) => sum + this.bytesOf(taskId), 0);
+    for (const oldest of [...this.journals.keys()]) {
+      if (this.journals.size <= this.maxTasks && total() <= this.maxBytes) break;
+      if (oldest !== current) await this.forget(oldest);
+    }
+  }
+
+  // `budget.left` is the bytes the task may still snapshot
+  private async snapshot(path: string, budget: { left: number }): Promise<Snapshot | null> {
+    let stat: FileStat;
+    try {
+      stat = await this.backend.stat(path);
+    } catch {
+      return null;
+    }
+
+    if (stat.type === 'file') {
+      // Checked before reading, so a huge file is never loaded just to be thrown away
+      budget.left -= stat.size;
+      if (budget.left < 0) throw new JournalOverflowError();
+      return { type: 'file', content: await this.backend.readBinary(path) };
+    }
+    const children: Record<string, Snapshot> = {};
+    for (const entry of await this.backend.listFiles(path)) {
+      const child = await this.snapshot(`${path}/${entry.name}`, budget);
+      if (child) children[entry.name] = child;
+    }
+    return { type: 'directory', children };
+  }
+
+  private async fingerprint(path: string): Promise<Fingerprint | null> {
+    let stat: FileStat;
+    try {
+      stat = await this.backend.stat(path);
+    } catch {
+      return null;
+    }
+
+    if (stat.type === 'file') {
+      const content = await this.backend.readBinary(path);
+      return { type: 'file', size: content.byteLength, sha256: await sha256(content) };
+    }
+    const children: Record<string, Fingerprint> = {};
+    for (const entry of await this.backend.listFiles(path)) {
+      const child = await this.fingerprint(`${path}/${entry.name}`);
+      if (child) children[entry.name] = child;
+    }
+    return { type: 'directory', children };
+  }
+
+  // The entry's fingerprint with only `path`, somewhere below it, taken again
+  private async refingerprint(entry: RecordedEntry, path: string): Promise<Fingerprint | null> {
+    if (entry.after?.type !== 'directory') return this.fingerprint(entry.path);
+    const parents = pathSegments(path).slice(pathSegments(entry.path).length);
+    const name = parents.pop()!;
+    let directory = entry.after;
+    for (const parent of parents) {
+      const child = directory.children[parent];
+      if (child?.type !== 'directory') return this.fingerprint(entry.path);
+      directory = child;
+    }
+    const fingerprint = await this.fingerprint(path);
+    if (fingerprint) directory.children[name] = fingerprint;
+    else delete directory.children[name];
+    return entry.after;
+  }
+
+  private async restore(path: string, snapshot: Snapshot): Promise<void> {
+    if (snapshot.type === 'file') {
+      await this.backend.writeFile(path, snapshot.content);
+      return;
+    }
+    await this.backend.createDirectory(path);
+    for (const [name, child] of Object.entries(snapshot.children)) {
+      await this.restore(`${path}/${name}`, child);
+    }
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await this.backend.stat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Journals a tool that writes to the journal's storage on its own (e.g. the
+ * backend's Office tools writing with Node fs): the paths named by
+ * `pathParams` are recorded before each call that runs as part of a task.
+ */
+export function journalWrites(tool: Tool, journal: JournaledFileSystem, pathParams: string[]): Tool {
+  return {
+    definition: tool.definition,
+    async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+      const taskId = context?.taskId;
+      const paths = pathParams.map(name => params[name]).filter((path): path is string => typeof path === 'string' && path !== '');
+      if (!taskId) return tool.execute(params, context);
+
+      for (const path of paths) {
+        await journal.recordWrite(taskId, path);
+      }
+      try {
+        return await tool.execute(params, context);
+      } finally {
+        for (const path of paths) {
+          await journal.recordAfter(taskId, path);
+        }
+      }
+    }
+  };
+}
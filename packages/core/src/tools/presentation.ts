@@ -3,8 +3,9 @@
  * Browser-compatible implementation
  */
 
-import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
-import { HybridFileSystem } from './filesystem.js';
+import { Tool, ToolDefinition, ToolExecutionContext, ToolResult } from '@pixelmate/shared';
+import { FileSystemBackend } from './filesystem-backend.js';
+import { fileSystemFor } from './journal.js';
 
 // Simple PPTX-like generation
 function generatePresentation(title: string, slides: { title: string; content: string }[]): string {
@@ -39,21 +40,34 @@ export class CreatePresentationTool implements Tool {
     description: 'Create a new presentation',
     parameters: [
       { name: 'title', description: 'Presentation title', type: 'string', required: true },
-      { name: 'slides', description: 'Array of slides with title and content', type: 'array', required: true },
+      {
+        name: 'slides',
+        description: 'Array of slides with title and content',
+        type: 'array',
+        required: true,
+        items: {
+          type: 'object',
+          properties: [
+            { name: 'title', description: 'Slide title', type: 'string', required: true },
+            { name: 'content', description: 'Slide content', type: 'string', required: true }
+          ]
+        }
+      },
       { name: 'filePath', description: 'Path to save presentation', type: 'string', required: false }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const title = params.title as string;
       const slides = params.slides as { title: string; content: string }[];
       const filePath = (params.filePath as string) || `/${title}.pptx`;
 
       const content = generatePresentation(title, slides);
-      await this.fs.writeFile(filePath, content);
+      await fs.writeFile(filePath, content);
       
       return { success: true, output: `Presentation created at ${filePath}` };
     } catch (error) {
@@ -73,9 +87,10 @@ export class CreateSlidesFromOutlineTool implements Tool {
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const title = params.title as string;
       const outline = params.outline as string;
@@ -85,7 +100,7 @@ export class CreateSlidesFromOutlineTool implements Tool {
       const slides = parseOutlineToSlides(outline);
       
       const content = generatePresentation(title, slides);
-      await this.fs.writeFile(filePath, content);
+      await fs.writeFile(filePath, content);
       
       return { success: true, output: `Presentation with ${slides.length} slides created at ${filePath}` };
     } catch (error) {
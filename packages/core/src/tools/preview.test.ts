@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { unifiedDiff, diffStats } from './diff.js';
+import { previewFileChange } from './preview.js';
+import { MemoryFileSystem } from './filesystem-memory.js';
+
+// ──────────────────────────────────────────────────────────────
+// unifiedDiff
+// ──────────────────────────────────────────────────────────────
+
+describe('unifiedDiff', () => {
+  it('shows a changed line with its context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n') + '\n';
+    const after = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h'].join('\n') + '\n';
+
+    expect(unifiedDiff(before, after, { path: '/x.txt' })).toBe([
+      '--- a/x.txt',
+      '+++ b/x.txt',
+      '@@ -2,7 +2,7 @@',
+      ' b',
+      ' c',
+      ' d',
+      '-e',
+      '+E',
+      ' f',
+      ' g',
+      ' h',
+    ].join('\n'));
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 19', 'line nineteen');
+
+    const hunks = unifiedDiff(before, after, { context: 1 }).split('\n').filter(line => line.startsWith('@@'));
+    expect(hunks).toEqual(['@@ -1,3 +1,3 @@', '@@ -18,3 +18,3 @@']);
+  });
+
+  it('diffs a new file against /dev/null and returns nothing for equal texts', () => {
+    expect(unifiedDiff('', 'one\ntwo\n', { path: '/new.md' })).toBe(
+      ['--- /dev/null', '+++ b/new.md', '@@ -0,0 +1,2 @@', '+one', '+two'].join('\n')
+    );
+    expect(unifiedDiff('same\n', 'same\n')).toBe('');
+  });
+
+  it('counts added and removed lines', () => {
+    expect(diffStats('a\nb\nc\n', 'a\nc\nd\ne\n')).toEqual({ added: 2, removed: 1 });
+  });
+
+  it('diffs large files without holding a copy of every step', () => {
+    const lines = (prefix: string) => Array.from({ length: 8000 }, (_, i) => `${prefix} line ${i}`).join('\n');
+    // Counts what the search copies for backtracking
+    let copied = 0;
+    const slice = Int32Array.prototype.slice;
+    const spy = vi.spyOn(Int32Array.prototype, 'slice').mockImplementation(function (this: Int32Array, ...args) {
+      const copy = slice.apply(this, args);
+      copied += copy.length;
+      return copy;
+    });
+
+    // Past the edit distance limit, so every step is taken before falling back
+    expect(diffStats(lines('old'), lines('new'))).toEqual({ added: 8000, removed: 8000 });
+    spy.mockRestore();
+    // Copying the whole search state each step would be 32 million entries (128 MB) here
+    expect(copied).toBeLessThan(2_000_000);
+
+    const edited = lines('old').replace('old line 4000', 'changed');
+    expect(unifiedDiff(lines('old'), edited)).toContain('-old line 4000\n+changed');
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// previewFileChange
+// ──────────────────────────────────────────────────────────────
+
+describe('previewFileChange', () => {
+  let fs: MemoryFileSystem;
+
+  beforeEach(async () => {
+    fs = new MemoryFileSystem();
+    await fs.writeFile('/notes.md', 'one\ntwo\n');
+    await fs.writeFile('/archive/old.md', 'old');
+  });
+
+  it('diffs a write against the current file', async () => {
+    const preview = await previewFileChange(fs, 'write_file', { path: '/notes.md', content: 'one\n2\n' });
+    expect(preview).toMatchObject({ kind: 'modify', path: '/notes.md', summary: '+1 −1 lines', editableParameter: 'content' });
+    expect(preview?.diff).toContain('-two\n+2');
+  });
+
+  it('marks a write to a missing path as a new file', async () => {
+    const preview = await previewFileChange(fs, 'write_file', { path: '/todo.md', content: 'a\nb' });
+    expect(preview).toMatchObject({ kind: 'create', summary: 'New file, 2 lines' });
+    expect(preview?.diff).toContain('--- /dev/null');
+  });
+
+  it('summarises deletes, moves and copies', async () => {
+    expect(await previewFileChange(fs, 'delete_file', { path: '/notes.md' }))
+      .toMatchObject({ kind: 'delete', summary: 'Deletes 8 bytes' });
+    expect(await previewFileChange(fs, 'delete_file', { path: '/archive' }))
+      .toMatchObject({ summary: 'Deletes the folder /archive (1 entry)' });
+    expect(await previewFileChange(fs, 'move_file', { from: '/notes.md', to: '/archive/old.md' }))
+      .toMatchObject({ kind: 'move', summary: 'Moves /notes.md to /archive/old.md, replacing 3 bytes' });
+    expect(await previewFileChange(fs, 'copy_file', { from: '/notes.md', to: '/copy.md' }))
+      .toMatchObject({ kind: 'copy', summary: 'Copies /notes.md to /copy.md' });
+  });
+
+  it('diffs edits and patches, and fails when they would not apply', async () => {
+    const edit = await previewFileChange(fs, 'edit_file', { path: '/notes.md', old_text: 'two', new_text: '2' });
+    expect(edit).toMatchObject({ kind: 'modify', summary: '+1 −1 lines', editableParameter: 'new_text' });
+    expect(edit?.diff).toContain('-two\n+2');
+
+    const patch = await previewFileChange(fs, 'apply_patch', { path: '/notes.md', patch: '@@ -1 +1 @@\n-one\n+1' });
+    expect(patch?.diff).toContain('-one\n+1');
+    await expect(previewFileChange(fs, 'edit_file', { path: '/notes.md', old_text: 'three', new_text: '3' }))
+      .rejects.toThrow('old_text was not found');
+  });
+
+  it('diffs what a formatter would save', async () => {
+    const json = await previewFileChange(fs, 'format_as_json', { data: { a: 1 }, path: '/data.json' });
+    expect(json).toMatchObject({ kind: 'create', path: '/data.json', summary: 'New file, 3 lines' });
+    expect(json?.editableParameter).toBeUndefined();
+
+    const markdown = await previewFileChange(fs, 'format_as_markdown', { data: { one: 'two' }, path: '/notes.md' });
+    expect(markdown).toMatchObject({ kind: 'modify', path: '/notes.md' });
+    expect(markdown?.diff).toContain('+## one');
+
+    await fs.writeFile('/table.csv', 'a,b');
+    const converted = await previewFileChange(fs, 'convert_between_formats', {
+      inputPath: '/table.csv', fromFormat: 'csv', toFormat: 'json', outputPath: '/table.json'
+    });
+    expect(converted?.diff).toContain('+    "a",');
+  });
+
+  it('summarises where a screenshot is saved', async () => {
+    expect(await previewFileChange(fs, 'browser_screenshot', { path: '/shot.png' }))
+      .toMatchObject({ kind: 'create', path: '/shot.png', summary: 'New screenshot' });
+    expect(await previewFileChange(fs, 'browser_screenshot', { path: '/notes.md' }))
+      .toMatchObject({ kind: 'modify', summary: 'Replaces 8 bytes with a screenshot' });
+  });
+
+  it('has no preview for other tools or missing delete targets', async () => {
+    expect(await previewFileChange(fs, 'browser_click', { selector: '#go' })).toBeUndefined();
+    expect(await previewFileChange(fs, 'format_as_json', { data: { a: 1 } })).toBeUndefined();
+    expect(await previewFileChange(fs, 'browser_screenshot', {})).toBeUndefined();
+    expect(await previewFileChange(fs, 'delete_file', { path: '/missing' })).toBeUndefined();
+  });
+});
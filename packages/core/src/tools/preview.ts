@@ -0,0 +1,155 @@
+/**
+ * What a file-mutating tool call would do, computed against the current
+ * files so a confirmation can show a diff instead of raw parameters.
+ */
+
+import { FileStat, FileSystemBackend } from './filesystem-backend.js';
+import { applyPatch, diffStats, unifiedDiff } from './diff.js';
+import { applyEdit, textEditFrom } from './edit.js';
+import { ConvertBetweenFormatsTool, FormatAsJSONTool, FormatAsMarkdownTool } from './formatters.js';
+
+export interface FileChangePreview {
+  kind: 'create' | 'modify' | 'delete' | 'move' | 'copy';
+  path: string;
+  // One line for the dialog, e.g. 'New file, 12 lines' or 'Deletes 2048 bytes'
+  summary: string;
+  // Unified diff of the text change, for writes
+  diff?: string;
+  // Parameter holding the proposed content, which the user may edit before approving
+  editableParameter?: string;
+}
+
+async function statOrNull(fs: FileSystemBackend, path: string): Promise<FileStat | null> {
+  try {
+    return await fs.stat(path);
+  } catch {
+    return null;
+  }
+}
+
+async function writePreview(
+  fs: FileSystemBackend,
+  path: string,
+  content: string,
+  editableParameter?: string
+): Promise<FileChangePreview | undefined> {
+  const existing = await statOrNull(fs, path);
+  if (!existing) {
+    const { added } = diffStats('', content);
+    return {
+      kind: 'create',
+      path,
+      summary: `New file, ${plural(added, 'line')}`,
+      diff: unifiedDiff('', content, { path }),
+      editableParameter
+    };
+  }
+  if (existing.type === 'directory') return undefined;
+
+  return modifyPreview(path, await fs.readFile(path), content, editableParameter);
+}
+
+// Formatters save what they would otherwise return, but only when given a path
+async function savePreview(
+  fs: FileSystemBackend,
+  path: unknown,
+  render: () => string | Promise<string>
+): Promise<FileChangePreview | undefined> {
+  if (typeof path !== 'string' || path === '') return undefined;
+  return writePreview(fs, path, await render());
+}
+
+function modifyPreview(path: string, before: string, after: string, editableParameter?: string): FileChangePreview {
+  const { added, removed } = diffStats(before, after);
+  return {
+    kind: 'modify',
+    path,
+    summary: added + removed === 0 ? 'No changes' : `+${added} −${removed} lines`,
+    diff: unifiedDiff(before, after, { path }),
+    editableParameter
+  };
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+async function describeEntry(fs: FileSystemBackend, path: string, stat: FileStat): Promise<string> {
+  if (stat.type === 'file') return plural(stat.size, 'byte');
+  const entries = await fs.listFiles(path).catch(() => []);
+  return `the folder ${path} (${plural(entries.length, 'entry', 'entries')})`;
+}
+
+/**
+ * Preview of a file tool call, or undefined for tools that don't change files
+ * or calls whose target can't be read.
+ */
+export async function previewFileChange(
+  fs: FileSystemBackend,
+  toolName: string,
+  params: Record<string, unknown>
+): Promise<FileChangePreview | undefined> {
+  switch (toolName) {
+    case 'write_file': {
+      const content = typeof params.content === 'string' ? params.content : '';
+      return writePreview(fs, params.path as string, content, 'content');
+    }
+
+    case 'format_as_json':
+      return savePreview(fs, params.path, () => new FormatAsJSONTool(fs).render(params));
+
+    case 'format_as_markdown':
+      return savePreview(fs, params.path, () => new FormatAsMarkdownTool(fs).render(params));
+
+    case 'convert_between_formats':
+      return savePreview(fs, params.outputPath, () => new ConvertBetweenFormatsTool(fs).render(params));
+
+    // The image can't be shown before it is taken, only where it goes
+    case 'browser_screenshot': {
+      const path = params.path;
+      if (typeof path !== 'string' || path === '') return undefined;
+      const existing = await statOrNull(fs, path);
+      if (existing?.type === 'directory') return undefined;
+      return existing
+        ? { kind: 'modify', path, summary: `Replaces ${plural(existing.size, 'byte')} with a screenshot` }
+        : { kind: 'create', path, summary: 'New screenshot' };
+    }
+
+    // An edit that doesn't apply throws here, and the call fails the same way when it runs
+    case 'edit_file': {
+      const path = params.path as string;
+      const before = await fs.readFile(path);
+      return modifyPreview(path, before, applyEdit(before, textEditFrom(params)), 'new_text');
+    }
+
+    case 'apply_patch': {
+      const path = params.path as string;
+      const before = await fs.readFile(path);
+      return modifyPreview(path, before, applyPatch(before, String(params.patch ?? '')));
+    }
+
+    case 'delete_file': {
+      const path = params.path as string;
+      const existing = await statOrNull(fs, path);
+      if (!existing) return undefined;
+      return { kind: 'delete', path, summary: `Deletes ${await describeEntry(fs, path, existing)}` };
+    }
+
+    case 'move_file':
+    case 'copy_file': {
+      const from = params.from as string;
+      const to = params.to as string;
+      const target = await statOrNull(fs, to);
+      const verb = toolName === 'move_file' ? 'Moves' : 'Copies';
+      const replaces = target ? `, replacing ${await describeEntry(fs, to, target)}` : '';
+      return {
+        kind: toolName === 'move_file' ? 'move' : 'copy',
+        path: from,
+        summary: `${verb} ${from} to ${to}${replaces}`
+      };
+    }
+
+    default:
+      return undefined;
+  }
+}
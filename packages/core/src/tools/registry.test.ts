@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ToolRegistry } from './registry.js';
-import { Tool, ToolDefinition, ToolResult, ToolCall } from '@pixelmate/shared';
+import { TransientToolError } from './errors.js';
+import { Tool, ToolDefinition, ToolResult, ToolCall, ToolExecutionContext } from '@pixelmate/shared';
 
 // ──────────────────────────────────────────────────────────────
 // Helpers
@@ -147,5 +148,103 @@ describe('ToolRegistry', () => {
       await registry.execute({ name: 'spy', id: '5', parameters: { msg: 'hello' } });
       expect(received.msg).toBe('hello');
     });
+
+    it('applies parameter defaults before executing', async () => {
+      let received: Record<string, unknown> = {};
+      registry.register(makeTool('defaults', [
+        { name: 'limit', type: 'number', description: 'limit', required: false, default: 5 },
+      ], async (params) => { received = params; return { success: true }; }));
+
+      await registry.execute({ name: 'defaults', id: '6', parameters: {} });
+      expect(received).toEqual({ limit: 5 });
+    });
+  });
+
+  // ── Timeouts and retries ─────────────────────────────────
+  describe('timeouts and retries', () => {
+    function register(definition: Partial<ToolDefinition>, execute: Tool['execute']): void {
+      registry.register({ definition: { ...makeTool('flaky').definition, ...definition }, execute });
+    }
+    const call: ToolCall = { name: 'flaky', id: '6', parameters: {} };
+
+    it('reports a timeout and aborts the attempt', async () => {
+      let signal: AbortSignal | undefined;
+      register({ timeoutMs: 20 }, (_params, context?: ToolExecutionContext) => {
+        signal = context?.signal;
+        return new Promise(() => {});
+      });
+
+      const result = await registry.execute(call);
+      expect(result).toEqual({ success: false, error: 'Tool flaky timed out after 20ms', errorKind: 'timeout' });
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('leaves the run signal alone when an attempt times out', async () => {
+      let runSignal: AbortSignal | undefined;
+      register({ timeoutMs: 20 }, (_params, context?: ToolExecutionContext) => {
+        runSignal = context?.runSignal;
+        return new Promise(() => {});
+      });
+
+      const run = new AbortController();
+      await registry.execute(call, { signal: run.signal });
+      expect(runSignal).toBe(run.signal);
+      expect(runSignal?.aborted).toBe(false);
+    });
+
+    it('applies the registry default when the tool sets no timeout', async () => {
+      registry = new ToolRegistry({ defaultTimeoutMs: 20 });
+      register({}, () => new Promise(() => {}));
+      expect((await registry.execute(call)).errorKind).toBe('timeout');
+    });
+
+    it('retries transient failures with backoff', async () => {
+      let calls = 0;
+      register({ retry: { attempts: 3, backoffMs: 1 } }, async () => {
+        calls++;
+        if (calls < 3) throw new TransientToolError('Google API error 503: unavailable');
+        return { success: true, output: 'ok' };
+      });
+
+      await expect(registry.execute(call)).resolves.toEqual({ success: true, output: 'ok' });
+      expect(calls).toBe(3);
+    });
+
+    it('gives up after the configured attempts', async () => {
+      let calls = 0;
+      register({ retry: { attempts: 2, backoffMs: 1 } }, async () => {
+        calls++;
+        return { success: false, error: 'rate limited', errorKind: 'transient' };
+      });
+
+      expect((await registry.execute(call)).error).toBe('rate limited');
+      expect(calls).toBe(2);
+    });
+
+    it('does not retry timeouts or other failures', async () => {
+      let calls = 0;
+      register({ timeoutMs: 20, retry: { attempts: 3, backoffMs: 1 } }, async () => {
+        calls++;
+        if (calls === 1) throw new Error('Google API error 404: not found');
+        return new Promise<ToolResult>(() => {});
+      });
+
+      expect((await registry.execute(call)).errorKind).toBeUndefined();
+      expect((await registry.execute(call)).errorKind).toBe('timeout');
+      expect(calls).toBe(2);
+    });
+
+    it('stops retrying once the run is cancelled', async () => {
+      const controller = new AbortController();
+      let calls = 0;
+      register({ retry: { attempts: 3, backoffMs: 10_000 } }, async () => {
+        calls++;
+        setTimeout(() => controller.abort(), 5);
+        return { success: false, error: 'server error', errorKind: 'transient' };
+      });
+
+      await registry.execute(call, { signal: controller.signal });
+      expect(calls).toBe(1);
+    });
   });
 });
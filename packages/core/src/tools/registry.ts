@@ -1,10 +1,36 @@
-import { Tool, ToolDefinition, ToolResult, ToolCall } from '@pixelmate/shared';
+import { Tool, ToolDefinition, ToolResult, ToolCall, ToolExecutionContext } from '@pixelmate/shared';
 import { createToolSchema } from './schema.js';
+import { toolErrorResult } from './errors.js';
 import { z } from 'zod';
 
+const DEFAULT_TOOL_TIMEOUT_MS = 60_000;
+
+export interface ToolRegistryOptions {
+  // Time limit for one attempt of tools that don't set `timeoutMs`; 0 disables it
+  defaultTimeoutMs?: number;
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
   private schemas: Map<string, z.ZodType<Record<string, unknown>>> = new Map();
+  private defaultTimeoutMs: number;
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.defaultTimeoutMs = options.defaultTimeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+  }
 
   register(tool: Tool): void {
     if (this.tools.has(tool.definition.name)) {
@@ -36,7 +62,11 @@ export class ToolRegistry {
     return this.getAll().map(t => t.definition);
   }
 
-  validateParameters(toolName: string, params: Record<string, unknown>): { valid: boolean; error?: string } {
+  /** Checks `params` against the tool's schema; `params` in the result has defaults filled in. */
+  validateParameters(
+    toolName: string,
+    params: Record<string, unknown>
+  ): { valid: boolean; error?: string; params?: Record<string, unknown> } {
     const schema = this.schemas.get(toolName);
     if (!schema) {
       return { valid: false, error: `Tool ${toolName} not found` };
@@ -48,10 +78,10 @@ export class ToolRegistry {
       return { valid: false, error: `Invalid parameters: ${errors}` };
     }
     
-    return { valid: true };
+    return { valid: true, params: result.data };
   }
 
-  async execute(toolCall: ToolCall): Promise<ToolResult> {
+  async execute(toolCall: ToolCall, context?: ToolExecutionContext): Promise<ToolResult> {
     const validation = this.validateParameters(toolCall.name, toolCall.parameters);
     if (!validation.valid) {
       return {
@@ -68,13 +98,58 @@ export class ToolRegistry {
       };
     }
 
+    const { timeoutMs = this.defaultTimeoutMs, retry } = tool.definition;
+    const attempts = Math.max(1, retry?.attempts ?? 1);
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.attempt(tool, validation.params ?? toolCall.parameters, timeoutMs, context);
+      if (result.success || result.errorKind !== 'transient' || attempt >= attempts) {
+        return result;
+      }
+      await delay(retry!.backoffMs * 2 ** (attempt - 1), context?.signal);
+      if (context?.signal.aborted) {
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Runs the tool once. Each attempt gets its own signal, so a timed-out
+   * attempt is aborted without cancelling the whole run.
+   */
+  private async attempt(
+    tool: Tool,
+    params: Record<string, unknown>,
+    timeoutMs: number,
+    context?: ToolExecutionContext
+  ): Promise<ToolResult> {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(context?.signal.reason);
+    if (context?.signal.aborted) forwardAbort();
+    context?.signal.addEventListener('abort', forwardAbort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<ToolResult>(resolve => {
+      if (timeoutMs <= 0) return;
+      timer = setTimeout(() => {
+        controller.abort(new Error('Tool timed out'));
+        resolve({
+          success: false,
+          error: `Tool ${tool.definition.name} timed out after ${timeoutMs}ms`,
+          errorKind: 'timeout'
+        });
+      }, timeoutMs);
+    });
+
     try {
-      return await tool.execute(toolCall.parameters);
+      return await Promise.race([
+        tool.execute(params, { ...context, signal: controller.signal, runSignal: context?.runSignal ?? context?.signal }),
+        timedOut
+      ]);
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error)
-      };
+      return toolErrorResult(error);
+    } finally {
+      clearTimeout(timer);
+      context?.signal.removeEventListener('abort', forwardAbort);
     }
   }
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { createToolSchema } from './schema.js';
+import { createToolSchema, toJSONSchema, toolToMarkdown } from './schema.js';
 import { ToolParameter } from '@pixelmate/shared';
 
 describe('createToolSchema()', () => {
@@ -85,4 +85,129 @@ describe('createToolSchema()', () => {
     expect(s.safeParse({ name: 'Alice', age: 30 }).success).toBe(true);
     expect(s.safeParse({ name: 'Bob' }).success).toBe(false); // missing age
   });
+
+  it('keeps an optional enum param optional', () => {
+    const s = schema([
+      { name: 'color', type: 'string', description: 'color', required: false, enum: ['red', 'green'] },
+    ]);
+    expect(s.safeParse({}).success).toBe(true);
+    expect(s.safeParse({ color: 'blue' }).success).toBe(false);
+  });
+
+  it('fills in defaults for missing params', () => {
+    const s = schema([
+      { name: 'limit', type: 'number', description: 'limit', required: false, default: 5 },
+      { name: 'format', type: 'string', description: 'format', required: false, enum: ['csv', 'json'], default: 'json' },
+    ]);
+    expect(s.parse({})).toEqual({ limit: 5, format: 'json' });
+    expect(s.parse({ limit: 10 })).toEqual({ limit: 10, format: 'json' });
+  });
+
+  it('enforces string, number and array constraints', () => {
+    const s = schema([
+      { name: 'id', type: 'string', description: 'id', required: false, pattern: '^[a-z]+$', maxLength: 5 },
+      { name: 'count', type: 'number', description: 'count', required: false, minimum: 1, maximum: 10 },
+      { name: 'tags', type: 'array', description: 'tags', required: false, items: { type: 'string' }, minItems: 1 },
+    ]);
+    expect(s.safeParse({ id: 'abc', count: 3, tags: ['x'] }).success).toBe(true);
+    expect(s.safeParse({ id: 'ABC' }).success).toBe(false);
+    expect(s.safeParse({ id: 'abcdef' }).success).toBe(false);
+    expect(s.safeParse({ count: 11 }).success).toBe(false);
+    expect(s.safeParse({ tags: [] }).success).toBe(false);
+    expect(s.safeParse({ tags: [1] }).success).toBe(false);
+  });
+
+  it('validates nested object properties and array items', () => {
+    const s = schema([
+      {
+        name: 'slides', type: 'array', description: 'slides', required: true,
+        items: {
+          type: 'object',
+          properties: [
+            { name: 'title', type: 'string', description: 'title', required: true },
+            { name: 'layout', type: 'string', description: 'layout', required: false, default: 'plain' },
+          ],
+        },
+      },
+    ]);
+    expect(s.parse({ slides: [{ title: 'Intro' }] })).toEqual({ slides: [{ title: 'Intro', layout: 'plain' }] });
+    const result = s.safeParse({ slides: [{ title: 'Intro' }, { layout: 'plain' }] });
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.error.errors[0].path).toEqual(['slides', 1, 'title']);
+  });
+});
+
+describe('toJSONSchema()', () => {
+  it('builds an object schema with required, enum and default', () => {
+    const json = toJSONSchema([
+      { name: 'path', type: 'string', description: 'file path', required: true },
+      { name: 'format', type: 'string', description: 'format', required: false, enum: ['csv', 'json'], default: 'json' },
+    ]);
+    expect(json).toEqual({
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'file path' },
+        format: { type: 'string', description: 'format', enum: ['csv', 'json'], default: 'json' },
+      },
+      required: ['path'],
+    });
+  });
+
+  it('describes nested properties, items and constraints', () => {
+    const json = toJSONSchema([
+      {
+        name: 'rows', type: 'array', description: 'rows', required: true, maxItems: 100,
+        items: {
+          type: 'object',
+          properties: [
+            { name: 'name', type: 'string', description: 'name', required: true, minLength: 1 },
+            { name: 'score', type: 'number', description: 'score', required: false, minimum: 0 },
+          ],
+        },
+      },
+    ]);
+    expect(json.properties.rows).toEqual({
+      type: 'array',
+      description: 'rows',
+      maxItems: 100,
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'name', minLength: 1 },
+          score: { type: 'number', description: 'score', minimum: 0 },
+        },
+        required: ['name'],
+      },
+    });
+  });
+});
+
+describe('toolToMarkdown()', () => {
+  it('renders parameters with nested properties and constraints', () => {
+    const md = toolToMarkdown({
+      name: 'create_slides',
+      description: 'Create slides',
+      parameters: [
+        { name: 'theme', type: 'string', description: 'Theme', required: false, enum: ['light', 'dark'], default: 'light' },
+        {
+          name: 'slides', type: 'array', description: 'Slides', required: true, minItems: 1,
+          items: {
+            type: 'object',
+            properties: [{ name: 'title', type: 'string', description: 'Slide title', required: true }],
+          },
+        },
+      ],
+    });
+    expect(md).toBe([
+      '### create_slides',
+      '',
+      'Create slides',
+      '',
+      '**Parameters:**',
+      '- `theme` (string) (optional): Theme (one of `light`, `dark`; default `"light"`)',
+      '- `slides` (array of object) (required): Slides (items at least 1)',
+      '  - `title` (string) (required): Slide title',
+      '',
+    ].join('\n'));
+  });
 });
@@ -1,55 +1,165 @@
 import { z } from 'zod';
-import { ToolParameter } from '@pixelmate/shared';
+import { ToolParameter, ToolValueSchema } from '@pixelmate/shared';
 
+function createValueSchema(value: ToolValueSchema): z.ZodTypeAny {
+  if (value.enum && value.enum.length > 0) {
+    return z.enum(value.enum as [string, ...string[]]);
+  }
+
+  switch (value.type) {
+    case 'string': {
+      let schema = z.string();
+      if (value.minLength !== undefined) schema = schema.min(value.minLength);
+      if (value.maxLength !== undefined) schema = schema.max(value.maxLength);
+      if (value.pattern !== undefined) schema = schema.regex(new RegExp(value.pattern));
+      return schema;
+    }
+    case 'number': {
+      let schema = z.number();
+      if (value.minimum !== undefined) schema = schema.min(value.minimum);
+      if (value.maximum !== undefined) schema = schema.max(value.maximum);
+      return schema;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'object':
+      return value.properties ? createToolSchema(value.properties) : z.record(z.unknown());
+    case 'array': {
+      let schema = z.array(value.items ? createValueSchema(value.items) : z.unknown());
+      if (value.minItems !== undefined) schema = schema.min(value.minItems);
+      if (value.maxItems !== undefined) schema = schema.max(value.maxItems);
+      return schema;
+    }
+    default:
+      return z.unknown();
+  }
+}
+
+/**
+ * Validator for a tool's parameters. Parsing fills in defaults; keys the
+ * definition doesn't list are passed through untouched.
+ */
 export function createToolSchema(parameters: ToolParameter[]): z.ZodType<Record<string, unknown>> {
   const shape: Record<string, z.ZodTypeAny> = {};
-  
+
   for (const param of parameters) {
-    let schema: z.ZodTypeAny;
-    
-    switch (param.type) {
-      case 'string':
-        schema = z.string();
-        break;
-      case 'number':
-        schema = z.number();
-        break;
-      case 'boolean':
-        schema = z.boolean();
-        break;
-      case 'object':
-        schema = z.record(z.unknown());
-        break;
-      case 'array':
-        schema = z.array(z.unknown());
-        break;
-      default:
-        schema = z.unknown();
-    }
-    
-    if (!param.required) {
+    let schema = createValueSchema(param);
+
+    if (param.default !== undefined) {
+      schema = schema.default(param.default);
+    } else if (!param.required) {
       schema = schema.optional();
     }
-    
-    if (param.enum && param.enum.length > 0) {
-      schema = z.enum(param.enum as [string, ...string[]]) as z.ZodTypeAny;
-    }
-    
+
     shape[param.name] = schema;
   }
-  
-  return z.object(shape);
+
+  return z.object(shape).passthrough();
+}
+
+// A type alias (not an interface) so it satisfies the SDKs' index-signature schema types
+export type JSONSchemaObject = {
+  type: 'object';
+  properties: Record<string, Record<string, unknown>>;
+  required: string[];
+};
+
+const JSON_SCHEMA_KEYWORDS = [
+  'enum', 'default', 'pattern', 'minLength', 'maxLength', 'minimum', 'maximum', 'minItems', 'maxItems'
+] as const;
+
+function toJSONSchemaValue(value: ToolValueSchema): Record<string, unknown> {
+  const schema: Record<string, unknown> = { type: value.type };
+  if (value.description) {
+    schema.description = value.description;
+  }
+
+  for (const keyword of JSON_SCHEMA_KEYWORDS) {
+    if (value[keyword] !== undefined && !(keyword === 'enum' && value.enum?.length === 0)) {
+      schema[keyword] = value[keyword];
+    }
+  }
+
+  if (value.type === 'object' && value.properties) {
+    Object.assign(schema, toJSONSchema(value.properties));
+  }
+  if (value.type === 'array' && value.items) {
+    schema.items = toJSONSchemaValue(value.items);
+  }
+
+  return schema;
+}
+
+export function toJSONSchema(parameters: ToolParameter[]): JSONSchemaObject {
+  const properties: Record<string, Record<string, unknown>> = {};
+  const required: string[] = [];
+
+  for (const param of parameters) {
+    properties[param.name] = toJSONSchemaValue(param);
+    if (param.required) {
+      required.push(param.name);
+    }
+  }
+
+  return { type: 'object', properties, required };
+}
+
+function describeType(schema: Record<string, unknown>): string {
+  const items = schema.items as Record<string, unknown> | undefined;
+  return items ? `array of ${describeType(items)}` : String(schema.type);
+}
+
+function describeConstraints(schema: Record<string, unknown>): string[] {
+  const notes: string[] = [];
+  const range = (label: string, min: unknown, max: unknown) => {
+    if (min !== undefined && max !== undefined) notes.push(`${label} ${min}–${max}`);
+    else if (min !== undefined) notes.push(`${label} at least ${min}`);
+    else if (max !== undefined) notes.push(`${label} at most ${max}`);
+  };
+
+  if (Array.isArray(schema.enum)) {
+    notes.push(`one of ${schema.enum.map(v => `\`${v}\``).join(', ')}`);
+  }
+  if (schema.pattern !== undefined) {
+    notes.push(`matches \`${schema.pattern}\``);
+  }
+  range('length', schema.minLength, schema.maxLength);
+  range('value', schema.minimum, schema.maximum);
+  range('items', schema.minItems, schema.maxItems);
+  if (schema.default !== undefined) {
+    notes.push(`default \`${JSON.stringify(schema.default)}\``);
+  }
+  return notes;
+}
+
+function renderProperties(schema: Record<string, unknown>, indent: string): string {
+  const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+  const required = (schema.required ?? []) as string[];
+  let md = '';
+
+  for (const [name, property] of Object.entries(properties)) {
+    const flag = required.includes(name) ? '(required)' : '(optional)';
+    const notes = describeConstraints(property);
+    const description = [property.description, ...(notes.length ? [`(${notes.join('; ')})`] : [])]
+      .filter(Boolean)
+      .join(' ');
+    md += `${indent}- \`${name}\` (${describeType(property)}) ${flag}: ${description}\n`;
+
+    // Nested objects, directly or as array items, list their own properties
+    let nested = property;
+    while (nested.items) nested = nested.items as Record<string, unknown>;
+    if (nested.properties) {
+      md += renderProperties(nested, `${indent}  `);
+    }
+  }
+
+  return md;
 }
 
 export function toolToMarkdown(definition: { name: string; description: string; parameters: ToolParameter[] }): string {
   let md = `### ${definition.name}\n\n`;
   md += `${definition.description}\n\n`;
   md += `**Parameters:**\n`;
-  
-  for (const param of definition.parameters) {
-    const required = param.required ? '(required)' : '(optional)';
-    md += `- \`${param.name}\` (${param.type}) ${required}: ${param.description}\n`;
-  }
-  
+  md += renderProperties(toJSONSchema(definition.parameters), '');
   return md;
 }
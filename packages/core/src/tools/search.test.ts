@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GlobTool, SearchFilesTool, matchesGlob } from './search.js';
+import { HybridFileSystem } from './filesystem.js';
+import { MemoryFileSystem } from './filesystem-memory.js';
+
+// ──────────────────────────────────────────────────────────────
+// Glob patterns
+// ──────────────────────────────────────────────────────────────
+
+describe('matchesGlob', () => {
+  it('matches names at any depth when the pattern has no slash', () => {
+    expect(matchesGlob('notes/2024/todo.md', '*.md')).toBe(true);
+    expect(matchesGlob('notes/todo.txt', '*.{md,txt}')).toBe(true);
+    expect(matchesGlob('notes/todo.csv', 'todo.??')).toBe(false);
+  });
+
+  it('anchors patterns with a slash to the search root', () => {
+    expect(matchesGlob('reports/q3/summary.md', 'reports/**/*.md')).toBe(true);
+    expect(matchesGlob('reports/summary.md', 'reports/**/*.md')).toBe(true);
+    expect(matchesGlob('old/reports/summary.md', 'reports/*.md')).toBe(false);
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Tools
+// ──────────────────────────────────────────────────────────────
+
+describe('search tools', () => {
+  let fs: HybridFileSystem;
+
+  beforeEach(async () => {
+    const local = new MemoryFileSystem();
+    await local.writeFile('/notes/todo.md', 'buy milk\ncall the bank\npay rent\nbook flights\n');
+    await local.writeFile('/notes/archive/2023.md', 'call the plumber\n');
+    await local.writeFile('/data/sales.csv', 'region,total\nnorth,120\n');
+    await local.writeFile('/data/logo.png', new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0, 0x63, 0x61, 0x6c, 0x6c]));
+    const drive = new MemoryFileSystem();
+    await drive.writeFile('/shared/plan.md', 'Call the venue on Monday\n');
+    fs = new HybridFileSystem({ '/': local, '/drive': drive });
+  });
+
+  it('glob finds files across mounts', async () => {
+    const result = await new GlobTool(fs).execute({ pattern: '*.md' });
+    expect(JSON.parse(result.output!).sort()).toEqual(['/drive/shared/plan.md', '/notes/archive/2023.md', '/notes/todo.md']);
+
+    const scoped = await new GlobTool(fs).execute({ pattern: '*.md', path: '/notes/archive' });
+    expect(JSON.parse(scoped.output!)).toEqual(['/notes/archive/2023.md']);
+  });
+
+  it('search_files reports matching lines and skips binary files', async () => {
+    const result = await new SearchFilesTool(fs).execute({ pattern: 'call', ignore_case: true });
+    expect(result.success).toBe(true);
+    expect(result.output!.split('\n').sort()).toEqual([
+      '/drive/shared/plan.md:1: Call the venue on Monday',
+      '/notes/archive/2023.md:1: call the plumber',
+      '/notes/todo.md:2: call the bank'
+    ]);
+  });
+
+  it('search_files applies include and exclude globs', async () => {
+    const result = await new SearchFilesTool(fs).execute({ pattern: 'call', include: ['*.md'], exclude: ['archive', 'drive/**'] });
+    expect(result.output).toBe('/notes/todo.md:2: call the bank');
+  });
+
+  it('search_files shows context and stops at max_results', async () => {
+    const withContext = await new SearchFilesTool(fs).execute({ pattern: 'pay', path: '/notes', context: 1, exclude: ['archive'] });
+    expect(withContext.output).toBe([
+      '/notes/todo.md-2- call the bank',
+      '/notes/todo.md:3: pay rent',
+      '/notes/todo.md-4- book flights'
+    ].join('\n'));
+
+    const limited = await new SearchFilesTool(fs).execute({ pattern: '.', path: '/notes', max_results: 2 });
+    expect(limited.output!.split('\n')).toHaveLength(3);
+    expect(limited.output).toContain('stopped at 2 matches');
+  });
+
+  it('search_files treats literal patterns as plain text and rejects bad regexes', async () => {
+    await fs.writeFile('/prices.txt', 'total (usd): 4.50\n');
+    const literal = await new SearchFilesTool(fs).execute({ pattern: '(usd)', literal: true, include: ['*.txt'] });
+    expect(literal.output).toBe('/prices.txt:1: total (usd): 4.50');
+
+    const invalid = await new SearchFilesTool(fs).execute({ pattern: '(usd' });
+    expect(invalid).toMatchObject({ success: false, error: expect.stringContaining('Invalid regular expression') });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Finding files by name (glob) and by content (search_files) through the
+ * filesystem layer, so both work on every mount: OPFS, the user's folder,
+ * Google Drive and the backend's working directory.
+ */
+
+import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
+import { FileStat, FileSystemBackend, pathSegments } from './filesystem-backend.js';
+import { validatePath } from './filesystem.js';
+import { detectMimeType, isTextMimeType } from './binary.js';
+
+// Files past this size are skipped by search_files rather than downloaded
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+// Stops a search of '/' on a large tree from walking forever
+const MAX_FILES_WALKED = 5000;
+
+/**
+ * Regex for a glob: `*` and `?` stay within one path segment, `**` crosses
+ * segments and `{a,b}` matches either alternative.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/' also matches no directories at all
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether `relativePath` (from the search root, without a leading slash)
+ * matches `pattern`. Patterns without a '/' match the file name at any depth,
+ * so '*.md' finds every markdown file.
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const target = pattern.includes('/') ? relativePath : relativePath.split('/').pop() ?? '';
+  return globToRegExp(pattern.replace(/^\//, '')).test(target);
+}
+
+function relativeTo(root: string, path: string): string {
+  return pathSegments(path).slice(pathSegments(root).length).join('/');
+}
+
+function globList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string' && item !== '');
+  if (typeof value === 'string' && value) return value.split(',').map(item => item.trim()).filter(Boolean);
+  return [];
+}
+
+interface WalkResult {
+  files: FileStat[];
+  // The walk stopped at MAX_FILES_WALKED
+  truncated: boolean;
+}
+
+// 'archive/**' and 'node_modules' both exclude the folder itself, so it isn't walked
+function isExcluded(relativePath: string, type: FileStat['type'], exclude: string[]): boolean {
+  return exclude.some(pattern =>
+    matchesGlob(relativePath, pattern) || (type === 'directory' && matchesGlob(`${relativePath}/`, pattern)));
+}
+
+// Files under `root`, breadth first, not descending into excluded directories
+async function walkFiles(fs: FileSystemBackend, root: string, exclude: string[]): Promise<WalkResult> {
+  const files: FileStat[] = [];
+  const pending = [root];
+  while (pending.length > 0) {
+    const directory = pending.shift()!;
+    for (const entry of await fs.listFiles(directory)) {
+      if (isExcluded(relativeTo(root, entry.path), entry.type, exclude)) continue;
+      if (entry.type === 'directory') {
+        pending.push(entry.path);
+        continue;
+      }
+      if (files.length >= MAX_FILES_WALKED) return { files, truncated: true };
+      files.push(entry);
+    }
+  }
+  return { files, truncated: false };
+}
+
+export class GlobTool implements Tool {
+  definition: ToolDefinition = {
+    name: 'glob',
+    readOnly: true,
+    description: 'Find files matching a pattern (supports wildcards like *.txt, **/*.js and {a,b})',
+    parameters: [
+      { name: 'pattern', description: 'The glob pattern to match; without a "/" it matches file names at any depth', type: 'string', required: true },
+      { name: 'path', description: 'The directory to search in', type: 'string', required: false, default: '/' }
+    ]
+  };
+
+  constructor(private fs: FileSystemBackend) {}
+
+  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+    try {
+      const pattern = params.pattern as string;
+      const root = (params.path as string | undefined) || '/';
+
+      if (!validatePath(root)) {
+        return { success: false, error: 'Invalid directory path' };
+      }
+
+      const { files } = await walkFiles(this.fs, root, []);
+      const matches = files.map(file => file.path).filter(path => matchesGlob(relativeTo(root, path), pattern));
+      return { success: true, output: JSON.stringify(matches, null, 2) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+// Text of a file worth searching, or null for binary, oversized and unreadable files
+async function readSearchable(fs: FileSystemBackend, file: FileStat): Promise<string | null> {
+  if (file.size > MAX_SEARCH_FILE_BYTES) return null;
+  try {
+    const bytes = await fs.readBinary(file.path);
+    if (!isTextMimeType(detectMimeType(file.path, bytes))) return null;
+    return new TextDecoder().decode(bytes);
+  } catch {
+    // e.g. Google Docs, which have no bytes to download
+    return null;
+  }
+}
+
+export class SearchFilesTool implements Tool {
+  definition: ToolDefinition = {
+    name: 'search_files',
+    readOnly: true,
+    description:
+      'Search the contents of files for a regular expression or literal text. Returns matching lines as ' +
+      '"path:line: text", with context lines as "path-line- text". Binary files are skipped.',
+    parameters: [
+      { name: 'pattern', description: 'Regular expression (or literal text with literal=true) to find', type: 'string', required: true },
+      { name: 'path', description: 'Directory to search in', type: 'string', required: false, default: '/' },
+      { name: 'literal', description: 'Treat pattern as plain text instead of a regular expression', type: 'boolean', required: false, default: false },
+      { name: 'ignore_case', description: 'Match regardless of case', type: 'boolean', required: false, default: false },
+      { name: 'include', description: 'Only search files matching these globs, e.g. ["*.md", "reports/**"]', type: 'array', required: false, items: { type: 'string' } },
+      { name: 'exclude', description: 'Skip files and folders matching these globs, e.g. ["archive/**"]', type: 'array', required: false, items: { type: 'string' } },
+      { name: 'context', description: 'Lines to show before and after each match', type: 'number', required: false, default: 0 },
+      { name: 'max_results', description: 'Stop after this many matching lines', type: 'number', required: false, default: 100 }
+    ]
+  };
+
+  constructor(private fs: FileSystemBackend) {}
+
+  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+    try {
+      const pattern = params.pattern as string;
+      const root = (params.path as string | undefined) || '/';
+      const context = Math.max(0, Number(params.context ?? 0) || 0);
+      const maxResults = Math.max(1, Number(params.max_results ?? 100) || 100);
+
+      if (!validatePath(root)) {
+        return { success: false, error: 'Invalid directory path' };
+      }
+      if (!pattern) {
+        return { success: false, error: 'pattern is required' };
+      }
+
+      let regex: RegExp;
+      try {
+        const source = params.literal === true ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
+        regex = new RegExp(source, params.ignore_case === true ? 'i' : '');
+      } catch (error) {
+        return { success: false, error: `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}` };
+      }
+
+      const include = globList(params.include);
+      const { files, truncated } = await walkFiles(this.fs, root, globList(params.exclude));
+
+      const output: string[] = [];
+      let matches = 0;
+      let filesSearched = 0;
+      let limited = false;
+      search: for (const file of files) {
+        if (include.length > 0 && !include.some(glob => matchesGlob(relativeTo(root, file.path), glob))) continue;
+        const text = await readSearchable(this.fs, file);
+        if (text === null) continue;
+        filesSearched++;
+
+        const lines = text.split(/\r?\n/);
+        // Last line printed for this file, so overlapping context isn't repeated
+        let printed = -1;
+        for (let i = 0; i < lines.length; i++) {
+          if (!regex.test(lines[i])) continue;
+          if (matches >= maxResults) {
+            limited = true;
+            break search;
+          }
+          matches++;
+
+          const first = Math.max(printed + 1, i - context);
+          // Groups of context are separated like grep's, including across files
+          if (output.length > 0 && context > 0 && (printed === -1 || first > printed + 1)) output.push('--');
+          for (let j = first; j < i; j++) output.push(`${file.path}-${j + 1}- ${lines[j]}`);
+          output.push(`${file.path}:${i + 1}: ${lines[i]}`);
+
+          // Context after a match stops early if another match follows; it prints itself
+          let last = i;
+          for (let j = i + 1; j <= Math.min(lines.length - 1, i + context) && !regex.test(lines[j]); j++) {
+            output.push(`${file.path}-${j + 1}- ${lines[j]}`);
+            last = j;
+          }
+          printed = last;
+          if (last > i) i = last;
+        }
+      }
+
+      if (matches === 0) {
+        output.push(`No matches for ${pattern} in ${filesSearched} files under ${root}`);
+      }
+      if (limited) {
+        output.push(`(stopped at ${maxResults} matches; narrow the search or raise max_results)`);
+      }
+      if (truncated) {
+        output.push(`(only the first ${MAX_FILES_WALKED} files under ${root} were searched; narrow path or exclude folders)`);
+      }
+      return { success: true, output: output.join('\n') };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -3,8 +3,9 @@
  * Browser-compatible implementation
  */
 
-import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
-import { HybridFileSystem } from './filesystem.js';
+import { Tool, ToolDefinition, ToolExecutionContext, ToolResult } from '@pixelmate/shared';
+import { FileSystemBackend } from './filesystem-backend.js';
+import { fileSystemFor } from './journal.js';
 
 // Simple CSV/XLSX content generator
 function generateCSV(data: unknown[][]): string {
@@ -50,15 +51,16 @@ export class CreateSpreadsheetTool implements Tool {
     description: 'Create a new spreadsheet with data',
     parameters: [
       { name: 'title', description: 'Spreadsheet title', type: 'string', required: true },
-      { name: 'data', description: 'Spreadsheet data as 2D array', type: 'array', required: true },
+      { name: 'data', description: 'Spreadsheet data as 2D array', type: 'array', required: true, items: { type: 'array' } },
       { name: 'filePath', description: 'Path to save spreadsheet', type: 'string', required: false },
       { name: 'format', description: 'Output format: csv, xlsx, or google', type: 'string', required: false }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const title = params.title as string;
       const data = params.data as unknown[][];
@@ -77,7 +79,7 @@ export class CreateSpreadsheetTool implements Tool {
         content = generateCSV(data);
       }
 
-      await this.fs.writeFile(filePath, content);
+      await fs.writeFile(filePath, content);
       
       return { success: true, output: `Spreadsheet created at ${filePath}` };
     } catch (error) {
@@ -89,6 +91,7 @@ export class CreateSpreadsheetTool implements Tool {
 export class ReadSpreadsheetTool implements Tool {
   definition: ToolDefinition = {
     name: 'read_spreadsheet',
+    readOnly: true,
     description: 'Read data from a spreadsheet file',
     parameters: [
       { name: 'filePath', description: 'Path to spreadsheet file', type: 'string', required: true },
@@ -96,7 +99,7 @@ export class ReadSpreadsheetTool implements Tool {
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
@@ -139,21 +142,22 @@ export class CreateCSVTool implements Tool {
     description: 'Create a CSV file with data',
     parameters: [
       { name: 'title', description: 'File title (without extension)', type: 'string', required: true },
-      { name: 'data', description: 'Data as 2D array', type: 'array', required: true },
+      { name: 'data', description: 'Data as 2D array', type: 'array', required: true, items: { type: 'array' } },
       { name: 'filePath', description: 'Path to save CSV', type: 'string', required: false }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
+    const fs = fileSystemFor(this.fs, context);
     try {
       const title = params.title as string;
       const data = params.data as unknown[][];
       const filePath = (params.filePath as string) || `/${title}.csv`;
 
       const content = generateCSV(data);
-      await this.fs.writeFile(filePath, content);
+      await fs.writeFile(filePath, content);
       
       return { success: true, output: `CSV created at ${filePath}` };
     } catch (error) {
@@ -165,13 +169,14 @@ export class CreateCSVTool implements Tool {
 export class ReadCSVTool implements Tool {
   definition: ToolDefinition = {
     name: 'read_csv',
+    readOnly: true,
     description: 'Read data from a CSV file',
     parameters: [
       { name: 'filePath', description: 'Path to CSV file', type: 'string', required: true }
     ]
   };
 
-  constructor(private fs: HybridFileSystem) {}
+  constructor(private fs: FileSystemBackend) {}
 
   async execute(params: Record<string, unknown>): Promise<ToolResult> {
     try {
@@ -3,7 +3,7 @@
  * Browser-compatible implementation using native fetch
  */
 
-import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
+import { Tool, ToolDefinition, ToolResult, ToolExecutionContext } from '@pixelmate/shared';
 
 // Simple web search implementation using Google Custom Search or SerpAPI
 // For production, would need API key from https://serpapi.com
@@ -11,6 +11,7 @@ import { Tool, ToolDefinition, ToolResult } from '@pixelmate/shared';
 export class WebSearchTool implements Tool {
   definition: ToolDefinition = {
     name: 'web_search',
+    readOnly: true,
     description: 'Search the web for information',
     parameters: [
       { name: 'query', description: 'Search query', type: 'string', required: true },
@@ -19,7 +20,7 @@ export class WebSearchTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
       const query = params.query as string;
       const limit = (params.limit as number) || 5;
@@ -31,20 +32,20 @@ export class WebSearchTool implements Tool {
       }
 
       // Use SerpAPI for better results
-      return await this.serpApiSearch(query, limit, apiKey);
+      return await this.serpApiSearch(query, limit, apiKey, context?.signal);
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
-  private async serpApiSearch(query: string, limit: number, apiKey: string): Promise<ToolResult> {
+  private async serpApiSearch(query: string, limit: number, apiKey: string, signal?: AbortSignal): Promise<ToolResult> {
     try {
       const url = new URL('https://serpapi.com/search');
       url.searchParams.append('q', query);
       url.searchParams.append('api_key', apiKey);
       url.searchParams.append('num', String(limit));
 
-      const response = await fetch(url.toString());
+      const response = await fetch(url.toString(), { signal });
       if (!response.ok) throw new Error(`SerpAPI error: ${response.statusText}`);
 
       const data = await response.json() as Record<string, unknown>;
@@ -81,6 +82,7 @@ export class WebSearchTool implements Tool {
 export class FetchWebPageTool implements Tool {
   definition: ToolDefinition = {
     name: 'fetch_web_page',
+    readOnly: true,
     description: 'Fetch and extract content from a web page',
     parameters: [
       { name: 'url', description: 'URL of the page to fetch', type: 'string', required: true },
@@ -89,7 +91,7 @@ export class FetchWebPageTool implements Tool {
     ]
   };
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
       const url = params.url as string;
       const extractSelector = (params.extractSelector as string) || 'body';
@@ -97,6 +99,7 @@ export class FetchWebPageTool implements Tool {
 
       // Fetch the page
       const response = await fetch(url, {
+        signal: context?.signal,
         headers: {
           'User-Agent': 'PixelMate/1.0 (+http://pixelmate.dev)'
         }
@@ -141,6 +144,9 @@ ${cleaned}
 export class ResearchTopicTool implements Tool {
   definition: ToolDefinition = {
     name: 'research_topic',
+    readOnly: true,
+    // Searches, then fetches several pages one after another
+    timeoutMs: 120_000,
     description: 'Research a topic by searching and fetching relevant pages',
     parameters: [
       { name: 'topic', description: 'Topic to research', type: 'string', required: true },
@@ -152,7 +158,7 @@ export class ResearchTopicTool implements Tool {
   private searchTool = new WebSearchTool();
   private fetchTool = new FetchWebPageTool();
 
-  async execute(params: Record<string, unknown>): Promise<ToolResult> {
+  async execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
       const topic = params.topic as string;
       const numPages = (params.numPages as number) || 3;
@@ -163,7 +169,7 @@ export class ResearchTopicTool implements Tool {
         query: topic,
         limit: numPages,
         apiKey
-      });
+      }, context);
 
       if (!searchResult.success) {
         return searchResult;
@@ -184,7 +190,7 @@ export class ResearchTopicTool implements Tool {
         const fetchResult = await this.fetchTool.execute({
           url,
           textOnly: true
-        });
+        }, context);
 
         if (fetchResult.success) {
           contentPieces.push(`From ${url}:\n${fetchResult.output}`);
@@ -57,6 +57,9 @@ const chrome = {
   tabs: {
     captureVisibleTab: vi.fn(),
   },
+  downloads: {
+    download: vi.fn().mockResolvedValue(7),
+  },
 };
 
 // @ts-ignore
@@ -70,6 +73,11 @@ vi.mock('@pixelmate/core', () => ({
   getApiKey: vi.fn().mockResolvedValue('sk-mock-api-key'),
   getChromeStorage: vi.fn().mockResolvedValue({ selected_provider: 'anthropic' }),
   getSkillPrompt: vi.fn().mockReturnValue('# Mock Skill Prompt'),
+  exportArchive: vi.fn().mockResolvedValue(new Uint8Array([0x50, 0x4b, 5, 6])),
+  importArchive: vi.fn().mockResolvedValue({ written: ['/reports/q3.md'], skipped: ['/reports/old.md'] }),
+  bytesToBase64: vi.fn().mockReturnValue('UEsFBg=='),
+  base64ToBytes: vi.fn().mockReturnValue(new Uint8Array([0x50, 0x4b, 5, 6])),
+  parsePolicyRules: vi.fn((rules: unknown) => (typeof rules === 'string' ? JSON.parse(rules) : rules)),
 }));
 
 // ──────────────────────────────────────────────────────────────
@@ -77,7 +85,7 @@ vi.mock('@pixelmate/core', () => ({
 // importing the service worker module directly)
 // ──────────────────────────────────────────────────────────────
 
-import { getChromeStorage } from '@pixelmate/core';
+import { getChromeStorage, exportArchive, importArchive, bytesToBase64, base64ToBytes, parsePolicyRules } from '@pixelmate/core';
 
 // Same static fallbacks as background.ts
 const STATIC_MODELS: Record<string, string[]> = {
@@ -86,6 +94,12 @@ const STATIC_MODELS: Record<string, string[]> = {
   groq: ['llama-3.3-70b-versatile', 'llama-3.1-70b-versatile', 'llama-3.1-8b-instant', 'mixtral-8x7b-32768', 'gemma2-9b-it'],
 };
 
+// Stands in for background.ts's ConfirmationGrants over chrome.storage.local
+const confirmationGrants = {
+  list: vi.fn(),
+  revoke: vi.fn(),
+};
+
 interface MockFileSystem {
   initializeOPFS: ReturnType<typeof vi.fn>;
   initializeGoogleDrive: ReturnType<typeof vi.fn>;
@@ -93,6 +107,12 @@ interface MockFileSystem {
   listFiles: ReturnType<typeof vi.fn>;
 }
 
+interface MockJournal {
+  changes: ReturnType<typeof vi.fn>;
+  hasChanges: ReturnType<typeof vi.fn>;
+  undo: ReturnType<typeof vi.fn>;
+}
+
 interface MockToolRegistry {
   register: ReturnType<typeof vi.fn>;
   getAll: ReturnType<typeof vi.fn>;
@@ -105,7 +125,24 @@ function makeMockFileSystem(overrides: Partial<MockFileSystem> = {}): MockFileSy
     initializeOPFS: vi.fn().mockResolvedValue(undefined),
     initializeGoogleDrive: vi.fn().mockResolvedValue(undefined),
     requestNativeAccess: vi.fn().mockResolvedValue(undefined),
-    listFiles: vi.fn().mockResolvedValue(['readme.txt', 'notes/', 'data.csv']),
+    listFiles: vi.fn().mockResolvedValue([
+      { path: '/readme.txt', name: 'readme.txt', type: 'file', size: 12 },
+      { path: '/notes', name: 'notes', type: 'directory', size: 0 },
+      { path: '/data.csv', name: 'data.csv', type: 'file', size: 40 },
+    ]),
+    ...overrides,
+  };
+}
+
+function makeMockJournal(overrides: Partial<MockJournal> = {}): MockJournal {
+  const changes = [
+    { path: '/report.md', change: 'created' },
+    { path: '/notes', change: 'modified' },
+  ];
+  return {
+    changes: vi.fn().mockResolvedValue(changes),
+    hasChanges: vi.fn(async (taskId: string) => taskId === 'task-1'),
+    undo: vi.fn().mockResolvedValue(changes),
     ...overrides,
   };
 }
@@ -127,6 +164,7 @@ async function handleMessageHelper(
   message: Record<string, unknown>,
   fileSystem: MockFileSystem,
   toolRegistry: MockToolRegistry,
+  journal: MockJournal = makeMockJournal(),
 ): Promise<Record<string, unknown>> {
   return new Promise((resolve) => {
     const sendResponse = (resp: Record<string, unknown>) => resolve(resp);
@@ -160,14 +198,44 @@ async function handleMessageHelper(
             break;
           }
           case 'GET_FILES': {
-            const names = await fileSystem.listFiles('/');
-            const entries = names.map((name: string) => ({
-              name: name.replace(/\/$/, ''),
-              type: name.endsWith('/') ? 'directory' : 'file',
-            }));
+            const entries = (await fileSystem.listFiles('/') as Array<{ name: string; type: string }>)
+              .map(({ name, type }) => ({ name, type }));
             sendResponse({ success: true, files: entries });
             break;
           }
+          case 'EXPORT_FILES': {
+            const path = (message.path as string) || '/';
+            const archive = await exportArchive(fileSystem, path);
+            const name = path === '/' ? 'workspace' : path.split('/').filter(Boolean).join('-');
+            const downloadId = await chrome.downloads.download({
+              url: `data:application/zip;base64,${bytesToBase64(archive)}`,
+              filename: `pixelmate-${name}.zip`,
+              saveAs: true,
+            });
+            sendResponse({ success: true, downloadId, size: archive.length });
+            break;
+          }
+          case 'IMPORT_FILES': {
+            const summary = await importArchive(fileSystem, base64ToBytes(message.data as string), (message.path as string) || '/', {
+              overwrite: message.overwrite === true,
+            });
+            sendResponse({ success: true, ...summary });
+            break;
+          }
+          case 'GET_TASK_CHANGES': {
+            const changes = await journal.changes(message.taskId);
+            sendResponse({ success: true, changes, undoable: await journal.hasChanges(message.taskId) });
+            break;
+          }
+          case 'UNDO_TASK': {
+            if (!(await journal.hasChanges(message.taskId))) {
+              sendResponse({ success: false, error: 'No file changes to undo for this task' });
+              break;
+            }
+            const changes = await journal.undo(message.taskId);
+            sendResponse({ success: true, changes });
+            break;
+          }
           case 'GET_SESSIONS': {
             const stored = await chrome.storage.local.get('sessions');
             const sessions = (stored.sessions as unknown[] | undefined) ?? [];
@@ -208,6 +276,21 @@ async function handleMessageHelper(
             sendResponse({ success: true });
             break;
           }
+          case 'GET_GRANTS': {
+            sendResponse({ success: true, grants: await confirmationGrants.list() });
+            break;
+          }
+          case 'REVOKE_GRANT': {
+            const revoked = await confirmationGrants.revoke(message.id as string);
+            sendResponse(revoked ? { success: true } : { success: false, error: 'Grant not found' });
+            break;
+          }
+          case 'SET_SECURITY_RULES': {
+            const rules = parsePolicyRules(message.rules);
+            await chrome.storage.sync.set({ security_rules: rules });
+            sendResponse({ success: true, rules });
+            break;
+          }
           default: {
             sendResponse({ success: false, error: `Unknown message type: ${message.type}` });
           }
@@ -285,6 +368,58 @@ describe('Extension background message handlers', () => {
     });
   });
 
+  describe('EXPORT_FILES / IMPORT_FILES', () => {
+    it('downloads the zip of a folder named after it', async () => {
+      const resp = await handleMessageHelper({ type: 'EXPORT_FILES', path: '/reports/2024' }, fileSystem, toolRegistry);
+      expect(resp).toEqual({ success: true, downloadId: 7, size: 4 });
+      expect(exportArchive).toHaveBeenCalledWith(fileSystem, '/reports/2024');
+      expect(chrome.downloads.download).toHaveBeenCalledWith({
+        url: 'data:application/zip;base64,UEsFBg==',
+        filename: 'pixelmate-reports-2024.zip',
+        saveAs: true,
+      });
+    });
+
+    it('imports a zip into the given folder and reports what was skipped', async () => {
+      const resp = await handleMessageHelper(
+        { type: 'IMPORT_FILES', path: '/reports', data: 'UEsFBg==' },
+        fileSystem, toolRegistry,
+      );
+      expect(resp).toEqual({ success: true, written: ['/reports/q3.md'], skipped: ['/reports/old.md'] });
+      expect(importArchive).toHaveBeenCalledWith(fileSystem, expect.any(Uint8Array), '/reports', { overwrite: false });
+    });
+
+    it('reports an unsafe archive as an error', async () => {
+      (importArchive as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('Archive entry escapes the import folder: ../x'));
+      const resp = await handleMessageHelper({ type: 'IMPORT_FILES', data: 'UEsFBg==' }, fileSystem, toolRegistry);
+      expect(resp).toEqual({ success: false, error: 'Archive entry escapes the import folder: ../x' });
+    });
+  });
+
+  describe('GET_TASK_CHANGES / UNDO_TASK', () => {
+    it('lists the change set of a task', async () => {
+      const resp = await handleMessageHelper({ type: 'GET_TASK_CHANGES', taskId: 'task-1' }, fileSystem, toolRegistry);
+      expect(resp.success).toBe(true);
+      expect(resp.undoable).toBe(true);
+      expect(resp.changes).toContainEqual({ path: '/report.md', change: 'created' });
+    });
+
+    it('undoes the task and returns what was reverted', async () => {
+      const journal = makeMockJournal();
+      const resp = await handleMessageHelper({ type: 'UNDO_TASK', taskId: 'task-1' }, fileSystem, toolRegistry, journal);
+      expect(resp.success).toBe(true);
+      expect(journal.undo).toHaveBeenCalledWith('task-1');
+      expect(resp.changes).toHaveLength(2);
+    });
+
+    it('fails for a task with nothing recorded', async () => {
+      const journal = makeMockJournal();
+      const resp = await handleMessageHelper({ type: 'UNDO_TASK', taskId: 'unknown' }, fileSystem, toolRegistry, journal);
+      expect(resp.success).toBe(false);
+      expect(journal.undo).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET_SESSIONS', () => {
     it('returns empty array when no sessions are saved', async () => {
       const resp = await handleMessageHelper(
@@ -409,6 +544,42 @@ describe('Extension background message handlers', () => {
     });
   });
 
+  describe('SET_SECURITY_RULES', () => {
+    it('saves the parsed rules to sync storage', async () => {
+      const rules = [{ tool: 'gmail_send', recipients: ['*@mycompany.com'], action: 'allow' }];
+      const resp = await handleMessageHelper({ type: 'SET_SECURITY_RULES', rules: JSON.stringify(rules) }, fileSystem, toolRegistry);
+      expect(resp).toEqual({ success: true, rules });
+      expect(mockStorageSync.get('security_rules')).toEqual(rules);
+    });
+
+    it('keeps the stored rules when the new ones are invalid', async () => {
+      (parsePolicyRules as ReturnType<typeof vi.fn>).mockImplementationOnce(() => {
+        throw new Error('Security rule 1 is invalid: action');
+      });
+      const resp = await handleMessageHelper({ type: 'SET_SECURITY_RULES', rules: [{ tool: 'x' }] }, fileSystem, toolRegistry);
+      expect(resp).toEqual({ success: false, error: 'Security rule 1 is invalid: action' });
+      expect(mockStorageSync.has('security_rules')).toBe(false);
+    });
+  });
+
+  describe('GET_GRANTS / REVOKE_GRANT', () => {
+    const grant = { id: 'grant-1', tool: 'write_file', scope: 'matching', paths: ['/reports/**'], createdAt: '2024-01-01T00:00:00.000Z' };
+
+    it('lists the standing approvals', async () => {
+      confirmationGrants.list.mockResolvedValue([grant]);
+      const resp = await handleMessageHelper({ type: 'GET_GRANTS' }, fileSystem, toolRegistry);
+      expect(resp).toEqual({ success: true, grants: [grant] });
+    });
+
+    it('revokes a grant by ID and reports unknown ones', async () => {
+      confirmationGrants.revoke.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      expect(await handleMessageHelper({ type: 'REVOKE_GRANT', id: 'grant-1' }, fileSystem, toolRegistry)).toEqual({ success: true });
+      expect(confirmationGrants.revoke).toHaveBeenCalledWith('grant-1');
+      expect(await handleMessageHelper({ type: 'REVOKE_GRANT', id: 'gone' }, fileSystem, toolRegistry))
+        .toEqual({ success: false, error: 'Grant not found' });
+    });
+  });
+
   describe('unknown message type', () => {
     it('returns success: false with error message', async () => {
       const resp = await handleMessageHelper(
@@ -3,7 +3,7 @@
  * Runs the core agent logic using Chrome APIs
  */
 
-import { Agent, ToolRegistry, AnthropicProvider, OpenAIProvider, GroqProvider, getSkillPrompt } from '@pixelmate/core';
+import { Agent, AgentCancelledError, ToolRegistry, createToolRegistry, previewFileChange, AnthropicProvider, OpenAIProvider, GroqProvider, getSkillPrompt, SecurityPolicy, parsePolicyRules, ConfirmationGrants, grantMatch, GRANT_SCOPES } from '@pixelmate/core';
 import {
   // Filesystem
   ReadFileTool,
@@ -13,7 +13,17 @@ import {
   DeleteFileTool,
   MoveFileTool,
   CopyFileTool,
+  EditFileTool,
+  ApplyPatchTool,
+  GlobTool,
+  SearchFilesTool,
   HybridFileSystem,
+  OPFSFileSystem,
+  JournaledFileSystem,
+  exportArchive,
+  importArchive,
+  bytesToBase64,
+  base64ToBytes,
   // Browser automation
   BrowserNavigateTool,
   BrowserClickTool,
@@ -36,11 +46,6 @@ import {
   // Presentations
   CreatePresentationTool,
   CreateSlidesFromOutlineTool,
-  // Formatters
-  FormatAsJSONTool,
-  FormatAsMarkdownTool,
-  ParseJSONTool,
-  ConvertBetweenFormatsTool,
   // Web search
   WebSearchTool,
   FetchWebPageTool,
@@ -61,17 +66,40 @@ import {
   GmailSendTool,
   GmailReplyTool,
 } from '@pixelmate/core';
-import { getApiKey, getChromeStorage } from '@pixelmate/core';
-import { LLMProvider } from '@pixelmate/shared';
+import { getApiKey, getChromeStorage, addToolInvocation, getToolInvocations, journalStore } from '@pixelmate/core';
+import { LLMProvider, Message, ToolInvocationRecord } from '@pixelmate/shared';
+import type { AgentEnvironment, ConfirmationDecision, ConfirmationGrant, ConfirmationHandler, FileChangePreview, GrantScope, SystemPromptLayers } from '@pixelmate/core';
 
 // Global state
 let toolRegistry = new ToolRegistry();
-let fileSystem = new HybridFileSystem();
-let currentAgent: Agent | null = null;
+// OPFS holds everything outside /local (native folder) and /drive (Google Drive) once those are mounted
+let fileSystem = new HybridFileSystem({ '/': new OPFSFileSystem() });
+// What each task changed across all mounts, for UNDO_TASK; kept in IndexedDB across service worker restarts
+const journal = new JournaledFileSystem(fileSystem, { store: journalStore });
 let activeConnections: Set<chrome.runtime.Port> = new Set();
 
+// Agent currently running for each port, so AGENT_CANCEL / disconnect can abort it
+const runningAgents = new Map<chrome.runtime.Port, Agent>();
+
 // Pending confirmation callbacks keyed by confirmId (H1 fix)
-const pendingConfirmations = new Map<string, (approved: boolean) => void>();
+interface PendingConfirmation {
+  port: chrome.runtime.Port;
+  params: Record<string, unknown>;
+  preview?: FileChangePreview;
+  resolve: (decision: boolean | ConfirmationDecision) => void;
+}
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+// Standing approvals chosen when confirming; task grants are kept in memory, the rest in local storage
+const confirmationGrants = new ConfirmationGrants({
+  async load() {
+    const { confirmation_grants } = await chrome.storage.local.get('confirmation_grants');
+    return Array.isArray(confirmation_grants) ? confirmation_grants as ConfirmationGrant[] : [];
+  },
+  async save(grants) {
+    await chrome.storage.local.set({ confirmation_grants: grants });
+  }
+});
 
 // Rate limiting: max 10 AGENT_EXECUTE calls per port per minute (H4 fix)
 const rateLimitMap = new Map<chrome.runtime.Port, { count: number; resetAt: number }>();
@@ -86,7 +114,7 @@ const ALLOWED_EXTERNAL_ORIGINS = new Set([
 ]);
 
 // Only these non-secret keys may be read via GET_CONFIG by external callers (C2 fix)
-const CONFIG_SAFE_KEYS = new Set(['selected_provider', 'selected_model', 'theme', 'language']);
+const CONFIG_SAFE_KEYS = new Set(['selected_provider', 'selected_model', 'theme', 'language', 'security_rules']);
 
 /** Only trust messages from our own extension or the known PWA origins. */
 function isMessageTrusted(sender: chrome.runtime.MessageSender): boolean {
@@ -117,6 +145,40 @@ const getGoogleToken = async (): Promise<string | null> => {
   return (stored.google_access_token as string | null) ?? null;
 };
 
+// Sessions live in chrome.storage.local; `messages` is the agent history used to
+// rehydrate the conversation, since the service worker may be restarted between turns
+interface StoredSession {
+  id: string;
+  title: string;
+  createdAt: string;
+  savedAt?: number;
+  messages?: Message[];
+}
+
+const MAX_STORED_SESSIONS = 50;
+
+async function getStoredSessions(): Promise<StoredSession[]> {
+  const stored = await chrome.storage.local.get('sessions');
+  return (stored.sessions as StoredSession[] | undefined) || [];
+}
+
+async function loadSessionHistory(sessionId: string): Promise<Message[]> {
+  const sessions = await getStoredSessions();
+  return sessions.find(s => s.id === sessionId)?.messages ?? [];
+}
+
+async function saveSessionHistory(sessionId: string, title: string, messages: Message[]): Promise<void> {
+  const sessions = await getStoredSessions();
+  const history = messages.filter(m => m.role !== 'system');
+  const idx = sessions.findIndex(s => s.id === sessionId);
+  if (idx >= 0) {
+    sessions[idx] = { ...sessions[idx], messages: history, savedAt: Date.now() };
+  } else {
+    sessions.unshift({ id: sessionId, title, createdAt: new Date().toISOString(), savedAt: Date.now(), messages: history });
+  }
+  await chrome.storage.local.set({ sessions: sessions.slice(0, MAX_STORED_SESSIONS) });
+}
+
 // Initialize filesystem and tools on extension installation
 chrome.runtime.onInstalled.addListener(async () => {
   console.log('PixelMate extension installed');
@@ -124,73 +186,81 @@ chrome.runtime.onInstalled.addListener(async () => {
   await initializeToolRegistry();
 });
 
+// What the agent can use from the service worker: OPFS / native / Drive files,
+// the active tab, web access and Google APIs. Formatters come from core.
+const extensionEnvironment: AgentEnvironment = {
+  name: 'extension',
+  createTools: () => {
+    const fs = journal;
+    return [
+      // Filesystem tools
+      new ReadFileTool(fs),
+      new WriteFileTool(fs),
+      new ListDirectoryTool(fs),
+      new CreateDirectoryTool(fs),
+      new DeleteFileTool(fs),
+      new MoveFileTool(fs),
+      new CopyFileTool(fs),
+      new EditFileTool(fs),
+      new ApplyPatchTool(fs),
+      new GlobTool(fs),
+      new SearchFilesTool(fs),
+
+      // Browser automation tools
+      new BrowserNavigateTool(),
+      new BrowserClickTool(),
+      new BrowserFillTool(),
+      new BrowserTypeTool(),
+      new BrowserSelectTool(),
+      new BrowserGetTextTool(),
+      new BrowserGetHTMLTool(),
+      new BrowserScreenshotTool(),
+      new BrowserScrollTool(),
+      new BrowserWaitTool(),
+
+      // Document tools
+      new CreateDocumentTool(fs),
+      new ConvertToDocumentTool(fs),
+
+      // Spreadsheet tools
+      new CreateSpreadsheetTool(fs),
+      new ReadSpreadsheetTool(fs),
+      new CreateCSVTool(fs),
+      new ReadCSVTool(fs),
+
+      // Presentation tools
+      new CreatePresentationTool(fs),
+      new CreateSlidesFromOutlineTool(fs),
+
+      // Web search tools
+      new WebSearchTool(),
+      new FetchWebPageTool(),
+      new ResearchTopicTool(),
+
+      // Google Workspace tools (Docs, Sheets, Slides)
+      new GoogleDocsCreateTool(getGoogleToken),
+      new GoogleDocsReadTool(getGoogleToken),
+      new GoogleDocsAppendTool(getGoogleToken),
+      new GoogleSheetsCreateTool(getGoogleToken),
+      new GoogleSheetsReadTool(getGoogleToken),
+      new GoogleSheetsWriteTool(getGoogleToken),
+      new GoogleSlidesCreateTool(getGoogleToken),
+      new GoogleSlidesReadTool(getGoogleToken),
+
+      // Gmail tools
+      new GmailListTool(getGoogleToken),
+      new GmailReadTool(getGoogleToken),
+      new GmailSearchTool(getGoogleToken),
+      new GmailSendTool(getGoogleToken),
+      new GmailReplyTool(getGoogleToken)
+    ];
+  },
+  workspace: () => ({ filesystem: fileSystem.describe(), workingDirectory: '/' }),
+};
+
 // Initialize tool registry
 async function initializeToolRegistry(): Promise<void> {
-  const fs = fileSystem;
-  
-  // Register filesystem tools
-  toolRegistry.register(new ReadFileTool(fs));
-  toolRegistry.register(new WriteFileTool(fs));
-  toolRegistry.register(new ListDirectoryTool(fs));
-  toolRegistry.register(new CreateDirectoryTool(fs));
-  toolRegistry.register(new DeleteFileTool(fs));
-  toolRegistry.register(new MoveFileTool(fs));
-  toolRegistry.register(new CopyFileTool(fs));
-  
-  // Register browser automation tools
-  toolRegistry.register(new BrowserNavigateTool());
-  toolRegistry.register(new BrowserClickTool());
-  toolRegistry.register(new BrowserFillTool());
-  toolRegistry.register(new BrowserTypeTool());
-  toolRegistry.register(new BrowserSelectTool());
-  toolRegistry.register(new BrowserGetTextTool());
-  toolRegistry.register(new BrowserGetHTMLTool());
-  toolRegistry.register(new BrowserScreenshotTool());
-  toolRegistry.register(new BrowserScrollTool());
-  toolRegistry.register(new BrowserWaitTool());
-  
-  // Register document tools
-  toolRegistry.register(new CreateDocumentTool(fs));
-  toolRegistry.register(new ConvertToDocumentTool(fs));
-  
-  // Register spreadsheet tools
-  toolRegistry.register(new CreateSpreadsheetTool(fs));
-  toolRegistry.register(new ReadSpreadsheetTool(fs));
-  toolRegistry.register(new CreateCSVTool(fs));
-  toolRegistry.register(new ReadCSVTool(fs));
-  
-  // Register presentation tools
-  toolRegistry.register(new CreatePresentationTool(fs));
-  toolRegistry.register(new CreateSlidesFromOutlineTool(fs));
-  
-  // Register formatter tools
-  toolRegistry.register(new FormatAsJSONTool());
-  toolRegistry.register(new FormatAsMarkdownTool());
-  toolRegistry.register(new ParseJSONTool());
-  toolRegistry.register(new ConvertBetweenFormatsTool());
-  
-  // Register web search tools
-  toolRegistry.register(new WebSearchTool());
-  toolRegistry.register(new FetchWebPageTool());
-  toolRegistry.register(new ResearchTopicTool());
-
-  // Register Google Workspace tools (Docs, Sheets, Slides)
-  toolRegistry.register(new GoogleDocsCreateTool(getGoogleToken));
-  toolRegistry.register(new GoogleDocsReadTool(getGoogleToken));
-  toolRegistry.register(new GoogleDocsAppendTool(getGoogleToken));
-  toolRegistry.register(new GoogleSheetsCreateTool(getGoogleToken));
-  toolRegistry.register(new GoogleSheetsReadTool(getGoogleToken));
-  toolRegistry.register(new GoogleSheetsWriteTool(getGoogleToken));
-  toolRegistry.register(new GoogleSlidesCreateTool(getGoogleToken));
-  toolRegistry.register(new GoogleSlidesReadTool(getGoogleToken));
-
-  // Register Gmail tools
-  toolRegistry.register(new GmailListTool(getGoogleToken));
-  toolRegistry.register(new GmailReadTool(getGoogleToken));
-  toolRegistry.register(new GmailSearchTool(getGoogleToken));
-  toolRegistry.register(new GmailSendTool(getGoogleToken));
-  toolRegistry.register(new GmailReplyTool(getGoogleToken));
-
+  toolRegistry = createToolRegistry(extensionEnvironment);
   console.log(`Initialized ${toolRegistry.getAll().length} tools in registry`);
 }
 
@@ -262,6 +332,7 @@ chrome.runtime.onConnect.addListener((port) => {
   
   port.onDisconnect.addListener(() => {
     activeConnections.delete(port);
+    cancelAgent(port);
   });
 });
 
@@ -369,37 +440,45 @@ async function handleMessage(
       case 'GET_SESSIONS': {
         // Return recent sessions, pruning those older than 30 days (M4 fix)
         const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
-        const stored = await chrome.storage.local.get('sessions');
-        const allSessions: Array<{ id: string; title: string; createdAt: string; savedAt?: number }> = stored.sessions || [];
+        const allSessions = await getStoredSessions();
         const now = Date.now();
-        const sessions = allSessions.filter(s => !s.savedAt || (now - s.savedAt) < SESSION_TTL_MS);
+        const sessions = allSessions
+          .filter(s => !s.savedAt || (now - s.savedAt) < SESSION_TTL_MS)
+          .map(({ messages: _messages, ...summary }) => summary);
         sendResponse({ success: true, sessions: sessions.slice(0, 10) });
         break;
       }
 
+      case 'GET_SESSION_MESSAGES': {
+        const messages = await loadSessionHistory(message.sessionId);
+        sendResponse({ success: true, messages });
+        break;
+      }
+
+      case 'GET_TOOL_INVOCATIONS': {
+        const invocations = await getToolInvocations(message.sessionId);
+        sendResponse({ success: true, invocations });
+        break;
+      }
+
       case 'SAVE_SESSION': {
         const { session } = message;
-        const stored = await chrome.storage.local.get('sessions');
-        const sessions: Array<Record<string, unknown>> = stored.sessions || [];
+        const sessions = await getStoredSessions();
         const idx = sessions.findIndex((s) => s.id === session.id);
-        const withTimestamp = { ...session, savedAt: Date.now() };
         if (idx >= 0) {
-          sessions[idx] = withTimestamp;
+          // Keep the stored history; the PWA only sends the session summary
+          sessions[idx] = { ...sessions[idx], ...session, savedAt: Date.now() };
         } else {
-          sessions.unshift(withTimestamp);
+          sessions.unshift({ ...session, savedAt: Date.now() });
         }
-        await chrome.storage.local.set({ sessions: sessions.slice(0, 50) });
+        await chrome.storage.local.set({ sessions: sessions.slice(0, MAX_STORED_SESSIONS) });
         sendResponse({ success: true });
         break;
       }
 
       case 'GET_FILES': {
         try {
-          const names = await fileSystem.listFiles('/');
-          const entries = names.map((name: string) => ({
-            name: name.replace(/\/$/, ''),
-            type: name.endsWith('/') ? 'directory' : 'file',
-          }));
+          const entries = (await fileSystem.listFiles(message.path || '/')).map(({ name, type }) => ({ name, type }));
           sendResponse({ success: true, files: entries });
         } catch (err) {
           sendResponse({ success: false, error: err instanceof Error ? err.message : String(err), files: [] });
@@ -407,6 +486,49 @@ async function handleMessage(
         break;
       }
 
+      case 'EXPORT_FILES': {
+        const path: string = message.path || '/';
+        const archive = await exportArchive(fileSystem, path);
+        const name = path === '/' ? 'workspace' : path.split('/').filter(Boolean).join('-');
+        // Service workers have no URL.createObjectURL, so the zip goes out as a data URL
+        const downloadId = await chrome.downloads.download({
+          url: `data:application/zip;base64,${bytesToBase64(archive)}`,
+          filename: `pixelmate-${name}.zip`,
+          saveAs: true
+        });
+        sendResponse({ success: true, downloadId, size: archive.length });
+        break;
+      }
+
+      case 'IMPORT_FILES': {
+        const summary = await importArchive(fileSystem, base64ToBytes(message.data), message.path || '/', {
+          overwrite: message.overwrite === true
+        });
+        sendResponse({ success: true, ...summary });
+        break;
+      }
+
+      case 'GET_TASK_CHANGES': {
+        const changes = await journal.changes(message.taskId);
+        sendResponse({ success: true, changes, undoable: await journal.hasChanges(message.taskId) });
+        break;
+      }
+
+      case 'UNDO_TASK': {
+        const { taskId } = message;
+        if ([...runningAgents.values()].some(agent => agent.getId() === taskId)) {
+          sendResponse({ success: false, error: 'Task is still running' });
+          break;
+        }
+        if (!(await journal.hasChanges(taskId))) {
+          sendResponse({ success: false, error: 'No file changes to undo for this task' });
+          break;
+        }
+        const changes = await journal.undo(taskId);
+        sendResponse({ success: true, changes });
+        break;
+      }
+
       case 'GET_MODELS': {
         const prov: string = message.provider || 'anthropic';
         const fallback = STATIC_MODELS[prov] ?? [];
@@ -431,6 +553,26 @@ async function handleMessage(
         break;
       }
 
+      case 'GET_GRANTS': {
+        sendResponse({ success: true, grants: await confirmationGrants.list() });
+        break;
+      }
+
+      // Applies from the next confirmable call, including in runs already going
+      case 'REVOKE_GRANT': {
+        const revoked = await confirmationGrants.revoke(message.id as string);
+        sendResponse(revoked ? { success: true } : { success: false, error: 'Grant not found' });
+        break;
+      }
+
+      // Validated before saving, since a broken rule set would stop every run from starting
+      case 'SET_SECURITY_RULES': {
+        const rules = parsePolicyRules(message.rules);
+        await chrome.storage.sync.set({ security_rules: rules });
+        sendResponse({ success: true, rules });
+        break;
+      }
+
       // Lazily request gmail.send scope when the user first tries to send email (L2 fix)
       case 'GOOGLE_AUTH_GMAIL_SEND': {
         const SEND_SCOPES = ['https://www.googleapis.com/auth/gmail.send'];
@@ -479,34 +621,90 @@ async function handlePortMessage(message: Record<string, any>, port: chrome.runt
           port.postMessage({ type: 'ERROR', error: 'Rate limit exceeded — max 10 agent calls per minute.' });
           break;
         }
-        const { prompt, model, provider, skill } = message;
-        await executeAgentWithStream(prompt, model, provider, port, skill);
+        const { prompt, model, provider, skill, sessionId } = message;
+        await executeAgentWithStream(prompt, model, provider, port, skill, sessionId);
         break;
       }
 
       // Frontend sends this in response to a CONFIRM_REQUIRED event (H1 fix)
+      // `content` is the user's edit of the preview's editable parameter; nothing else can be changed.
+      // `remember` approves calls like this one from now on as well
       case 'CONFIRM_RESPONSE': {
-        const { confirmId, approved } = message;
-        const resolver = pendingConfirmations.get(confirmId as string);
-        if (resolver) {
-          resolver(Boolean(approved));
+        const { confirmId, approved, content } = message;
+        const pending = pendingConfirmations.get(confirmId as string);
+        if (pending) {
+          const editable = pending.preview?.editableParameter;
+          const remember = GRANT_SCOPES.includes(message.remember) ? message.remember as GrantScope : undefined;
+          pending.resolve(approved
+            ? {
+                approved: true,
+                parameters: editable && typeof content === 'string' ? { ...pending.params, [editable]: content } : undefined,
+                remember
+              }
+            : false);
           pendingConfirmations.delete(confirmId as string);
         }
         break;
       }
+
+      case 'AGENT_CANCEL': {
+        cancelAgent(port);
+        break;
+      }
     }
   } catch (error) {
-    port.postMessage({
+    if (error instanceof AgentCancelledError) {
+      postToPort(port, { type: 'AGENT_CANCELLED' });
+      return;
+    }
+    postToPort(port, {
       type: 'ERROR',
       error: error instanceof Error ? error.message : String(error)
     });
   }
 }
 
+// Posting to a port whose frontend has gone away throws, so drop those messages
+function postToPort(port: chrome.runtime.Port, message: Record<string, unknown>): void {
+  if (activeConnections.has(port)) {
+    port.postMessage(message);
+  }
+}
+
+// Aborts the port's running agent and denies any confirmation it is waiting on
+function cancelAgent(port: chrome.runtime.Port): void {
+  runningAgents.get(port)?.cancel();
+  for (const [confirmId, pending] of pendingConfirmations) {
+    if (pending.port === port) {
+      pendingConfirmations.delete(confirmId);
+      pending.resolve(false);
+    }
+  }
+}
+
+/** System prompt layers for a run; the agent adds the tool catalog and workspace facts. */
+async function getPromptLayers(skill?: string): Promise<SystemPromptLayers> {
+  const { language } = await getChromeStorage(['language']);
+  return {
+    skill: skill ? getSkillPrompt(skill) : undefined,
+    preferences: { language: typeof language === 'string' ? language : undefined }
+  };
+}
+
+// The built-in rules plus the user's own from settings, read at the start of each run
+async function getSecurityPolicy(): Promise<SecurityPolicy> {
+  const { security_rules } = await getChromeStorage(['security_rules']);
+  return new SecurityPolicy(parsePolicyRules(security_rules));
+}
+
 async function executeAgent(prompt: string, model?: string, provider?: string, skill?: string): Promise<string> {
   const llmProvider = await getProvider(provider);
-  const systemPrompt = skill ? getSkillPrompt(skill) : undefined;
-  const agent = new Agent(llmProvider, toolRegistry, { model, systemPrompt });
+  const agent = new Agent(llmProvider, toolRegistry, {
+    model,
+    prompt: await getPromptLayers(skill),
+    environment: extensionEnvironment,
+    policy: await getSecurityPolicy()
+  });
   
   return new Promise((resolve, reject) => {
     agent.onEvent((event) => {
@@ -522,29 +720,26 @@ async function executeAgentWithStream(
   model: string | undefined,
   provider: string | undefined,
   port: chrome.runtime.Port,
-  skill?: string
+  skill?: string,
+  sessionId?: string
 ): Promise<void> {
   const llmProvider = await getProvider(provider);
-  const systemPrompt = skill ? getSkillPrompt(skill) : undefined;
-
-  // Wire up user-facing confirmation for destructive tools (H1 fix)
-  // Look up metadata so the frontend can show an informative dialog
-  const TOOL_DANGER: Record<string, { level: string; description: string }> = {
-    delete_file:     { level: 'critical', description: 'Delete a file or directory permanently' },
-    move_file:       { level: 'high',     description: 'Move or rename a file' },
-    write_file:      { level: 'medium',   description: 'Write content to a file' },
-    browser_navigate:{ level: 'high',     description: 'Navigate to a URL in the browser' },
-    browser_fill:    { level: 'medium',   description: 'Fill a form field with data' },
-    browser_click:   { level: 'medium',   description: 'Click an element on the page' },
-    gmail_send:      { level: 'high',     description: 'Send an email on your behalf' },
-    gmail_reply:     { level: 'high',     description: 'Reply to an email on your behalf' },
-  };
-  const confirmationHandler = (toolName: string, params: Record<string, unknown>): Promise<boolean> => {
+  const promptLayers = await getPromptLayers(skill);
+  const policy = await getSecurityPolicy();
+
+  // Confirmation for the calls the policy flags (H1 fix); its verdict carries the
+  // danger level and description the frontend shows in the dialog
+  const confirmationHandler: ConfirmationHandler = async (toolName, params, decision) => {
+    // File writes carry a diff against the current file so the user sees what changes
+    const preview = await previewFileChange(journal, toolName, params).catch(() => undefined);
     return new Promise((resolve) => {
       const confirmId = `confirm-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      pendingConfirmations.set(confirmId, resolve);
-      const meta = TOOL_DANGER[toolName] ?? { level: 'medium', description: `Run tool: ${toolName}` };
-      port.postMessage({ type: 'CONFIRM_REQUIRED', confirmId, toolName, params, dangerLevel: meta.level, description: meta.description });
+      pendingConfirmations.set(confirmId, { port, params, preview, resolve });
+      postToPort(port, {
+        type: 'CONFIRM_REQUIRED', confirmId, toolName, params, preview,
+        dangerLevel: decision.dangerLevel, description: decision.description,
+        grantMatch: grantMatch(toolName, params)
+      });
       // Auto-deny after 60 s if no response to avoid hanging the agent
       setTimeout(() => {
         if (pendingConfirmations.has(confirmId)) {
@@ -555,20 +750,50 @@ async function executeAgentWithStream(
     });
   };
 
-  const agent = new Agent(llmProvider, toolRegistry, { model, systemPrompt, confirmationHandler });
+  // Each turn of a session gets a fresh agent rehydrated from the stored history,
+  // so follow-ups keep their context even after the service worker restarts
+  const history = sessionId ? await loadSessionHistory(sessionId) : undefined;
+  // Tool calls of session runs go to IndexedDB for the PWA's replay view
+  const invocationLog = sessionId
+    ? { record: (invocation: ToolInvocationRecord) => addToolInvocation({ ...invocation, conversationId: sessionId }).then(() => {}) }
+    : undefined;
+  const agent = new Agent(llmProvider, toolRegistry, {
+    model,
+    prompt: promptLayers,
+    environment: extensionEnvironment,
+    policy,
+    grants: confirmationGrants,
+    confirmationHandler,
+    stream: true,
+    history,
+    invocationLog
+  });
   
+  // Includes text_delta / tool_call_delta events so the PWA can render tokens as they arrive
   agent.onEvent((event) => {
-    port.postMessage({
+    postToPort(port, {
       type: 'AGENT_EVENT',
       event
     });
   });
   
-  const result = await agent.run(prompt, model);
-  port.postMessage({
-    type: 'AGENT_COMPLETE',
-    result
-  });
+  runningAgents.set(port, agent);
+  try {
+    const result = await agent.continue(prompt, model);
+    postToPort(port, {
+      type: 'AGENT_COMPLETE',
+      taskId: agent.getId(),
+      result
+    });
+  } finally {
+    if (runningAgents.get(port) === agent) {
+      runningAgents.delete(port);
+    }
+    // Saved even when the run fails or is cancelled, so the turns that did happen are kept
+    if (sessionId) {
+      await saveSessionHistory(sessionId, prompt.slice(0, 60), agent.getMessages());
+    }
+  }
 }
 
 console.log('PixelMate service worker initialized');
@@ -1,5 +1,6 @@
 const API_URL = 'http://localhost:3001';
 let ws = null;
+let apiToken = '';
 
 const statusDot = document.getElementById('statusDot');
 const statusText = document.getElementById('statusText');
@@ -11,6 +12,7 @@ const responseDiv = document.getElementById('response');
 const tabs = document.querySelectorAll('.tab');
 const taskTab = document.getElementById('taskTab');
 const currentTab = document.getElementById('currentTab');
+const apiTokenInput = document.getElementById('apiToken');
 
 // Tab switching
 tabs.forEach(tab => {
@@ -37,10 +39,21 @@ quickActionInput.addEventListener('input', () => {
   quickSubmitBtn.disabled = !quickActionInput.value.trim();
 });
 
+// The backend needs its token on every request
+apiTokenInput.addEventListener('change', () => {
+  apiToken = apiTokenInput.value.trim();
+  chrome.storage.local.set({ apiToken });
+  if (ws) ws.close();
+});
+
+function authHeaders() {
+  return { 'Authorization': `Bearer ${apiToken}` };
+}
+
 // Connect to backend
 function connect() {
   try {
-    ws = new WebSocket('ws://localhost:3001/ws');
+    ws = new WebSocket(`ws://localhost:3001/ws?token=${encodeURIComponent(apiToken)}`);
     
     ws.onopen = () => {
       statusDot.classList.add('connected');
@@ -101,10 +114,13 @@ async function submitTask(prompt) {
     
     const response = await fetch(`${API_URL}/api/agent/start`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
       body: JSON.stringify({ prompt })
     });
     
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('The backend refused the API token');
+    }
     if (!response.ok) {
       throw new Error('Failed to start task');
     }
@@ -122,7 +138,7 @@ async function submitTask(prompt) {
 async function pollTaskStatus(taskId) {
   const checkStatus = async () => {
     try {
-      const response = await fetch(`${API_URL}/api/agent/status/${taskId}`);
+      const response = await fetch(`${API_URL}/api/agent/status/${taskId}`, { headers: authHeaders() });
       const data = await response.json();
       
       if (data.state === 'done') {
@@ -182,4 +198,8 @@ quickSubmitBtn.addEventListener('click', async () => {
 });
 
 // Initialize
-connect();
+chrome.storage.local.get('apiToken', (stored) => {
+  apiToken = stored.apiToken || '';
+  apiTokenInput.value = apiToken;
+  connect();
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import App from './App';
+import { bridge, AgentEvent } from './services/ExtensionBridge';
 
 // Mock the ExtensionBridge singleton
 vi.mock('./services/ExtensionBridge', () => {
@@ -9,16 +10,26 @@ vi.mock('./services/ExtensionBridge', () => {
     isAvailable: vi.fn().mockReturnValue(false),
     getConfig: vi.fn().mockResolvedValue({}),
     getSessions: vi.fn().mockResolvedValue([]),
+    getSessionMessages: vi.fn().mockResolvedValue([]),
+    getToolInvocations: vi.fn().mockResolvedValue([]),
     getTools: vi.fn().mockResolvedValue([]),
     getFiles: vi.fn().mockResolvedValue([]),
+    getTaskChanges: vi.fn().mockResolvedValue({ changes: [], undoable: false }),
+    undoTask: vi.fn().mockResolvedValue([]),
+    exportFiles: vi.fn().mockResolvedValue(undefined),
+    importFiles: vi.fn().mockResolvedValue({ written: [], skipped: [] }),
     getModels: vi.fn().mockResolvedValue(['claude-sonnet-4', 'claude-haiku-3']),
     setApiKey: vi.fn().mockResolvedValue(undefined),
     setProvider: vi.fn().mockResolvedValue(undefined),
+    setSecurityRules: vi.fn().mockResolvedValue(undefined),
+    getGrants: vi.fn().mockResolvedValue([]),
+    revokeGrant: vi.fn().mockResolvedValue(undefined),
     saveSession: vi.fn().mockResolvedValue(undefined),
     googleSignIn: vi.fn().mockResolvedValue('ya29.test'),
     googleSignOut: vi.fn().mockResolvedValue(undefined),
     requestFileAccess: vi.fn().mockResolvedValue(undefined),
     executeAgent: vi.fn().mockReturnValue(() => {}),
+    sendConfirmResponse: vi.fn(),
     disconnect: vi.fn(),
   };
   return {
@@ -30,6 +41,7 @@ vi.mock('./services/ExtensionBridge', () => {
 describe('App component', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(bridge.isAvailable).mockReturnValue(false);
   });
 
   it('renders without crashing', () => {
@@ -126,6 +138,22 @@ describe('App component', () => {
     expect(textarea.value).toContain('files');
   });
 
+  it('loads and saves security rules in the settings view', async () => {
+    const rules = [{ tool: 'browser_navigate', domains: ['wikipedia.org'], action: 'allow' }];
+    vi.mocked(bridge.getConfig).mockResolvedValue({ security_rules: rules });
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+    fireEvent.click(screen.getAllByText(/^settings$/i)[0]);
+
+    const editor = await screen.findByDisplayValue(/wikipedia\.org/) as HTMLTextAreaElement;
+    expect(JSON.parse(editor.value)).toEqual(rules);
+
+    fireEvent.change(editor, { target: { value: '[{"tool":"gmail_send","action":"deny"}]' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Rules' }));
+    expect(await screen.findByText(/applies from the next task/)).toBeTruthy();
+    expect(bridge.setSecurityRules).toHaveBeenCalledWith('[{"tool":"gmail_send","action":"deny"}]');
+  });
+
   it('settings view shows provider dropdown', async () => {
     render(<App />);
     fireEvent.click(screen.getAllByText(/^settings$/i)[0]);
@@ -137,4 +165,245 @@ describe('App component', () => {
       expect(screen.getByLabelText(/provider/i)).toBeTruthy();
     });
   });
+
+  it('renders streamed text deltas and replaces them with the completed thought', async () => {
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    const textarea = screen.getByPlaceholderText(/what would you like me to do/i);
+    await userEvent.type(textarea, 'Hi');
+    fireEvent.submit(textarea.closest('form')!);
+
+    const onEvent = vi.mocked(bridge.executeAgent).mock.calls[0][2] as (e: AgentEvent) => void;
+    act(() => {
+      onEvent({ type: 'text_delta', delta: 'Hel' });
+      onEvent({ type: 'text_delta', delta: 'lo' });
+    });
+    expect(screen.getByText('Hello').closest('.message')?.classList.contains('streaming')).toBe(true);
+
+    act(() => {
+      onEvent({ type: 'tool_call_delta', toolCallDelta: { index: 1, id: 'c1', name: 'read_file' } });
+      onEvent({ type: 'tool_call_delta', toolCallDelta: { index: 1, argumentsDelta: '{"path":"/a"}' } });
+    });
+    expect(screen.getByText('Preparing: read_file({"path":"/a"})')).toBeTruthy();
+
+    act(() => { onEvent({ type: 'thought', thought: 'Hello' }); });
+    expect(screen.queryByText(/Preparing:/)).toBeNull();
+    expect(screen.getByText('Hello').closest('.message')?.classList.contains('streaming')).toBe(false);
+  });
+
+  it('sends follow-ups in the same session', async () => {
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    const textarea = screen.getByPlaceholderText(/what would you like me to do/i);
+    await userEvent.type(textarea, 'First');
+    fireEvent.submit(textarea.closest('form')!);
+    const onComplete = vi.mocked(bridge.executeAgent).mock.calls[0][3] as (result: string) => void;
+    act(() => { onComplete('Answer'); });
+
+    await userEvent.type(textarea, 'Second');
+    fireEvent.submit(textarea.closest('form')!);
+
+    const [first, second] = vi.mocked(bridge.executeAgent).mock.calls.map(call => call[1]);
+    expect(first.sessionId).toBeTruthy();
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(bridge.saveSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the last task\'s file changes and undoes them', async () => {
+    vi.mocked(bridge.getTaskChanges).mockResolvedValue({
+      changes: [{ path: '/report.md', change: 'created' }, { path: '/notes', change: 'deleted' }],
+      undoable: true,
+    });
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    const textarea = screen.getByPlaceholderText(/what would you like me to do/i);
+    await userEvent.type(textarea, 'Write a report');
+    fireEvent.submit(textarea.closest('form')!);
+    const onComplete = vi.mocked(bridge.executeAgent).mock.calls[0][3];
+    act(() => { onComplete('Done', 'task-1'); });
+    await waitFor(() => expect(bridge.getTaskChanges).toHaveBeenCalledWith('task-1'));
+
+    fireEvent.click(screen.getByRole('button', { name: /^files$/i }));
+    expect(await screen.findByText('/report.md')).toBeTruthy();
+    expect(screen.getByText('/notes')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(await screen.findByText('Last task undone')).toBeTruthy();
+    expect(bridge.undoTask).toHaveBeenCalledWith('task-1');
+  });
+
+  it('hides Undo once the task\'s journal is gone', async () => {
+    vi.mocked(bridge.getTaskChanges).mockResolvedValue({
+      changes: [{ path: '/report.md', change: 'created' }],
+      undoable: true,
+    });
+    vi.mocked(bridge.undoTask).mockRejectedValueOnce(new Error('No file changes to undo for this task'));
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    const textarea = screen.getByPlaceholderText(/what would you like me to do/i);
+    await userEvent.type(textarea, 'Write a report');
+    fireEvent.submit(textarea.closest('form')!);
+    const onComplete = vi.mocked(bridge.executeAgent).mock.calls[0][3];
+    act(() => { onComplete('Done', 'task-1'); });
+    await waitFor(() => expect(bridge.getTaskChanges).toHaveBeenCalledWith('task-1'));
+
+    fireEvent.click(screen.getByRole('button', { name: /^files$/i }));
+    expect(await screen.findByText('/report.md')).toBeTruthy();
+
+    // Dropped by the journal between the task and the click
+    vi.mocked(bridge.getTaskChanges).mockResolvedValue({ changes: [{ path: '/report.md', change: 'created' }], undoable: false });
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(await screen.findByText('No file changes to undo for this task')).toBeTruthy();
+    expect(screen.queryByRole('button', { name: 'Undo' })).toBeNull();
+    expect(screen.getByText('Changes from the last task')).toBeTruthy();
+  });
+
+  it('exports the workspace and imports a zip from the files view', async () => {
+    vi.mocked(bridge.importFiles).mockResolvedValue({ written: ['/q3.md', '/charts/revenue.png'], skipped: ['/notes.txt'] });
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /^files$/i }));
+
+    fireEvent.click(screen.getByRole('button', { name: /export/i }));
+    expect(await screen.findByText(/the zip is in your downloads/)).toBeTruthy();
+    expect(bridge.exportFiles).toHaveBeenCalled();
+
+    const archive = new File([new Uint8Array([0x50, 0x4b, 5, 6])], 'reports.zip', { type: 'application/zip' });
+    fireEvent.change(screen.getByLabelText('Import zip'), { target: { files: [archive] } });
+    expect(await screen.findByText('Imported 2 files from reports.zip; 1 existing file was kept')).toBeTruthy();
+    expect(bridge.importFiles).toHaveBeenCalledWith(archive);
+  });
+
+  it('shows the diff of a file write and approves it with edited content', async () => {
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    const textarea = screen.getByPlaceholderText(/what would you like me to do/i);
+    await userEvent.type(textarea, 'Fix the notes');
+    fireEvent.submit(textarea.closest('form')!);
+    const onConfirm = vi.mocked(bridge.executeAgent).mock.calls[0][5]!;
+    act(() => {
+      onConfirm('c1', 'write_file', { path: '/notes.md', content: 'new line' }, 'medium', 'Write content to a file', {
+        kind: 'modify', path: '/notes.md', summary: '+1 −1 lines',
+        diff: '--- a/notes.md\n+++ b/notes.md\n@@ -1 +1 @@\n-old line\n+new line', editableParameter: 'content',
+      });
+    });
+
+    expect(screen.getByText('+1 −1 lines')).toBeTruthy();
+    expect(screen.getByText('-old line').classList.contains('removed')).toBe(true);
+    expect(screen.getByText('+new line').classList.contains('added')).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit content' }));
+    fireEvent.change(screen.getByLabelText('Proposed content'), { target: { value: 'my line' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Approve' }));
+    expect(bridge.sendConfirmResponse).toHaveBeenCalledWith('c1', true, 'my line', 'once');
+  });
+
+  it('remembers an approval for matching paths when the user chooses to', async () => {
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    const textarea = screen.getByPlaceholderText(/what would you like me to do/i);
+    await userEvent.type(textarea, 'Write the reports');
+    fireEvent.submit(textarea.closest('form')!);
+    const onConfirm = vi.mocked(bridge.executeAgent).mock.calls[0][5]!;
+    act(() => {
+      onConfirm('c1', 'write_file', { path: '/reports/q3.md', content: 'x' }, 'medium', 'Write content to a file', undefined, { paths: ['/reports/**'] });
+      onConfirm('c2', 'browser_click', { selector: '#next' }, 'medium', 'Click an element on the page');
+    });
+
+    const [reports, click] = screen.getAllByLabelText('Remember') as HTMLSelectElement[];
+    // Calls without paths or URLs can't be remembered by them
+    expect([...click.options].map(o => o.text)).toEqual(['This call only', 'browser_click for this task', 'browser_click always']);
+
+    fireEvent.change(reports, { target: { value: 'matching' } });
+    expect(reports.selectedOptions[0].text).toBe('write_file in /reports/**');
+    fireEvent.click(screen.getAllByRole('button', { name: 'Approve' })[0]);
+    expect(bridge.sendConfirmResponse).toHaveBeenCalledWith('c1', true, undefined, 'matching');
+  });
+
+  it('lists standing approvals in settings and revokes them', async () => {
+    vi.mocked(bridge.getGrants).mockResolvedValue([
+      { id: 'g1', tool: 'gmail_send', scope: 'always', createdAt: '' },
+      { id: 'g2', tool: 'browser_navigate', scope: 'matching', domains: ['wikipedia.org'], createdAt: '' },
+    ]);
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+    fireEvent.click(screen.getAllByText(/^settings$/i)[0]);
+
+    expect(await screen.findByText('gmail_send always')).toBeTruthy();
+    expect(screen.getByText('browser_navigate in wikipedia.org')).toBeTruthy();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Revoke' })[0]);
+    await waitFor(() => expect(screen.queryByText('gmail_send always')).toBeNull());
+    expect(bridge.revokeGrant).toHaveBeenCalledWith('g1');
+  });
+
+  it('loads the stored transcript when a session is selected', async () => {
+    vi.mocked(bridge.getSessions).mockResolvedValue([{ id: 's1', title: 'Old chat', createdAt: '' }]);
+    vi.mocked(bridge.getSessionMessages).mockResolvedValue([
+      { role: 'user', content: 'Read /a' },
+      { role: 'assistant', content: [{ type: 'tool_use', name: 'read_file' }] },
+      { role: 'user', content: [{ type: 'tool_result', content: 'contents of a' }] },
+      { role: 'assistant', content: 'It says hi.' },
+    ]);
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Old chat'));
+    expect(await screen.findByText('It says hi.')).toBeTruthy();
+    expect(screen.getByText('Read /a')).toBeTruthy();
+    expect(screen.getByText('contents of a')).toBeTruthy();
+    expect(bridge.getSessionMessages).toHaveBeenCalledWith('s1');
+  });
+
+  it('replays the tool calls of the current session', async () => {
+    vi.mocked(bridge.getSessions).mockResolvedValue([{ id: 's1', title: 'Old chat', createdAt: '' }]);
+    vi.mocked(bridge.getToolInvocations).mockResolvedValue([
+      {
+        toolCallId: 'c1', taskId: 't1', toolName: 'delete_file', parameters: { path: '/a' },
+        confirmation: 'denied', success: false, error: 'Confirmation denied by user',
+        outputSize: 0, startedAt: Date.now(), durationMs: 12,
+      },
+    ]);
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Old chat'));
+    fireEvent.click(await screen.findByRole('button', { name: 'Replay' }));
+
+    expect(await screen.findByText('delete_file')).toBeTruthy();
+    expect(screen.getByText('Confirmation denied by user')).toBeTruthy();
+    expect(screen.getByText(/12 ms · 0 B · denied/)).toBeTruthy();
+    expect(bridge.getToolInvocations).toHaveBeenCalledWith('s1');
+  });
+
+  it('pairs tool results with their call when they finish out of order', async () => {
+    vi.mocked(bridge.isAvailable).mockReturnValue(true);
+    render(<App />);
+
+    const textarea = screen.getByPlaceholderText(/what would you like me to do/i);
+    await userEvent.type(textarea, 'Read two pages');
+    fireEvent.submit(textarea.closest('form')!);
+
+    const onEvent = vi.mocked(bridge.executeAgent).mock.calls[0][2] as (e: AgentEvent) => void;
+    act(() => {
+      onEvent({ type: 'tool_call', toolCall: { id: 'a', name: 'fetch_web_page' } });
+      onEvent({ type: 'tool_call', toolCall: { id: 'b', name: 'web_search' } });
+      onEvent({ type: 'tool_result', toolCall: { id: 'b', name: 'web_search' }, toolResult: { success: true, output: 'search results' } });
+    });
+    expect(screen.getByText('Executing: fetch_web_page')).toBeTruthy();
+    expect(screen.queryByText('Executing: web_search')).toBeNull();
+
+    act(() => {
+      onEvent({ type: 'tool_result', toolCall: { id: 'a', name: 'fetch_web_page' }, toolResult: { success: true, output: 'page text' } });
+    });
+    expect(screen.queryByText(/Executing:/)).toBeNull();
+    const texts = Array.from(document.querySelectorAll('.message-text')).map(el => el.textContent);
+    expect(texts.indexOf('page text')).toBeLessThan(texts.indexOf('search results'));
+  });
 });
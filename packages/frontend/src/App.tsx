@@ -1,10 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { bridge, AgentEvent, FileMeta, Session, ToolMeta, OnConfirmCallback } from './services/ExtensionBridge';
+import { bridge, AgentEvent, ConfirmationGrant, FileChange, FileChangePreview, FileMeta, GrantMatch, GrantScope, Session, SessionMessage, ToolInvocation, ToolMeta, OnConfirmCallback } from './services/ExtensionBridge';
 
 interface Message {
   role: 'user' | 'assistant' | 'tool' | 'system';
   content: string;
   toolName?: string;
+  // Set while tokens are still arriving; replaced once the turn completes
+  streaming?: boolean;
+  toolCallIndex?: number;
+  toolArguments?: string;
+  toolCallId?: string;
 }
 
 interface PendingConfirmation {
@@ -14,9 +19,73 @@ interface PendingConfirmation {
   description: string;
   parameters: Record<string, unknown>;
   dangerLevel: 'low' | 'medium' | 'high';
+  preview?: FileChangePreview;
+  // The user's edit of the proposed content; undefined until they start editing
+  draft?: string;
+  grantMatch?: GrantMatch;
+  // How long the approval stands; this call only unless the user picks otherwise
+  remember: GrantScope;
 }
 
-type View = 'chat' | 'files' | 'tools' | 'settings';
+// What a standing approval covers, as shown in the dialog and the settings list
+function describeGrant(grant: { tool: string; scope: GrantScope } & GrantMatch): string {
+  switch (grant.scope) {
+    case 'task': return `${grant.tool} for this task`;
+    case 'matching': return `${grant.tool} in ${[...(grant.paths ?? []), ...(grant.domains ?? [])].join(', ')}`;
+    case 'always': return `${grant.tool} always`;
+    default: return 'This call only';
+  }
+}
+
+/** Colours each line of a unified diff by whether it was added, removed or is a hunk header */
+function DiffView({ diff }: { diff: string }) {
+  return (
+    <pre className="diff-view">
+      {diff.split('\n').map((line, i) => {
+        const kind = line.startsWith('@@') ? 'hunk'
+          : line.startsWith('+++') || line.startsWith('---') ? 'header'
+          : line.startsWith('+') ? 'added'
+          : line.startsWith('-') ? 'removed'
+          : 'context';
+        return <div key={i} className={`diff-line ${kind}`}>{line || ' '}</div>;
+      })}
+    </pre>
+  );
+}
+
+type View = 'chat' | 'files' | 'tools' | 'settings' | 'replay';
+
+/** Files the most recent agent task touched, shown in the files view until undone */
+interface TaskChanges {
+  taskId: string;
+  changes: FileChange[];
+  undoable: boolean;
+  undone?: boolean;
+  error?: string;
+}
+
+/** Renders a stored session history the way the live chat showed it */
+function toTranscript(history: SessionMessage[]): Message[] {
+  const transcript: Message[] = [];
+  for (const entry of history) {
+    if (entry.role === 'system') continue;
+    if (typeof entry.content === 'string') {
+      transcript.push({ role: entry.role, content: entry.content });
+      continue;
+    }
+    for (const block of entry.content) {
+      if (block.type === 'text' && block.text) {
+        transcript.push({ role: entry.role, content: block.text });
+      } else if (block.type === 'tool_result') {
+        const output = typeof block.content === 'string'
+          ? block.content
+          : (block.content ?? []).map(part => part.text ?? '').join('');
+        transcript.push({ role: 'system', content: block.isError ? `Error: ${output}` : (output || 'Done') });
+      }
+    }
+  }
+  return transcript;
+}
 
 function App() {
   const [messages, setMessages] = useState<Message[]>([]);
@@ -26,8 +95,11 @@ function App() {
   const [status, setStatus] = useState('');
   const [sessions, setSessions] = useState<Session[]>([]);
   const [currentSession, setCurrentSession] = useState<string | null>(null);
+  const [invocations, setInvocations] = useState<ToolInvocation[]>([]);
   const [tools, setTools] = useState<ToolMeta[]>([]);
   const [files, setFiles] = useState<FileMeta[]>([]);
+  const [lastTask, setLastTask] = useState<TaskChanges | null>(null);
+  const [archiveStatus, setArchiveStatus] = useState<{ message: string; error?: boolean } | null>(null);
   const [currentView, setCurrentView] = useState<View>('chat');
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [confirmations, setConfirmations] = useState<PendingConfirmation[]>([]);
@@ -41,10 +113,14 @@ function App() {
   const [settingsApiKey, setSettingsApiKey] = useState('');
   const [isSavingKey, setIsSavingKey] = useState(false);
   const [saveKeyStatus, setSaveKeyStatus] = useState('');
+  const [securityRules, setSecurityRules] = useState('');
+  const [securityRulesStatus, setSecurityRulesStatus] = useState<{ message: string; error?: boolean } | null>(null);
+  const [grants, setGrants] = useState<ConfirmationGrant[]>([]);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const cancelRef = useRef<(() => void) | null>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // ChromeOS keyboard shortcuts
   useEffect(() => {
@@ -80,7 +156,7 @@ function App() {
           cancelRef.current?.();
           setIsLoading(false);
           setIsTyping(false);
-          setStatus('');
+          setStatus('cancelled');
         }
       }
     };
@@ -95,11 +171,14 @@ function App() {
     if (available) {
       fetchSessions();
       fetchTools();
-      bridge.getConfig(['selected_provider', 'selected_model']).then((cfg) => {
+      bridge.getConfig(['selected_provider', 'selected_model', 'security_rules']).then((cfg) => {
         const p = cfg.selected_provider ? String(cfg.selected_provider) : 'anthropic';
         const m = cfg.selected_model ? String(cfg.selected_model) : '';
         setProvider(p);
         fetchModels(p, m);
+        if (Array.isArray(cfg.security_rules) && cfg.security_rules.length > 0) {
+          setSecurityRules(JSON.stringify(cfg.security_rules, null, 2));
+        }
       }).catch(() => { fetchModels('anthropic'); });
     }
   }, []);
@@ -112,10 +191,77 @@ function App() {
     try { setTools(await bridge.getTools()); } catch (_) {}
   };
 
+  const fetchGrants = async () => {
+    try { setGrants(await bridge.getGrants()); } catch (_) {}
+  };
+
+  // Approvals are granted from the dialog, so the list is refreshed whenever settings open
+  useEffect(() => {
+    if (currentView === 'settings' && extensionAvailable) fetchGrants();
+  }, [currentView, extensionAvailable]);
+
+  const handleRevokeGrant = async (id: string) => {
+    try {
+      await bridge.revokeGrant(id);
+      setGrants(prev => prev.filter(g => g.id !== id));
+    } catch (_) {
+      fetchGrants();
+    }
+  };
+
   const fetchFiles = async () => {
     try { setFiles(await bridge.getFiles()); } catch (_) {}
   };
 
+  const fetchTaskChanges = async (taskId: string) => {
+    try {
+      const { changes, undoable } = await bridge.getTaskChanges(taskId);
+      setLastTask(changes.length > 0 ? { taskId, changes, undoable } : null);
+    } catch (_) {}
+  };
+
+  // The journal may have dropped the task since (too old or too large), so Undo is only offered while it still can
+  useEffect(() => {
+    if (currentView === 'files' && lastTask && !lastTask.undone) fetchTaskChanges(lastTask.taskId);
+  }, [currentView]);
+
+  const handleUndoTask = async () => {
+    if (!lastTask) return;
+    try {
+      await bridge.undoTask(lastTask.taskId);
+      setLastTask({ ...lastTask, undoable: false, undone: true });
+      fetchFiles();
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      const undoable = await bridge.getTaskChanges(lastTask.taskId).then(result => result.undoable, () => lastTask.undoable);
+      setLastTask({ ...lastTask, undoable, error });
+    }
+  };
+
+  const handleExportFiles = async () => {
+    try {
+      await bridge.exportFiles();
+      setArchiveStatus({ message: 'Workspace exported; the zip is in your downloads' });
+    } catch (err) {
+      setArchiveStatus({ message: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so picking the same zip again still fires a change
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { written, skipped } = await bridge.importFiles(file);
+      const kept = skipped.length > 0 ? `; ${skipped.length} existing ${skipped.length === 1 ? 'file was' : 'files were'} kept` : '';
+      setArchiveStatus({ message: `Imported ${written.length} ${written.length === 1 ? 'file' : 'files'} from ${file.name}${kept}` });
+      fetchFiles();
+    } catch (err) {
+      setArchiveStatus({ message: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
   const fetchModels = async (p: string, preferModel = '') => {
     setLoadingModels(true);
     try {
@@ -134,27 +280,58 @@ function App() {
   }, [messages]);
 
   const handleAgentEvent = useCallback((event: AgentEvent) => {
-    if (event.type === 'thought' && event.thought) {
-      setMessages(prev => [...prev, { role: 'assistant', content: event.thought! }]);
+    if (event.type === 'text_delta' && event.delta) {
+      const delta = event.delta;
+      setMessages(prev => {
+        const last = prev[prev.length - 1];
+        if (last?.role === 'assistant' && last.streaming) {
+          return [...prev.slice(0, -1), { ...last, content: last.content + delta }];
+        }
+        return [...prev, { role: 'assistant', content: delta, streaming: true }];
+      });
+    } else if (event.type === 'tool_call_delta' && event.toolCallDelta) {
+      const { index, name, argumentsDelta } = event.toolCallDelta;
+      setMessages(prev => {
+        const i = prev.findIndex(m => m.streaming && m.role === 'tool' && m.toolCallIndex === index);
+        const draft: Message = i >= 0
+          ? { ...prev[i] }
+          : { role: 'tool', content: '', streaming: true, toolCallIndex: index, toolArguments: '' };
+        if (name) draft.toolName = name;
+        draft.toolArguments = (draft.toolArguments ?? '') + (argumentsDelta ?? '');
+        draft.content = `Preparing: ${draft.toolName ?? 'tool'}(${draft.toolArguments})`;
+        return i >= 0 ? [...prev.slice(0, i), draft, ...prev.slice(i + 1)] : [...prev, draft];
+      });
+    } else if (event.type === 'thought') {
+      // The completed turn supersedes whatever was streamed for it
+      setMessages(prev => {
+        const settled = prev.filter(m => !m.streaming);
+        return event.thought ? [...settled, { role: 'assistant', content: event.thought }] : settled;
+      });
     } else if (event.type === 'tool_call' && event.toolCall) {
       setMessages(prev => [...prev, {
         role: 'tool',
         content: `Executing: ${event.toolCall!.name}`,
         toolName: event.toolCall!.name,
+        toolCallId: event.toolCall!.id,
       }]);
     } else if (event.type === 'tool_result' && event.toolResult) {
       const result = event.toolResult;
+      const resultMessage: Message = {
+        role: 'system',
+        content: result.success ? (result.output || 'Done') : `Error: ${result.error}`,
+      };
       setMessages(prev => {
+        // Replace the matching "Executing" line; parallel calls can finish in any order
+        const id = event.toolCall?.id;
+        const i = id ? prev.findIndex(m => m.role === 'tool' && m.toolCallId === id) : -1;
+        if (i >= 0) return [...prev.slice(0, i), resultMessage, ...prev.slice(i + 1)];
         const last = prev[prev.length - 1];
         const base = last?.role === 'tool' ? prev.slice(0, -1) : prev;
-        return [...base, {
-          role: 'system',
-          content: result.success ? (result.output || 'Done') : `Error: ${result.error}`,
-        }];
+        return [...base, resultMessage];
       });
     } else if (event.type === 'state_change') {
       setStatus(event.state || '');
-      if (event.state === 'done' || event.state === 'error') setIsTyping(false);
+      if (event.state === 'done' || event.state === 'error' || event.state === 'cancelled') setIsTyping(false);
     } else if (event.type === 'error' && event.error) {
       setMessages(prev => [...prev, { role: 'system', content: `Error: ${event.error}` }]);
       setIsTyping(false);
@@ -164,6 +341,7 @@ function App() {
 
   const handleNewChat = () => {
     cancelRef.current?.();
+    setConfirmations([]);
     setMessages([]);
     setCurrentSession(null);
     setStatus('');
@@ -171,6 +349,24 @@ function App() {
     setIsTyping(false);
   };
 
+  const handleOpenReplay = async () => {
+    if (!currentSession) return;
+    setCurrentView('replay');
+    try { setInvocations(await bridge.getToolInvocations(currentSession)); } catch (_) { setInvocations([]); }
+  };
+
+  const handleSelectSession = async (sessionId: string) => {
+    if (isLoading || sessionId === currentSession) return;
+    setCurrentSession(sessionId);
+    setCurrentView('chat');
+    setStatus('');
+    try {
+      setMessages(toTranscript(await bridge.getSessionMessages(sessionId)));
+    } catch (_) {
+      setMessages([]);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -198,7 +394,7 @@ function App() {
       bridge.saveSession(s).catch(() => {});
     }
 
-    const onConfirmRequired: OnConfirmCallback = (confirmId, toolName, params, dangerLevel, description) => {
+    const onConfirmRequired: OnConfirmCallback = (confirmId, toolName, params, dangerLevel, description, preview, grantMatch) => {
       setConfirmations(prev => [
         ...prev,
         {
@@ -208,19 +404,24 @@ function App() {
           description,
           parameters: params,
           dangerLevel: (dangerLevel as PendingConfirmation['dangerLevel']) ?? 'medium',
+          preview,
+          grantMatch,
+          remember: 'once',
         },
       ]);
     };
 
     cancelRef.current = bridge.executeAgent(
       userMsg.content,
-      { provider, model: model || undefined, skill: currentSkill || undefined },
+      // The background rehydrates the session's history, so this continues the conversation
+      { provider, model: model || undefined, skill: currentSkill || undefined, sessionId },
       handleAgentEvent,
-      (result) => {
+      (result, taskId) => {
         setMessages(prev => [...prev, { role: 'assistant', content: result }]);
         setIsLoading(false);
         setIsTyping(false);
         setStatus('done');
+        if (taskId) fetchTaskChanges(taskId);
       },
       (error) => {
         setMessages(prev => [...prev, { role: 'system', content: `Error: ${error}` }]);
@@ -247,6 +448,15 @@ function App() {
     }
   };
 
+  const handleSaveSecurityRules = async () => {
+    try {
+      await bridge.setSecurityRules(securityRules.trim() || '[]');
+      setSecurityRulesStatus({ message: 'Saved; applies from the next task' });
+    } catch (err) {
+      setSecurityRulesStatus({ message: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
   const handleGoogleSignIn = async () => {
     try { await bridge.googleSignIn(); setGoogleConnected(true); } catch (err) { console.error(err); }
   };
@@ -329,7 +539,7 @@ function App() {
               <button
                 key={session.id}
                 className={`session-item ${currentSession === session.id ? 'active' : ''}`}
-                onClick={() => setCurrentSession(session.id)}
+                onClick={() => handleSelectSession(session.id)}
               >
                 <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                   <path d="M21 15a2 2 0 01-2 2H7l-4 4V5a2 2 0 012-2h14a2 2 0 012 2z"/>
@@ -369,9 +579,15 @@ function App() {
               {currentView === 'files' && 'Files'}
               {currentView === 'tools' && 'Tools'}
               {currentView === 'settings' && 'Settings'}
+              {currentView === 'replay' && 'Session Replay'}
             </h1>
           </div>
           <div className="header-right">
+            {currentView === 'chat' && currentSession && (
+              <button className="refresh-btn" onClick={handleOpenReplay} title="Audit the tool calls made in this session">
+                Replay
+              </button>
+            )}
             {currentView === 'chat' && (
               <div className="skill-selector">
                 <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{ flexShrink: 0 }}>
@@ -540,7 +756,7 @@ function App() {
                   </div>
                 )}
                 {messages.map((msg, i) => (
-                  <div key={i} className={`message ${msg.role}`}>
+                  <div key={i} className={`message ${msg.role}${msg.streaming ? ' streaming' : ''}`}>
                     <div className="message-avatar">
                       {msg.role === 'user' ? (
                         <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -564,7 +780,7 @@ function App() {
                     </div>
                   </div>
                 ))}
-                {isTyping && (
+                {isTyping && !messages[messages.length - 1]?.streaming && (
                   <div className="message assistant">
                     <div className="message-avatar">
                       <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
@@ -621,6 +837,26 @@ function App() {
                     </svg>
                     Grant Access
                   </button>
+                  <button className="refresh-btn" onClick={handleExportFiles}>
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3"/>
+                    </svg>
+                    Export
+                  </button>
+                  <button className="refresh-btn" onClick={() => importInputRef.current?.click()}>
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M17 8l-5-5-5 5M12 3v12"/>
+                    </svg>
+                    Import
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".zip,application/zip"
+                    aria-label="Import zip"
+                    style={{ display: 'none' }}
+                    onChange={handleImportFiles}
+                  />
                   <button className="refresh-btn" onClick={fetchFiles}>
                     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                       <path d="M23 4v6h-6M1 20v-6h6"/>
@@ -630,6 +866,28 @@ function App() {
                   </button>
                 </div>
               </div>
+              {archiveStatus && (
+                <div className={`archive-status ${archiveStatus.error ? 'error' : ''}`}>{archiveStatus.message}</div>
+              )}
+              {lastTask && (
+                <div className="task-changes">
+                  <div className="task-changes-header">
+                    <h3>{lastTask.undone ? 'Last task undone' : 'Changes from the last task'}</h3>
+                    {lastTask.undoable && (
+                      <button className="refresh-btn" onClick={handleUndoTask}>Undo</button>
+                    )}
+                  </div>
+                  <ul className="task-changes-list">
+                    {lastTask.changes.map(({ path, change }) => (
+                      <li key={path} className={`task-change ${change}`}>
+                        <span className="task-change-kind">{change}</span>
+                        <span className="task-change-path">{path}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {lastTask.error && <div className="replay-error">{lastTask.error}</div>}
+                </div>
+              )}
               <div className="files-grid">
                 {files.map((file, i) => (
                   <div key={i} className="file-card">
@@ -683,6 +941,35 @@ function App() {
             </div>
           )}
 
+          {currentView === 'replay' && (
+            <div className="replay-view">
+              <div className="files-header">
+                <h2>Tool calls ({invocations.length})</h2>
+                <button className="refresh-btn" onClick={() => setCurrentView('chat')}>Back to chat</button>
+              </div>
+              <ol className="replay-list">
+                {invocations.map(inv => (
+                  <li key={`${inv.taskId}-${inv.toolCallId}`} className={`replay-item ${inv.success ? 'success' : 'failed'}`}>
+                    <div className="replay-summary">
+                      <span className="tool-name">{inv.toolName}</span>
+                      <span className="replay-meta">
+                        {new Date(inv.startedAt).toLocaleTimeString()} · {inv.durationMs} ms · {inv.outputSize} B
+                        {inv.confirmation !== 'not_required' && ` · ${inv.confirmation}`}
+                      </span>
+                    </div>
+                    <pre className="replay-params">{JSON.stringify(inv.parameters, null, 2)}</pre>
+                    {inv.error && <p className="replay-error">{inv.error}</p>}
+                  </li>
+                ))}
+              </ol>
+              {invocations.length === 0 && (
+                <div className="empty-state">
+                  <p>No tool calls in this session</p>
+                </div>
+              )}
+            </div>
+          )}
+
           {currentView === 'settings' && (
             <div className="settings-view">
               <h2>Settings</h2>
@@ -747,6 +1034,44 @@ function App() {
                 </div>
               </div>
 
+              <div className="settings-section">
+                <h3>Security Rules</h3>
+                <div className="setting-item" style={{ flexDirection: 'column', alignItems: 'flex-start', gap: 8 }}>
+                  <label htmlFor="security-rules">
+                    Rules that allow, confirm or deny tool calls, tried before the built-in ones. The first match decides.
+                  </label>
+                  <textarea
+                    id="security-rules"
+                    className="security-rules"
+                    rows={6}
+                    spellCheck={false}
+                    placeholder={'[\n  { "tool": "browser_navigate", "domains": ["wikipedia.org"], "action": "allow" },\n  { "tool": "*", "paths": ["/drive/finance/**"], "action": "deny" }\n]'}
+                    value={securityRules}
+                    onChange={(e) => setSecurityRules(e.target.value)}
+                  />
+                  <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                    <button className="approve-btn" onClick={handleSaveSecurityRules}>Save Rules</button>
+                    {securityRulesStatus && (
+                      <span style={{ fontSize: 12, color: securityRulesStatus.error ? 'var(--error)' : 'var(--success)' }}>
+                        {securityRulesStatus.message}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="settings-section">
+                <h3>Standing Approvals</h3>
+                {grants.length === 0 ? (
+                  <div className="setting-item"><span>Tool calls you approved with “remember” are listed here.</span></div>
+                ) : grants.map(grant => (
+                  <div key={grant.id} className="setting-item">
+                    <span>{describeGrant(grant)}</span>
+                    <button className="deny-btn" onClick={() => handleRevokeGrant(grant.id)}>Revoke</button>
+                  </div>
+                ))}
+              </div>
+
               <div className="settings-section">
                 <h3>Google Workspace</h3>
                 <div className="setting-item">
@@ -809,10 +1134,50 @@ function App() {
               <div className="modal-body">
                 <div className="info-row"><label>Tool</label><code>{conf.toolName}</code></div>
                 <div className="info-row"><label>Description</label><p>{conf.description}</p></div>
+                {conf.preview && (
+                  <div className="info-row"><label>Change</label><p>{conf.preview.summary}</p></div>
+                )}
+                {conf.preview?.diff && conf.draft === undefined && <DiffView diff={conf.preview.diff} />}
+                {conf.preview?.editableParameter && (
+                  conf.draft === undefined ? (
+                    <button className="refresh-btn" onClick={() => {
+                      const original = conf.parameters[conf.preview!.editableParameter!];
+                      setConfirmations(prev => prev.map(c =>
+                        c.id === conf.id ? { ...c, draft: typeof original === 'string' ? original : '' } : c));
+                    }}>Edit content</button>
+                  ) : (
+                    <textarea
+                      className="draft-editor"
+                      aria-label="Proposed content"
+                      value={conf.draft}
+                      onChange={e => {
+                        const draft = e.target.value;
+                        setConfirmations(prev => prev.map(c => c.id === conf.id ? { ...c, draft } : c));
+                      }}
+                    />
+                  )
+                )}
                 <details className="params-details">
                   <summary>View Parameters</summary>
                   <pre>{JSON.stringify(conf.parameters, null, 2)}</pre>
                 </details>
+                <div className="info-row">
+                  <label htmlFor={`remember-${conf.id}`}>Remember</label>
+                  <select
+                    id={`remember-${conf.id}`}
+                    value={conf.remember}
+                    onChange={e => {
+                      const remember = e.target.value as GrantScope;
+                      setConfirmations(prev => prev.map(c => c.id === conf.id ? { ...c, remember } : c));
+                    }}
+                  >
+                    {(['once', 'task', 'matching', 'always'] as GrantScope[])
+                      .filter(scope => scope !== 'matching' || conf.grantMatch)
+                      .map(scope => (
+                        <option key={scope} value={scope}>{describeGrant({ tool: conf.toolName, scope, ...conf.grantMatch })}</option>
+                      ))}
+                  </select>
+                </div>
               </div>
               <div className="modal-actions">
                 <button className="deny-btn" onClick={() => {
@@ -820,7 +1185,7 @@ function App() {
                   setConfirmations(prev => prev.filter(c => c.id !== conf.id));
                 }}>Deny</button>
                 <button className="approve-btn" onClick={() => {
-                  bridge.sendConfirmResponse(conf.confirmId, true);
+                  bridge.sendConfirmResponse(conf.confirmId, true, conf.draft, conf.remember);
                   setConfirmations(prev => prev.filter(c => c.id !== conf.id));
                 }}>Approve</button>
               </div>
@@ -48,6 +48,32 @@ describe('ExtensionBridge', () => {
     });
   });
 
+  describe('setSecurityRules()', () => {
+    it('sends the rules and throws with the validation error', async () => {
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, _msg, cb) => cb({ success: false, error: 'Security rule 1 is invalid: action' })
+      );
+      await expect(bridge.setSecurityRules('[{"tool":"x"}]')).rejects.toThrow('Security rule 1 is invalid');
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+        'test-extension-id',
+        { type: 'SET_SECURITY_RULES', rules: '[{"tool":"x"}]' },
+        expect.any(Function),
+      );
+    });
+  });
+
+  describe('getGrants() / revokeGrant()', () => {
+    it('lists grants and throws when a revoke fails', async () => {
+      const grants = [{ id: 'g1', tool: 'write_file', scope: 'task', taskId: 't1', createdAt: '' }];
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, msg, cb) => cb(msg.type === 'GET_GRANTS' ? { success: true, grants } : { success: false, error: 'Grant not found' })
+      );
+      expect(await bridge.getGrants()).toEqual(grants);
+      await expect(bridge.revokeGrant('g9')).rejects.toThrow('Grant not found');
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith('test-extension-id', { type: 'REVOKE_GRANT', id: 'g9' }, expect.any(Function));
+    });
+  });
+
   describe('getConfig()', () => {
     it('returns config values on success', async () => {
       (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
@@ -95,6 +121,85 @@ describe('ExtensionBridge', () => {
     });
   });
 
+  describe('exportFiles() / importFiles()', () => {
+    it('asks the extension to download a folder as a zip', async () => {
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, _msg, cb) => cb({ success: true, downloadId: 3 })
+      );
+      await bridge.exportFiles('/reports');
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+        'test-extension-id',
+        { type: 'EXPORT_FILES', path: '/reports' },
+        expect.any(Function),
+      );
+    });
+
+    it('sends the archive as base64 and returns what was written', async () => {
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, _msg, cb) => cb({ success: true, written: ['/q3.md'], skipped: [] })
+      );
+      const archive = new Blob([new Uint8Array([0x50, 0x4b, 5, 6])], { type: 'application/zip' });
+      expect(await bridge.importFiles(archive)).toEqual({ written: ['/q3.md'], skipped: [] });
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+        'test-extension-id',
+        { type: 'IMPORT_FILES', path: '/', overwrite: false, data: 'UEsFBg==' },
+        expect.any(Function),
+      );
+    });
+
+    it('throws when the extension rejects the archive', async () => {
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, _msg, cb) => cb({ success: false, error: 'Archive entry escapes the import folder: ../x' })
+      );
+      await expect(bridge.importFiles(new Blob([]))).rejects.toThrow('escapes the import folder');
+    });
+
+    it('refuses a zip too large for a runtime message before reading it', async () => {
+      const archive = { size: 50 * 1024 * 1024 } as Blob;
+      await expect(bridge.importFiles(archive)).rejects.toThrow('The zip is 50 MB; the extension can import zips of up to 40 MB');
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTaskChanges()', () => {
+    it('returns the change set of a task', async () => {
+      const changes = [{ path: '/report.md', change: 'created' }];
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, _msg, cb) => cb({ success: true, changes, undoable: true })
+      );
+      expect(await bridge.getTaskChanges('task-1')).toEqual({ changes, undoable: true });
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+        'test-extension-id',
+        { type: 'GET_TASK_CHANGES', taskId: 'task-1' },
+        expect.any(Function),
+      );
+    });
+
+    it('returns no changes on failure', async () => {
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, _msg, cb) => cb({ success: false })
+      );
+      expect(await bridge.getTaskChanges('task-1')).toEqual({ changes: [], undoable: false });
+    });
+  });
+
+  describe('undoTask()', () => {
+    it('resolves with the reverted changes', async () => {
+      const changes = [{ path: '/notes', change: 'deleted' }];
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, _msg, cb) => cb({ success: true, changes })
+      );
+      expect(await bridge.undoTask('task-1')).toEqual(changes);
+    });
+
+    it('throws on failure', async () => {
+      (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mockImplementation(
+        (_extId, _msg, cb) => cb({ success: false, error: 'Task is still running' })
+      );
+      await expect(bridge.undoTask('task-1')).rejects.toThrow('Task is still running');
+    });
+  });
+
   describe('getSessions()', () => {
     it('returns session list', async () => {
       const sessions = [{ id: 's1', title: 'Chat 1', createdAt: '2026-01-01' }];
@@ -183,6 +288,21 @@ describe('ExtensionBridge', () => {
       );
     });
 
+    it('cancel function posts AGENT_CANCEL before disconnecting', () => {
+      const mockPort: Partial<chrome.runtime.Port> = {
+        onMessage: { addListener: vi.fn() } as unknown as chrome.runtime.Port['onMessage'],
+        onDisconnect: { addListener: vi.fn() } as unknown as chrome.runtime.Port['onDisconnect'],
+        postMessage: vi.fn(),
+        disconnect: vi.fn(),
+      };
+      (chrome.runtime.connect as ReturnType<typeof vi.fn>).mockReturnValue(mockPort);
+
+      const cancel = bridge.executeAgent('test prompt', {}, vi.fn(), vi.fn(), vi.fn());
+      cancel();
+      expect(mockPort.postMessage).toHaveBeenLastCalledWith({ type: 'AGENT_CANCEL' });
+      expect(mockPort.disconnect).toHaveBeenCalled();
+    });
+
     it('calls onError and returns when extension is not available', () => {
       const saved = (global as Record<string, unknown>).chrome;
       (global as Record<string, unknown>).chrome = undefined;
@@ -207,8 +327,8 @@ describe('ExtensionBridge', () => {
 
       const onComplete = vi.fn();
       bridge.executeAgent('q', {}, vi.fn(), onComplete, vi.fn());
-      messageListener!({ type: 'AGENT_COMPLETE', result: 'The result' });
-      expect(onComplete).toHaveBeenCalledWith('The result');
+      messageListener!({ type: 'AGENT_COMPLETE', result: 'The result', taskId: 'task-1' });
+      expect(onComplete).toHaveBeenCalledWith('The result', 'task-1');
     });
 
     it('calls onEvent when AGENT_EVENT message arrives', () => {
@@ -229,6 +349,34 @@ describe('ExtensionBridge', () => {
       messageListener!({ type: 'AGENT_EVENT', event });
       expect(onEvent).toHaveBeenCalledWith(event);
     });
+
+    it('passes the file change preview of CONFIRM_REQUIRED and sends edited content and remember back', () => {
+      let messageListener: ((msg: Record<string, unknown>) => void) | undefined;
+      const mockPort: Partial<chrome.runtime.Port> = {
+        onMessage: {
+          addListener: vi.fn((fn) => { messageListener = fn; }),
+        } as unknown as chrome.runtime.Port['onMessage'],
+        onDisconnect: { addListener: vi.fn() } as unknown as chrome.runtime.Port['onDisconnect'],
+        postMessage: vi.fn(),
+        disconnect: vi.fn(),
+      };
+      (chrome.runtime.connect as ReturnType<typeof vi.fn>).mockReturnValue(mockPort);
+
+      const onConfirm = vi.fn();
+      bridge.executeAgent('q', {}, vi.fn(), vi.fn(), vi.fn(), onConfirm);
+      const preview = { kind: 'modify', path: '/a.md', summary: '+1 −1 lines', diff: '-a\n+b', editableParameter: 'content' };
+      messageListener!({
+        type: 'CONFIRM_REQUIRED', confirmId: 'c1', toolName: 'write_file',
+        params: { path: '/a.md', content: 'b' }, dangerLevel: 'medium', description: 'Write', preview,
+        grantMatch: { paths: ['/a.md'] },
+      });
+      expect(onConfirm).toHaveBeenCalledWith('c1', 'write_file', { path: '/a.md', content: 'b' }, 'medium', 'Write', preview, { paths: ['/a.md'] });
+
+      bridge.sendConfirmResponse('c1', true, 'b, edited');
+      expect(mockPort.postMessage).toHaveBeenLastCalledWith({ type: 'CONFIRM_RESPONSE', confirmId: 'c1', approved: true, content: 'b, edited' });
+      bridge.sendConfirmResponse('c1', true, undefined, 'task');
+      expect(mockPort.postMessage).toHaveBeenLastCalledWith({ type: 'CONFIRM_RESPONSE', confirmId: 'c1', approved: true, remember: 'task' });
+    });
   });
 
   describe('disconnect()', () => {
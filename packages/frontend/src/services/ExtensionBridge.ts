@@ -10,11 +10,21 @@
  *      window.__PIXELMATE_EXT_ID injected by a content script).
  */
 
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  argumentsDelta?: string;
+}
+
 export interface AgentEvent {
-  type: 'state_change' | 'thought' | 'tool_call' | 'tool_result' | 'message' | 'error';
+  type: 'state_change' | 'thought' | 'text_delta' | 'tool_call_delta' | 'tool_call' | 'tool_result' | 'message' | 'error';
   state?: string;
   thought?: string;
-  toolCall?: { name: string; parameters?: Record<string, unknown> };
+  delta?: string;
+  toolCallDelta?: ToolCallDelta;
+  // Also set on tool_result events, which can arrive out of order when read-only tools run in parallel
+  toolCall?: { id?: string; name: string; parameters?: Record<string, unknown> };
   toolResult?: { success: boolean; output?: string; error?: string };
   message?: string;
   error?: string;
@@ -26,12 +36,81 @@ export interface FileMeta {
   size?: number;
 }
 
+/** Result of importing a zip into the workspace */
+export interface ImportSummary {
+  // Workspace paths of the files written
+  written: string[];
+  // Existing files left alone because overwrite was off
+  skipped: string[];
+}
+
+/** How long an approval stands: this call, the rest of the task, matching paths or domains, or always */
+export type GrantScope = 'once' | 'task' | 'matching' | 'always';
+
+/** Paths or domains a 'matching' approval of a call would cover */
+export interface GrantMatch {
+  paths?: string[];
+  domains?: string[];
+}
+
+/** A standing approval the user chose when confirming a tool call */
+export interface ConfirmationGrant extends GrantMatch {
+  id: string;
+  tool: string;
+  scope: Exclude<GrantScope, 'once'>;
+  taskId?: string;
+  createdAt: string;
+}
+
+/** A path an agent task created, modified or deleted */
+export interface FileChange {
+  path: string;
+  change: 'created' | 'modified' | 'deleted';
+}
+
+/** What a file-mutating tool call would change, sent with its confirmation */
+export interface FileChangePreview {
+  kind: 'create' | 'modify' | 'delete' | 'move' | 'copy';
+  path: string;
+  summary: string;
+  // Unified diff of the text change, for writes
+  diff?: string;
+  // Parameter holding the proposed content, which the user may edit before approving
+  editableParameter?: string;
+}
+
 export interface Session {
   id: string;
   title: string;
   createdAt: string;
 }
 
+/** A stored agent history entry; tool turns use content blocks */
+export interface SessionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | Array<{
+    type: 'text' | 'image' | 'tool_use' | 'tool_result';
+    text?: string;
+    name?: string;
+    content?: string | Array<{ type: string; text?: string }>;
+    isError?: boolean;
+  }>;
+}
+
+/** Audit record of a tool call the agent made in a session */
+export interface ToolInvocation {
+  toolCallId: string;
+  taskId: string;
+  toolName: string;
+  parameters: Record<string, unknown>;
+  confirmation: 'not_required' | 'approved' | 'denied' | 'blocked' | 'granted';
+  success: boolean;
+  error?: string;
+  outputSize: number;
+  startedAt: number;
+  durationMs: number;
+}
+
 export interface ToolMeta {
   name: string;
   description: string;
@@ -42,11 +121,14 @@ export type OnConfirmCallback = (
   toolName: string,
   params: Record<string, unknown>,
   dangerLevel: string,
-  description: string
+  description: string,
+  preview?: FileChangePreview,
+  // Absent when the call touches no paths or URLs to approve by
+  grantMatch?: GrantMatch
 ) => void;
 
 export type OnEventCallback = (event: AgentEvent) => void;
-export type OnCompleteCallback = (result: string) => void;
+export type OnCompleteCallback = (result: string, taskId?: string) => void;
 export type OnErrorCallback = (error: string) => void;
 
 declare global {
@@ -74,6 +156,22 @@ function resolveExtensionId(): string | undefined {
   return envId;
 }
 
+/**
+ * Largest zip importFiles() sends. Chrome drops runtime messages over 64 MB,
+ * and base64 makes the zip a third larger on the way.
+ */
+export const MAX_EXTENSION_IMPORT_BYTES = 40 * 1024 * 1024;
+
+/** The bytes of a file as base64, without the data URL prefix */
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsDataURL(blob);
+  });
+}
+
 export class ExtensionBridge {
   private extensionId: string | undefined;
   private port: chrome.runtime.Port | null = null;
@@ -143,6 +241,32 @@ export class ExtensionBridge {
     return res.values ?? {};
   }
 
+  /** Replace the user's security rules; `rules` is their JSON, rejected if any rule is malformed */
+  async setSecurityRules(rules: string): Promise<void> {
+    const res = await this.sendMessage<{ success: boolean; error?: string }>({
+      type: 'SET_SECURITY_RULES',
+      rules,
+    });
+    if (!res.success) throw new Error(res.error ?? 'Failed to save security rules');
+  }
+
+  /** Standing approvals, including those for running tasks */
+  async getGrants(): Promise<ConfirmationGrant[]> {
+    const res = await this.sendMessage<{ success: boolean; grants?: ConfirmationGrant[]; error?: string }>({
+      type: 'GET_GRANTS',
+    });
+    if (!res.success) throw new Error(res.error ?? 'Failed to get approvals');
+    return res.grants ?? [];
+  }
+
+  async revokeGrant(id: string): Promise<void> {
+    const res = await this.sendMessage<{ success: boolean; error?: string }>({
+      type: 'REVOKE_GRANT',
+      id,
+    });
+    if (!res.success) throw new Error(res.error ?? 'Failed to revoke approval');
+  }
+
   /** Get available tools */
   async getTools(): Promise<ToolMeta[]> {
     const res = await this.sendMessage<{ success: boolean; tools?: ToolMeta[]; error?: string }>({
@@ -171,15 +295,63 @@ export class ExtensionBridge {
     });
   }
 
-  /** Get workspace files */
-  async getFiles(): Promise<FileMeta[]> {
+  /** Get workspace files in a folder (the root by default) */
+  async getFiles(path = '/'): Promise<FileMeta[]> {
     const res = await this.sendMessage<{ success: boolean; files?: FileMeta[]; error?: string }>({
       type: 'GET_FILES',
+      path,
     });
     if (!res.success) return [];
     return res.files ?? [];
   }
 
+  /** Download the workspace, or a folder in it, as a zip through chrome.downloads */
+  async exportFiles(path = '/'): Promise<void> {
+    const res = await this.sendMessage<{ success: boolean; error?: string }>({
+      type: 'EXPORT_FILES',
+      path,
+    });
+    if (!res.success) throw new Error(res.error ?? 'Export failed');
+  }
+
+  /** Unpack a zip into a workspace folder; existing files are skipped unless `overwrite` is set */
+  async importFiles(archive: Blob, path = '/', overwrite = false): Promise<ImportSummary> {
+    // Checked here, since an oversized message fails without saying why
+    if (archive.size > MAX_EXTENSION_IMPORT_BYTES) {
+      const megabytes = (bytes: number) => Math.ceil(bytes / 1024 / 1024);
+      throw new Error(`The zip is ${megabytes(archive.size)} MB; the extension can import zips of up to ${megabytes(MAX_EXTENSION_IMPORT_BYTES)} MB`);
+    }
+    const res = await this.sendMessage<{ success: boolean; written?: string[]; skipped?: string[]; error?: string }>({
+      type: 'IMPORT_FILES',
+      path,
+      overwrite,
+      // Messages to the extension are JSON, so the bytes travel as base64
+      data: await blobToBase64(archive),
+    });
+    if (!res.success) throw new Error(res.error ?? 'Import failed');
+    return { written: res.written ?? [], skipped: res.skipped ?? [] };
+  }
+
+  /** Get the files a task changed; `undoable` is false once it was undone or forgotten */
+  async getTaskChanges(taskId: string): Promise<{ changes: FileChange[]; undoable: boolean }> {
+    const res = await this.sendMessage<{ success: boolean; changes?: FileChange[]; undoable?: boolean; error?: string }>({
+      type: 'GET_TASK_CHANGES',
+      taskId,
+    });
+    if (!res.success) return { changes: [], undoable: false };
+    return { changes: res.changes ?? [], undoable: res.undoable ?? false };
+  }
+
+  /** Restore the workspace to its state before the task ran; returns what was reverted */
+  async undoTask(taskId: string): Promise<FileChange[]> {
+    const res = await this.sendMessage<{ success: boolean; changes?: FileChange[]; error?: string }>({
+      type: 'UNDO_TASK',
+      taskId,
+    });
+    if (!res.success) throw new Error(res.error ?? 'Undo failed');
+    return res.changes ?? [];
+  }
+
   /** Get recent sessions */
   async getSessions(): Promise<Session[]> {
     const res = await this.sendMessage<{ success: boolean; sessions?: Session[]; error?: string }>({
@@ -189,6 +361,26 @@ export class ExtensionBridge {
     return res.sessions ?? [];
   }
 
+  /** Get the stored conversation of a session */
+  async getSessionMessages(sessionId: string): Promise<SessionMessage[]> {
+    const res = await this.sendMessage<{ success: boolean; messages?: SessionMessage[]; error?: string }>({
+      type: 'GET_SESSION_MESSAGES',
+      sessionId,
+    });
+    if (!res.success) return [];
+    return res.messages ?? [];
+  }
+
+  /** Get the tool calls the agent made in a session, oldest first */
+  async getToolInvocations(sessionId: string): Promise<ToolInvocation[]> {
+    const res = await this.sendMessage<{ success: boolean; invocations?: ToolInvocation[]; error?: string }>({
+      type: 'GET_TOOL_INVOCATIONS',
+      sessionId,
+    });
+    if (!res.success) return [];
+    return res.invocations ?? [];
+  }
+
   /** Save / update a session record */
   async saveSession(session: Session): Promise<void> {
     await this.sendMessage({
@@ -228,13 +420,13 @@ export class ExtensionBridge {
    * @param prompt  The user instruction
    * @param opts    Optional session/skill/model/provider overrides
    * @param onEvent Called for each agent event (thought, tool_call, etc.)
-   * @param onComplete Called with the final result text
+   * @param onComplete Called with the final result text and the task's ID
    * @param onError Called on unrecoverable error
    * @param onConfirmRequired Called when a destructive tool needs user approval
    */
   executeAgent(
     prompt: string,
-    opts: { skill?: string; model?: string; provider?: string } = {},
+    opts: { skill?: string; model?: string; provider?: string; sessionId?: string } = {},
     onEvent: OnEventCallback,
     onComplete: OnCompleteCallback,
     onError: OnErrorCallback,
@@ -262,17 +454,22 @@ export class ExtensionBridge {
             msg.toolName as string,
             (msg.params ?? {}) as Record<string, unknown>,
             (msg.dangerLevel as string) ?? 'medium',
-            (msg.description as string) ?? `Run ${msg.toolName}`
+            (msg.description as string) ?? `Run ${msg.toolName}`,
+            msg.preview as FileChangePreview | undefined,
+            msg.grantMatch as GrantMatch | undefined
           );
         }
       } else if (msg.type === 'AGENT_COMPLETE') {
-        onComplete(msg.result as string);
+        onComplete(msg.result as string, msg.taskId as string | undefined);
         this.port?.disconnect();
         this.port = null;
       } else if (msg.type === 'ERROR') {
         onError(msg.error as string);
         this.port?.disconnect();
         this.port = null;
+      } else if (msg.type === 'AGENT_CANCELLED') {
+        this.port?.disconnect();
+        this.port = null;
       }
     });
 
@@ -289,16 +486,30 @@ export class ExtensionBridge {
       ...opts,
     });
 
-    // Return a cancel function
+    // Return a cancel function: the background aborts the run (LLM request, tools,
+    // pending confirmations) on AGENT_CANCEL, and again on disconnect as a fallback
+    const port = this.port;
     return () => {
-      this.port?.disconnect();
+      if (this.port !== port) return;
+      port.postMessage({ type: 'AGENT_CANCEL' });
+      port.disconnect();
       this.port = null;
     };
   }
 
-  /** Send the user's approve/deny decision for a pending tool confirmation */
-  sendConfirmResponse(confirmId: string, approved: boolean): void {
-    this.port?.postMessage({ type: 'CONFIRM_RESPONSE', confirmId, approved });
+  /**
+   * Send the user's approve/deny decision for a pending tool confirmation.
+   * `content` replaces the preview's editable parameter when approving, and
+   * `remember` approves calls like this one from now on as well.
+   */
+  sendConfirmResponse(confirmId: string, approved: boolean, content?: string, remember?: GrantScope): void {
+    this.port?.postMessage({
+      type: 'CONFIRM_RESPONSE',
+      confirmId,
+      approved,
+      ...(content !== undefined && { content }),
+      ...(remember && remember !== 'once' && { remember }),
+    });
   }
 
   disconnect(): void {
@@ -18,9 +18,11 @@ export interface AgentExecuteRequest {
 export interface AgentEventMessage {
   type: 'AGENT_EVENT';
   event: {
-    type: 'state_change' | 'thought' | 'tool_call' | 'tool_result' | 'message' | 'error';
+    type: 'state_change' | 'thought' | 'text_delta' | 'tool_call_delta' | 'tool_call' | 'tool_result' | 'message' | 'error';
     state?: string;
     thought?: string;
+    delta?: string;
+    toolCallDelta?: any;
     toolCall?: any;
     toolResult?: any;
     message?: string;
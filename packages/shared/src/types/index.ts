@@ -1,32 +1,109 @@
-export interface ToolParameter {
-  name: string;
-  description: string;
+/** Type and constraints of a tool parameter value; nests for object properties and array items. */
+export interface ToolValueSchema {
   type: 'string' | 'number' | 'boolean' | 'object' | 'array';
-  required: boolean;
+  description?: string;
+  // Filled in before the tool runs when the model leaves the value out
   default?: unknown;
   enum?: string[];
+  // Strings
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  // Objects; any keys are accepted when omitted
+  properties?: ToolParameter[];
+  // Arrays; any items are accepted when omitted
+  items?: ToolValueSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ToolParameter extends ToolValueSchema {
+  name: string;
+  description: string;
+  required: boolean;
 }
 
 export interface ToolDefinition {
   name: string;
   description: string;
   parameters: ToolParameter[];
+  // No side effects: the agent may run it concurrently with other read-only calls
+  readOnly?: boolean;
+  // Overrides the registry's default time limit for one attempt
+  timeoutMs?: number;
+  // Retries failures the tool reports as transient; leave unset for tools that are not idempotent
+  retry?: ToolRetryPolicy;
+}
+
+export interface ToolRetryPolicy {
+  // Total attempts, including the first
+  attempts: number;
+  // Delay before the first retry; doubles for each retry after that
+  backoffMs: number;
 }
 
 export interface ToolResult {
   success: boolean;
   output?: string;
   error?: string;
+  // Set on failures: 'timeout' when the tool ran past its time limit, 'transient' when retrying may succeed
+  errorKind?: ToolErrorKind;
   metadata?: Record<string, unknown>;
 }
 
+export type ToolErrorKind = 'timeout' | 'transient';
+
+/** Metadata of a result that carries file bytes, e.g. an image read_file returned. */
+export interface BinaryResultMetadata {
+  mimeType: string;
+  // Base64-encoded bytes
+  base64: string;
+  [key: string]: unknown;
+}
+
+/** Result whose `output` describes a binary payload carried in `metadata`. */
+export interface BinaryToolResult extends ToolResult {
+  metadata: BinaryResultMetadata;
+}
+
+export interface ToolExecutionContext {
+  // Aborted when the owning agent run is cancelled, or when this attempt times out
+  signal: AbortSignal;
+  // Aborted only when the owning agent run is cancelled, never by a timeout
+  runSignal?: AbortSignal;
+  taskId?: string;
+}
+
 export interface Tool {
   definition: ToolDefinition;
-  execute(params: Record<string, unknown>): Promise<ToolResult>;
+  execute(params: Record<string, unknown>, context?: ToolExecutionContext): Promise<ToolResult>;
 }
 
 export interface ToolCall {
   name: string;
   id: string;
   parameters: Record<string, unknown>;
+  // Why the arguments could not be parsed; such a call is answered with this error instead of run
+  parseError?: string;
+}
+
+// 'blocked' calls were refused by the security policy without asking; 'granted' ones ran on a standing approval
+export type ToolConfirmation = 'not_required' | 'approved' | 'denied' | 'blocked' | 'granted';
+
+/** Audit record of one tool call made by the agent */
+export interface ToolInvocationRecord {
+  toolCallId: string;
+  taskId: string;
+  toolName: string;
+  parameters: Record<string, unknown>;
+  confirmation: ToolConfirmation;
+  success: boolean;
+  error?: string;
+  // Size of the tool output in bytes
+  outputSize: number;
+  startedAt: number;
+  durationMs: number;
 }
@@ -1,6 +1,37 @@
+import type { ToolCall, ToolDefinition } from './index.js';
+
+export interface TextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageBlock {
+  type: 'image';
+  mimeType: string;
+  // Base64-encoded bytes
+  data: string;
+}
+
+export interface ToolUseBlock {
+  type: 'tool_use';
+  // Matches the originating ToolCall.id
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultBlock {
+  type: 'tool_result';
+  toolUseId: string;
+  content: string | Array<TextBlock | ImageBlock>;
+  isError?: boolean;
+}
+
+export type ContentBlock = TextBlock | ImageBlock | ToolUseBlock | ToolResultBlock;
+
 export interface Message {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  content: string | ContentBlock[];
 }
 
 export interface ChatOptions {
@@ -9,22 +40,42 @@ export interface ChatOptions {
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
 }
 
 export interface ChatResponse {
   id: string;
   model: string;
   content: string;
+  // Left undefined by providers without native tool calling
+  toolCalls?: ToolCall[];
   usage?: {
     inputTokens: number;
     outputTokens: number;
   };
 }
 
+export interface ToolCallDelta {
+  // Position of the call within the response; deltas for one call share it
+  index: number;
+  id?: string;
+  name?: string;
+  // Fragment of the JSON-encoded arguments
+  argumentsDelta?: string;
+}
+
 export interface StreamingChunk {
   id: string;
   delta: string;
   done: boolean;
+  toolCallDelta?: ToolCallDelta;
+  // Set on the final chunk by providers with native tool calling
+  toolCalls?: ToolCall[];
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
 }
 
 export interface LLMProvider {
@@ -32,6 +83,8 @@ export interface LLMProvider {
   chat(options: ChatOptions): Promise<ChatResponse>;
   chatStream(options: ChatOptions): AsyncGenerator<StreamingChunk>;
   listModels(): Promise<string[]>;
+  // Whether `model` accepts image blocks; images are left out for providers without it
+  supportsImages?(model: string): boolean;
 }
 
 export type ProviderType = 'openai' | 'anthropic' | 'groq' | 'google' | 'ollama';